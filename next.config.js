@@ -1,5 +1,9 @@
 /** @type {import('next').NextConfig} */
 const nextConfig = {
+  experimental: {
+    // Starts the registration reminder scheduler (src/instrumentation.ts)
+    instrumentationHook: true,
+  },
   images: {
     domains: ['images.unsplash.com', 'api.dicebear.com'],
   },
@@ -0,0 +1,107 @@
+#!/usr/bin/env node
+
+/**
+ * Capture a scraper fixture
+ * Saves a page (fetched live, or read from a saved file) under
+ * src/lib/scrapers/__fixtures__ and snapshots what the parsers read from it.
+ *
+ * Usage:
+ *   npm run capture-fixture -- <source> <page> [--name NAME] [--url URL | --file PAGE.html] [--description TEXT]
+ *
+ * Examples:
+ *   npm run capture-fixture -- wsop circuits
+ *   npm run capture-fixture -- wpt event --url https://www.worldpokertour.com/tournaments/some-event --name some-event
+ *   npm run capture-fixture -- cardPlayer listing --file ~/Downloads/cardplayer.html --name listing
+ */
+
+const fs = require('fs');
+
+require('./register-ts');
+
+const { captureFixture } = require('../src/lib/scrapers/fixture-harness');
+const { fetchPage } = require('../src/lib/scrapers/http');
+const { tournamentSources } = require('../src/lib/scrapers');
+
+function parseArgs(argv) {
+  const positional = [];
+  const options = {};
+  for (let i = 0; i < argv.length; i++) {
+    const flag = argv[i].match(/^--(\w+)$/);
+    if (flag) {
+      options[flag[1]] = argv[++i];
+    } else {
+      positional.push(argv[i]);
+    }
+  }
+  return { source: positional[0], page: positional[1], ...options };
+}
+
+function usage() {
+  console.log('Usage: npm run capture-fixture -- <source> <page> [--name NAME] [--url URL | --file PAGE.html] [--description TEXT]\n');
+  console.log('Sources and pages:');
+  tournamentSources.list()
+    .filter(source => source.pages)
+    .forEach(source => {
+      Object.entries(source.pages).forEach(([page, { url }]) => {
+        console.log(`   ${source.id} ${page}${url ? `  (${url})` : '  (needs --url or --file)'}`);
+      });
+    });
+}
+
+async function captureFromArgs() {
+  const args = parseArgs(process.argv.slice(2));
+  const source = args.source && tournamentSources.get(args.source);
+  const page = source && source.pages && source.pages[args.page];
+
+  if (!page) {
+    usage();
+    return 1;
+  }
+
+  const url = args.url || page.url;
+  let html;
+  if (args.file) {
+    html = fs.readFileSync(args.file, 'utf8');
+  } else if (url) {
+    console.log(`🌐 Fetching ${url}...`);
+    const response = await fetchPage(url);
+    if (!response.ok) {
+      console.log(`❌ Fetch failed: ${response.status}`);
+      return 1;
+    }
+    html = await response.text();
+  } else {
+    console.log(`❌ The ${args.source} "${args.page}" page has no fixed address - pass --url or --file`);
+    return 1;
+  }
+
+  const { jsonPath, fixture } = captureFixture({
+    source: args.source,
+    page: args.page,
+    name: args.name || args.page,
+    html,
+    url: args.file ? args.url : url,
+    description: args.description
+  });
+
+  console.log(`✅ Saved ${jsonPath}`);
+  console.log(`   ${fixture.expected.count} tournaments parsed`);
+  fixture.expected.tournaments.slice(0, 5).forEach(tournament => {
+    console.log(`   • ${tournament.name} - $${tournament.buyIn.toLocaleString()} - ${tournament.startDate.split('T')[0]} - ${tournament.city}, ${tournament.state}`);
+  });
+  if (fixture.expected.count === 0) {
+    console.log('⚠️  Nothing parsed - the page layout may have changed, check the selectors before committing');
+  } else {
+    console.log('   Review the expectations before committing - they snapshot what the parsers read today');
+  }
+  return 0;
+}
+
+if (require.main === module) {
+  captureFromArgs()
+    .then(code => { process.exitCode = code; })
+    .catch(error => {
+      console.error('❌ Capture failed:', error);
+      process.exitCode = 1;
+    });
+}
@@ -0,0 +1,22 @@
+/**
+ * Lets Node scripts require the app's TypeScript directly: ts-node compiles
+ * to CommonJS (transpile only) and "@/..." imports resolve to src/.
+ */
+
+const path = require('path');
+const Module = require('module');
+
+const ROOT_DIR = path.join(__dirname, '..');
+const SRC_DIR = path.join(ROOT_DIR, 'src');
+
+require('ts-node').register({
+  project: path.join(ROOT_DIR, 'tsconfig.json'),
+  transpileOnly: true,
+  compilerOptions: { module: 'commonjs', moduleResolution: 'node' }
+});
+
+const resolveFilename = Module._resolveFilename;
+Module._resolveFilename = function (request, ...args) {
+  const resolved = request.startsWith('@/') ? path.join(SRC_DIR, request.slice(2)) : request;
+  return resolveFilename.call(this, resolved, ...args);
+};
@@ -38,7 +38,7 @@ async function testDataIntegration() {
     });
 
     const availableSources = healthStatus.filter(s => s.available).length;
-    console.log(`\n📊 Summary: ${availableSources}/3 data sources available\n`);
+    console.log(`\n📊 Summary: ${availableSources}/${healthStatus.length} data sources available\n`);
 
     // Test 2: Fetch Sample Data
     console.log('2️⃣ Fetching sample tournament data...');
@@ -82,71 +82,35 @@ async function testDataIntegration() {
     // Test 3: Test Individual Sources
     console.log('3️⃣ Testing individual data sources...\n');
 
-    // Test PokerAtlas if available
-    const pokerAtlasHealth = healthStatus.find(s => s.name === 'PokerAtlas');
-    if (pokerAtlasHealth?.available) {
-      console.log('🃏 Testing PokerAtlas API...');
-      try {
-        const { pokerAtlas } = require('../src/services/poker-atlas');
-        const startDate = new Date();
-        const endDate = new Date(Date.now() + 30 * 24 * 60 * 60 * 1000); // 30 days
-        
-        const tournaments = await pokerAtlas.getTournaments(startDate, endDate);
-        console.log(`✅ PokerAtlas: ${tournaments.length} tournaments found`);
-      } catch (error) {
-        console.log(`❌ PokerAtlas error: ${error.message}`);
-      }
-    } else {
-      console.log('⏭️  PokerAtlas not available, skipping test');
-    }
+    const { tournamentSources } = require('../src/lib/scrapers');
 
-    // Test WSOP scraper if available
-    const wsopHealth = healthStatus.find(s => s.name === 'WSOP Circuit');
-    if (wsopHealth?.available) {
-      console.log('\n🏆 Testing WSOP Circuit scraper...');
-      try {
-        const { wsopScraper } = require('../src/lib/scrapers/wsop-circuit');
-        
-        // Test with a shorter timeout for demo
-        console.log('   (This may take a moment for web scraping...)');
-        
-        const tournaments = await Promise.race([
-          wsopScraper.getCircuitEvents(),
-          new Promise((_, reject) => 
-            setTimeout(() => reject(new Error('Timeout after 30s')), 30000)
-          )
-        ]);
-        
-        console.log(`✅ WSOP Circuit: ${tournaments.length} tournaments found`);
-      } catch (error) {
-        console.log(`❌ WSOP Circuit error: ${error.message}`);
+    for (const source of tournamentSources.list()) {
+      const health = healthStatus.find(s => s.id === source.id);
+      if (!health?.available) {
+        console.log(`⏭️  ${source.name} not available, skipping test\n`);
+        continue;
       }
-    } else {
-      console.log('\n⏭️  WSOP Circuit not available, skipping test');
-    }
 
-    // Test WPT scraper if available
-    const wptHealth = healthStatus.find(s => s.name === 'WPT');
-    if (wptHealth?.available) {
-      console.log('\n🌟 Testing WPT scraper...');
+      console.log(`🃏 Testing ${source.name} (${source.metadata.kind})...`);
       try {
-        const { wptScraper } = require('../src/lib/scrapers/wpt');
-        
-        console.log('   (This may take a moment for web scraping...)');
-        
+        if (source.metadata.kind === 'scraper') {
+          console.log('   (This may take a moment for web scraping...)');
+        }
+
         const tournaments = await Promise.race([
-          wptScraper.getWPTEvents(),
+          source.fetchTournaments({
+            startDate: new Date(),
+            endDate: new Date(Date.now() + 30 * 24 * 60 * 60 * 1000) // 30 days
+          }),
           new Promise((_, reject) => 
             setTimeout(() => reject(new Error('Timeout after 30s')), 30000)
           )
         ]);
-        
-        console.log(`✅ WPT: ${tournaments.length} tournaments found`);
+
+        console.log(`✅ ${source.name}: ${tournaments.length} tournaments found\n`);
       } catch (error) {
-        console.log(`❌ WPT error: ${error.message}`);
+        console.log(`❌ ${source.name} error: ${error.message}\n`);
       }
-    } else {
-      console.log('\n⏭️  WPT not available, skipping test');
     }
 
     console.log('');
@@ -242,12 +206,8 @@ async function testDataIntegration() {
 async function cleanup() {
   try {
     // Close any open browsers or connections
-    const { wsopScraper } = require('../src/lib/scrapers/wsop-circuit');
-    const { wptScraper } = require('../src/lib/scrapers/wpt');
     const { tournamentDataService } = require('../src/services/tournament-data-service');
     
-    await wsopScraper.close();
-    await wptScraper.close();
     await tournamentDataService.cleanup();
     
     console.log('🧹 Cleanup completed');
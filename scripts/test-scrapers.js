@@ -0,0 +1,67 @@
+#!/usr/bin/env node
+
+/**
+ * Scraper Fixture Tests
+ * Replays the recorded pages in src/lib/scrapers/__fixtures__ through the
+ * scrapers' parsers, then the replay checks for merging, drift alerts and the
+ * venue review queue - no network needed. Exits non-zero if anything fails.
+ */
+
+require('./register-ts');
+
+const { replayAll, FIXTURES_DIR } = require('../src/lib/scrapers/fixture-harness');
+const { runReplayChecks } = require('../src/lib/scrapers/replay-checks');
+
+function testScrapers() {
+  const results = replayAll();
+
+  if (results.length === 0) {
+    console.log(`⚠️  No fixtures found in ${FIXTURES_DIR}`);
+    console.log('   Record one with: npm run capture-fixture -- <source> <page>');
+    return 1;
+  }
+
+  console.log('🧪 Replaying scraper fixtures\n');
+
+  results.forEach(result => {
+    const status = result.failures.length === 0 ? '✅' : '❌';
+    console.log(`${status} ${result.file} (${result.fixture.source}/${result.fixture.page}) - ${result.parsed} tournaments`);
+    result.failures.forEach(failure => {
+      console.log(`   • ${failure}`);
+    });
+  });
+
+  const failed = results.filter(result => result.failures.length > 0).length;
+  console.log(`\n📊 ${results.length - failed}/${results.length} fixtures passed`);
+  return failed > 0 ? 1 : 0;
+}
+
+async function testReplayChecks() {
+  const results = await runReplayChecks();
+
+  console.log('\n🔁 Replaying ingestion checks\n');
+
+  results.forEach(result => {
+    const status = result.failures.length === 0 ? '✅' : '❌';
+    console.log(`${status} ${result.name}`);
+    result.failures.forEach(failure => {
+      console.log(`   • ${failure}`);
+    });
+  });
+
+  const failed = results.filter(result => result.failures.length > 0).length;
+  console.log(`\n📊 ${results.length - failed}/${results.length} checks passed`);
+  return failed > 0 ? 1 : 0;
+}
+
+if (require.main === module) {
+  const fixturesFailed = testScrapers();
+  testReplayChecks()
+    .then(checksFailed => {
+      process.exitCode = fixturesFailed || checksFailed;
+    })
+    .catch(error => {
+      console.error('❌ Replay checks crashed:', error);
+      process.exitCode = 1;
+    });
+}
@@ -28,6 +28,7 @@ import {
 import { Player, PlayerStatistics, Tournament } from '@/types'
 import { analyticsService, TournamentRecommendation, CircuitPerformance, MonthlyPerformance, VenuePerformance, TravelAnalytics, BankrollAnalytics, OptimizationInsight } from '@/services/analytics-service'
 import { tournamentDataService } from '@/services/tournament-data-service'
+import { usePlayerProfile } from '@/hooks/use-player-profile'
 
 // Enhanced analytics interface
 interface EnhancedAnalytics {
@@ -51,11 +52,12 @@ export default function AnalyticsPage() {
   const [analytics, setAnalytics] = useState<EnhancedAnalytics | null>(null)
   const [loading, setLoading] = useState(true)
   const [refreshing, setRefreshing] = useState(false)
+  const { player } = usePlayerProfile(PLAYER_ID)
 
   // Load analytics data
   useEffect(() => {
     loadAnalyticsData()
-  }, [timeframe])
+  }, [timeframe, player])
 
   const loadAnalyticsData = async () => {
     try {
@@ -81,8 +83,8 @@ export default function AnalyticsPage() {
       
       // Load analytics data
       const [playerAnalytics, recommendations, roiOptimization] = await Promise.all([
-        analyticsService.getPlayerAnalytics(PLAYER_ID, filter),
-        analyticsService.getTournamentRecommendations(PLAYER_ID),
+        analyticsService.getPlayerAnalytics(PLAYER_ID, filter, player || undefined),
+        analyticsService.getTournamentRecommendations(PLAYER_ID, undefined, undefined, player || undefined),
         analyticsService.getROIOptimization(PLAYER_ID)
       ])
 
@@ -727,6 +729,55 @@ export default function AnalyticsPage() {
               </div>
             </div>
 
+            {/* Annual Carbon Footprint */}
+            <div className="card">
+              <h3 className="font-semibold text-gray-900 mb-4">Annual Carbon Footprint</h3>
+              {analytics.travelAnalytics.carbonReport.length === 0 ? (
+                <p className="text-sm text-gray-500">Save a home base to estimate the emissions from your circuit travel.</p>
+              ) : (
+                <div className="space-y-4">
+                  {analytics.travelAnalytics.carbonReport.map((year) => (
+                    <div key={year.year} className="space-y-2">
+                      <div className="flex justify-between text-sm">
+                        <span className="text-gray-600">
+                          {year.year} • {year.trips} trip{year.trips === 1 ? '' : 's'}, {year.events} event{year.events === 1 ? '' : 's'}, {year.miles.toLocaleString()} mi
+                        </span>
+                        <span className="font-medium">
+                          {(year.total / 1000).toFixed(1)} t CO₂ <span className="text-gray-500">({year.perEvent} kg/event)</span>
+                        </span>
+                      </div>
+                      {year.total > 0 && (
+                        <div className="flex h-2 bg-gray-100 rounded overflow-hidden">
+                          <div className="bg-blue-500" style={{ width: `${(year.byMode.fly / year.total) * 100}%` }}></div>
+                          <div className="bg-orange-500" style={{ width: `${(year.byMode.drive / year.total) * 100}%` }}></div>
+                          <div className="bg-green-500" style={{ width: `${(year.byMode.train / year.total) * 100}%` }}></div>
+                          <div className="bg-purple-500" style={{ width: `${(year.byMode.bus / year.total) * 100}%` }}></div>
+                        </div>
+                      )}
+                    </div>
+                  ))}
+                  <div className="pt-4 border-t border-gray-200 grid grid-cols-4 gap-4 text-xs">
+                    <div className="flex items-center space-x-1">
+                      <div className="w-2 h-2 bg-blue-500 rounded"></div>
+                      <span>Flights</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <div className="w-2 h-2 bg-orange-500 rounded"></div>
+                      <span>Driving</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <div className="w-2 h-2 bg-green-500 rounded"></div>
+                      <span>Train</span>
+                    </div>
+                    <div className="flex items-center space-x-1">
+                      <div className="w-2 h-2 bg-purple-500 rounded"></div>
+                      <span>Bus</span>
+                    </div>
+                  </div>
+                </div>
+              )}
+            </div>
+
             {/* Travel Recommendations */}
             <div className="card">
               <h3 className="font-semibold text-gray-900 mb-4">Travel Optimization Recommendations</h3>
@@ -943,7 +994,7 @@ function getOrdinalSuffix(num: number): string {
 
 // Tournament recommendation card component
 function TournamentRecommendationCard({ recommendation }: { recommendation: TournamentRecommendation }) {
-  const { tournament, score, factors, reasoning, expectedRoi, confidenceLevel } = recommendation
+  const { tournament, score, factors, reasoning, expectedRoi, expectedBullets, expectedInvestment, confidenceLevel } = recommendation
   
   const scoreColor = score >= 80 ? 'text-green-600' : score >= 60 ? 'text-yellow-600' : 'text-red-600'
   const confidenceColor = confidenceLevel === 'high' ? 'bg-green-100 text-green-800' :
@@ -961,6 +1012,11 @@ function TournamentRecommendationCard({ recommendation }: { recommendation: Tour
           <p className="text-sm text-gray-500">
             ${tournament.buyIn.toLocaleString()} • {tournament.estimatedField} players
           </p>
+          {expectedBullets > 1 && (
+            <p className="text-xs text-gray-500">
+              ~{expectedBullets.toFixed(1)} bullets • ${Math.round(expectedInvestment).toLocaleString()} expected
+            </p>
+          )}
         </div>
         <div className="text-right">
           <div className={`text-2xl font-bold ${scoreColor}`}>
@@ -999,7 +1055,7 @@ function TournamentRecommendationCard({ recommendation }: { recommendation: Tour
         </div>
       )}
 
-      <div className="grid grid-cols-3 gap-2 text-xs">
+      <div className="grid grid-cols-4 gap-2 text-xs">
         <div className="text-center p-2 bg-gray-50 rounded">
           <div className="font-medium text-gray-900">{Math.round(factors.historicalRoi)}</div>
           <div className="text-gray-600">Historical</div>
@@ -1012,6 +1068,10 @@ function TournamentRecommendationCard({ recommendation }: { recommendation: Tour
           <div className="font-medium text-gray-900">{Math.round(factors.fieldSize)}</div>
           <div className="text-gray-600">Field</div>
         </div>
+        <div className="text-center p-2 bg-gray-50 rounded">
+          <div className="font-medium text-gray-900">{Math.round(factors.structureQuality)}</div>
+          <div className="text-gray-600">Structure</div>
+        </div>
       </div>
     </div>
   )
@@ -1093,6 +1153,10 @@ function getMockAnalytics(): EnhancedAnalytics {
       mostEfficientTrips: [
         { trip: 'Vegas Circuit (Jan 2024)', costPerTournament: 278, tournaments: 3 },
         { trip: 'Hammond Series (Oct 2023)', costPerTournament: 345, tournaments: 2 }
+      ],
+      carbonReport: [
+        { year: 2024, total: 1420, byMode: { fly: 1190, drive: 230, train: 0, bus: 0 }, trips: 4, events: 9, miles: 5220, perEvent: 158 },
+        { year: 2023, total: 3860, byMode: { fly: 3210, drive: 650, train: 0, bus: 0 }, trips: 11, events: 21, miles: 14110, perEvent: 184 }
       ]
     },
     bankrollAnalytics: {
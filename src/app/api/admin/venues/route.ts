@@ -0,0 +1,126 @@
+import { timingSafeEqual } from 'crypto';
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  venueRegistry,
+  VenueNotFoundError,
+  VenueValidationError
+} from '@/services/venue-registry';
+
+// Review queue for scraped venue names the canonical registry couldn't match
+
+/**
+ * Changes to the registry need `Authorization: Bearer <ADMIN_SECRET>`. With no
+ * ADMIN_SECRET configured every change is refused.
+ */
+function isAdmin(request: NextRequest): boolean {
+  const secret = process.env.ADMIN_SECRET;
+  const header = request.headers.get('authorization') || '';
+  if (!secret || !header.startsWith('Bearer ')) return false;
+
+  const given = Buffer.from(header.slice('Bearer '.length));
+  const expected = Buffer.from(secret);
+  return given.length === expected.length && timingSafeEqual(given, expected);
+}
+
+export async function GET() {
+  try {
+    const unmatched = await venueRegistry.getUnmatched();
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        unmatched,
+        venues: venueRegistry.list().map(venue => ({
+          id: venue.id,
+          name: venue.name,
+          city: venue.address.city,
+          state: venue.address.state,
+          coordinates: venue.coordinates,
+          timezone: venue.timezone
+        }))
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Venue review API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load unmatched venues',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Resolve a queued name:
+ *   { action: 'merge', name, venueId } - make the name an alias of the venue
+ *   { action: 'dismiss', name }        - stop queueing the name
+ */
+export async function POST(request: NextRequest) {
+  if (!isAdmin(request)) {
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Unauthorized',
+        message: process.env.ADMIN_SECRET ? 'A valid admin secret is required' : 'Venue review is disabled until ADMIN_SECRET is set'
+      },
+      { status: 401 }
+    );
+  }
+
+  try {
+    const body = await request.json();
+
+    if (body.action === 'merge') {
+      if (!body.venueId) throw new VenueValidationError('venueId is required to merge');
+      const venue = await venueRegistry.merge(body.name, body.venueId);
+      return NextResponse.json({
+        success: true,
+        data: { name: body.name, venueId: venue.id },
+        message: `"${body.name}" now resolves to ${venue.name}`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    if (body.action === 'dismiss') {
+      await venueRegistry.dismiss(body.name);
+      return NextResponse.json({
+        success: true,
+        data: { name: body.name },
+        message: `"${body.name}" dismissed`,
+        timestamp: new Date().toISOString()
+      });
+    }
+
+    throw new VenueValidationError('action must be "merge" or "dismiss"');
+
+  } catch (error) {
+    if (error instanceof VenueNotFoundError) {
+      return NextResponse.json(
+        { success: false, error: 'Venue not found', message: error.message },
+        { status: 404 }
+      );
+    }
+
+    if (error instanceof VenueValidationError || error instanceof SyntaxError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid venue review request', message: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Venue review API POST error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update venue registry',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { analyticsService } from '@/services/analytics-service';
 import { tournamentDataService } from '@/services/tournament-data-service';
+import { playerProfileService } from '@/services/player-profile-service';
 
 export async function GET(request: NextRequest) {
   try {
@@ -10,11 +11,14 @@ export async function GET(request: NextRequest) {
 
     // Get upcoming tournaments
     const upcomingTournaments = await tournamentDataService.getUpcomingTournaments(50);
+    const player = await playerProfileService.getProfile(playerId);
     
     // Get AI recommendations
     const recommendations = await analyticsService.getTournamentRecommendations(
       playerId,
-      upcomingTournaments
+      upcomingTournaments,
+      undefined,
+      player
     );
 
     return NextResponse.json({
@@ -40,11 +44,14 @@ export async function GET(request: NextRequest) {
 export async function POST(request: NextRequest) {
   try {
     const { playerId, tournaments, filters } = await request.json();
+    const player = await playerProfileService.getProfile(playerId || 'player-1');
     
     // Get custom recommendations based on specific tournaments or filters
     const recommendations = await analyticsService.getTournamentRecommendations(
       playerId,
-      tournaments
+      tournaments,
+      undefined,
+      player
     );
 
     return NextResponse.json({
@@ -0,0 +1,25 @@
+import { NextRequest } from 'next/server';
+import { itineraryService } from '@/services/itinerary-service';
+import { buildItineraryCalendar } from '@/lib/icalendar';
+import { itineraryErrorResponse } from '../../errors';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const itinerary = await itineraryService.getItinerary(params.id);
+    const fileName = itinerary.name.replace(/[^a-z0-9]+/gi, '-').toLowerCase() || 'itinerary';
+
+    return new Response(buildItineraryCalendar(itinerary), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Content-Disposition': `attachment; filename="${fileName}.ics"`
+      }
+    });
+
+  } catch (error) {
+    return itineraryErrorResponse(error, 'Failed to export itinerary calendar');
+  }
+}
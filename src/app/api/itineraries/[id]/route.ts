@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { itineraryService } from '@/services/itinerary-service';
+import { reviveDates } from '@/lib/utils';
+import { itineraryErrorResponse } from '../errors';
+
+interface RouteContext {
+  params: { id: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const itinerary = await itineraryService.getItinerary(params.id);
+
+    return NextResponse.json({
+      success: true,
+      data: itinerary,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return itineraryErrorResponse(error, 'Failed to load itinerary');
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { lastModified, name, status, tournaments, route } = JSON.parse(await request.text(), reviveDates);
+
+    const itinerary = await itineraryService.updateItinerary(params.id, {
+      lastModified,
+      name,
+      status,
+      tournaments,
+      route
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: itinerary,
+      message: 'Itinerary updated successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return itineraryErrorResponse(error, 'Failed to update itinerary');
+  }
+}
+
+export async function DELETE(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const lastModified = searchParams.get('lastModified') || undefined;
+
+    await itineraryService.deleteItinerary(params.id, lastModified);
+
+    return NextResponse.json({
+      success: true,
+      message: 'Itinerary deleted successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return itineraryErrorResponse(error, 'Failed to delete itinerary');
+  }
+}
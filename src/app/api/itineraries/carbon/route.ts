@@ -0,0 +1,22 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { itineraryService } from '@/services/itinerary-service';
+import { itineraryErrorResponse } from '../errors';
+
+// Travel emissions per itinerary and per season for a player
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const playerId = searchParams.get('playerId') || '';
+
+    const report = await itineraryService.getCarbonReport(playerId);
+
+    return NextResponse.json({
+      success: true,
+      data: report,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return itineraryErrorResponse(error, 'Failed to build carbon report');
+  }
+}
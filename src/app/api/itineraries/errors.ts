@@ -0,0 +1,40 @@
+import { NextResponse } from 'next/server';
+import {
+  ItineraryConflictError,
+  ItineraryNotFoundError,
+  ItineraryValidationError
+} from '@/services/itinerary-service';
+
+// Map itinerary service errors onto HTTP responses
+export function itineraryErrorResponse(error: unknown, fallback: string) {
+  if (error instanceof ItineraryNotFoundError) {
+    return NextResponse.json(
+      { success: false, error: 'Itinerary not found', message: error.message },
+      { status: 404 }
+    );
+  }
+
+  if (error instanceof ItineraryConflictError) {
+    return NextResponse.json(
+      { success: false, error: 'Itinerary was modified', message: error.message, data: error.current },
+      { status: 409 }
+    );
+  }
+
+  if (error instanceof ItineraryValidationError || error instanceof SyntaxError) {
+    return NextResponse.json(
+      { success: false, error: 'Invalid itinerary request', message: error.message },
+      { status: 400 }
+    );
+  }
+
+  console.error(`${fallback}:`, error);
+  return NextResponse.json(
+    {
+      success: false,
+      error: fallback,
+      message: error instanceof Error ? error.message : 'Unknown error'
+    },
+    { status: 500 }
+  );
+}
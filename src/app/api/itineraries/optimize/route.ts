@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { itineraryService } from '@/services/itinerary-service';
+import { itineraryErrorResponse } from '../errors';
+
+// Weighs the selected tournaments' possible circuits without saving an itinerary
+export async function POST(request: NextRequest) {
+  try {
+    const { playerId, tournaments, maxBudget, prioritizeBy } = await request.json();
+
+    const result = await itineraryService.optimizeCircuit({ playerId, tournaments, maxBudget, prioritizeBy });
+
+    return NextResponse.json({
+      success: true,
+      data: result,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return itineraryErrorResponse(error, 'Failed to optimize circuit');
+  }
+}
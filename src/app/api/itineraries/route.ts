@@ -0,0 +1,44 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { itineraryService } from '@/services/itinerary-service';
+import { itineraryErrorResponse } from './errors';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const playerId = searchParams.get('playerId') || undefined;
+
+    const itineraries = await itineraryService.listItineraries(playerId);
+
+    return NextResponse.json({
+      success: true,
+      data: itineraries,
+      total: itineraries.length,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    return itineraryErrorResponse(error, 'Failed to load itineraries');
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    // Events are sent by id and looked up server-side
+    const { playerId, name, tournaments, route } = await request.json();
+
+    const itinerary = await itineraryService.createItinerary({ playerId, name, tournaments, route });
+
+    return NextResponse.json(
+      {
+        success: true,
+        data: itinerary,
+        message: 'Itinerary created successfully',
+        timestamp: new Date().toISOString()
+      },
+      { status: 201 }
+    );
+
+  } catch (error) {
+    return itineraryErrorResponse(error, 'Failed to create itinerary');
+  }
+}
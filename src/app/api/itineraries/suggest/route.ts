@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { itineraryService } from '@/services/itinerary-service';
+import { reviveDates } from '@/lib/utils';
+import { itineraryErrorResponse } from '../errors';
+
+// Picks the events worth playing in a date window and saves them as a draft itinerary
+export async function POST(request: NextRequest) {
+  try {
+    const body = JSON.parse(await request.text(), reviveDates);
+    const { playerId, startDate, endDate, budgetMax, selectedCircuits, travelPreferences } = body;
+
+    const suggestion = await itineraryService.suggestCircuit({
+      playerId,
+      startDate,
+      endDate,
+      budgetMax,
+      selectedCircuits: selectedCircuits || [],
+      travelPreferences
+    });
+
+    return NextResponse.json({
+      success: true,
+      data: suggestion,
+      timestamp: new Date().toISOString()
+    }, { status: suggestion.itinerary ? 201 : 200 });
+
+  } catch (error) {
+    return itineraryErrorResponse(error, 'Failed to suggest circuit');
+  }
+}
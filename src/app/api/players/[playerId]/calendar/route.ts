@@ -0,0 +1,85 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { playerProfileService, CalendarTokenError } from '@/services/player-profile-service';
+import { itineraryService } from '@/services/itinerary-service';
+import { buildPlayerFeed } from '@/lib/icalendar';
+
+interface RouteContext {
+  params: { playerId: string };
+}
+
+// Subscribable feed - calendar apps poll this URL, so it's authorized by token
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const token = searchParams.get('token');
+
+    if (!(await playerProfileService.verifyCalendarFeedToken(params.playerId, token))) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid calendar feed token' },
+        { status: 403 }
+      );
+    }
+
+    const player = await playerProfileService.getProfile(params.playerId);
+    const itineraries = await itineraryService.listItineraries(params.playerId);
+
+    return new Response(buildPlayerFeed(itineraries, player.name), {
+      headers: {
+        'Content-Type': 'text/calendar; charset=utf-8',
+        'Cache-Control': 'no-cache'
+      }
+    });
+
+  } catch (error) {
+    console.error('Calendar feed API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to build calendar feed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+/**
+ * Issue a feed URL for this player. Replacing an existing feed needs its
+ * current token ({ token }), so the URL can't be minted by anyone who knows
+ * the player id; the old URL stops working.
+ */
+export async function POST(request: NextRequest, { params }: RouteContext) {
+  try {
+    const body = await request.json().catch(() => ({}));
+    const token = await playerProfileService.issueCalendarFeedToken(params.playerId, body.token);
+    const url = new URL(`/api/players/${encodeURIComponent(params.playerId)}/calendar`, request.url);
+    url.searchParams.set('token', token);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        url: url.toString(),
+        webcalUrl: url.toString().replace(/^https?:/, 'webcal:')
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (error instanceof CalendarTokenError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid calendar feed token', message: error.message },
+        { status: 403 }
+      );
+    }
+
+    console.error('Calendar feed API POST error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to create calendar feed',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server';
+import {
+  playerProfileService,
+  ProfileValidationError
+} from '@/services/player-profile-service';
+
+interface RouteContext {
+  params: { playerId: string };
+}
+
+export async function GET(request: NextRequest, { params }: RouteContext) {
+  try {
+    const profile = await playerProfileService.getProfile(params.playerId);
+
+    return NextResponse.json({
+      success: true,
+      data: profile,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Player profile API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load player profile',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+export async function PATCH(request: NextRequest, { params }: RouteContext) {
+  try {
+    const update = await request.json();
+
+    if (update.homeBase?.coordinates) {
+      const { lat, lng } = update.homeBase.coordinates;
+      if (typeof lat !== 'number' || typeof lng !== 'number') {
+        throw new ProfileValidationError('Home base coordinates must be numeric lat/lng');
+      }
+    }
+
+    const profile = await playerProfileService.updateProfile(params.playerId, update);
+
+    return NextResponse.json({
+      success: true,
+      data: profile,
+      message: 'Player profile updated successfully',
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    if (error instanceof ProfileValidationError) {
+      return NextResponse.json(
+        { success: false, error: 'Invalid player profile', message: error.message },
+        { status: 400 }
+      );
+    }
+
+    console.error('Player profile API PATCH error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to update player profile',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,67 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { reminderService } from '@/services/reminder-service';
+import { notificationService } from '@/services/notification-service';
+
+export async function GET(request: NextRequest) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const playerId = searchParams.get('playerId') || 'player-1';
+
+    const [upcoming, notifications] = await Promise.all([
+      reminderService.getUpcomingReminders(playerId),
+      notificationService.getOutbox(playerId, 'dashboard')
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      data: {
+        upcoming: upcoming.map(reminder => ({
+          ...reminder,
+          tournament: {
+            id: reminder.tournament.id,
+            name: reminder.tournament.name,
+            venue: reminder.tournament.venue.name
+          }
+        })),
+        notifications: notifications.slice(0, 50)
+      },
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Reminders API error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to load reminders',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
+
+// Run the reminder check immediately instead of waiting for the next cron tick
+export async function POST() {
+  try {
+    const delivered = await reminderService.runDueReminders();
+
+    return NextResponse.json({
+      success: true,
+      data: { sent: delivered.length },
+      message: `Sent ${delivered.length} reminder(s)`,
+      timestamp: new Date().toISOString()
+    });
+
+  } catch (error) {
+    console.error('Reminders API POST error:', error);
+    return NextResponse.json(
+      {
+        success: false,
+        error: 'Failed to run reminders',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { cardPlayerScraper } from '@/lib/scrapers/card-player';
-import { wsopScraper } from '@/lib/scrapers/wsop-circuit';
-import { wptScraper } from '@/lib/scrapers/wpt';
-import { pokerAtlas } from '@/services/poker-atlas';
+import { SourceFetchResult, tournamentSources } from '@/lib/scrapers';
+import { sourceQuality } from '@/lib/scrapers/source-quality';
 import { Tournament } from '@/types';
 import fs from 'fs/promises';
 import path from 'path';
@@ -10,16 +8,12 @@ import path from 'path';
 // Cache configuration
 const CACHE_TTL = 4 * 60 * 60 * 1000; // 4 hours in milliseconds
 const CACHE_FILE_PATH = path.join(process.cwd(), '.cache', 'tournaments.json');
+const FETCH_WINDOW_MONTHS = 6;
 
 interface CachedData {
   tournaments: Tournament[];
   lastUpdated: number;
-  sources: {
-    cardPlayer: { count: number; lastUpdated: number; error?: string };
-    wsop: { count: number; lastUpdated: number; error?: string };
-    wpt: { count: number; lastUpdated: number; error?: string };
-    pokerAtlas: { count: number; lastUpdated: number; error?: string };
-  };
+  sources: Record<string, SourceFetchResult>; // keyed by source adapter id, with quality history
 }
 
 async function ensureCacheDirectory(): Promise<void> {
@@ -54,24 +48,6 @@ function isCacheValid(cache: CachedData): boolean {
   return Date.now() - cache.lastUpdated < CACHE_TTL;
 }
 
-async function fetchFromSource(
-  source: string,
-  fetcher: () => Promise<Tournament[]>
-): Promise<{ tournaments: Tournament[]; error?: string }> {
-  try {
-    console.log(`Fetching tournaments from ${source}...`);
-    const tournaments = await fetcher();
-    console.log(`${source}: Found ${tournaments.length} tournaments`);
-    return { tournaments };
-  } catch (error) {
-    console.error(`Error fetching from ${source}:`, error);
-    return {
-      tournaments: [],
-      error: error instanceof Error ? error.message : 'Unknown error'
-    };
-  }
-}
-
 async function fetchAllTournaments(forceRefresh = false): Promise<CachedData> {
   const cache = await readCache();
   
@@ -82,76 +58,25 @@ async function fetchAllTournaments(forceRefresh = false): Promise<CachedData> {
 
   console.log('Fetching fresh tournament data from all sources...');
 
-  // Fetch from all sources in parallel
-  const [cardPlayerResult, wsopResult, wptResult, pokerAtlasResult] = await Promise.allSettled([
-    fetchFromSource('CardPlayer', () => cardPlayerScraper.fetchTournaments()),
-    fetchFromSource('WSOP Circuit', () => wsopScraper.getCircuitEvents()),
-    fetchFromSource('WPT', () => wptScraper.getWPTEvents()),
-    fetchFromSource('PokerAtlas', async () => {
-      const startDate = new Date();
-      const endDate = new Date();
-      endDate.setMonth(endDate.getMonth() + 6); // 6 months ahead
-      return await pokerAtlas.getTournaments(startDate, endDate);
-    }),
-  ]);
-
-  // Process results
-  const allTournaments: Tournament[] = [];
+  // Fetch from all registered sources in parallel
+  const startDate = new Date();
+  const endDate = new Date();
+  endDate.setMonth(endDate.getMonth() + FETCH_WINDOW_MONTHS);
+  const { bySource, sources: fetched } = await tournamentSources.fetchAll({ startDate, endDate });
   const now = Date.now();
-  const sources = {
-    cardPlayer: { count: 0, lastUpdated: now, error: undefined as string | undefined },
-    wsop: { count: 0, lastUpdated: now, error: undefined as string | undefined },
-    wpt: { count: 0, lastUpdated: now, error: undefined as string | undefined },
-    pokerAtlas: { count: 0, lastUpdated: now, error: undefined as string | undefined }
-  };
-
-  // CardPlayer
-  if (cardPlayerResult.status === 'fulfilled') {
-    const result = cardPlayerResult.value;
-    allTournaments.push(...result.tournaments);
-    sources.cardPlayer.count = result.tournaments.length;
-    if (result.error) sources.cardPlayer.error = result.error;
-  } else {
-    sources.cardPlayer.error = cardPlayerResult.reason?.message || 'Fetch failed';
-  }
 
-  // WSOP
-  if (wsopResult.status === 'fulfilled') {
-    const result = wsopResult.value;
-    allTournaments.push(...result.tournaments);
-    sources.wsop.count = result.tournaments.length;
-    if (result.error) sources.wsop.error = result.error;
-  } else {
-    sources.wsop.error = wsopResult.reason?.message || 'Fetch failed';
-  }
+  // Record the run and compare each source against its history, so a source
+  // whose markup changed raises an alert instead of silently listing less
+  const sources = await recordSourceQuality(fetched);
 
-  // WPT
-  if (wptResult.status === 'fulfilled') {
-    const result = wptResult.value;
-    allTournaments.push(...result.tournaments);
-    sources.wpt.count = result.tournaments.length;
-    if (result.error) sources.wpt.error = result.error;
-  } else {
-    sources.wpt.error = wptResult.reason?.message || 'Fetch failed';
-  }
-
-  // PokerAtlas
-  if (pokerAtlasResult.status === 'fulfilled') {
-    const result = pokerAtlasResult.value;
-    allTournaments.push(...result.tournaments);
-    sources.pokerAtlas.count = result.tournaments.length;
-    if (result.error) sources.pokerAtlas.error = result.error;
-  } else {
-    sources.pokerAtlas.error = pokerAtlasResult.reason?.message || 'Fetch failed';
-  }
-
-  // Remove duplicates based on name, venue, and date
-  const uniqueTournaments = removeDuplicates(allTournaments);
+  // Merge listings of the same event from different sources, keeping the
+  // best value for each field
+  const { tournaments: uniqueTournaments, listings, merged } = tournamentSources.resolve(bySource);
 
   // Sort by start date
   uniqueTournaments.sort((a, b) => a.startDate.getTime() - b.startDate.getTime());
 
-  console.log(`Total tournaments fetched: ${allTournaments.length}, unique: ${uniqueTournaments.length}`);
+  console.log(`Total tournaments fetched: ${listings}, merged: ${merged}, unique: ${uniqueTournaments.length}`);
 
   const cachedData: CachedData = {
     tournaments: uniqueTournaments,
@@ -165,19 +90,15 @@ async function fetchAllTournaments(forceRefresh = false): Promise<CachedData> {
   return cachedData;
 }
 
-function removeDuplicates(tournaments: Tournament[]): Tournament[] {
-  const seen = new Set<string>();
-  return tournaments.filter(tournament => {
-    // Create a key based on name, venue, and date
-    const key = `${tournament.name.toLowerCase()}-${tournament.venue.name.toLowerCase()}-${tournament.startDate.toISOString().split('T')[0]}`;
-    
-    if (seen.has(key)) {
-      return false;
-    }
-    
-    seen.add(key);
-    return true;
-  });
+async function recordSourceQuality(
+  sources: Record<string, SourceFetchResult>
+): Promise<Record<string, SourceFetchResult>> {
+  try {
+    return await sourceQuality.record(sources);
+  } catch (error) {
+    console.error('Error recording source quality:', error);
+    return sources;
+  }
 }
 
 function filterTournaments(tournaments: Tournament[], filters: any): Tournament[] {
@@ -33,8 +33,13 @@ import { BankrollSettings } from '@/components/bankroll/BankrollSettings'
 
 // Import demo data
 import { useBankrollData } from '@/hooks/useBankrollData'
+import { useUpcomingTournaments } from '@/hooks/use-tournaments'
+import { usePlayerProfile } from '@/hooks/use-player-profile'
 
 export default function BankrollManagementPage() {
+  const { tournaments: upcomingTournaments } = useUpcomingTournaments(20)
+  const { player } = usePlayerProfile()
+
   const { 
     bankrollData, 
     stakingDeals, 
@@ -44,7 +49,10 @@ export default function BankrollManagementPage() {
     loading,
     error,
     refreshData 
-  } = useBankrollData()
+  } = useBankrollData({
+    upcomingTournaments,
+    bulletPlan: player?.preferences.bulletPlan
+  })
 
   const [activeTab, setActiveTab] = useState('overview')
   const [showRiskCalculator, setShowRiskCalculator] = useState(false)
@@ -1,6 +1,6 @@
 'use client'
 
-import { useState, useMemo } from 'react'
+import { useState, useMemo, useEffect, useRef } from 'react'
 import { motion, AnimatePresence } from 'framer-motion'
 import {
   Calendar,
@@ -29,11 +29,25 @@ import {
   MapIcon,
   FilterIcon,
   Sparkles,
+  Home,
+  Bell,
+  AlertCircle,
+  Leaf,
   Calendar as CalendarIcon
 } from 'lucide-react'
-import { Tournament, Circuit, Player } from '@/types'
+import { Tournament, Circuit, RouteEditItem } from '@/types'
 import { circuits } from '@/data/tournaments'
 import { useTournaments } from '@/hooks/use-tournaments'
+import { usePlayerProfile } from '@/hooks/use-player-profile'
+import { useItineraries } from '@/hooks/use-itineraries'
+import { useBankrollData, getMaxBuyinPercentage } from '@/hooks/useBankrollData'
+import { optimizeRoute, getHomeLocation } from '@/lib/optimization'
+import { detectScheduleConflicts } from '@/lib/schedule-conflicts'
+import { buildTournamentCalendar } from '@/lib/icalendar'
+import { formatInTimeZone, formatVenueDate } from '@/lib/timezones'
+import { routeFootprint } from '@/lib/carbon'
+import RouteEditor from '@/components/route-editor'
+import CarbonComparison from '@/components/carbon-comparison'
 
 // Tournament series interface for grouping
 interface TournamentSeries {
@@ -54,49 +68,6 @@ interface TournamentSeries {
   }
 }
 
-// Mock player data
-const mockPlayer: Player = {
-  id: 'player-1',
-  name: 'Alex Chen',
-  email: 'alex@example.com',
-  preferences: {
-    travelMethods: [
-      { type: 'fly', preferred: true, maxCost: 800, maxDuration: 8 },
-      { type: 'drive', preferred: true, maxCost: 200, maxDuration: 12 }
-    ],
-    hotelQuality: 'mid-range',
-    maxDaysPerTrip: 7,
-    maxTravelDistance: 800,
-    budgetConstraints: {
-      maxTravelPerMonth: 3000,
-      maxAccommodationPerNight: 150,
-      maxFoodPerDay: 75,
-      emergencyFund: 5000
-    },
-    circuitFocus: ['wsop', 'wpt', 'regional'],
-    tournamentTypes: ['reentry', 'freezeout']
-  },
-  bankroll: {
-    totalBankroll: 75000,
-    tournamentBankroll: 50000,
-    cashGameBankroll: 15000,
-    expenseFund: 10000,
-    lastUpdated: new Date()
-  },
-  statistics: {
-    tournamentsPlayed: 47,
-    totalPrizesWon: 125000,
-    averageBuyIn: 1250,
-    roi: 23.5,
-    profitLoss: 28500,
-    averageFinish: 0.35,
-    itm: 28,
-    biggestScore: 42000,
-    bestCircuit: 'WSOP Circuit',
-    yearsPlaying: 5
-  }
-}
-
 // Brand configurations with enhanced colors
 const brandConfigs = {
   'all': { 
@@ -164,6 +135,41 @@ export default function CircuitBuilderPage() {
   const [gameTypeFilter, setGameTypeFilter] = useState('all')
   const [expandedSeries, setExpandedSeries] = useState<Set<string>>(new Set())
   const [showCircuitPanel, setShowCircuitPanel] = useState(false)
+  const [homeInput, setHomeInput] = useState('')
+  const [editingHome, setEditingHome] = useState(false)
+  const [editingRoute, setEditingRoute] = useState(false)
+  const [editedRoute, setEditedRoute] = useState<RouteEditItem[] | null>(null)
+  const [comparingCarbon, setComparingCarbon] = useState(false)
+
+  const { player, error: profileError, updateProfile } = usePlayerProfile()
+  const { bankrollData } = useBankrollData()
+  const maxBuyinPercentage = getMaxBuyinPercentage(bankrollData)
+
+  // Saved circuits - the most recent open one is restored after a refresh
+  const {
+    itineraries,
+    loading: itinerariesLoading,
+    error: itineraryError,
+    createItinerary,
+    updateItinerary
+  } = useItineraries()
+  const [activeItineraryId, setActiveItineraryId] = useState<string | null>(null)
+  const [savingItinerary, setSavingItinerary] = useState(false)
+  const [feedUrl, setFeedUrl] = useState<string | null>(null)
+  const restoredItinerary = useRef(false)
+  const activeItinerary = itineraries.find(i => i.id === activeItineraryId) || null
+
+  useEffect(() => {
+    if (itinerariesLoading || restoredItinerary.current) return
+    restoredItinerary.current = true
+
+    const open = itineraries.find(i => i.status !== 'completed')
+    if (open && selectedEvents.length === 0) {
+      setSelectedEvents(open.tournaments)
+      setActiveItineraryId(open.id)
+      setShowCircuitPanel(true)
+    }
+  }, [itinerariesLoading, itineraries, selectedEvents.length])
 
   // Fetch tournaments using the live data hook
   const {
@@ -356,7 +362,102 @@ export default function CircuitBuilderPage() {
   const averageField = selectedEvents.length > 0 
     ? selectedEvents.reduce((sum, e) => sum + e.estimatedField, 0) / selectedEvents.length 
     : 0
-  const estimatedTravel = selectedEvents.length * 800 // Mock travel cost
+  // Route the selection from the player's home base for a real travel estimate
+  const estimatedRoute = useMemo(() => {
+    if (!player || selectedEvents.length === 0) return null
+    return optimizeRoute(selectedEvents, getHomeLocation(player)).best
+  }, [player, selectedEvents])
+  const estimatedTravel = estimatedRoute ? Math.round(estimatedRoute.totalCost) : 0
+  const estimatedCarbon = estimatedRoute ? routeFootprint(estimatedRoute) : 0
+
+  // Clashes, impossible transfers and broken limits in the selection, each with a fix
+  const conflicts = useMemo(() => {
+    if (!player || selectedEvents.length === 0) return []
+    return detectScheduleConflicts(selectedEvents, player, { maxBuyinPercentage })
+  }, [player, selectedEvents, maxBuyinPercentage])
+  const conflictSeverity = (eventId: string) => {
+    const involved = conflicts.filter(c => c.tournamentIds.includes(eventId))
+    if (involved.some(c => c.severity === 'error')) return 'error'
+    return involved.length > 0 ? 'warning' : null
+  }
+
+  // Save the selection as a draft itinerary, updating the open draft if there is one.
+  // With the route editor open, the route is saved in the order and with the breaks set there
+  const saveCircuit = async () => {
+    if (selectedEvents.length === 0) return
+    setSavingItinerary(true)
+
+    const route = editingRoute && editedRoute ? editedRoute : undefined
+    const saved = activeItinerary && activeItinerary.status === 'draft'
+      ? await updateItinerary(activeItinerary, { tournaments: selectedEvents, route })
+      : await createItinerary(selectedEvents, undefined, route)
+
+    if (saved) {
+      setActiveItineraryId(saved.id)
+    }
+    setSavingItinerary(false)
+  }
+
+  // Download the saved itinerary (with travel and hotels) or just the selected events
+  const exportCalendar = () => {
+    if (activeItinerary) {
+      window.location.href = `/api/itineraries/${encodeURIComponent(activeItinerary.id)}/calendar`
+      return
+    }
+
+    const blob = new Blob([buildTournamentCalendar(selectedEvents)], { type: 'text/calendar' })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement('a')
+    link.href = url
+    link.download = 'poker-circuit.ics'
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  // The feed token only comes back when it's issued, so this browser keeps
+  // the URL - it's shown again on later visits and proves ownership to reset it
+  const feedStorageKey = player ? `calendar-feed:${player.id}` : null
+
+  useEffect(() => {
+    if (feedStorageKey) setFeedUrl(window.localStorage.getItem(feedStorageKey))
+  }, [feedStorageKey])
+
+  const requestCalendarFeed = async (currentToken?: string) => {
+    if (!player || !feedStorageKey) return
+    try {
+      const response = await fetch(`/api/players/${encodeURIComponent(player.id)}/calendar`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ token: currentToken })
+      })
+      const data = await response.json()
+      if (!response.ok) throw new Error(data.message || 'Failed to create calendar feed')
+      window.localStorage.setItem(feedStorageKey, data.data.webcalUrl)
+      setFeedUrl(data.data.webcalUrl)
+    } catch (err) {
+      console.error('Error creating calendar feed:', err)
+    }
+  }
+
+  const subscribeToCalendar = () => {
+    if (!feedUrl) requestCalendarFeed()
+  }
+
+  // Issue a new URL and retire the old one (e.g. after sharing it by mistake)
+  const resetCalendarFeed = () => {
+    const currentToken = feedUrl ? new URL(feedUrl.replace(/^webcal:/, 'https:')).searchParams.get('token') : null
+    if (currentToken) requestCalendarFeed(currentToken)
+  }
+
+  const saveHomeBase = async () => {
+    const [city, state = ''] = homeInput.split(',').map(part => part.trim())
+    if (!city) return
+
+    const updated = await updateProfile({ homeBase: { address: { city, state } } })
+    if (updated) {
+      setEditingHome(false)
+    }
+  }
   const totalCost = totalBuyIn + estimatedTravel
 
   // Active filters count
@@ -717,7 +818,7 @@ export default function CircuitBuilderPage() {
                                                   <div>
                                                     <div className="font-semibold text-blue-900">Dates</div>
                                                     <div className="text-blue-700">
-                                                      {event.startDate.toLocaleDateString()} - {event.endDate.toLocaleDateString()}
+                                                      {formatVenueDate(event.startDate, event.venue.timezone)} - {formatVenueDate(event.endDate, event.venue.timezone)}
                                                     </div>
                                                   </div>
                                                 </div>
@@ -812,7 +913,10 @@ export default function CircuitBuilderPage() {
                       <motion.button
                         whileHover={{ scale: 1.1 }}
                         whileTap={{ scale: 0.9 }}
-                        onClick={() => setSelectedEvents([])}
+                        onClick={() => {
+                          setSelectedEvents([])
+                          setActiveItineraryId(null)
+                        }}
                         className="p-2 text-white/80 hover:text-white hover:bg-white/20 rounded-xl transition-all"
                       >
                         <X className="h-5 w-5" />
@@ -841,7 +945,11 @@ export default function CircuitBuilderPage() {
                           initial={{ opacity: 0, y: 20 }}
                           animate={{ opacity: 1, y: 0 }}
                           transition={{ delay: index * 0.05 }}
-                          className="flex items-center justify-between p-4 bg-gradient-to-r from-gray-50 to-slate-50 rounded-2xl border border-gray-200 hover:shadow-md transition-all group"
+                          className={`flex items-center justify-between p-4 bg-gradient-to-r from-gray-50 to-slate-50 rounded-2xl border hover:shadow-md transition-all group ${
+                            conflictSeverity(event.id) === 'error'
+                              ? 'border-red-300'
+                              : conflictSeverity(event.id) === 'warning' ? 'border-amber-300' : 'border-gray-200'
+                          }`}
                         >
                           <div className="flex-1 min-w-0">
                             <div className="text-sm font-bold text-gray-900 truncate mb-1">
@@ -850,7 +958,7 @@ export default function CircuitBuilderPage() {
                             <div className="flex items-center space-x-3 text-xs text-gray-600">
                               <span className="flex items-center space-x-1">
                                 <Calendar className="h-3 w-3" />
-                                <span>{event.startDate.toLocaleDateString()}</span>
+                                <span>{formatInTimeZone(event.startDate, event.venue.timezone)}</span>
                               </span>
                               <span>•</span>
                               <span className="flex items-center space-x-1 font-semibold text-green-600">
@@ -871,6 +979,130 @@ export default function CircuitBuilderPage() {
                       ))}
                     </div>
 
+                    {/* Manual Route Order */}
+                    {player && (
+                      <div className="mb-6">
+                        <button
+                          onClick={() => setEditingRoute(!editingRoute)}
+                          className="w-full flex items-center justify-between text-sm font-semibold text-gray-700 hover:text-primary-700"
+                        >
+                          <span className="flex items-center space-x-2">
+                            <MapIcon className="h-4 w-4" />
+                            <span>Edit route order</span>
+                          </span>
+                          <ChevronDown className={`h-4 w-4 transition-transform ${editingRoute ? 'rotate-180' : ''}`} />
+                        </button>
+                        {editingRoute && (
+                          <RouteEditor
+                            events={selectedEvents}
+                            player={player}
+                            onRouteChange={setEditedRoute}
+                            className="mt-4"
+                          />
+                        )}
+                      </div>
+                    )}
+
+                    {/* Cheapest vs Lowest-Carbon Route */}
+                    {player && (
+                      <div className="mb-6">
+                        <button
+                          onClick={() => setComparingCarbon(!comparingCarbon)}
+                          className="w-full flex items-center justify-between text-sm font-semibold text-gray-700 hover:text-primary-700"
+                        >
+                          <span className="flex items-center space-x-2">
+                            <Leaf className="h-4 w-4" />
+                            <span>Compare carbon</span>
+                          </span>
+                          <ChevronDown className={`h-4 w-4 transition-transform ${comparingCarbon ? 'rotate-180' : ''}`} />
+                        </button>
+                        {comparingCarbon && (
+                          <CarbonComparison events={selectedEvents} player={player} className="mt-4" />
+                        )}
+                      </div>
+                    )}
+
+                    {/* Schedule Conflicts */}
+                    {conflicts.length > 0 && (
+                      <div className="space-y-3 mb-6">
+                        {conflicts.map(conflict => (
+                          <div
+                            key={conflict.id}
+                            className={`p-4 rounded-2xl border ${
+                              conflict.severity === 'error' ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'
+                            }`}
+                          >
+                            <div className={`flex items-start space-x-2 text-xs font-semibold ${
+                              conflict.severity === 'error' ? 'text-red-800' : 'text-amber-800'
+                            }`}>
+                              <AlertCircle className="h-4 w-4 flex-shrink-0" />
+                              <span>{conflict.message}</span>
+                            </div>
+                            <div className="mt-2 ml-6 text-xs text-gray-600">{conflict.suggestion}</div>
+                            {conflict.fix && (
+                              <button
+                                onClick={() => removeEvent(conflict.fix!.tournamentId)}
+                                className="mt-2 ml-6 text-xs font-semibold text-primary-600 hover:text-primary-700"
+                              >
+                                Remove {selectedEvents.find(e => e.id === conflict.fix!.tournamentId)?.name}
+                              </button>
+                            )}
+                          </div>
+                        ))}
+                      </div>
+                    )}
+
+                    {/* Home Base */}
+                    <div className="mb-6 p-4 bg-gray-50 rounded-2xl border border-gray-200">
+                      <div className="flex items-center justify-between">
+                        <span className="flex items-center space-x-2 text-sm font-semibold text-gray-700">
+                          <Home className="h-4 w-4" />
+                          <span>
+                            {player?.homeBase
+                              ? `${player.homeBase.address.city}, ${player.homeBase.address.state}`
+                              : 'No home base set'}
+                          </span>
+                        </span>
+                        <button
+                          onClick={() => {
+                            setHomeInput(player?.homeBase
+                              ? `${player.homeBase.address.city}, ${player.homeBase.address.state}`
+                              : '')
+                            setEditingHome(!editingHome)
+                          }}
+                          className="text-xs font-semibold text-primary-600 hover:text-primary-700"
+                        >
+                          {editingHome ? 'Cancel' : 'Edit'}
+                        </button>
+                      </div>
+                      {player?.homeBase && !editingHome && (
+                        <div className="mt-1 text-xs text-gray-500">
+                          Nearest airports: {player.homeBase.nearestAirports.join(', ')}
+                        </div>
+                      )}
+                      {editingHome && (
+                        <div className="mt-3 flex space-x-2">
+                          <input
+                            type="text"
+                            value={homeInput}
+                            onChange={(e) => setHomeInput(e.target.value)}
+                            onKeyDown={(e) => e.key === 'Enter' && saveHomeBase()}
+                            placeholder="City, ST"
+                            className="flex-1 px-3 py-2 text-sm border border-gray-300 rounded-xl focus:ring-2 focus:ring-primary-500 focus:border-primary-500"
+                          />
+                          <button
+                            onClick={saveHomeBase}
+                            className="px-4 py-2 text-sm font-semibold text-white bg-primary-600 hover:bg-primary-700 rounded-xl"
+                          >
+                            Save
+                          </button>
+                        </div>
+                      )}
+                      {editingHome && profileError && (
+                        <div className="mt-2 text-xs text-red-600">{profileError}</div>
+                      )}
+                    </div>
+
                     {/* Enhanced Circuit Summary */}
                     <div className="border-t-2 border-gray-100 pt-6 space-y-4">
                       <div className="flex justify-between items-center text-sm">
@@ -881,6 +1113,10 @@ export default function CircuitBuilderPage() {
                         <span className="text-gray-600 font-medium">Est. Travel:</span>
                         <span className="font-bold text-gray-900 text-lg">${estimatedTravel.toLocaleString()}</span>
                       </div>
+                      <div className="flex justify-between items-center text-sm">
+                        <span className="text-gray-600 font-medium">Est. Travel CO₂:</span>
+                        <span className="font-bold text-gray-900 text-lg">{estimatedCarbon.toLocaleString()} kg</span>
+                      </div>
                       <div className="flex justify-between items-center text-base border-t-2 border-gray-200 pt-4">
                         <span className="text-gray-800 font-bold">Total Investment:</span>
                         <span className="font-black text-primary-600 text-xl">${totalCost.toLocaleString()}</span>
@@ -902,13 +1138,63 @@ export default function CircuitBuilderPage() {
                       <motion.button 
                         whileHover={{ scale: 1.02 }}
                         whileTap={{ scale: 0.98 }}
-                        className="w-full bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white py-4 px-6 rounded-2xl font-bold transition-all duration-300 shadow-lg hover:shadow-xl text-lg"
+                        onClick={saveCircuit}
+                        disabled={savingItinerary}
+                        className="w-full bg-gradient-to-r from-green-500 to-emerald-500 hover:from-green-600 hover:to-emerald-600 text-white py-4 px-6 rounded-2xl font-bold transition-all duration-300 shadow-lg hover:shadow-xl text-lg disabled:opacity-60"
                       >
                         <div className="flex items-center justify-center space-x-3">
                           <Plane className="h-5 w-5" />
-                          <span>Plan Travel</span>
+                          <span>{savingItinerary ? 'Saving...' : 'Plan Travel'}</span>
                         </div>
                       </motion.button>
+                      {activeItinerary && (
+                        <div className="text-center text-xs text-gray-500">
+                          Saved as {activeItinerary.status} • {activeItinerary.lastModified.toLocaleString()}
+                        </div>
+                      )}
+                      {activeItinerary?.expectedCost !== undefined && (
+                        <div className="text-center text-xs text-gray-500">
+                          Expected cost ${activeItinerary.expectedCost.toLocaleString()} • ${Math.round(activeItinerary.totalCost).toLocaleString()} if you go deep everywhere
+                        </div>
+                      )}
+                      {itineraryError && (
+                        <div className="text-center text-xs text-red-600">{itineraryError}</div>
+                      )}
+                      <div className="flex space-x-3">
+                        <button
+                          onClick={exportCalendar}
+                          className="flex-1 flex items-center justify-center space-x-2 py-3 px-4 rounded-2xl border-2 border-gray-200 text-sm font-semibold text-gray-700 hover:bg-gray-50 transition-all"
+                        >
+                          <CalendarIcon className="h-4 w-4" />
+                          <span>Export .ics</span>
+                        </button>
+                        <button
+                          onClick={subscribeToCalendar}
+                          className="flex-1 flex items-center justify-center space-x-2 py-3 px-4 rounded-2xl border-2 border-gray-200 text-sm font-semibold text-gray-700 hover:bg-gray-50 transition-all"
+                        >
+                          <Bell className="h-4 w-4" />
+                          <span>Subscribe</span>
+                        </button>
+                      </div>
+                      {feedUrl && (
+                        <div className="p-3 bg-gray-50 rounded-xl border border-gray-200">
+                          <div className="flex items-center justify-between mb-1">
+                            <div className="text-xs text-gray-600">Add this URL to Google Calendar or Outlook:</div>
+                            <button
+                              onClick={resetCalendarFeed}
+                              className="text-xs font-semibold text-gray-500 hover:text-gray-700"
+                            >
+                              Reset link
+                            </button>
+                          </div>
+                          <input
+                            readOnly
+                            value={feedUrl}
+                            onFocus={(e) => e.target.select()}
+                            className="w-full text-xs font-mono bg-white border border-gray-200 rounded-lg px-2 py-1"
+                          />
+                        </div>
+                      )}
                     </div>
                   </div>
                 </div>
@@ -937,34 +1223,34 @@ export default function CircuitBuilderPage() {
                 </span>
               </div>
               <div className="grid grid-cols-2 md:grid-cols-4 gap-4 text-xs">
-                <div className={`p-4 rounded-2xl border-2 transition-all ${meta.sources.cardPlayer.error ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'}`}>
-                  <div className="font-bold text-gray-900 mb-1">CardPlayer</div>
-                  <div className="text-gray-700 font-semibold">{meta.sources.cardPlayer.count} events</div>
-                  {meta.sources.cardPlayer.error && (
-                    <div className="text-red-600 text-[10px] mt-1 font-medium">Error</div>
-                  )}
-                </div>
-                <div className={`p-4 rounded-2xl border-2 transition-all ${meta.sources.wsop.error ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'}`}>
-                  <div className="font-bold text-gray-900 mb-1">WSOP Circuit</div>
-                  <div className="text-gray-700 font-semibold">{meta.sources.wsop.count} events</div>
-                  {meta.sources.wsop.error && (
-                    <div className="text-red-600 text-[10px] mt-1 font-medium">Error</div>
-                  )}
-                </div>
-                <div className={`p-4 rounded-2xl border-2 transition-all ${meta.sources.wpt.error ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'}`}>
-                  <div className="font-bold text-gray-900 mb-1">WPT</div>
-                  <div className="text-gray-700 font-semibold">{meta.sources.wpt.count} events</div>
-                  {meta.sources.wpt.error && (
-                    <div className="text-red-600 text-[10px] mt-1 font-medium">Error</div>
-                  )}
-                </div>
-                <div className={`p-4 rounded-2xl border-2 transition-all ${meta.sources.pokerAtlas.error ? 'bg-red-50 border-red-200' : 'bg-green-50 border-green-200'}`}>
-                  <div className="font-bold text-gray-900 mb-1">PokerAtlas</div>
-                  <div className="text-gray-700 font-semibold">{meta.sources.pokerAtlas.count} events</div>
-                  {meta.sources.pokerAtlas.error && (
-                    <div className="text-red-600 text-[10px] mt-1 font-medium">Error</div>
-                  )}
-                </div>
+                {Object.entries(meta.sources).map(([id, source]) => {
+                  const alerts = source.alerts || []
+                  const critical = alerts.some(alert => alert.severity === 'critical')
+                  const tone = source.error || critical
+                    ? 'bg-red-50 border-red-200'
+                    : alerts.length > 0 ? 'bg-amber-50 border-amber-200' : 'bg-green-50 border-green-200'
+                  const runs = source.history?.length || 0
+                  return (
+                    <div key={id} className={`p-4 rounded-2xl border-2 transition-all ${tone}`}>
+                      <div className="font-bold text-gray-900 mb-1">{source.name || id}</div>
+                      <div className="text-gray-700 font-semibold">{source.count} events</div>
+                      {source.error && (
+                        <div className="text-red-600 text-[10px] mt-1 font-medium">Error</div>
+                      )}
+                      {alerts.map(alert => (
+                        <div
+                          key={alert.metric}
+                          className={`text-[10px] mt-1 font-medium ${alert.severity === 'critical' ? 'text-red-600' : 'text-amber-700'}`}
+                        >
+                          {alert.message}
+                        </div>
+                      ))}
+                      {runs > 1 && (
+                        <div className="text-gray-500 text-[10px] mt-1">{runs} runs tracked</div>
+                      )}
+                    </div>
+                  )
+                })}
               </div>
             </div>
           </motion.div>
@@ -97,6 +97,14 @@ const ALERT_CONFIG: Record<BankrollAlertType, {
     borderColor: 'border-cyan-600',
     priority: 'medium',
     category: 'action'
+  },
+  late_registration_closing: {
+    icon: Clock,
+    color: 'text-orange-400',
+    bgColor: 'bg-orange-900/20',
+    borderColor: 'border-orange-600',
+    priority: 'high',
+    category: 'action'
   }
 }
 
@@ -0,0 +1,74 @@
+'use client'
+
+import { useMemo } from 'react'
+import { Leaf, DollarSign } from 'lucide-react'
+import { ParetoItinerary, Player, Tournament } from '@/types'
+import { optimizeCircuit } from '@/lib/optimization'
+
+interface CarbonComparisonProps {
+  events: Tournament[];
+  player: Player;
+  className?: string;
+}
+
+function PlanColumn({ plan, title, icon, highlight }: {
+  plan: ParetoItinerary;
+  title: string;
+  icon: React.ReactNode;
+  highlight: string;
+}) {
+  const modes = Array.from(new Set(plan.itinerary.route.flatMap(stop =>
+    [stop.travel.inbound, stop.travel.outbound].filter(Boolean).map(option => option!.type)
+  )))
+
+  return (
+    <div className={`flex-1 p-3 rounded-2xl border ${highlight}`}>
+      <div className="flex items-center space-x-1 text-xs font-bold text-gray-700 mb-2">
+        {icon}
+        <span>{title}</span>
+      </div>
+      <div className="text-lg font-black text-gray-900">${plan.objectives.cost.toLocaleString()}</div>
+      <div className="text-sm font-semibold text-gray-700">{plan.objectives.carbon.toLocaleString()} kg CO₂</div>
+      <div className="text-xs text-gray-500 mt-1">
+        {Math.round(plan.objectives.time)}h travel • {modes.join(', ')}
+      </div>
+    </div>
+  )
+}
+
+export default function CarbonComparison({ events, player, className = '' }: CarbonComparisonProps) {
+  const comparison = useMemo(() => {
+    if (events.length === 0) return undefined
+    return optimizeCircuit(events, player).carbonComparison
+  }, [events, player])
+
+  if (!comparison) return null
+  const { cheapest, lowestCarbon, extraCost, carbonSaved } = comparison
+  const samePlan = carbonSaved <= 0
+
+  return (
+    <div className={className}>
+      <div className="flex space-x-2">
+        <PlanColumn
+          plan={cheapest}
+          title="Cheapest route"
+          icon={<DollarSign className="h-3 w-3" />}
+          highlight="bg-white border-gray-200"
+        />
+        <PlanColumn
+          plan={lowestCarbon}
+          title="Lowest carbon"
+          icon={<Leaf className="h-3 w-3 text-green-600" />}
+          highlight="bg-green-50 border-green-200"
+        />
+      </div>
+      <div className="mt-2 text-xs text-gray-600">
+        {samePlan
+          ? 'The cheapest route is already the lowest-carbon one.'
+          : extraCost > 0
+            ? `Saves ${carbonSaved.toLocaleString()} kg CO₂ (${Math.round((carbonSaved / Math.max(1, cheapest.objectives.carbon)) * 100)}%) for $${extraCost.toLocaleString()} more.`
+            : `Saves ${carbonSaved.toLocaleString()} kg CO₂ at no extra cost.`}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,338 @@
+'use client'
+
+import { useState, useEffect, useMemo, useRef } from 'react'
+import { DndProvider, useDrag, useDrop } from 'react-dnd'
+import { HTML5Backend } from 'react-dnd-html5-backend'
+import {
+  GripVertical,
+  Lock,
+  Unlock,
+  Bed,
+  Home,
+  Plus,
+  Minus,
+  X,
+  Wand2,
+  AlertCircle,
+  CheckCircle,
+  Building
+} from 'lucide-react'
+import { Player, RouteEditItem, RouteStop, Tournament } from '@/types'
+import { getPinnedPositions, placePinnedEvents, planManualRoute, reoptimizeManualRoute } from '@/lib/optimization'
+import { formatVenueDate } from '@/lib/timezones'
+
+interface RouteEditorProps {
+  events: Tournament[];
+  player: Player;
+  onRouteChange?: (items: RouteEditItem[]) => void; // the route as last dropped, for saving
+  className?: string;
+}
+
+interface RouteRowProps {
+  item: RouteEditItem;
+  index: number;
+  stop?: RouteStop;
+  issues: string[];
+  onMove: (from: number, to: number) => number; // where the dragged row ended up
+  onDragChange: (dragging: boolean) => void;
+  onTogglePin: (id: string) => void;
+  onChangeDays: (id: string, days: number) => void;
+  onRemove: (id: string) => void;
+}
+
+const ROW_TYPE = 'route-stop'
+const MAX_BREAK_DAYS = 14
+
+function eventItem(tournament: Tournament): RouteEditItem {
+  return { id: tournament.id, kind: 'event', tournament, pinned: false }
+}
+
+function isPinned(item: RouteEditItem): boolean {
+  return item.kind === 'event' && item.pinned
+}
+
+// Pinned events hold their place among the events - everything else moves around them
+function moveAroundPinned(items: RouteEditItem[], from: number, to: number): RouteEditItem[] {
+  if (from === to || isPinned(items[from]) || isPinned(items[to])) return items
+
+  const next = [...items]
+  const [moved] = next.splice(from, 1)
+  next.splice(to, 0, moved)
+  return placePinnedEvents(next, getPinnedPositions(items))
+}
+
+function RouteRow({ item, index, stop, issues, onMove, onDragChange, onTogglePin, onChangeDays, onRemove }: RouteRowProps) {
+  const ref = useRef<HTMLDivElement>(null)
+  const [showHotels, setShowHotels] = useState(false)
+  const pinned = isPinned(item)
+
+  const [, drop] = useDrop<{ index: number }>({
+    accept: ROW_TYPE,
+    hover(dragged, monitor) {
+      if (!ref.current || dragged.index === index) return
+
+      // Only swap once the pointer crosses the middle of the row
+      const bounds = ref.current.getBoundingClientRect()
+      const middle = (bounds.bottom - bounds.top) / 2
+      const pointer = monitor.getClientOffset()
+      if (!pointer) return
+      const offset = pointer.y - bounds.top
+      if (dragged.index < index && offset < middle) return
+      if (dragged.index > index && offset > middle) return
+
+      dragged.index = onMove(dragged.index, index)
+    }
+  })
+
+  const [{ isDragging }, drag] = useDrag({
+    type: ROW_TYPE,
+    item: () => {
+      onDragChange(true)
+      return { index }
+    },
+    end: () => onDragChange(false),
+    canDrag: !pinned,
+    collect: monitor => ({ isDragging: monitor.isDragging() })
+  })
+
+  drag(drop(ref))
+
+  const hasError = issues.length > 0 && item.kind === 'event'
+
+  return (
+    <div
+      ref={ref}
+      className={`p-3 rounded-2xl border transition-all ${isDragging ? 'opacity-40' : ''} ${
+        hasError
+          ? 'bg-red-50 border-red-200'
+          : item.kind === 'event' ? 'bg-white border-gray-200' : 'bg-slate-50 border-dashed border-gray-300'
+      }`}
+    >
+      <div className="flex items-center space-x-2">
+        <GripVertical className={`h-4 w-4 flex-shrink-0 ${pinned ? 'text-gray-200' : 'text-gray-400 cursor-move'}`} />
+
+        {item.kind === 'event' ? (
+          <>
+            <div className="flex-1 min-w-0">
+              <div className="text-sm font-bold text-gray-900 truncate">{item.tournament.name}</div>
+              <div className="text-xs text-gray-600">
+                {formatVenueDate(item.tournament.startDate, item.tournament.venue.timezone)} • {item.tournament.venue.address.city}
+                {stop && ` • ${stop.travel.inbound.type} in $${Math.round(stop.travel.inbound.cost).toLocaleString()}`}
+              </div>
+            </div>
+            {stop?.hotelOptions && stop.hotelOptions.length > 0 && (
+              <button
+                onClick={() => setShowHotels(!showHotels)}
+                title="Compare hotels"
+                className={`p-1.5 rounded-lg transition-all ${showHotels ? 'text-primary-600 bg-primary-50' : 'text-gray-400 hover:text-gray-600'}`}
+              >
+                <Building className="h-4 w-4" />
+              </button>
+            )}
+            <button
+              onClick={() => onTogglePin(item.id)}
+              title={pinned ? 'Unlock position' : 'Lock position'}
+              className={`p-1.5 rounded-lg transition-all ${pinned ? 'text-primary-600 bg-primary-50' : 'text-gray-400 hover:text-gray-600'}`}
+            >
+              {pinned ? <Lock className="h-4 w-4" /> : <Unlock className="h-4 w-4" />}
+            </button>
+          </>
+        ) : (
+          <>
+            <div className="flex-1 flex items-center space-x-2 text-sm font-semibold text-gray-700">
+              {item.kind === 'rest' ? <Bed className="h-4 w-4" /> : <Home className="h-4 w-4" />}
+              <span>
+                {item.kind === 'rest' ? 'Rest' : 'Home visit'} • {item.days} day{item.days === 1 ? '' : 's'}
+              </span>
+            </div>
+            <button
+              onClick={() => onChangeDays(item.id, item.days - 1)}
+              className="p-1 text-gray-400 hover:text-gray-600 rounded-lg"
+            >
+              <Minus className="h-3 w-3" />
+            </button>
+            <button
+              onClick={() => onChangeDays(item.id, item.days + 1)}
+              className="p-1 text-gray-400 hover:text-gray-600 rounded-lg"
+            >
+              <Plus className="h-3 w-3" />
+            </button>
+            <button
+              onClick={() => onRemove(item.id)}
+              className="p-1 text-gray-400 hover:text-red-600 rounded-lg"
+            >
+              <X className="h-3 w-3" />
+            </button>
+          </>
+        )}
+      </div>
+      {showHotels && stop?.hotelOptions && (
+        <div className="mt-2 ml-6 space-y-1">
+          {stop.hotelOptions.map(option => (
+            <div
+              key={option.hotel.id}
+              className={`p-2 rounded-xl text-xs ${
+                option.hotel.id === stop.accommodation.hotel.id ? 'bg-primary-50 border border-primary-200' : 'bg-gray-50'
+              }`}
+            >
+              <div className="flex justify-between font-semibold text-gray-900">
+                <span className="truncate">{option.hotel.name}</span>
+                <span>${option.nightlyRate}/night</span>
+              </div>
+              <div className="flex justify-between text-gray-600">
+                <span>
+                  {option.hotel.priceRange} • {option.hotel.rating > 0 ? `${option.hotel.rating}★ • ` : ''}
+                  {option.hotel.distanceFromVenue === 0 ? 'at the venue' : `${option.hotel.distanceFromVenue} mi`}
+                </span>
+                <span>${option.totalCost.toLocaleString()} total</span>
+              </div>
+              {option.discounts.length > 0 && (
+                <div className="text-green-700">{option.discounts.join(' • ')}</div>
+              )}
+              {!option.withinBudget && (
+                <div className="text-amber-700">Over your nightly hotel budget</div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+      {issues.map(issue => (
+        <div key={issue} className={`mt-1 ml-6 text-xs ${hasError ? 'text-red-700' : 'text-amber-700'}`}>{issue}</div>
+      ))}
+    </div>
+  )
+}
+
+function RouteEditorPanel({ events, player, onRouteChange, className = '' }: RouteEditorProps) {
+  const [items, setItems] = useState<RouteEditItem[]>(() =>
+    [...events].sort((a, b) => a.startDate.getTime() - b.startDate.getTime()).map(eventItem)
+  )
+
+  // Keep the rows in step with the builder's selection, new events at the end
+  useEffect(() => {
+    setItems(current => {
+      const selected = new Set(events.map(e => e.id))
+      const kept = current.filter(item => item.kind !== 'event' || selected.has(item.tournament.id))
+      const added = events.filter(e => !kept.some(item => item.kind === 'event' && item.tournament.id === e.id))
+      return added.length === 0 && kept.length === current.length ? current : kept.concat(added.map(eventItem))
+    })
+  }, [events])
+
+  // Rows reorder live while dragging; the route is only re-planned once they're dropped
+  const [dragging, setDragging] = useState(false)
+  const [settledItems, setSettledItems] = useState(items)
+  useEffect(() => {
+    if (!dragging) setSettledItems(items)
+  }, [items, dragging])
+
+  useEffect(() => {
+    onRouteChange?.(settledItems)
+  }, [settledItems, onRouteChange])
+
+  // Re-cost the route exactly as ordered
+  const plan = useMemo(() => {
+    if (!settledItems.some(item => item.kind === 'event')) return null
+    return planManualRoute(settledItems, player)
+  }, [settledItems, player])
+
+  const issuesFor = (id: string) => (plan?.issues || []).filter(issue => issue.itemId === id).map(issue => issue.message)
+  const stopFor = (item: RouteEditItem) => item.kind === 'event'
+    ? plan?.itinerary.route.find(stop => stop.tournament.id === item.tournament.id)
+    : undefined
+
+  const moveItem = (from: number, to: number) => {
+    const next = moveAroundPinned(items, from, to)
+    setItems(next)
+    return next.indexOf(items[from])
+  }
+  const togglePin = (id: string) => setItems(current => current.map(item =>
+    item.kind === 'event' && item.id === id ? { ...item, pinned: !item.pinned } : item
+  ))
+  const changeDays = (id: string, days: number) => setItems(current => current.map(item =>
+    item.kind !== 'event' && item.id === id ? { ...item, days: Math.min(MAX_BREAK_DAYS, Math.max(1, days)) } : item
+  ))
+  const removeItem = (id: string) => setItems(current => current.filter(item => item.id !== id))
+  // New breaks go to the end - drag them into place
+  const addBreak = (kind: 'rest' | 'home') => setItems(current => [
+    ...current,
+    { id: `${kind}-${Date.now()}`, kind, days: kind === 'rest' ? 1 : 2 }
+  ])
+  const reoptimize = () => setItems(current => reoptimizeManualRoute(current, player))
+
+  return (
+    <div className={className}>
+      <div className="space-y-2 mb-4">
+        {items.map((item, index) => (
+          <RouteRow
+            key={item.id}
+            item={item}
+            index={index}
+            stop={stopFor(item)}
+            issues={issuesFor(item.id)}
+            onMove={moveItem}
+            onDragChange={setDragging}
+            onTogglePin={togglePin}
+            onChangeDays={changeDays}
+            onRemove={removeItem}
+          />
+        ))}
+      </div>
+
+      <div className="flex space-x-2 mb-4">
+        <button
+          onClick={() => addBreak('rest')}
+          className="flex-1 flex items-center justify-center space-x-1 py-2 px-3 rounded-xl border border-gray-200 text-xs font-semibold text-gray-700 hover:bg-gray-50"
+        >
+          <Bed className="h-3 w-3" />
+          <span>Rest day</span>
+        </button>
+        <button
+          onClick={() => addBreak('home')}
+          className="flex-1 flex items-center justify-center space-x-1 py-2 px-3 rounded-xl border border-gray-200 text-xs font-semibold text-gray-700 hover:bg-gray-50"
+        >
+          <Home className="h-3 w-3" />
+          <span>Home visit</span>
+        </button>
+        <button
+          onClick={reoptimize}
+          title="Re-solve the order around locked stops"
+          className="flex-1 flex items-center justify-center space-x-1 py-2 px-3 rounded-xl border border-primary-200 text-xs font-semibold text-primary-700 hover:bg-primary-50"
+        >
+          <Wand2 className="h-3 w-3" />
+          <span>Re-optimize</span>
+        </button>
+      </div>
+
+      {plan && (
+        <div className="p-4 bg-gray-50 rounded-2xl border border-gray-200 space-y-2 text-sm">
+          <div className={`flex items-center space-x-2 font-semibold ${plan.feasible ? 'text-green-700' : 'text-red-700'}`}>
+            {plan.feasible ? <CheckCircle className="h-4 w-4" /> : <AlertCircle className="h-4 w-4" />}
+            <span>{plan.feasible ? 'Every stop is reachable in time' : 'Some stops can\'t be reached in time'}</span>
+          </div>
+          <div className="flex justify-between">
+            <span className="text-gray-600">Route cost:</span>
+            <span className="font-bold text-gray-900">${Math.round(plan.itinerary.totalCost).toLocaleString()}</span>
+          </div>
+          {plan.itinerary.expectedCost !== undefined && (
+            <div className="flex justify-between">
+              <span className="text-gray-600">Expected cost:</span>
+              <span className="font-bold text-gray-900">${plan.itinerary.expectedCost.toLocaleString()}</span>
+            </div>
+          )}
+          <div className="flex justify-between">
+            <span className="text-gray-600">Travel time:</span>
+            <span className="font-bold text-gray-900">{Math.round(plan.itinerary.totalTravelTime)}h</span>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
+
+export default function RouteEditor(props: RouteEditorProps) {
+  return (
+    <DndProvider backend={HTML5Backend}>
+      <RouteEditorPanel {...props} />
+    </DndProvider>
+  )
+}
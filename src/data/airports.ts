@@ -0,0 +1,68 @@
+import { Airport } from '@/types'
+
+// Bundled US airport dataset - commercial airports serving the poker circuit
+// Hub flag marks airports with frequent nonstop service to most of the country
+export const airports: Airport[] = [
+  { code: 'LAS', name: 'Harry Reid International', city: 'Las Vegas', state: 'NV', coordinates: { lat: 36.0840, lng: -115.1537 }, hub: true },
+  { code: 'RNO', name: 'Reno-Tahoe International', city: 'Reno', state: 'NV', coordinates: { lat: 39.4991, lng: -119.7681 }, hub: false },
+  { code: 'LAX', name: 'Los Angeles International', city: 'Los Angeles', state: 'CA', coordinates: { lat: 33.9416, lng: -118.4085 }, hub: true },
+  { code: 'BUR', name: 'Hollywood Burbank', city: 'Burbank', state: 'CA', coordinates: { lat: 34.2007, lng: -118.3587 }, hub: false },
+  { code: 'SAN', name: 'San Diego International', city: 'San Diego', state: 'CA', coordinates: { lat: 32.7338, lng: -117.1933 }, hub: false },
+  { code: 'SFO', name: 'San Francisco International', city: 'San Francisco', state: 'CA', coordinates: { lat: 37.6213, lng: -122.3790 }, hub: true },
+  { code: 'SJC', name: 'San Jose Mineta International', city: 'San Jose', state: 'CA', coordinates: { lat: 37.3639, lng: -121.9289 }, hub: false },
+  { code: 'SMF', name: 'Sacramento International', city: 'Sacramento', state: 'CA', coordinates: { lat: 38.6954, lng: -121.5908 }, hub: false },
+  { code: 'PHX', name: 'Phoenix Sky Harbor International', city: 'Phoenix', state: 'AZ', coordinates: { lat: 33.4342, lng: -112.0116 }, hub: true },
+  { code: 'ABQ', name: 'Albuquerque International Sunport', city: 'Albuquerque', state: 'NM', coordinates: { lat: 35.0402, lng: -106.6090 }, hub: false },
+  { code: 'DEN', name: 'Denver International', city: 'Denver', state: 'CO', coordinates: { lat: 39.8561, lng: -104.6737 }, hub: true },
+  { code: 'SLC', name: 'Salt Lake City International', city: 'Salt Lake City', state: 'UT', coordinates: { lat: 40.7899, lng: -111.9791 }, hub: true },
+  { code: 'SEA', name: 'Seattle-Tacoma International', city: 'Seattle', state: 'WA', coordinates: { lat: 47.4502, lng: -122.3088 }, hub: true },
+  { code: 'PDX', name: 'Portland International', city: 'Portland', state: 'OR', coordinates: { lat: 45.5898, lng: -122.5951 }, hub: false },
+  { code: 'DFW', name: 'Dallas/Fort Worth International', city: 'Dallas', state: 'TX', coordinates: { lat: 32.8998, lng: -97.0403 }, hub: true },
+  { code: 'DAL', name: 'Dallas Love Field', city: 'Dallas', state: 'TX', coordinates: { lat: 32.8471, lng: -96.8518 }, hub: false },
+  { code: 'IAH', name: 'George Bush Intercontinental', city: 'Houston', state: 'TX', coordinates: { lat: 29.9902, lng: -95.3368 }, hub: true },
+  { code: 'HOU', name: 'William P. Hobby', city: 'Houston', state: 'TX', coordinates: { lat: 29.6454, lng: -95.2789 }, hub: false },
+  { code: 'AUS', name: 'Austin-Bergstrom International', city: 'Austin', state: 'TX', coordinates: { lat: 30.1975, lng: -97.6664 }, hub: false },
+  { code: 'SAT', name: 'San Antonio International', city: 'San Antonio', state: 'TX', coordinates: { lat: 29.5337, lng: -98.4698 }, hub: false },
+  { code: 'OKC', name: 'Will Rogers World', city: 'Oklahoma City', state: 'OK', coordinates: { lat: 35.3931, lng: -97.6007 }, hub: false },
+  { code: 'TUL', name: 'Tulsa International', city: 'Tulsa', state: 'OK', coordinates: { lat: 36.1984, lng: -95.8881 }, hub: false },
+  { code: 'MCI', name: 'Kansas City International', city: 'Kansas City', state: 'MO', coordinates: { lat: 39.2976, lng: -94.7139 }, hub: false },
+  { code: 'STL', name: 'St. Louis Lambert International', city: 'St. Louis', state: 'MO', coordinates: { lat: 38.7487, lng: -90.3700 }, hub: false },
+  { code: 'OMA', name: 'Eppley Airfield', city: 'Omaha', state: 'NE', coordinates: { lat: 41.3032, lng: -95.8941 }, hub: false },
+  { code: 'MSP', name: 'Minneapolis-Saint Paul International', city: 'Minneapolis', state: 'MN', coordinates: { lat: 44.8848, lng: -93.2223 }, hub: true },
+  { code: 'ORD', name: "Chicago O'Hare International", city: 'Chicago', state: 'IL', coordinates: { lat: 41.9742, lng: -87.9073 }, hub: true },
+  { code: 'MDW', name: 'Chicago Midway International', city: 'Chicago', state: 'IL', coordinates: { lat: 41.7868, lng: -87.7522 }, hub: false },
+  { code: 'MKE', name: 'Milwaukee Mitchell International', city: 'Milwaukee', state: 'WI', coordinates: { lat: 42.9472, lng: -87.8966 }, hub: false },
+  { code: 'DTW', name: 'Detroit Metropolitan Wayne County', city: 'Detroit', state: 'MI', coordinates: { lat: 42.2162, lng: -83.3554 }, hub: true },
+  { code: 'IND', name: 'Indianapolis International', city: 'Indianapolis', state: 'IN', coordinates: { lat: 39.7169, lng: -86.2956 }, hub: false },
+  { code: 'CLE', name: 'Cleveland Hopkins International', city: 'Cleveland', state: 'OH', coordinates: { lat: 41.4058, lng: -81.8539 }, hub: false },
+  { code: 'CMH', name: 'John Glenn Columbus International', city: 'Columbus', state: 'OH', coordinates: { lat: 39.9999, lng: -82.8872 }, hub: false },
+  { code: 'CVG', name: 'Cincinnati/Northern Kentucky International', city: 'Cincinnati', state: 'OH', coordinates: { lat: 39.0489, lng: -84.6678 }, hub: false },
+  { code: 'SDF', name: 'Louisville Muhammad Ali International', city: 'Louisville', state: 'KY', coordinates: { lat: 38.1744, lng: -85.7360 }, hub: false },
+  { code: 'BNA', name: 'Nashville International', city: 'Nashville', state: 'TN', coordinates: { lat: 36.1263, lng: -86.6774 }, hub: false },
+  { code: 'MEM', name: 'Memphis International', city: 'Memphis', state: 'TN', coordinates: { lat: 35.0424, lng: -89.9767 }, hub: false },
+  { code: 'MSY', name: 'Louis Armstrong New Orleans International', city: 'New Orleans', state: 'LA', coordinates: { lat: 29.9934, lng: -90.2580 }, hub: false },
+  { code: 'SHV', name: 'Shreveport Regional', city: 'Shreveport', state: 'LA', coordinates: { lat: 32.4466, lng: -93.8256 }, hub: false },
+  { code: 'LCH', name: 'Lake Charles Regional', city: 'Lake Charles', state: 'LA', coordinates: { lat: 30.1261, lng: -93.2233 }, hub: false },
+  { code: 'GPT', name: 'Gulfport-Biloxi International', city: 'Gulfport', state: 'MS', coordinates: { lat: 30.4073, lng: -89.0701 }, hub: false },
+  { code: 'ATL', name: 'Hartsfield-Jackson Atlanta International', city: 'Atlanta', state: 'GA', coordinates: { lat: 33.6407, lng: -84.4277 }, hub: true },
+  { code: 'CLT', name: 'Charlotte Douglas International', city: 'Charlotte', state: 'NC', coordinates: { lat: 35.2140, lng: -80.9431 }, hub: true },
+  { code: 'AVL', name: 'Asheville Regional', city: 'Asheville', state: 'NC', coordinates: { lat: 35.4362, lng: -82.5418 }, hub: false },
+  { code: 'RDU', name: 'Raleigh-Durham International', city: 'Raleigh', state: 'NC', coordinates: { lat: 35.8801, lng: -78.7880 }, hub: false },
+  { code: 'DCA', name: 'Ronald Reagan Washington National', city: 'Washington', state: 'DC', coordinates: { lat: 38.8512, lng: -77.0402 }, hub: false },
+  { code: 'IAD', name: 'Washington Dulles International', city: 'Washington', state: 'DC', coordinates: { lat: 38.9531, lng: -77.4565 }, hub: true },
+  { code: 'BWI', name: 'Baltimore/Washington International', city: 'Baltimore', state: 'MD', coordinates: { lat: 39.1774, lng: -76.6684 }, hub: false },
+  { code: 'PHL', name: 'Philadelphia International', city: 'Philadelphia', state: 'PA', coordinates: { lat: 39.8744, lng: -75.2424 }, hub: true },
+  { code: 'PIT', name: 'Pittsburgh International', city: 'Pittsburgh', state: 'PA', coordinates: { lat: 40.4915, lng: -80.2329 }, hub: false },
+  { code: 'ACY', name: 'Atlantic City International', city: 'Atlantic City', state: 'NJ', coordinates: { lat: 39.4576, lng: -74.5772 }, hub: false },
+  { code: 'EWR', name: 'Newark Liberty International', city: 'Newark', state: 'NJ', coordinates: { lat: 40.6895, lng: -74.1745 }, hub: true },
+  { code: 'JFK', name: 'John F. Kennedy International', city: 'New York', state: 'NY', coordinates: { lat: 40.6413, lng: -73.7781 }, hub: true },
+  { code: 'LGA', name: 'LaGuardia', city: 'New York', state: 'NY', coordinates: { lat: 40.7769, lng: -73.8740 }, hub: false },
+  { code: 'BDL', name: 'Bradley International', city: 'Hartford', state: 'CT', coordinates: { lat: 41.9389, lng: -72.6832 }, hub: false },
+  { code: 'PVD', name: 'Rhode Island T. F. Green International', city: 'Providence', state: 'RI', coordinates: { lat: 41.7240, lng: -71.4283 }, hub: false },
+  { code: 'BOS', name: 'Boston Logan International', city: 'Boston', state: 'MA', coordinates: { lat: 42.3656, lng: -71.0096 }, hub: true },
+  { code: 'MIA', name: 'Miami International', city: 'Miami', state: 'FL', coordinates: { lat: 25.7959, lng: -80.2870 }, hub: true },
+  { code: 'FLL', name: 'Fort Lauderdale-Hollywood International', city: 'Fort Lauderdale', state: 'FL', coordinates: { lat: 26.0742, lng: -80.1506 }, hub: false },
+  { code: 'TPA', name: 'Tampa International', city: 'Tampa', state: 'FL', coordinates: { lat: 27.9755, lng: -82.5332 }, hub: false },
+  { code: 'MCO', name: 'Orlando International', city: 'Orlando', state: 'FL', coordinates: { lat: 28.4312, lng: -81.3081 }, hub: false },
+  { code: 'JAX', name: 'Jacksonville International', city: 'Jacksonville', state: 'FL', coordinates: { lat: 30.4941, lng: -81.6879 }, hub: false }
+]
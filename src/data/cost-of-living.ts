@@ -0,0 +1,221 @@
+import { Coordinates, Hotel } from '@/types'
+
+export interface SeasonalRate {
+  label: string;
+  start: string; // MM-DD, venue-local; a window may wrap past New Year
+  end: string; // MM-DD, inclusive
+  multiplier: number; // applied to hotel rates
+}
+
+export interface MetroCosts {
+  id: string;
+  name: string;
+  cities: string[]; // card-room towns priced as part of the metro
+  coordinates: Coordinates;
+  timezone: string;
+  hotelRates: Record<Hotel['priceRange'], number>; // typical nightly rate by price band, regular season
+  seasons: SeasonalRate[]; // checked in order - peak series weeks before broader seasons
+  foodPerDay: number;
+  rideshare: { baseFare: number; perMile: number };
+  parkingPerDay: number; // self-park at the venue or hotel
+}
+
+export interface CostOfLivingDataset {
+  version: string;
+  metros: MetroCosts[];
+  fallback: Omit<MetroCosts, 'id' | 'name' | 'cities' | 'coordinates' | 'timezone'>;
+}
+
+// Bundled city costs for circuit stops. Replace or extend at runtime with
+// updateCostOfLiving() when fresher numbers are available.
+export const costOfLiving: CostOfLivingDataset = {
+  version: '2024-06',
+  metros: [
+    {
+      id: 'las-vegas',
+      name: 'Las Vegas',
+      cities: ['Las Vegas', 'Henderson', 'North Las Vegas'],
+      coordinates: { lat: 36.1699, lng: -115.1398 },
+      timezone: 'America/Los_Angeles',
+      hotelRates: { '$': 45, '$$': 85, '$$$': 150, '$$$$': 220 },
+      seasons: [
+        { label: 'WSOP', start: '05-28', end: '07-17', multiplier: 1.35 },
+        { label: 'New Year', start: '12-28', end: '01-02', multiplier: 1.5 },
+        { label: 'Summer', start: '07-18', end: '08-31', multiplier: 0.85 }
+      ],
+      foodPerDay: 70,
+      rideshare: { baseFare: 4, perMile: 1.9 },
+      parkingPerDay: 18
+    },
+    {
+      id: 'los-angeles',
+      name: 'Los Angeles',
+      cities: ['Los Angeles', 'Commerce', 'Bell Gardens', 'Gardena', 'Hawaiian Gardens', 'Inglewood'],
+      coordinates: { lat: 34.0522, lng: -118.2437 },
+      timezone: 'America/Los_Angeles',
+      hotelRates: { '$': 70, '$$': 130, '$$$': 210, '$$$$': 350 },
+      seasons: [
+        { label: 'L.A. Poker Classic', start: '02-20', end: '03-10', multiplier: 1.15 },
+        { label: 'Summer', start: '06-15', end: '08-31', multiplier: 1.15 }
+      ],
+      foodPerDay: 85,
+      rideshare: { baseFare: 5, perMile: 2.2 },
+      parkingPerDay: 20
+    },
+    {
+      id: 'san-jose',
+      name: 'San Jose',
+      cities: ['San Jose', 'Santa Clara', 'San Pablo'],
+      coordinates: { lat: 37.3382, lng: -121.8863 },
+      timezone: 'America/Los_Angeles',
+      hotelRates: { '$': 80, '$$': 140, '$$$': 210, '$$$$': 280 },
+      seasons: [],
+      foodPerDay: 85,
+      rideshare: { baseFare: 4, perMile: 2.1 },
+      parkingPerDay: 15
+    },
+    {
+      id: 'chicago',
+      name: 'Chicago',
+      cities: ['Chicago', 'Hammond', 'Joliet', 'Elgin', 'Des Plaines'],
+      coordinates: { lat: 41.8781, lng: -87.6298 },
+      timezone: 'America/Chicago',
+      hotelRates: { '$': 60, '$$': 120, '$$$': 190, '$$$$': 250 },
+      seasons: [
+        { label: 'Summer', start: '06-01', end: '08-31', multiplier: 1.2 },
+        { label: 'Winter', start: '01-02', end: '02-28', multiplier: 0.85 }
+      ],
+      foodPerDay: 80,
+      rideshare: { baseFare: 4, perMile: 2 },
+      parkingPerDay: 25
+    },
+    {
+      id: 'jacksonville',
+      name: 'Jacksonville',
+      cities: ['Jacksonville'],
+      coordinates: { lat: 30.3322, lng: -81.6557 },
+      timezone: 'America/New_York',
+      hotelRates: { '$': 55, '$$': 95, '$$$': 140, '$$$$': 180 },
+      seasons: [],
+      foodPerDay: 65,
+      rideshare: { baseFare: 4, perMile: 1.8 },
+      parkingPerDay: 8
+    },
+    {
+      id: 'milwaukee',
+      name: 'Milwaukee',
+      cities: ['Milwaukee'],
+      coordinates: { lat: 43.0389, lng: -87.9065 },
+      timezone: 'America/Chicago',
+      hotelRates: { '$': 50, '$$': 90, '$$$': 130, '$$$$': 160 },
+      seasons: [
+        { label: 'Summerfest', start: '06-20', end: '07-07', multiplier: 1.25 }
+      ],
+      foodPerDay: 65,
+      rideshare: { baseFare: 4, perMile: 1.7 },
+      parkingPerDay: 12
+    },
+    {
+      id: 'cherokee',
+      name: 'Cherokee',
+      cities: ['Cherokee'],
+      coordinates: { lat: 35.4743, lng: -83.3149 },
+      timezone: 'America/New_York',
+      hotelRates: { '$': 40, '$$': 75, '$$$': 110, '$$$$': 150 },
+      seasons: [
+        { label: 'Fall foliage', start: '10-01', end: '10-31', multiplier: 1.2 }
+      ],
+      foodPerDay: 60,
+      rideshare: { baseFare: 5, perMile: 2.2 },
+      parkingPerDay: 0
+    },
+    {
+      id: 'atlantic-city',
+      name: 'Atlantic City',
+      cities: ['Atlantic City'],
+      coordinates: { lat: 39.3643, lng: -74.4229 },
+      timezone: 'America/New_York',
+      hotelRates: { '$': 55, '$$': 105, '$$$': 170, '$$$$': 240 },
+      seasons: [
+        { label: 'Summer', start: '06-15', end: '09-05', multiplier: 1.3 }
+      ],
+      foodPerDay: 75,
+      rideshare: { baseFare: 4, perMile: 2 },
+      parkingPerDay: 15
+    },
+    {
+      id: 'philadelphia',
+      name: 'Philadelphia',
+      cities: ['Philadelphia', 'Bensalem', 'Chester'],
+      coordinates: { lat: 39.9526, lng: -75.1652 },
+      timezone: 'America/New_York',
+      hotelRates: { '$': 65, '$$': 125, '$$$': 190, '$$$$': 270 },
+      seasons: [],
+      foodPerDay: 75,
+      rideshare: { baseFare: 4, perMile: 2 },
+      parkingPerDay: 10
+    },
+    {
+      id: 'south-florida',
+      name: 'South Florida',
+      cities: ['Hollywood', 'Fort Lauderdale', 'Miami', 'Coconut Creek', 'Pompano Beach'],
+      coordinates: { lat: 26.0112, lng: -80.1495 },
+      timezone: 'America/New_York',
+      hotelRates: { '$': 75, '$$': 135, '$$$': 210, '$$$$': 320 },
+      seasons: [
+        { label: 'Winter season', start: '12-15', end: '04-15', multiplier: 1.25 }
+      ],
+      foodPerDay: 80,
+      rideshare: { baseFare: 4, perMile: 2 },
+      parkingPerDay: 20
+    },
+    {
+      id: 'tampa',
+      name: 'Tampa',
+      cities: ['Tampa', 'St. Petersburg'],
+      coordinates: { lat: 27.9506, lng: -82.4572 },
+      timezone: 'America/New_York',
+      hotelRates: { '$': 60, '$$': 110, '$$$': 170, '$$$$': 250 },
+      seasons: [
+        { label: 'Winter season', start: '01-15', end: '04-15', multiplier: 1.15 }
+      ],
+      foodPerDay: 70,
+      rideshare: { baseFare: 4, perMile: 1.8 },
+      parkingPerDay: 12
+    },
+    {
+      id: 'southeast-connecticut',
+      name: 'Southeastern Connecticut',
+      cities: ['Uncasville', 'Mashantucket', 'Ledyard'],
+      coordinates: { lat: 41.4343, lng: -72.1090 },
+      timezone: 'America/New_York',
+      hotelRates: { '$': 65, '$$': 115, '$$$': 180, '$$$$': 240 },
+      seasons: [
+        { label: 'Summer', start: '06-15', end: '08-31', multiplier: 1.15 }
+      ],
+      foodPerDay: 70,
+      rideshare: { baseFare: 5, perMile: 2.3 },
+      parkingPerDay: 0
+    },
+    {
+      id: 'thackerville',
+      name: 'Thackerville',
+      cities: ['Thackerville'],
+      coordinates: { lat: 33.7937, lng: -97.1431 },
+      timezone: 'America/Chicago',
+      hotelRates: { '$': 50, '$$': 90, '$$$': 140, '$$$$': 200 },
+      seasons: [],
+      foodPerDay: 60,
+      rideshare: { baseFare: 5, perMile: 2.3 },
+      parkingPerDay: 0
+    }
+  ],
+  // Anywhere not listed - a mid-sized US city
+  fallback: {
+    hotelRates: { '$': 60, '$$': 110, '$$$': 170, '$$$$': 260 },
+    seasons: [],
+    foodPerDay: 75,
+    rideshare: { baseFare: 5, perMile: 2 },
+    parkingPerDay: 15
+  }
+}
@@ -0,0 +1,18 @@
+import { Hotel, Player } from '@/types'
+
+// Price bands that match each hotel class, best fit first
+export const qualityPriceRanges: Record<Player['preferences']['hotelQuality'], Hotel['priceRange'][]> = {
+  budget: ['$', '$$'],
+  'mid-range': ['$$', '$$$'],
+  luxury: ['$$$$', '$$$']
+}
+
+// Rates tournament players can get beyond the rack rate
+export const hotelDiscounts = {
+  venueComp: { minBuyIn: 1000, discount: 0.25 }, // player rate at the host casino's own hotel
+  groupRate: 0.15, // booked through the event's room block
+  extendedStay: [ // checked in order
+    { minNights: 14, discount: 0.2 },
+    { minNights: 7, discount: 0.1 }
+  ]
+}
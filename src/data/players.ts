@@ -0,0 +1,45 @@
+import { Player } from '@/types'
+
+// Starter profile used until a player saves their own settings
+export const defaultPlayer: Player = {
+  id: 'player-1',
+  name: 'Alex Chen',
+  email: 'alex@example.com',
+  preferences: {
+    travelMethods: [
+      { type: 'fly', preferred: true, maxCost: 800, maxDuration: 8 },
+      { type: 'drive', preferred: true, maxCost: 200, maxDuration: 12 },
+      { type: 'train', preferred: false, maxDuration: 6 }
+    ],
+    hotelQuality: 'mid-range',
+    maxDaysPerTrip: 7,
+    maxTravelDistance: 800,
+    budgetConstraints: {
+      maxTravelPerMonth: 3000,
+      maxAccommodationPerNight: 150,
+      maxFoodPerDay: 75,
+      emergencyFund: 5000
+    },
+    circuitFocus: ['wsop', 'wpt', 'regional'],
+    tournamentTypes: ['reentry', 'freezeout']
+  },
+  bankroll: {
+    totalBankroll: 75000,
+    tournamentBankroll: 50000,
+    cashGameBankroll: 15000,
+    expenseFund: 10000,
+    lastUpdated: new Date()
+  },
+  statistics: {
+    tournamentsPlayed: 47,
+    totalPrizesWon: 125000,
+    averageBuyIn: 1250,
+    roi: 23.5,
+    profitLoss: 28500,
+    averageFinish: 0.35,
+    itm: 28,
+    biggestScore: 42000,
+    bestCircuit: 'WSOP Circuit',
+    yearsPlaying: 5
+  }
+}
@@ -379,14 +379,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[0],
     venue: venues[0],
     buyIn: 400,
-    startDate: new Date('2024-02-08T12:00:00'),
-    endDate: new Date('2024-02-09T22:00:00'),
+    startDate: new Date('2024-02-08T12:00:00-08:00'),
+    endDate: new Date('2024-02-09T22:00:00-08:00'),
     estimatedField: 450,
     structure: { type: 'reentry', startingStack: 15000, blindLevelDuration: 30, reentryLevels: 8 },
     blindLevels: 30,
     prizeGuarantee: 100000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-02-08T18:00:00'),
+    registrationDeadline: new Date('2024-02-08T18:00:00-08:00'),
     lateRegistrationLevels: 8
   },
   {
@@ -395,14 +395,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[0],
     venue: venues[0],
     buyIn: 600,
-    startDate: new Date('2024-02-10T12:00:00'),
-    endDate: new Date('2024-02-11T22:00:00'),
+    startDate: new Date('2024-02-10T12:00:00-08:00'),
+    endDate: new Date('2024-02-11T22:00:00-08:00'),
     estimatedField: 320,
     structure: { type: 'reentry', startingStack: 20000, blindLevelDuration: 40, reentryLevels: 10 },
     blindLevels: 40,
     prizeGuarantee: 150000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-02-10T17:00:00'),
+    registrationDeadline: new Date('2024-02-10T17:00:00-08:00'),
     lateRegistrationLevels: 10
   },
   {
@@ -411,14 +411,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[0],
     venue: venues[0],
     buyIn: 1700,
-    startDate: new Date('2024-02-15T12:00:00'),
-    endDate: new Date('2024-02-18T22:00:00'),
+    startDate: new Date('2024-02-15T12:00:00-08:00'),
+    endDate: new Date('2024-02-18T22:00:00-08:00'),
     estimatedField: 850,
     structure: { type: 'reentry', startingStack: 25000, blindLevelDuration: 40, reentryLevels: 10 },
     blindLevels: 40,
     prizeGuarantee: 500000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-02-16T15:00:00'),
+    registrationDeadline: new Date('2024-02-16T15:00:00-08:00'),
     lateRegistrationLevels: 10
   },
 
@@ -429,14 +429,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[1],
     venue: venues[1],
     buyIn: 1100,
-    startDate: new Date('2024-02-20T12:00:00'),
-    endDate: new Date('2024-02-21T22:00:00'),
+    startDate: new Date('2024-02-20T12:00:00-08:00'),
+    endDate: new Date('2024-02-21T22:00:00-08:00'),
     estimatedField: 280,
     structure: { type: 'reentry', startingStack: 25000, blindLevelDuration: 40, reentryLevels: 8 },
     blindLevels: 40,
     prizeGuarantee: 200000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-02-20T18:00:00'),
+    registrationDeadline: new Date('2024-02-20T18:00:00-08:00'),
     lateRegistrationLevels: 8
   },
   {
@@ -445,14 +445,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[1],
     venue: venues[1],
     buyIn: 3500,
-    startDate: new Date('2024-02-22T12:00:00'),
-    endDate: new Date('2024-02-26T22:00:00'),
+    startDate: new Date('2024-02-22T12:00:00-08:00'),
+    endDate: new Date('2024-02-26T22:00:00-08:00'),
     estimatedField: 320,
     structure: { type: 'freezeout', startingStack: 40000, blindLevelDuration: 60 },
     blindLevels: 60,
     prizeGuarantee: 1000000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-02-22T19:00:00'),
+    registrationDeadline: new Date('2024-02-22T19:00:00-08:00'),
     lateRegistrationLevels: 6
   },
 
@@ -463,14 +463,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[3],
     venue: venues[2],
     buyIn: 360,
-    startDate: new Date('2024-03-01T12:00:00'),
-    endDate: new Date('2024-03-02T20:00:00'),
+    startDate: new Date('2024-03-01T12:00:00-06:00'),
+    endDate: new Date('2024-03-02T20:00:00-06:00'),
     estimatedField: 520,
     structure: { type: 'reentry', startingStack: 20000, blindLevelDuration: 30, reentryLevels: 10 },
     blindLevels: 30,
     prizeGuarantee: 100000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-03-01T18:00:00'),
+    registrationDeadline: new Date('2024-03-01T18:00:00-06:00'),
     lateRegistrationLevels: 10
   },
   {
@@ -479,14 +479,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[3],
     venue: venues[2],
     buyIn: 1100,
-    startDate: new Date('2024-03-05T12:00:00'),
-    endDate: new Date('2024-03-08T22:00:00'),
+    startDate: new Date('2024-03-05T12:00:00-06:00'),
+    endDate: new Date('2024-03-08T22:00:00-06:00'),
     estimatedField: 450,
     structure: { type: 'reentry', startingStack: 25000, blindLevelDuration: 40, reentryLevels: 12 },
     blindLevels: 40,
     prizeGuarantee: 300000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-03-06T15:00:00'),
+    registrationDeadline: new Date('2024-03-06T15:00:00-06:00'),
     lateRegistrationLevels: 12
   },
   {
@@ -495,14 +495,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[0],
     venue: extendedVenues[3],
     buyIn: 300000,
-    startDate: new Date('2024-03-12T14:00:00'),
-    endDate: new Date('2024-03-16T22:00:00'),
+    startDate: new Date('2024-03-12T14:00:00-07:00'),
+    endDate: new Date('2024-03-16T22:00:00-07:00'),
     estimatedField: 45,
     structure: { type: 'freezeout', startingStack: 3000000, blindLevelDuration: 90 },
     blindLevels: 90,
     prizeGuarantee: 15000000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-03-12T16:00:00'),
+    registrationDeadline: new Date('2024-03-12T16:00:00-07:00'),
     lateRegistrationLevels: 3
   },
   {
@@ -511,14 +511,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[0],
     venue: venues[0],
     buyIn: 565,
-    startDate: new Date('2024-03-15T11:00:00'),
-    endDate: new Date('2024-03-16T20:00:00'),
+    startDate: new Date('2024-03-15T11:00:00-07:00'),
+    endDate: new Date('2024-03-16T20:00:00-07:00'),
     estimatedField: 680,
     structure: { type: 'reentry', startingStack: 20000, blindLevelDuration: 30, reentryLevels: 10 },
     blindLevels: 30,
     prizeGuarantee: 200000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-03-15T17:00:00'),
+    registrationDeadline: new Date('2024-03-15T17:00:00-07:00'),
     lateRegistrationLevels: 10
   },
 
@@ -532,17 +532,18 @@ export const tournaments: Tournament[] = [
       id: 'bestbet-jacksonville',
       name: 'bestbet Jacksonville',
       address: { street: '13250 Racetrack Rd', city: 'Jacksonville', state: 'Florida', country: 'USA', postalCode: '32218' },
-      coordinates: { lat: 30.4518, lng: -81.6556 }
+      coordinates: { lat: 30.4518, lng: -81.6556 },
+      timezone: 'America/New_York'
     },
     buyIn: 3500,
-    startDate: new Date('2024-03-28T12:00:00'),
-    endDate: new Date('2024-04-01T22:00:00'),
+    startDate: new Date('2024-03-28T12:00:00-04:00'),
+    endDate: new Date('2024-04-01T22:00:00-04:00'),
     estimatedField: 420,
     structure: { type: 'reentry', startingStack: 40000, blindLevelDuration: 60, reentryLevels: 8 },
     blindLevels: 60,
     prizeGuarantee: 1500000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-03-29T19:00:00'),
+    registrationDeadline: new Date('2024-03-29T19:00:00-04:00'),
     lateRegistrationLevels: 8
   },
 
@@ -556,17 +557,18 @@ export const tournaments: Tournament[] = [
       id: 'cherokee-nc',
       name: 'Harrah\'s Cherokee Casino Resort',
       address: { street: '777 Casino Dr', city: 'Cherokee', state: 'North Carolina', country: 'USA', postalCode: '28719' },
-      coordinates: { lat: 35.4758, lng: -83.3099 }
+      coordinates: { lat: 35.4758, lng: -83.3099 },
+      timezone: 'America/New_York'
     },
     buyIn: 400,
-    startDate: new Date('2024-04-10T12:00:00'),
-    endDate: new Date('2024-04-11T20:00:00'),
+    startDate: new Date('2024-04-10T12:00:00-04:00'),
+    endDate: new Date('2024-04-11T20:00:00-04:00'),
     estimatedField: 380,
     structure: { type: 'reentry', startingStack: 15000, blindLevelDuration: 30, reentryLevels: 8 },
     blindLevels: 30,
     prizeGuarantee: 100000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-04-10T18:00:00'),
+    registrationDeadline: new Date('2024-04-10T18:00:00-04:00'),
     lateRegistrationLevels: 8
   },
   {
@@ -581,14 +583,14 @@ export const tournaments: Tournament[] = [
       coordinates: { lat: 43.0268, lng: -87.9273 }
     },
     buyIn: 1100,
-    startDate: new Date('2024-04-12T12:00:00'),
-    endDate: new Date('2024-04-14T22:00:00'),
+    startDate: new Date('2024-04-12T12:00:00-05:00'),
+    endDate: new Date('2024-04-14T22:00:00-05:00'),
     estimatedField: 380,
     structure: { type: 'reentry', startingStack: 25000, blindLevelDuration: 40, reentryLevels: 12 },
     blindLevels: 40,
     prizeGuarantee: 250000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-04-13T15:00:00'),
+    registrationDeadline: new Date('2024-04-13T15:00:00-05:00'),
     lateRegistrationLevels: 12
   },
   {
@@ -600,17 +602,18 @@ export const tournaments: Tournament[] = [
       id: 'cherokee-nc',
       name: 'Harrah\'s Cherokee Casino Resort',
       address: { street: '777 Casino Dr', city: 'Cherokee', state: 'North Carolina', country: 'USA', postalCode: '28719' },
-      coordinates: { lat: 35.4758, lng: -83.3099 }
+      coordinates: { lat: 35.4758, lng: -83.3099 },
+      timezone: 'America/New_York'
     },
     buyIn: 1700,
-    startDate: new Date('2024-04-25T12:00:00'),
-    endDate: new Date('2024-04-28T22:00:00'),
+    startDate: new Date('2024-04-25T12:00:00-04:00'),
+    endDate: new Date('2024-04-28T22:00:00-04:00'),
     estimatedField: 550,
     structure: { type: 'reentry', startingStack: 25000, blindLevelDuration: 40, reentryLevels: 10 },
     blindLevels: 40,
     prizeGuarantee: 400000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-04-26T15:00:00'),
+    registrationDeadline: new Date('2024-04-26T15:00:00-04:00'),
     lateRegistrationLevels: 10
   },
 
@@ -621,14 +624,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[0],
     venue: extendedVenues[3],
     buyIn: 400,
-    startDate: new Date('2024-05-05T11:00:00'),
-    endDate: new Date('2024-05-07T22:00:00'),
+    startDate: new Date('2024-05-05T11:00:00-07:00'),
+    endDate: new Date('2024-05-07T22:00:00-07:00'),
     estimatedField: 15000,
     structure: { type: 'reentry', startingStack: 40000, blindLevelDuration: 30, reentryLevels: 8 },
     blindLevels: 30,
     prizeGuarantee: 3000000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-05-06T18:00:00'),
+    registrationDeadline: new Date('2024-05-06T18:00:00-07:00'),
     lateRegistrationLevels: 8
   },
   {
@@ -637,14 +640,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[0],
     venue: extendedVenues[3],
     buyIn: 1500,
-    startDate: new Date('2024-05-12T12:00:00'),
-    endDate: new Date('2024-05-16T22:00:00'),
+    startDate: new Date('2024-05-12T12:00:00-07:00'),
+    endDate: new Date('2024-05-16T22:00:00-07:00'),
     estimatedField: 5200,
     structure: { type: 'reentry', startingStack: 50000, blindLevelDuration: 60, reentryLevels: 10 },
     blindLevels: 60,
     prizeGuarantee: 5000000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-05-13T18:00:00'),
+    registrationDeadline: new Date('2024-05-13T18:00:00-07:00'),
     lateRegistrationLevels: 10
   },
   {
@@ -653,14 +656,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[0],
     venue: extendedVenues[3],
     buyIn: 10000,
-    startDate: new Date('2024-07-03T12:00:00'),
-    endDate: new Date('2024-07-17T22:00:00'),
+    startDate: new Date('2024-07-03T12:00:00-07:00'),
+    endDate: new Date('2024-07-17T22:00:00-07:00'),
     estimatedField: 8500,
     structure: { type: 'freezeout', startingStack: 60000, blindLevelDuration: 120 },
     blindLevels: 120,
     prizeGuarantee: 85000000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-07-07T18:00:00'),
+    registrationDeadline: new Date('2024-07-07T18:00:00-07:00'),
     lateRegistrationLevels: 0
   },
 
@@ -671,14 +674,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[3],
     venue: extendedVenues[5],
     buyIn: 10000,
-    startDate: new Date('2024-02-26T12:00:00'),
-    endDate: new Date('2024-03-05T22:00:00'),
+    startDate: new Date('2024-02-26T12:00:00-08:00'),
+    endDate: new Date('2024-03-05T22:00:00-08:00'),
     estimatedField: 450,
     structure: { type: 'reentry', startingStack: 60000, blindLevelDuration: 90, reentryLevels: 8 },
     blindLevels: 90,
     prizeGuarantee: 3500000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-02-28T18:00:00'),
+    registrationDeadline: new Date('2024-02-28T18:00:00-08:00'),
     lateRegistrationLevels: 8
   },
   {
@@ -687,14 +690,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[3],
     venue: extendedVenues[8],
     buyIn: 5000,
-    startDate: new Date('2024-08-25T12:00:00'),
-    endDate: new Date('2024-09-02T22:00:00'),
+    startDate: new Date('2024-08-25T12:00:00-07:00'),
+    endDate: new Date('2024-09-02T22:00:00-07:00'),
     estimatedField: 680,
     structure: { type: 'reentry', startingStack: 50000, blindLevelDuration: 75, reentryLevels: 10 },
     blindLevels: 75,
     prizeGuarantee: 2500000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-08-27T18:00:00'),
+    registrationDeadline: new Date('2024-08-27T18:00:00-07:00'),
     lateRegistrationLevels: 10
   },
 
@@ -705,14 +708,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[1],
     venue: extendedVenues[7],
     buyIn: 3500,
-    startDate: new Date('2024-01-28T12:00:00'),
-    endDate: new Date('2024-02-05T22:00:00'),
+    startDate: new Date('2024-01-28T12:00:00-05:00'),
+    endDate: new Date('2024-02-05T22:00:00-05:00'),
     estimatedField: 1150,
     structure: { type: 'reentry', startingStack: 40000, blindLevelDuration: 60, reentryLevels: 8 },
     blindLevels: 60,
     prizeGuarantee: 3000000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-01-30T18:00:00'),
+    registrationDeadline: new Date('2024-01-30T18:00:00-05:00'),
     lateRegistrationLevels: 8
   },
   {
@@ -721,14 +724,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[3],
     venue: extendedVenues[7],
     buyIn: 2700,
-    startDate: new Date('2024-04-15T12:00:00'),
-    endDate: new Date('2024-04-21T22:00:00'),
+    startDate: new Date('2024-04-15T12:00:00-04:00'),
+    endDate: new Date('2024-04-21T22:00:00-04:00'),
     estimatedField: 850,
     structure: { type: 'reentry', startingStack: 35000, blindLevelDuration: 60, reentryLevels: 10 },
     blindLevels: 60,
     prizeGuarantee: 1500000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-04-17T18:00:00'),
+    registrationDeadline: new Date('2024-04-17T18:00:00-04:00'),
     lateRegistrationLevels: 10
   },
 
@@ -739,14 +742,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[3],
     venue: extendedVenues[6],
     buyIn: 3500,
-    startDate: new Date('2024-04-08T12:00:00'),
-    endDate: new Date('2024-04-16T22:00:00'),
+    startDate: new Date('2024-04-08T12:00:00-04:00'),
+    endDate: new Date('2024-04-16T22:00:00-04:00'),
     estimatedField: 1200,
     structure: { type: 'reentry', startingStack: 40000, blindLevelDuration: 60, reentryLevels: 10 },
     blindLevels: 60,
     prizeGuarantee: 5000000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-04-10T18:00:00'),
+    registrationDeadline: new Date('2024-04-10T18:00:00-04:00'),
     lateRegistrationLevels: 10
   },
 
@@ -757,14 +760,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[0],
     venue: extendedVenues[3],
     buyIn: 3000,
-    startDate: new Date('2024-06-15T12:00:00'),
-    endDate: new Date('2024-06-18T22:00:00'),
+    startDate: new Date('2024-06-15T12:00:00-07:00'),
+    endDate: new Date('2024-06-18T22:00:00-07:00'),
     estimatedField: 420,
     structure: { type: 'freezeout', startingStack: 60000, blindLevelDuration: 60 },
     blindLevels: 60,
     prizeGuarantee: 1000000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-06-15T18:00:00'),
+    registrationDeadline: new Date('2024-06-15T18:00:00-07:00'),
     lateRegistrationLevels: 0
   },
   {
@@ -773,14 +776,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[0],
     venue: extendedVenues[3],
     buyIn: 2500,
-    startDate: new Date('2024-06-22T14:00:00'),
-    endDate: new Date('2024-06-25T20:00:00'),
+    startDate: new Date('2024-06-22T14:00:00-07:00'),
+    endDate: new Date('2024-06-25T20:00:00-07:00'),
     estimatedField: 280,
     structure: { type: 'freezeout', startingStack: 50000, blindLevelDuration: 60 },
     blindLevels: 60,
     prizeGuarantee: 500000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-06-22T18:00:00'),
+    registrationDeadline: new Date('2024-06-22T18:00:00-07:00'),
     lateRegistrationLevels: 0
   },
 
@@ -791,14 +794,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[0],
     venue: extendedVenues[3],
     buyIn: 10000,
-    startDate: new Date('2024-06-08T12:00:00'),
-    endDate: new Date('2024-06-13T22:00:00'),
+    startDate: new Date('2024-06-08T12:00:00-07:00'),
+    endDate: new Date('2024-06-13T22:00:00-07:00'),
     estimatedField: 650,
     structure: { type: 'reentry', startingStack: 60000, blindLevelDuration: 75, reentryLevels: 6 },
     blindLevels: 75,
     prizeGuarantee: 5000000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-06-10T18:00:00'),
+    registrationDeadline: new Date('2024-06-10T18:00:00-07:00'),
     lateRegistrationLevels: 6
   },
 
@@ -809,14 +812,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[0],
     venue: venues[0],
     buyIn: 125,
-    startDate: new Date('2024-02-12T15:00:00'),
-    endDate: new Date('2024-02-12T23:30:00'),
+    startDate: new Date('2024-02-12T15:00:00-08:00'),
+    endDate: new Date('2024-02-12T23:30:00-08:00'),
     estimatedField: 220,
     structure: { type: 'reentry', startingStack: 20000, blindLevelDuration: 20, reentryLevels: 6 },
     blindLevels: 20,
     prizeGuarantee: 15000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-02-12T19:00:00'),
+    registrationDeadline: new Date('2024-02-12T19:00:00-08:00'),
     lateRegistrationLevels: 6
   },
   {
@@ -825,14 +828,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[0],
     venue: extendedVenues[3],
     buyIn: 1000,
-    startDate: new Date('2024-06-28T12:00:00'),
-    endDate: new Date('2024-07-01T22:00:00'),
+    startDate: new Date('2024-06-28T12:00:00-07:00'),
+    endDate: new Date('2024-07-01T22:00:00-07:00'),
     estimatedField: 4200,
     structure: { type: 'reentry', startingStack: 20000, blindLevelDuration: 40, reentryLevels: 8 },
     blindLevels: 40,
     prizeGuarantee: 3000000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-06-29T18:00:00'),
+    registrationDeadline: new Date('2024-06-29T18:00:00-07:00'),
     lateRegistrationLevels: 8
   },
 
@@ -843,14 +846,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[1],
     venue: extendedVenues[3],
     buyIn: 100000,
-    startDate: new Date('2024-05-18T14:00:00'),
-    endDate: new Date('2024-05-21T22:00:00'),
+    startDate: new Date('2024-05-18T14:00:00-07:00'),
+    endDate: new Date('2024-05-21T22:00:00-07:00'),
     estimatedField: 35,
     structure: { type: 'freezeout', startingStack: 1000000, blindLevelDuration: 90 },
     blindLevels: 90,
     prizeGuarantee: 3500000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-05-18T16:00:00'),
+    registrationDeadline: new Date('2024-05-18T16:00:00-07:00'),
     lateRegistrationLevels: 2
   },
 
@@ -861,14 +864,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[0],
     venue: extendedVenues[3],
     buyIn: 1500,
-    startDate: new Date('2024-05-25T12:00:00'),
-    endDate: new Date('2024-05-29T22:00:00'),
+    startDate: new Date('2024-05-25T12:00:00-07:00'),
+    endDate: new Date('2024-05-29T22:00:00-07:00'),
     estimatedField: 7200,
     structure: { type: 'reentry', startingStack: 25000, blindLevelDuration: 40, reentryLevels: 10 },
     blindLevels: 40,
     prizeGuarantee: 8000000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-05-26T18:00:00'),
+    registrationDeadline: new Date('2024-05-26T18:00:00-07:00'),
     lateRegistrationLevels: 10
   },
 
@@ -879,14 +882,14 @@ export const tournaments: Tournament[] = [
     circuit: circuits[1],
     venue: extendedVenues[5],
     buyIn: 3500,
-    startDate: new Date('2024-05-03T12:00:00'),
-    endDate: new Date('2024-05-08T22:00:00'),
+    startDate: new Date('2024-05-03T12:00:00-07:00'),
+    endDate: new Date('2024-05-08T22:00:00-07:00'),
     estimatedField: 520,
     structure: { type: 'reentry', startingStack: 40000, blindLevelDuration: 60, reentryLevels: 8 },
     blindLevels: 60,
     prizeGuarantee: 1750000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-05-05T18:00:00'),
+    registrationDeadline: new Date('2024-05-05T18:00:00-07:00'),
     lateRegistrationLevels: 8
   }
 ]
@@ -903,8 +906,8 @@ export const mockTournaments: Tournament[] = [
     circuit: circuits[0],
     venue: venues[0],
     buyIn: 1700,
-    startDate: new Date('2024-03-15T12:00:00'),
-    endDate: new Date('2024-03-18T22:00:00'),
+    startDate: new Date('2024-03-15T12:00:00-07:00'),
+    endDate: new Date('2024-03-18T22:00:00-07:00'),
     estimatedField: 400,
     structure: {
       type: 'reentry',
@@ -915,7 +918,7 @@ export const mockTournaments: Tournament[] = [
     blindLevels: 40,
     prizeGuarantee: 300000,
     status: 'upcoming',
-    registrationDeadline: new Date('2024-03-16T15:00:00'),
+    registrationDeadline: new Date('2024-03-16T15:00:00-07:00'),
     lateRegistrationLevels: 10
   }
 ]
@@ -0,0 +1,60 @@
+import { Coordinates } from '@/types'
+
+export interface TrainStation {
+  name: string;
+  city: string;
+  coordinates: Coordinates;
+}
+
+export interface TrainRoute {
+  line: string;
+  operator: string;
+  from: TrainStation;
+  to: TrainStation;
+  durationHours: number;
+  fare: number; // one-way coach, booked ahead
+  dailyDepartures: number;
+}
+
+const stations = {
+  chicago: { name: 'Chicago Union Station', city: 'Chicago', coordinates: { lat: 41.8789, lng: -87.6403 } },
+  chicagoMillennium: { name: 'Millennium Station', city: 'Chicago', coordinates: { lat: 41.8847, lng: -87.6240 } },
+  milwaukee: { name: 'Milwaukee Intermodal Station', city: 'Milwaukee', coordinates: { lat: 43.0345, lng: -87.9170 } },
+  hammond: { name: 'Hammond Gateway', city: 'Hammond', coordinates: { lat: 41.6259, lng: -87.5190 } },
+  stLouis: { name: 'St. Louis Gateway Station', city: 'St. Louis', coordinates: { lat: 38.6233, lng: -90.2057 } },
+  detroit: { name: 'Detroit Station', city: 'Detroit', coordinates: { lat: 42.3684, lng: -83.0730 } },
+  losAngeles: { name: 'Los Angeles Union Station', city: 'Los Angeles', coordinates: { lat: 34.0562, lng: -118.2365 } },
+  sanDiego: { name: 'San Diego Santa Fe Depot', city: 'San Diego', coordinates: { lat: 32.7168, lng: -117.1694 } },
+  sanJose: { name: 'San Jose Diridon', city: 'San Jose', coordinates: { lat: 37.3297, lng: -121.9026 } },
+  sanFrancisco: { name: 'San Francisco 4th & King', city: 'San Francisco', coordinates: { lat: 37.7766, lng: -122.3947 } },
+  sacramento: { name: 'Sacramento Valley Station', city: 'Sacramento', coordinates: { lat: 38.5847, lng: -121.5006 } },
+  seattle: { name: 'Seattle King Street Station', city: 'Seattle', coordinates: { lat: 47.5984, lng: -122.3302 } },
+  portland: { name: 'Portland Union Station', city: 'Portland', coordinates: { lat: 45.5289, lng: -122.6767 } },
+  newYork: { name: 'New York Penn Station', city: 'New York', coordinates: { lat: 40.7506, lng: -73.9935 } },
+  philadelphia: { name: 'Philadelphia 30th Street', city: 'Philadelphia', coordinates: { lat: 39.9557, lng: -75.1820 } },
+  atlanticCity: { name: 'Atlantic City Rail Terminal', city: 'Atlantic City', coordinates: { lat: 39.3637, lng: -74.4409 } },
+  boston: { name: 'Boston South Station', city: 'Boston', coordinates: { lat: 42.3523, lng: -71.0552 } },
+  newHaven: { name: 'New Haven Union Station', city: 'New Haven', coordinates: { lat: 41.2976, lng: -72.9267 } },
+  miami: { name: 'Brightline MiamiCentral', city: 'Miami', coordinates: { lat: 25.7781, lng: -80.1955 } },
+  fortLauderdale: { name: 'Brightline Fort Lauderdale', city: 'Fort Lauderdale', coordinates: { lat: 26.1197, lng: -80.1456 } },
+  orlando: { name: 'Brightline Orlando Airport', city: 'Orlando', coordinates: { lat: 28.4312, lng: -81.3081 } }
+}
+
+// Rail corridors near circuit stops. Routes run both ways; trains elsewhere are
+// too infrequent or slow to plan a tournament trip around.
+export const trainRoutes: TrainRoute[] = [
+  { line: 'Hiawatha', operator: 'Amtrak', from: stations.chicago, to: stations.milwaukee, durationHours: 1.5, fare: 31, dailyDepartures: 7 },
+  { line: 'South Shore Line', operator: 'NICTD', from: stations.chicagoMillennium, to: stations.hammond, durationHours: 0.6, fare: 14, dailyDepartures: 20 },
+  { line: 'Lincoln Service', operator: 'Amtrak', from: stations.chicago, to: stations.stLouis, durationHours: 5.5, fare: 39, dailyDepartures: 4 },
+  { line: 'Wolverine', operator: 'Amtrak', from: stations.chicago, to: stations.detroit, durationHours: 5.6, fare: 44, dailyDepartures: 3 },
+  { line: 'Pacific Surfliner', operator: 'Amtrak', from: stations.losAngeles, to: stations.sanDiego, durationHours: 2.9, fare: 37, dailyDepartures: 12 },
+  { line: 'Caltrain', operator: 'Caltrain', from: stations.sanFrancisco, to: stations.sanJose, durationHours: 1.2, fare: 13, dailyDepartures: 40 },
+  { line: 'Capitol Corridor', operator: 'Amtrak', from: stations.sacramento, to: stations.sanJose, durationHours: 3.2, fare: 35, dailyDepartures: 7 },
+  { line: 'Cascades', operator: 'Amtrak', from: stations.seattle, to: stations.portland, durationHours: 3.6, fare: 36, dailyDepartures: 6 },
+  { line: 'Northeast Regional', operator: 'Amtrak', from: stations.newYork, to: stations.philadelphia, durationHours: 1.4, fare: 49, dailyDepartures: 30 },
+  { line: 'Atlantic City Line', operator: 'NJ Transit', from: stations.philadelphia, to: stations.atlanticCity, durationHours: 1.5, fare: 11, dailyDepartures: 14 },
+  { line: 'Northeast Regional', operator: 'Amtrak', from: stations.newYork, to: stations.boston, durationHours: 4.2, fare: 59, dailyDepartures: 18 },
+  { line: 'Northeast Regional', operator: 'Amtrak', from: stations.newHaven, to: stations.newYork, durationHours: 1.7, fare: 29, dailyDepartures: 20 },
+  { line: 'Brightline', operator: 'Brightline', from: stations.miami, to: stations.orlando, durationHours: 3.5, fare: 79, dailyDepartures: 16 },
+  { line: 'Brightline', operator: 'Brightline', from: stations.miami, to: stations.fortLauderdale, durationHours: 0.5, fare: 15, dailyDepartures: 16 }
+]
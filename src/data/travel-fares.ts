@@ -0,0 +1,60 @@
+import { TravelMethod } from '@/types'
+
+export interface FareRule {
+  perMile: number;
+  fixedFee: number; // booking fees, baggage, airport charges
+  minimum: number;
+  milesPerHour: number; // door-to-door average
+  terminalHours: number; // check-in, security, station transfers
+}
+
+// Published-fare baseline used by the fixture provider and as the offline fallback.
+// Drive is a rental car: daily rate plus fuel.
+export const fareTable: Record<TravelMethod['type'], FareRule> = {
+  fly: { perMile: 0.25, fixedFee: 50, minimum: 150, milesPerHour: 500, terminalHours: 2.5 },
+  train: { perMile: 0.2, fixedFee: 25, minimum: 35, milesPerHour: 50, terminalHours: 0.5 },
+  bus: { perMile: 0.15, fixedFee: 15, minimum: 25, milesPerHour: 45, terminalHours: 0.5 },
+  drive: { perMile: 0.14, fixedFee: 65, minimum: 65, milesPerHour: 55, terminalHours: 0.5 }
+}
+
+// Cost of driving your own car - gas, wear and the IRS mileage rate
+export const OWN_CAR_COST_PER_MILE = 1.22
+
+// Flight surge by days until departure, checked in order
+export const bookingWindowMultipliers: Array<{ maxDaysAhead: number; multiplier: number }> = [
+  { maxDaysAhead: 6, multiplier: 2.5 }, // last minute
+  { maxDaysAhead: 13, multiplier: 1.8 },
+  { maxDaysAhead: 29, multiplier: 1.3 }
+]
+
+// Carriers the fixture provider quotes for each mode
+export const fixtureCarriers: Record<TravelMethod['type'], string[]> = {
+  fly: ['Southwest', 'Delta', 'American', 'United', 'Alaska'],
+  train: ['Amtrak'],
+  bus: ['Greyhound', 'FlixBus', 'Megabus'],
+  drive: ['Hertz', 'Enterprise', 'Avis']
+}
+
+// Recorded fares for busy circuit routes (one-way, economy, 14+ days out)
+export const fixtureRouteFares: Array<{ from: string; to: string; mode: TravelMethod['type']; fare: number }> = [
+  { from: 'Las Vegas', to: 'San Jose', mode: 'fly', fare: 119 },
+  { from: 'Las Vegas', to: 'Los Angeles', mode: 'fly', fare: 89 },
+  { from: 'Las Vegas', to: 'Chicago', mode: 'fly', fare: 189 },
+  { from: 'Las Vegas', to: 'Jacksonville', mode: 'fly', fare: 239 },
+  { from: 'Chicago', to: 'Milwaukee', mode: 'train', fare: 31 },
+  { from: 'Chicago', to: 'Hammond', mode: 'train', fare: 14 },
+  { from: 'Los Angeles', to: 'San Diego', mode: 'train', fare: 37 },
+  { from: 'Los Angeles', to: 'Las Vegas', mode: 'bus', fare: 29 },
+  { from: 'Chicago', to: 'Jacksonville', mode: 'fly', fare: 159 },
+  { from: 'Atlanta', to: 'Cherokee', mode: 'bus', fare: 45 }
+]
+
+// Rental car daily rates by the player's travel class; fuel comes from fareTable.drive
+export const rentalDailyRates: Record<'budget' | 'mid-range' | 'luxury', number> = {
+  budget: 49,
+  'mid-range': 65,
+  luxury: 110
+}
+
+// Returning a rental somewhere else - flat fee plus distance, capped by most agencies
+export const oneWayDropFee = { base: 60, perMile: 0.12, max: 400 }
@@ -0,0 +1,81 @@
+import { Coordinates } from '@/types'
+
+export interface CityLocation {
+  city: string;
+  state: string; // two-letter abbreviation
+  coordinates: Coordinates;
+}
+
+// Bundled gazetteer used for offline geocoding of player and venue addresses
+export const usCities: CityLocation[] = [
+  { city: 'Las Vegas', state: 'NV', coordinates: { lat: 36.1699, lng: -115.1398 } },
+  { city: 'Henderson', state: 'NV', coordinates: { lat: 36.0395, lng: -114.9817 } },
+  { city: 'Reno', state: 'NV', coordinates: { lat: 39.5296, lng: -119.8138 } },
+  { city: 'Los Angeles', state: 'CA', coordinates: { lat: 34.0522, lng: -118.2437 } },
+  { city: 'Commerce', state: 'CA', coordinates: { lat: 34.0006, lng: -118.1598 } },
+  { city: 'Bell Gardens', state: 'CA', coordinates: { lat: 33.9653, lng: -118.1515 } },
+  { city: 'Gardena', state: 'CA', coordinates: { lat: 33.8883, lng: -118.3090 } },
+  { city: 'San Diego', state: 'CA', coordinates: { lat: 32.7157, lng: -117.1611 } },
+  { city: 'San Francisco', state: 'CA', coordinates: { lat: 37.7749, lng: -122.4194 } },
+  { city: 'San Jose', state: 'CA', coordinates: { lat: 37.3382, lng: -121.8863 } },
+  { city: 'Sacramento', state: 'CA', coordinates: { lat: 38.5816, lng: -121.4944 } },
+  { city: 'Phoenix', state: 'AZ', coordinates: { lat: 33.4484, lng: -112.0740 } },
+  { city: 'Scottsdale', state: 'AZ', coordinates: { lat: 33.4942, lng: -111.9261 } },
+  { city: 'Albuquerque', state: 'NM', coordinates: { lat: 35.0844, lng: -106.6504 } },
+  { city: 'Denver', state: 'CO', coordinates: { lat: 39.7392, lng: -104.9903 } },
+  { city: 'Black Hawk', state: 'CO', coordinates: { lat: 39.7969, lng: -105.4942 } },
+  { city: 'Salt Lake City', state: 'UT', coordinates: { lat: 40.7608, lng: -111.8910 } },
+  { city: 'Seattle', state: 'WA', coordinates: { lat: 47.6062, lng: -122.3321 } },
+  { city: 'Portland', state: 'OR', coordinates: { lat: 45.5152, lng: -122.6784 } },
+  { city: 'Dallas', state: 'TX', coordinates: { lat: 32.7767, lng: -96.7970 } },
+  { city: 'Fort Worth', state: 'TX', coordinates: { lat: 32.7555, lng: -97.3308 } },
+  { city: 'Houston', state: 'TX', coordinates: { lat: 29.7604, lng: -95.3698 } },
+  { city: 'Austin', state: 'TX', coordinates: { lat: 30.2672, lng: -97.7431 } },
+  { city: 'San Antonio', state: 'TX', coordinates: { lat: 29.4241, lng: -98.4936 } },
+  { city: 'Oklahoma City', state: 'OK', coordinates: { lat: 35.4676, lng: -97.5164 } },
+  { city: 'Tulsa', state: 'OK', coordinates: { lat: 36.1540, lng: -95.9928 } },
+  { city: 'Thackerville', state: 'OK', coordinates: { lat: 33.7937, lng: -97.1434 } },
+  { city: 'Durant', state: 'OK', coordinates: { lat: 33.9940, lng: -96.3708 } },
+  { city: 'Kansas City', state: 'MO', coordinates: { lat: 39.0997, lng: -94.5786 } },
+  { city: 'St. Louis', state: 'MO', coordinates: { lat: 38.6270, lng: -90.1994 } },
+  { city: 'Omaha', state: 'NE', coordinates: { lat: 41.2565, lng: -95.9345 } },
+  { city: 'Council Bluffs', state: 'IA', coordinates: { lat: 41.2619, lng: -95.8608 } },
+  { city: 'Minneapolis', state: 'MN', coordinates: { lat: 44.9778, lng: -93.2650 } },
+  { city: 'Chicago', state: 'IL', coordinates: { lat: 41.8781, lng: -87.6298 } },
+  { city: 'Hammond', state: 'IN', coordinates: { lat: 41.5834, lng: -87.5000 } },
+  { city: 'Indianapolis', state: 'IN', coordinates: { lat: 39.7684, lng: -86.1581 } },
+  { city: 'Milwaukee', state: 'WI', coordinates: { lat: 43.0389, lng: -87.9065 } },
+  { city: 'Detroit', state: 'MI', coordinates: { lat: 42.3314, lng: -83.0458 } },
+  { city: 'Cleveland', state: 'OH', coordinates: { lat: 41.4993, lng: -81.6944 } },
+  { city: 'Columbus', state: 'OH', coordinates: { lat: 39.9612, lng: -82.9988 } },
+  { city: 'Cincinnati', state: 'OH', coordinates: { lat: 39.1031, lng: -84.5120 } },
+  { city: 'Louisville', state: 'KY', coordinates: { lat: 38.2527, lng: -85.7585 } },
+  { city: 'Nashville', state: 'TN', coordinates: { lat: 36.1627, lng: -86.7816 } },
+  { city: 'Memphis', state: 'TN', coordinates: { lat: 35.1495, lng: -90.0490 } },
+  { city: 'Tunica', state: 'MS', coordinates: { lat: 34.6851, lng: -90.3829 } },
+  { city: 'Biloxi', state: 'MS', coordinates: { lat: 30.3960, lng: -88.8853 } },
+  { city: 'New Orleans', state: 'LA', coordinates: { lat: 29.9511, lng: -90.0715 } },
+  { city: 'Shreveport', state: 'LA', coordinates: { lat: 32.5252, lng: -93.7502 } },
+  { city: 'Lake Charles', state: 'LA', coordinates: { lat: 30.2266, lng: -93.2174 } },
+  { city: 'Atlanta', state: 'GA', coordinates: { lat: 33.7490, lng: -84.3880 } },
+  { city: 'Charlotte', state: 'NC', coordinates: { lat: 35.2271, lng: -80.8431 } },
+  { city: 'Cherokee', state: 'NC', coordinates: { lat: 35.4743, lng: -83.3149 } },
+  { city: 'Raleigh', state: 'NC', coordinates: { lat: 35.7796, lng: -78.6382 } },
+  { city: 'Washington', state: 'DC', coordinates: { lat: 38.9072, lng: -77.0369 } },
+  { city: 'Baltimore', state: 'MD', coordinates: { lat: 39.2904, lng: -76.6122 } },
+  { city: 'Philadelphia', state: 'PA', coordinates: { lat: 39.9526, lng: -75.1652 } },
+  { city: 'Bensalem', state: 'PA', coordinates: { lat: 40.1046, lng: -74.9518 } },
+  { city: 'Pittsburgh', state: 'PA', coordinates: { lat: 40.4406, lng: -79.9959 } },
+  { city: 'Atlantic City', state: 'NJ', coordinates: { lat: 39.3643, lng: -74.4229 } },
+  { city: 'New York', state: 'NY', coordinates: { lat: 40.7128, lng: -74.0060 } },
+  { city: 'Boston', state: 'MA', coordinates: { lat: 42.3601, lng: -71.0589 } },
+  { city: 'Providence', state: 'RI', coordinates: { lat: 41.8240, lng: -71.4128 } },
+  { city: 'Uncasville', state: 'CT', coordinates: { lat: 41.4343, lng: -72.1098 } },
+  { city: 'Mashantucket', state: 'CT', coordinates: { lat: 41.4737, lng: -71.9618 } },
+  { city: 'Miami', state: 'FL', coordinates: { lat: 25.7617, lng: -80.1918 } },
+  { city: 'Fort Lauderdale', state: 'FL', coordinates: { lat: 26.1224, lng: -80.1373 } },
+  { city: 'Hollywood', state: 'FL', coordinates: { lat: 26.0112, lng: -80.1495 } },
+  { city: 'Tampa', state: 'FL', coordinates: { lat: 27.9506, lng: -82.4572 } },
+  { city: 'Orlando', state: 'FL', coordinates: { lat: 28.5383, lng: -81.3792 } },
+  { city: 'Jacksonville', state: 'FL', coordinates: { lat: 30.3322, lng: -81.6557 } }
+]
@@ -0,0 +1,184 @@
+import { Venue } from '@/types'
+import { extendedVenues } from './tournaments'
+
+// Seed for the canonical venue registry (@/services/venue-registry). Aliases
+// are the other names tours and listing sites publish for the same room -
+// matching ignores case, punctuation and "&" vs "and".
+export interface VenueSeed {
+  venue: Venue;
+  aliases: string[];
+}
+
+function seeded(id: string): Venue {
+  const venue = extendedVenues.find(v => v.id === id)
+  if (!venue) throw new Error(`Unknown seed venue: ${id}`)
+  return venue
+}
+
+const standardAmenities = (...extra: string[]) =>
+  ['Free WiFi', 'Restaurant', 'ATM', ...extra].map(name => ({ name, available: true }))
+
+export const venueSeeds: VenueSeed[] = [
+  {
+    venue: seeded('orleans-las-vegas'),
+    aliases: ['The Orleans', 'Orleans Casino', 'Orleans Las Vegas', 'Orleans Hotel and Casino']
+  },
+  {
+    venue: seeded('bay101-san-jose'),
+    aliases: ['Bay 101', 'Bay 101 San Jose']
+  },
+  {
+    venue: seeded('horseshoe-hammond'),
+    aliases: ['Horseshoe Casino Hammond', 'Horseshoe Hammond Casino', 'Horseshoe Casino Hammond IN']
+  },
+  {
+    venue: seeded('bellagio-vegas'),
+    aliases: ['Bellagio', 'Bellagio Las Vegas', 'Bellagio Resort & Casino']
+  },
+  {
+    venue: seeded('wynn-vegas'),
+    aliases: ['Wynn', 'Wynn Poker Room', 'Wynn Las Vegas Resort']
+  },
+  {
+    venue: seeded('commerce-ca'),
+    aliases: ['The Commerce Casino', 'Commerce Casino & Hotel', 'Commerce Casino Commerce']
+  },
+  {
+    venue: seeded('seminole-fl'),
+    aliases: ['Hard Rock Tampa', 'Seminole Hard Rock Hotel & Casino Tampa', 'Seminole Hard Rock Casino Tampa']
+  },
+  {
+    venue: seeded('borgata-nj'),
+    aliases: ['Borgata', 'The Borgata', 'Borgata Hotel Casino', 'Borgata Atlantic City']
+  },
+  {
+    venue: seeded('bicycle-ca'),
+    aliases: ['Bicycle Casino', 'The Bike', 'Bicycle Hotel & Casino']
+  },
+  {
+    venue: {
+      id: 'cherokee-nc',
+      name: 'Harrah\'s Cherokee Casino Resort',
+      address: { street: '777 Casino Dr', city: 'Cherokee', state: 'North Carolina', country: 'USA', postalCode: '28719' },
+      coordinates: { lat: 35.4758, lng: -83.3099 },
+      amenities: standardAmenities('Hotel', 'Spa Services'),
+      parking: { available: true, cost: 'free', notes: 'Free self-park garage; valet available.' },
+      nearbyHotels: [],
+      localTips: [],
+      timezone: 'America/New_York'
+    },
+    aliases: ['Harrah\'s Cherokee', 'Harrah\'s Cherokee Casino', 'Harrahs Cherokee Resort']
+  },
+  {
+    venue: {
+      id: 'bestbet-jacksonville',
+      name: 'bestbet Jacksonville',
+      address: { street: '13250 Racetrack Rd', city: 'Jacksonville', state: 'Florida', country: 'USA', postalCode: '32218' },
+      coordinates: { lat: 30.4518, lng: -81.6556 },
+      amenities: standardAmenities(),
+      parking: { available: true, cost: 'free' },
+      nearbyHotels: [],
+      localTips: [],
+      timezone: 'America/New_York'
+    },
+    aliases: ['bestbet Jacksonville Poker Room', 'Best Bet Jacksonville', 'bestbet Poker Jacksonville']
+  },
+  {
+    venue: {
+      id: 'potawatomi-milwaukee',
+      name: 'Potawatomi Casino Milwaukee',
+      address: { street: '1721 W Canal St', city: 'Milwaukee', state: 'Wisconsin', country: 'USA', postalCode: '53233' },
+      coordinates: { lat: 43.0268, lng: -87.9273 },
+      amenities: standardAmenities('Hotel'),
+      parking: { available: true, cost: 'free', notes: 'Free self-park garage.' },
+      nearbyHotels: [],
+      localTips: [],
+      timezone: 'America/Chicago'
+    },
+    aliases: ['Potawatomi Hotel & Casino', 'Potawatomi Casino', 'Potawatomi Milwaukee']
+  },
+  {
+    venue: {
+      id: 'seminole-hollywood-fl',
+      name: 'Seminole Hard Rock Hollywood',
+      address: { street: '1 Seminole Way', city: 'Hollywood', state: 'Florida', country: 'USA', postalCode: '33314' },
+      coordinates: { lat: 26.0510, lng: -80.2110 },
+      amenities: standardAmenities('Hotel', 'Spa Services'),
+      parking: { available: true, cost: 'paid', notes: 'Garage parking; validation with rated play.' },
+      nearbyHotels: [],
+      localTips: [],
+      timezone: 'America/New_York'
+    },
+    aliases: ['Seminole Hard Rock Hotel & Casino Hollywood', 'Hard Rock Hollywood', 'Seminole Hard Rock Casino Hollywood']
+  },
+  {
+    venue: {
+      id: 'venetian-vegas',
+      name: 'The Venetian Resort Las Vegas',
+      address: { street: '3355 S Las Vegas Blvd', city: 'Las Vegas', state: 'Nevada', country: 'USA', postalCode: '89109' },
+      coordinates: { lat: 36.1212, lng: -115.1697 },
+      amenities: standardAmenities('Hotel', 'Spa Services'),
+      parking: { available: true, cost: 'paid', spaces: 4000 },
+      nearbyHotels: [],
+      localTips: [],
+      timezone: 'America/Los_Angeles'
+    },
+    aliases: ['Venetian', 'The Venetian', 'Venetian Las Vegas', 'Venetian Poker Room']
+  },
+  {
+    venue: {
+      id: 'aria-vegas',
+      name: 'ARIA Resort & Casino',
+      address: { street: '3730 S Las Vegas Blvd', city: 'Las Vegas', state: 'Nevada', country: 'USA', postalCode: '89158' },
+      coordinates: { lat: 36.1073, lng: -115.1765 },
+      amenities: standardAmenities('Hotel', 'Spa Services'),
+      parking: { available: true, cost: 'paid', spaces: 3000 },
+      nearbyHotels: [],
+      localTips: [],
+      timezone: 'America/Los_Angeles'
+    },
+    aliases: ['Aria', 'Aria Las Vegas', 'Aria Poker Room']
+  },
+  {
+    venue: {
+      id: 'horseshoe-vegas',
+      name: 'Horseshoe Las Vegas',
+      address: { street: '3645 S Las Vegas Blvd', city: 'Las Vegas', state: 'Nevada', country: 'USA', postalCode: '89109' },
+      coordinates: { lat: 36.1142, lng: -115.1710 },
+      amenities: standardAmenities('Hotel'),
+      parking: { available: true, cost: 'paid', spaces: 2500 },
+      nearbyHotels: [],
+      localTips: [],
+      timezone: 'America/Los_Angeles'
+    },
+    aliases: ['Horseshoe Las Vegas Hotel & Casino', 'Horseshoe Vegas', 'Bally\'s Las Vegas']
+  },
+  {
+    venue: {
+      id: 'caesars-new-orleans',
+      name: 'Caesars New Orleans',
+      address: { street: '8 Canal St', city: 'New Orleans', state: 'Louisiana', country: 'USA', postalCode: '70130' },
+      coordinates: { lat: 29.9490, lng: -90.0650 },
+      amenities: standardAmenities('Hotel'),
+      parking: { available: true, cost: 'paid' },
+      nearbyHotels: [],
+      localTips: [],
+      timezone: 'America/Chicago'
+    },
+    aliases: ['Harrah\'s New Orleans', 'Harrah\'s New Orleans Casino', 'Caesars New Orleans Casino']
+  },
+  {
+    venue: {
+      id: 'foxwoods-ct',
+      name: 'Foxwoods Resort Casino',
+      address: { street: '350 Trolley Line Blvd', city: 'Mashantucket', state: 'Connecticut', country: 'USA', postalCode: '06338' },
+      coordinates: { lat: 41.4733, lng: -71.9600 },
+      amenities: standardAmenities('Hotel', 'Spa Services'),
+      parking: { available: true, cost: 'free', spaces: 6000 },
+      nearbyHotels: [],
+      localTips: [],
+      timezone: 'America/New_York'
+    },
+    aliases: ['Foxwoods', 'Foxwoods Casino', 'Foxwoods Poker Room']
+  }
+]
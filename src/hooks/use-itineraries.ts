@@ -0,0 +1,159 @@
+/**
+ * Custom hook for saving and revisiting planned circuits
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Itinerary, ManualRouteStep, RouteEditItem, Tournament } from '@/types';
+import { reviveDates } from '@/lib/utils';
+
+interface UseItinerariesReturn {
+  itineraries: Itinerary[];
+  loading: boolean;
+  error: string | null;
+  createItinerary: (tournaments: Tournament[], name?: string, route?: RouteEditItem[]) => Promise<Itinerary | null>;
+  updateItinerary: (
+    itinerary: Itinerary,
+    changes: ItineraryChanges
+  ) => Promise<Itinerary | null>;
+  deleteItinerary: (itinerary: Itinerary) => Promise<boolean>;
+  refetch: () => Promise<void>;
+}
+
+type ItineraryChanges = Partial<Pick<Itinerary, 'name' | 'status' | 'tournaments'>> & {
+  route?: RouteEditItem[]; // a hand-ordered route, saved as ordered
+};
+
+// Events go by id - the server plans from its own tournament data
+function toRouteSteps(route?: RouteEditItem[]): ManualRouteStep[] | undefined {
+  return route?.map(item => item.kind === 'event'
+    ? { kind: 'event', tournamentId: item.tournament.id, pinned: item.pinned }
+    : { kind: item.kind, days: item.days });
+}
+
+// Parse an API response, reviving ISO date strings
+async function readResponse(response: Response, fallbackError: string) {
+  const data = JSON.parse(await response.text(), reviveDates);
+  if (!response.ok) {
+    throw new Error(data.message || fallbackError);
+  }
+  return data;
+}
+
+export function useItineraries(playerId = 'player-1'): UseItinerariesReturn {
+  const [itineraries, setItineraries] = useState<Itinerary[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  const fetchItineraries = useCallback(async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch(`/api/itineraries?playerId=${encodeURIComponent(playerId)}`);
+      const data = await readResponse(response, 'Failed to load itineraries');
+
+      setItineraries(data.data);
+    } catch (err) {
+      console.error('Error fetching itineraries:', err);
+      setError(err instanceof Error ? err.message : 'Failed to load itineraries');
+    } finally {
+      setLoading(false);
+    }
+  }, [playerId]);
+
+  // Replace one itinerary in the list, newest first
+  const storeLocally = useCallback((itinerary: Itinerary) => {
+    setItineraries(current => [
+      itinerary,
+      ...current.filter(existing => existing.id !== itinerary.id)
+    ]);
+  }, []);
+
+  const createItinerary = useCallback(async (tournaments: Tournament[], name?: string, route?: RouteEditItem[]) => {
+    try {
+      setError(null);
+
+      const response = await fetch('/api/itineraries', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          playerId,
+          name,
+          tournaments: tournaments.map(t => t.id),
+          route: toRouteSteps(route)
+        })
+      });
+      const data = await readResponse(response, 'Failed to create itinerary');
+
+      storeLocally(data.data);
+      return data.data as Itinerary;
+    } catch (err) {
+      console.error('Error creating itinerary:', err);
+      setError(err instanceof Error ? err.message : 'Failed to create itinerary');
+      return null;
+    }
+  }, [playerId, storeLocally]);
+
+  const updateItinerary = useCallback(async (
+    itinerary: Itinerary,
+    changes: ItineraryChanges
+  ) => {
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/itineraries/${encodeURIComponent(itinerary.id)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          ...changes,
+          tournaments: changes.tournaments?.map(t => t.id),
+          route: toRouteSteps(changes.route),
+          lastModified: itinerary.lastModified
+        })
+      });
+      const data = await readResponse(response, 'Failed to update itinerary');
+
+      storeLocally(data.data);
+      return data.data as Itinerary;
+    } catch (err) {
+      console.error('Error updating itinerary:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update itinerary');
+      return null;
+    }
+  }, [storeLocally]);
+
+  const deleteItinerary = useCallback(async (itinerary: Itinerary) => {
+    try {
+      setError(null);
+
+      const lastModified = encodeURIComponent(itinerary.lastModified.toISOString());
+      const response = await fetch(
+        `/api/itineraries/${encodeURIComponent(itinerary.id)}?lastModified=${lastModified}`,
+        { method: 'DELETE' }
+      );
+      await readResponse(response, 'Failed to delete itinerary');
+
+      setItineraries(current => current.filter(existing => existing.id !== itinerary.id));
+      return true;
+    } catch (err) {
+      console.error('Error deleting itinerary:', err);
+      setError(err instanceof Error ? err.message : 'Failed to delete itinerary');
+      return false;
+    }
+  }, []);
+
+  // Initial fetch
+  useEffect(() => {
+    fetchItineraries();
+  }, [fetchItineraries]);
+
+  return {
+    itineraries,
+    loading,
+    error,
+    createItinerary,
+    updateItinerary,
+    deleteItinerary,
+    refetch: fetchItineraries
+  };
+}
@@ -0,0 +1,96 @@
+/**
+ * Custom hook for loading and saving the player's profile
+ */
+
+import { useState, useEffect, useCallback } from 'react';
+import { Player } from '@/types';
+import type { PlayerProfileUpdate } from '@/services/player-profile-service';
+
+interface UsePlayerProfileReturn {
+  player: Player | null;
+  loading: boolean;
+  error: string | null;
+  updateProfile: (update: PlayerProfileUpdate) => Promise<Player | null>;
+}
+
+// Convert date strings back to Date objects
+function reviveProfile(data: any): Player {
+  return {
+    ...data,
+    bankroll: {
+      ...data.bankroll,
+      lastUpdated: new Date(data.bankroll.lastUpdated)
+    },
+    homeBase: data.homeBase
+      ? { ...data.homeBase, geocodedAt: new Date(data.homeBase.geocodedAt) }
+      : undefined
+  };
+}
+
+export function usePlayerProfile(playerId = 'player-1'): UsePlayerProfileReturn {
+  const [player, setPlayer] = useState<Player | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const fetchProfile = async () => {
+      try {
+        setLoading(true);
+        setError(null);
+
+        const response = await fetch(`/api/players/${encodeURIComponent(playerId)}`);
+        const data = await response.json();
+
+        if (!response.ok) {
+          throw new Error(data.message || 'Failed to load player profile');
+        }
+
+        if (!cancelled) setPlayer(reviveProfile(data.data));
+      } catch (err) {
+        console.error('Error fetching player profile:', err);
+        if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load player profile');
+      } finally {
+        if (!cancelled) setLoading(false);
+      }
+    };
+
+    fetchProfile();
+    return () => {
+      cancelled = true;
+    };
+  }, [playerId]);
+
+  const updateProfile = useCallback(async (update: PlayerProfileUpdate) => {
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/players/${encodeURIComponent(playerId)}`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(update)
+      });
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.message || 'Failed to update player profile');
+      }
+
+      const updated = reviveProfile(data.data);
+      setPlayer(updated);
+      return updated;
+    } catch (err) {
+      console.error('Error updating player profile:', err);
+      setError(err instanceof Error ? err.message : 'Failed to update player profile');
+      return null;
+    }
+  }, [playerId]);
+
+  return {
+    player,
+    loading,
+    error,
+    updateProfile
+  };
+}
@@ -4,6 +4,7 @@
 
 import { useState, useEffect, useCallback } from 'react';
 import { Tournament } from '@/types';
+import type { SourceFetchResult } from '@/lib/scrapers/adapter';
 
 interface TournamentFilters {
   startDate?: string;
@@ -20,12 +21,7 @@ interface TournamentFilters {
 interface TournamentMeta {
   total: number;
   lastUpdated: number;
-  sources: {
-    cardPlayer: { count: number; lastUpdated: number; error?: string };
-    wsop: { count: number; lastUpdated: number; error?: string };
-    wpt: { count: number; lastUpdated: number; error?: string };
-    pokerAtlas: { count: number; lastUpdated: number; error?: string };
-  };
+  sources: Record<string, SourceFetchResult>; // per source, with quality alerts and run history
   filters: TournamentFilters;
 }
 
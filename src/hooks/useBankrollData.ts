@@ -1,4 +1,4 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo } from 'react'
 import { 
   BankrollDashboardData, 
   StakingDeal, 
@@ -7,6 +7,8 @@ import {
   SettlementCalculation,
   BankrollOptimizationSettings 
 } from '@/types/bankroll'
+import { BulletPlan, Tournament } from '@/types'
+import { DEFAULT_MAX_BUYIN_PERCENTAGE, getBuyinExposureAlerts } from '@/lib/bullets'
 
 // Demo data matching the execution specs: $127,500 bankroll with 
 // Mike Johnson (20% @ 1.2x markup) and Sarah Chen (15% @ 1.15x markup)
@@ -322,7 +324,22 @@ const DEMO_SETTLEMENTS: SettlementCalculation[] = [
   }
 ]
 
-export function useBankrollData() {
+interface UseBankrollDataOptions {
+  upcomingTournaments?: Tournament[]
+  bulletPlan?: BulletPlan
+  maxBuyinPercentage?: number // overrides the player's buy-in strategy
+}
+
+// The player's per-event buy-in limit from their bankroll strategy
+export function getMaxBuyinPercentage(data: BankrollDashboardData | null): number {
+  return data?.optimizationSettings?.buyinStrategy.maxBuyinPercentage ?? DEFAULT_MAX_BUYIN_PERCENTAGE
+}
+
+export function useBankrollData({
+  upcomingTournaments,
+  bulletPlan,
+  maxBuyinPercentage
+}: UseBankrollDataOptions = {}) {
   const [bankrollData, setBankrollData] = useState<BankrollDashboardData | null>(null)
   const [stakingDeals, setStakingDeals] = useState<StakingDeal[]>([])
   const [investors, setInvestors] = useState<Investor[]>([])
@@ -357,11 +374,26 @@ export function useBankrollData() {
     refreshData()
   }, [])
 
+  // With a real schedule, check each event's full bullet exposure instead of the demo alert
+  const scheduledAlerts = useMemo(() => {
+    if (!upcomingTournaments || !bankrollData) return alerts
+
+    return [
+      ...getBuyinExposureAlerts(
+        upcomingTournaments,
+        bankrollData.summary.totalBankroll,
+        maxBuyinPercentage ?? getMaxBuyinPercentage(bankrollData),
+        bulletPlan
+      ),
+      ...alerts.filter(alert => alert.type !== 'buyin_exceeds_percentage')
+    ]
+  }, [alerts, upcomingTournaments, bankrollData, maxBuyinPercentage, bulletPlan])
+
   return {
     bankrollData,
     stakingDeals,
     investors,
-    alerts,
+    alerts: scheduledAlerts,
     settlements,
     loading,
     error,
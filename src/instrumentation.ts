@@ -0,0 +1,7 @@
+// Next.js server startup hook - background jobs only run in the Node.js runtime
+export async function register() {
+  if (process.env.NEXT_RUNTIME === 'nodejs' && process.env.DISABLE_REMINDERS !== 'true') {
+    const { reminderService } = await import('./services/reminder-service');
+    reminderService.start();
+  }
+}
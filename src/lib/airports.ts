@@ -0,0 +1,43 @@
+import { Airport, Coordinates, Venue } from '@/types'
+import { airports } from '@/data/airports'
+import { distanceBetween } from './geo'
+
+export function getAirport(code: string): Airport | undefined {
+  return airports.find(a => a.code === code.toUpperCase())
+}
+
+// Closest airports to a point, nearest first
+export function findNearestAirports(location: Coordinates, limit = 3): Airport[] {
+  return airports
+    .map(airport => ({ airport, distance: distanceBetween(location, airport.coordinates) }))
+    .sort((a, b) => a.distance - b.distance)
+    .slice(0, limit)
+    .map(entry => entry.airport)
+}
+
+// Closest hub with nonstop service to most of the country
+export function findNearestHub(location: Coordinates, exclude: string[] = []): Airport | undefined {
+  return airports
+    .filter(airport => airport.hub && !exclude.includes(airport.code))
+    .reduce<Airport | undefined>((best, airport) =>
+      !best || distanceBetween(location, airport.coordinates) < distanceBetween(location, best.coordinates)
+        ? airport
+        : best,
+    undefined)
+}
+
+// Airports worth considering for a venue, closest first. Venues can pin their
+// own list (e.g. a casino that runs shuttles from a specific airport).
+export function getVenueAirports(venue: Venue, limit = 3): Airport[] {
+  if (venue.nearestAirports && venue.nearestAirports.length > 0) {
+    return resolveAirports(venue.nearestAirports).slice(0, limit)
+  }
+  return findNearestAirports(venue.coordinates, limit)
+}
+
+// Known airports for a list of IATA codes, skipping any we don't have
+export function resolveAirports(codes: string[]): Airport[] {
+  return codes
+    .map(code => getAirport(code))
+    .filter((airport): airport is Airport => airport !== undefined)
+}
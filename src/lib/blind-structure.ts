@@ -0,0 +1,342 @@
+import { BlindLevel, BlindStructure, StructureBreak, StructureDay, Tournament, TournamentStructure } from '@/types'
+import { addVenueDays } from './timezones'
+
+/**
+ * Blind structures and the metrics derived from them - how deep an event
+ * starts, how long Day 1 runs and how many days it takes to reach a winner.
+ * Published structure sheets are used when a source has one; otherwise we
+ * fall back to a standard live-tournament ladder built from the stack and
+ * level length the listing gives us.
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Big blind steps within each power of ten (200, 300, 400, 500, 600, 800, 1000...)
+const LADDER_STEPS = [1, 1.5, 2, 2.5, 3, 4, 5, 6, 8]
+const STANDARD_LEVEL_COUNT = 60
+const STANDARD_BREAK_MINUTES = 15
+const ANTE_FROM_LEVEL = 3 // big blind ante kicks in after the opening levels
+
+// The event wraps up once the chips in play are worth about this many big blinds
+const FINISH_BIG_BLINDS = 40
+const PLAY_HOURS_PER_DAY = 12 // includes breaks
+const MAX_SIMULATED_LEVELS = 200
+
+export interface StructureMetrics {
+  startingBigBlinds: number;
+  averageLevelMinutes: number; // over the first ten levels
+  levelsToFinish: number;
+  dayOneHours: number;
+  totalPlayHours: number;
+  playingDays: number;
+  dayEndBigBlinds: number[]; // big blind in play when each day ends
+  expectedFinish: Date;
+  qualityScore: number; // 0-100, deeper and slower is better
+}
+
+// Round down to a chip-friendly amount (25, 50, 100, 200, 500...)
+function toChipDenomination(amount: number): number {
+  if (amount < 25) return 25
+  const magnitude = Math.pow(10, Math.floor(Math.log10(amount)))
+  const step = [5, 2.5, 2, 1].find(s => s * magnitude <= amount) || 1
+  return step * magnitude
+}
+
+/**
+ * Standard ladder for events that don't publish a structure sheet: a 100 big
+ * blind start, big blind ante from level 3 and a short break every two hours.
+ */
+export function buildStandardStructure(structure: TournamentStructure): BlindStructure {
+  const baseBigBlind = toChipDenomination(structure.startingStack / 100)
+  const duration = structure.blindLevelDuration || 30
+  const breakEvery = Math.max(2, Math.round(120 / duration))
+
+  const levels: BlindLevel[] = []
+  const breaks: StructureBreak[] = []
+  for (let i = 0; i < STANDARD_LEVEL_COUNT; i++) {
+    const step = LADDER_STEPS[i % LADDER_STEPS.length]
+    const bigBlind = baseBigBlind * step * Math.pow(10, Math.floor(i / LADDER_STEPS.length))
+    levels.push({
+      level: i + 1,
+      smallBlind: bigBlind / 2,
+      bigBlind,
+      ante: i + 1 >= ANTE_FROM_LEVEL ? bigBlind : undefined,
+      duration
+    })
+    if ((i + 1) % breakEvery === 0) {
+      breaks.push({ afterLevel: i + 1, duration: STANDARD_BREAK_MINUTES })
+    }
+  }
+
+  return { levels, breaks, days: [], source: 'standard' }
+}
+
+// Standard ladders depend only on stack and level length - built once each
+const standardStructures = new Map<string, BlindStructure>()
+
+// Published sheet when we have one, standard ladder otherwise
+export function getBlindStructure(tournament: Tournament): BlindStructure {
+  const sheet = tournament.structure.blindStructure
+  if (sheet && sheet.levels.length > 0) return sheet
+
+  const key = `${tournament.structure.startingStack}:${tournament.structure.blindLevelDuration}`
+  let standard = standardStructures.get(key)
+  if (!standard) {
+    standard = buildStandardStructure(tournament.structure)
+    standardStructures.set(key, standard)
+  }
+  return standard
+}
+
+// "1,000" / "1.5K" / "2M" -> chips
+export function parseChipAmount(text: string): number | undefined {
+  const match = (text || '').replace(/,/g, '').match(/(\d+(?:\.\d+)?)\s*([km])?/i)
+  if (!match) return undefined
+  const multiplier = !match[2] ? 1 : match[2].toLowerCase() === 'k' ? 1000 : 1000000
+  return Math.round(parseFloat(match[1]) * multiplier)
+}
+
+// "100/200", "100-200" or "100/200/200" (with ante)
+function parseBlindPair(text: string): { smallBlind: number; bigBlind: number; ante?: number } | null {
+  const parts = (text || '').split(/\s*[/–-]\s*/).map(parseChipAmount)
+  if (parts.length < 2 || parts[0] === undefined || parts[1] === undefined) return null
+  return { smallBlind: parts[0], bigBlind: parts[1], ante: parts[2] }
+}
+
+function findColumn(header: string[], pattern: RegExp): number {
+  return header.findIndex(cell => pattern.test(cell))
+}
+
+/**
+ * Parse a structure sheet scraped as table rows (cell text per row).
+ * Handles combined "100/200" blinds or separate columns, break rows and
+ * "End of Day 1" rows. Returns null when no levels could be read.
+ */
+export function parseStructureSheet(rows: string[][], defaultDuration = 30): BlindStructure | null {
+  const headerIndex = rows.findIndex(row => row.some(cell => /^\s*(level|lvl)\b/i.test(cell)))
+  const header = headerIndex >= 0 ? rows[headerIndex].map(cell => cell.toLowerCase()) : []
+
+  const columns = {
+    level: headerIndex >= 0 ? findColumn(header, /level|lvl/) : 0,
+    smallBlind: findColumn(header, /small/),
+    bigBlind: findColumn(header, /big/),
+    blinds: headerIndex >= 0 ? findColumn(header, /blind/) : 1,
+    ante: headerIndex >= 0 ? findColumn(header, /ante/) : 2,
+    duration: headerIndex >= 0 ? findColumn(header, /min|duration|time|length/) : 3
+  }
+
+  const levels: BlindLevel[] = []
+  const breaks: StructureBreak[] = []
+  const days: StructureDay[] = []
+  let duration = defaultDuration
+
+  rows.slice(headerIndex + 1).forEach(cells => {
+    const text = cells.join(' ').trim()
+    if (!text) return
+    const lastLevel = levels.length > 0 ? levels[levels.length - 1].level : 0
+
+    const endOfDay = text.match(/end of day\s*(\d+[a-z]?)/i)
+    if (endOfDay) {
+      if (lastLevel > 0) days.push({ day: endOfDay[1].toUpperCase(), endsAfterLevel: lastLevel })
+      return
+    }
+
+    if (/break/i.test(text)) {
+      const minutes = text.match(/(\d+)\s*(?:min|minutes?)\b/i) || text.match(/(\d+)/)
+      if (lastLevel > 0) {
+        breaks.push({
+          afterLevel: lastLevel,
+          duration: minutes ? parseInt(minutes[1]) : STANDARD_BREAK_MINUTES,
+          label: cells.find(cell => /break/i.test(cell))?.trim()
+        })
+      }
+      return
+    }
+
+    const level = parseInt(cells[columns.level] || '')
+    if (isNaN(level)) return
+
+    const blinds = columns.smallBlind >= 0 && columns.bigBlind >= 0
+      ? {
+          smallBlind: parseChipAmount(cells[columns.smallBlind]) ?? 0,
+          bigBlind: parseChipAmount(cells[columns.bigBlind]) ?? 0,
+          ante: undefined as number | undefined
+        }
+      : parseBlindPair(cells[columns.blinds] || '')
+    if (!blinds || blinds.bigBlind <= 0) return
+
+    const ante = columns.ante >= 0 ? parseChipAmount(cells[columns.ante] || '') : undefined
+    const minutes = columns.duration >= 0 ? parseInt(cells[columns.duration] || '') : NaN
+    if (!isNaN(minutes) && minutes > 0) duration = minutes
+
+    levels.push({
+      level,
+      smallBlind: blinds.smallBlind,
+      bigBlind: blinds.bigBlind,
+      ante: ante || blinds.ante || undefined,
+      duration
+    })
+  })
+
+  if (levels.length === 0) return null
+  return { levels, breaks, days, source: 'sheet' }
+}
+
+// Level n of the structure, extrapolating past the end of a short sheet
+function levelAt(structure: BlindStructure, index: number): BlindLevel {
+  const { levels } = structure
+  if (index < levels.length) return levels[index]
+
+  const last = levels[levels.length - 1]
+  const previous = levels.length > 1 ? levels[levels.length - 2] : null
+  const growth = previous && last.bigBlind > previous.bigBlind ? last.bigBlind / previous.bigBlind : 1.25
+  const bigBlind = Math.round(last.bigBlind * Math.pow(growth, index - levels.length + 1))
+  return { level: last.level + index - levels.length + 1, smallBlind: bigBlind / 2, bigBlind, ante: bigBlind, duration: last.duration }
+}
+
+function breakAfter(structure: BlindStructure, level: number): number {
+  return structure.breaks
+    .filter(b => b.afterLevel === level)
+    .reduce((sum, b) => sum + b.duration, 0)
+}
+
+/**
+ * Minutes from the start to the end of the given number of levels, counting
+ * each level's own length and the breaks between them
+ */
+export function getMinutesThroughLevels(tournament: Tournament, levelCount: number): number {
+  const structure = getBlindStructure(tournament)
+  let minutes = 0
+  for (let i = 0; i < levelCount; i++) {
+    const level = levelAt(structure, i)
+    minutes += level.duration
+    if (i < levelCount - 1) minutes += breakAfter(structure, level.level)
+  }
+  return minutes
+}
+
+// 0-100: starting depth (40), level length (35) and how gently blinds climb (25)
+function scoreStructure(startingBigBlinds: number, averageLevelMinutes: number, structure: BlindStructure): number {
+  const depth = Math.min(40, Math.max(0, ((startingBigBlinds - 20) / 230) * 40))
+  const pace = Math.min(35, Math.max(0, ((averageLevelMinutes - 15) / 45) * 35))
+
+  const increases: number[] = []
+  for (let i = 1; i < Math.min(structure.levels.length, 16); i++) {
+    const prior = structure.levels[i - 1].bigBlind
+    if (prior > 0) increases.push(structure.levels[i].bigBlind / prior)
+  }
+  const averageIncrease = increases.length > 0
+    ? increases.reduce((sum, r) => sum + r, 0) / increases.length
+    : 1.5
+  const progression = Math.min(25, Math.max(0, ((1.5 - averageIncrease) / 0.3) * 25))
+
+  return Math.round(depth + pace + progression)
+}
+
+// The solver asks for the same events' metrics at every candidate step, so
+// they're kept per tournament id - keyed on what they're derived from, in
+// case a refreshed listing changes the event
+const metricsCache = new Map<Tournament['id'], { key: string; metrics: StructureMetrics }>()
+
+function metricsKey(tournament: Tournament): string {
+  const { structure } = tournament
+  return [
+    tournament.startDate.getTime(),
+    tournament.estimatedField,
+    tournament.venue.timezone,
+    structure.startingStack,
+    structure.blindLevelDuration,
+    structure.blindStructure ? structure.blindStructure.levels.length : 0
+  ].join('|')
+}
+
+/**
+ * Derive depth, day lengths and the expected finish for an event.
+ * Play runs level by level until the chips in play are worth FINISH_BIG_BLINDS,
+ * split into days by the sheet's "End of Day" markers or by a standard
+ * 12-hour playing day. Each day restarts at the Day 1 wall-clock start time.
+ */
+export function getStructureMetrics(tournament: Tournament): StructureMetrics {
+  const key = metricsKey(tournament)
+  const cached = metricsCache.get(tournament.id)
+  if (cached && cached.key === key) return cached.metrics
+
+  const metrics = computeStructureMetrics(tournament)
+  metricsCache.set(tournament.id, { key, metrics })
+  return metrics
+}
+
+function computeStructureMetrics(tournament: Tournament): StructureMetrics {
+  const structure = getBlindStructure(tournament)
+  const first = structure.levels[0]
+  const startingBigBlinds = first.bigBlind > 0 ? tournament.structure.startingStack / first.bigBlind : 0
+
+  const opening = structure.levels.slice(0, 10)
+  const averageLevelMinutes = opening.reduce((sum, level) => sum + level.duration, 0) / opening.length
+
+  const chipsInPlay = Math.max(2, tournament.estimatedField) * tournament.structure.startingStack
+  const finishBigBlind = chipsInPlay / FINISH_BIG_BLINDS
+
+  // Minutes played through each level, breaks included
+  let minutes = 0
+  let levelsToFinish = 0
+  const dayEnds: number[] = [] // minutes elapsed at the end of each completed day
+  const daySplits = structure.days.map(day => day.endsAfterLevel)
+  const levelEnds: Array<{ minutes: number; bigBlind: number }> = []
+  while (levelsToFinish < MAX_SIMULATED_LEVELS) {
+    const level = levelAt(structure, levelsToFinish)
+    levelsToFinish++
+    minutes += level.duration
+    levelEnds.push({ minutes, bigBlind: level.bigBlind })
+    if (level.bigBlind >= finishBigBlind) break
+    minutes += breakAfter(structure, level.level)
+    if (daySplits.includes(level.level)) dayEnds.push(minutes)
+  }
+
+  const totalPlayHours = minutes / 60
+  let dayHours: number[]
+  if (daySplits.length > 0) {
+    dayHours = dayEnds.map((end, i) => (end - (i > 0 ? dayEnds[i - 1] : 0)) / 60)
+    dayHours.push(totalPlayHours - (dayEnds.length > 0 ? dayEnds[dayEnds.length - 1] / 60 : 0))
+  } else {
+    dayHours = []
+    for (let remaining = totalPlayHours; remaining > 0; remaining -= PLAY_HOURS_PER_DAY) {
+      dayHours.push(Math.min(PLAY_HOURS_PER_DAY, remaining))
+    }
+  }
+  dayHours = dayHours.filter(hours => hours > 0)
+  if (dayHours.length === 0) dayHours = [totalPlayHours]
+
+  const playingDays = dayHours.length
+  let elapsed = 0
+  const dayEndBigBlinds = dayHours.map(hours => {
+    elapsed += hours * 60
+    const level = levelEnds.find(end => end.minutes >= elapsed - 0.5) || levelEnds[levelEnds.length - 1]
+    return level.bigBlind
+  })
+  const lastDayStart = addVenueDays(tournament.startDate, playingDays - 1, tournament.venue.timezone)
+
+  return {
+    startingBigBlinds: Math.round(startingBigBlinds),
+    averageLevelMinutes: Math.round(averageLevelMinutes),
+    levelsToFinish,
+    dayOneHours: Math.round(dayHours[0] * 10) / 10,
+    totalPlayHours: Math.round(totalPlayHours * 10) / 10,
+    playingDays,
+    dayEndBigBlinds,
+    expectedFinish: new Date(lastDayStart.getTime() + dayHours[playingDays - 1] * HOUR_MS),
+    qualityScore: scoreStructure(startingBigBlinds, averageLevelMinutes, structure)
+  }
+}
+
+// When the player is done at this event - the structure's finish, never past the listed end
+export function getScheduledFinish(tournament: Tournament): Date {
+  const { expectedFinish } = getStructureMetrics(tournament)
+  return expectedFinish < tournament.endDate ? expectedFinish : tournament.endDate
+}
+
+// "100 BB start, 40-minute levels, 2 days"
+export function describeStructure(metrics: StructureMetrics): string {
+  const days = metrics.playingDays === 1 ? '1 day' : `${metrics.playingDays} days`
+  return `${metrics.startingBigBlinds} BB start, ${metrics.averageLevelMinutes}-minute levels, ${days}`
+}
@@ -0,0 +1,80 @@
+import { BulletPlan, Tournament, TournamentStructure } from '@/types'
+import { BankrollAlert } from '@/types/bankroll'
+
+// Typical entries per event when a player hasn't tuned their own plan
+export const DEFAULT_BULLET_PLAN: BulletPlan = {
+  expectedBullets: {
+    freezeout: 1,
+    shootout: 1,
+    satellite: 1.3,
+    reentry: 1.6,
+    rebuy: 2.2
+  },
+  maxBulletsPerEvent: 3
+}
+
+// Share of the bankroll one event may put at risk when the player hasn't set
+// their own - matches the BankrollSettings buy-in strategy default
+export const DEFAULT_MAX_BUYIN_PERCENTAGE = 5
+
+// Structures where a second bullet isn't possible
+const SINGLE_ENTRY: TournamentStructure['type'][] = ['freezeout', 'shootout']
+
+// Most bullets the player will fire in this event
+export function getBulletCap(tournament: Tournament, plan: BulletPlan = DEFAULT_BULLET_PLAN): number {
+  if (SINGLE_ENTRY.includes(tournament.structure.type)) return 1
+
+  const cap = plan.eventCaps?.[tournament.id] ?? plan.maxBulletsPerEvent
+  return Math.max(1, cap)
+}
+
+// Average bullets for this event, bounded by the player's cap
+export function getExpectedBullets(tournament: Tournament, plan: BulletPlan = DEFAULT_BULLET_PLAN): number {
+  const type = tournament.structure.type
+  const expected = plan.expectedBullets[type] ?? DEFAULT_BULLET_PLAN.expectedBullets[type] ?? 1
+
+  return Math.min(Math.max(1, expected), getBulletCap(tournament, plan))
+}
+
+// Expected buy-in spend including re-entries and rebuys
+export function getExpectedBuyInCost(tournament: Tournament, plan?: BulletPlan): number {
+  return tournament.buyIn * getExpectedBullets(tournament, plan)
+}
+
+// Worst case - every bullet up to the cap gets fired
+export function getMaxBuyInExposure(tournament: Tournament, plan?: BulletPlan): number {
+  return tournament.buyIn * getBulletCap(tournament, plan)
+}
+
+/**
+ * Flag events whose full bullet exposure breaks the bankroll percentage rule.
+ * A $1,500 re-entry with a 3-bullet cap is judged as $4,500, not $1,500.
+ */
+export function getBuyinExposureAlerts(
+  tournaments: Tournament[],
+  bankroll: number,
+  maxBuyinPercentage: number,
+  plan?: BulletPlan
+): BankrollAlert[] {
+  const limit = bankroll * (maxBuyinPercentage / 100)
+
+  return tournaments
+    .filter(tournament => getMaxBuyInExposure(tournament, plan) > limit)
+    .map(tournament => {
+      const bullets = getBulletCap(tournament, plan)
+      const exposure = getMaxBuyInExposure(tournament, plan)
+      const bulletNote = bullets > 1
+        ? ` with up to ${bullets} bullets ($${exposure.toLocaleString()} total)`
+        : ''
+
+      return {
+        id: `alert_buyin_${tournament.id}`,
+        type: 'buyin_exceeds_percentage' as const,
+        threshold: maxBuyinPercentage,
+        enabled: true,
+        frequency: 'once' as const,
+        message: `${tournament.name} buy-in ($${tournament.buyIn.toLocaleString()})${bulletNote} exceeds ${maxBuyinPercentage}% of bankroll`,
+        actionRequired: true
+      }
+    })
+}
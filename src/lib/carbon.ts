@@ -0,0 +1,104 @@
+import { CarbonFootprint, CarbonSeasonSummary, Itinerary, TravelLeg, TravelOption } from '@/types'
+import { RouteLeg, RouteSolution } from './route-solver'
+
+/**
+ * Travel emissions for circuits.
+ * Per-mile factors by mode (per passenger, kg CO2): flights count flown miles,
+ * road legs count road miles for one car. Options carry their own footprint
+ * when they were priced leg by leg; otherwise it is estimated from the miles
+ * they cover, and only from duration when the distance is unknown.
+ */
+
+export const CARBON_KG_PER_MILE: Record<TravelOption['type'], number> = { fly: 0.24, drive: 0.40, train: 0.09, bus: 0.14 }
+
+// Door-to-door speeds, airport and station time included - for options with no distance
+const AVERAGE_SPEED_MPH: Record<TravelOption['type'], number> = { fly: 350, drive: 55, train: 50, bus: 45 }
+
+// Emission factor for each part of a journey; layovers emit nothing of their own
+const LEG_MODES: Record<TravelLeg['mode'], TravelOption['type'] | null> = {
+  flight: 'fly',
+  drive: 'drive',
+  rideshare: 'drive',
+  rental: 'drive',
+  train: 'train',
+  connection: null
+}
+
+const MODES: TravelOption['type'][] = ['fly', 'drive', 'train', 'bus']
+
+function emptyFootprint(): CarbonFootprint {
+  return { total: 0, byMode: { fly: 0, drive: 0, train: 0, bus: 0 } }
+}
+
+function round(footprint: CarbonFootprint): CarbonFootprint {
+  MODES.forEach(mode => { footprint.byMode[mode] = Math.round(footprint.byMode[mode]) })
+  return { ...footprint, total: Math.round(footprint.total) }
+}
+
+export function legFootprint(leg: Pick<RouteLeg, 'method' | 'distance'>): number {
+  return leg.distance * CARBON_KG_PER_MILE[leg.method]
+}
+
+export function travelFootprint(option: TravelOption): number {
+  if (option.carbonFootprint !== undefined) return option.carbonFootprint
+
+  const legs = option.legs || []
+  if (legs.length > 0 && legs.every(leg => leg.distance !== undefined || leg.mode === 'connection')) {
+    return legs.reduce((sum, leg) => {
+      const mode = LEG_MODES[leg.mode]
+      return mode ? sum + (leg.distance || 0) * CARBON_KG_PER_MILE[mode] : sum
+    }, 0)
+  }
+
+  const miles = option.distance ?? option.duration * AVERAGE_SPEED_MPH[option.type]
+  return miles * CARBON_KG_PER_MILE[option.type]
+}
+
+// Solver estimate for a route, return home included
+export function routeFootprint(solution: RouteSolution): number {
+  const legs = solution.schedule.map(entry => entry.inbound)
+  if (solution.returnLeg) legs.push(solution.returnLeg)
+  return Math.round(legs.reduce((sum, leg) => sum + legFootprint(leg), 0))
+}
+
+export function itineraryFootprint(itinerary: Itinerary): CarbonFootprint {
+  const footprint = emptyFootprint()
+  itinerary.route.forEach(stop => {
+    [stop.travel.inbound, stop.travel.outbound].forEach(option => {
+      if (!option) return
+      const kg = travelFootprint(option)
+      footprint.byMode[option.type] += kg
+      footprint.total += kg
+    })
+  })
+  return round(footprint)
+}
+
+/**
+ * Totals per season, newest first. A circuit counts toward the year its first
+ * stop starts in.
+ */
+export function summarizeCarbonBySeason(itineraries: Itinerary[]): CarbonSeasonSummary[] {
+  const seasons = new Map<string, { footprint: CarbonFootprint; itineraries: number; events: number }>()
+  itineraries.forEach(itinerary => {
+    if (itinerary.route.length === 0) return
+    const season = String(new Date(itinerary.route[0].arrivalDate).getFullYear())
+    const entry = seasons.get(season) || { footprint: emptyFootprint(), itineraries: 0, events: 0 }
+    const footprint = itineraryFootprint(itinerary)
+    MODES.forEach(mode => { entry.footprint.byMode[mode] += footprint.byMode[mode] })
+    entry.footprint.total += footprint.total
+    entry.itineraries += 1
+    entry.events += itinerary.route.length
+    seasons.set(season, entry)
+  })
+
+  return Array.from(seasons.entries())
+    .map(([season, { footprint, itineraries: count, events }]) => ({
+      season,
+      ...round(footprint),
+      itineraries: count,
+      events,
+      perEvent: events > 0 ? Math.round(footprint.total / events) : 0
+    }))
+    .sort((a, b) => b.season.localeCompare(a.season))
+}
@@ -0,0 +1,135 @@
+import { CircuitSuggestion, Player, SkippedTournament, Tournament } from '@/types'
+import { DEFAULT_MAX_BUYIN_PERCENTAGE, getExpectedBuyInCost, getMaxBuyInExposure } from './bullets'
+import { estimateCircuitCost, generateItinerary, getHomeLocation } from './optimization'
+
+/**
+ * Automatic circuit selection.
+ * Picks which events in a date window to play, not just the order. Each
+ * event's expected profit comes from the player's expected ROI on its buy-ins;
+ * candidates are tried best first and join the circuit only if the route still
+ * works, the bankroll rules and budget hold, and the event adds more expected
+ * profit than the extra travel, hotel and food it costs.
+ */
+
+const MAX_CIRCUIT_BANKROLL_SHARE = 0.25 // total bullet exposure one circuit may put at risk
+const MAX_CANDIDATES = 25 // keeps the route solver quick on busy windows
+
+export interface CircuitSuggestionOptions {
+  budgetMax: number; // total planned cost, buy-ins included
+  expectedRoi?: Record<string, number>; // tournament id -> expected ROI %
+  maxBuyinPercentage?: number; // of the tournament bankroll, per event with every bullet fired
+  alternates?: Tournament[]; // events to fall back on after an early bust
+}
+
+export function suggestCircuit(
+  candidates: Tournament[],
+  player: Player,
+  options: CircuitSuggestionOptions
+): CircuitSuggestion {
+  const { budgetMax, expectedRoi = {}, alternates = [] } = options
+  const maxBuyinPercentage = options.maxBuyinPercentage ?? DEFAULT_MAX_BUYIN_PERCENTAGE
+  const bulletPlan = player.preferences.bulletPlan
+  const bankroll = player.bankroll.tournamentBankroll
+  const homeLocation = getHomeLocation(player)
+
+  const skipped: SkippedTournament[] = []
+  const skip = (tournament: Tournament, reason: SkippedTournament['reason'], description: string) => {
+    skipped.push({ tournament, reason, description })
+  }
+
+  const roiOf = (t: Tournament) => expectedRoi[t.id] ?? player.statistics?.roi ?? 0
+  const expectedProfit = (t: Tournament) => getExpectedBuyInCost(t, bulletPlan) * (roiOf(t) / 100)
+  const buyIns = (events: Tournament[]) => events.reduce((sum, t) => sum + getExpectedBuyInCost(t, bulletPlan), 0)
+  const valueOf = (events: Tournament[]) => events.reduce((sum, t) => sum + expectedProfit(t), 0)
+
+  // Events the player wouldn't or shouldn't play whatever the route
+  const perEventLimit = bankroll * (maxBuyinPercentage / 100)
+  const preferredTypes = player.preferences.tournamentTypes
+  const eligible: Tournament[] = []
+  candidates.forEach(t => {
+    if (preferredTypes.length > 0 && !preferredTypes.includes(t.structure.type)) {
+      skip(t, 'preferences', `${t.structure.type} events are not in your preferred tournament types`)
+    } else if (getMaxBuyInExposure(t, bulletPlan) > perEventLimit) {
+      skip(t, 'bankroll', `Up to $${getMaxBuyInExposure(t, bulletPlan).toLocaleString()} in buy-ins is over ${maxBuyinPercentage}% of your tournament bankroll`)
+    } else if (expectedProfit(t) <= 0) {
+      skip(t, 'negative-value', `An expected ROI of ${roiOf(t).toFixed(1)}% makes this a losing event`)
+    } else {
+      eligible.push(t)
+    }
+  })
+
+  const ranked = eligible.sort((a, b) => expectedProfit(b) - expectedProfit(a))
+  ranked.slice(MAX_CANDIDATES).forEach(t => {
+    skip(t, 'not-worth-travel', `Lower expected profit than the ${MAX_CANDIDATES} best events in the window`)
+  })
+
+  // Greedy build, best expected profit first
+  const exposureLimit = bankroll * MAX_CIRCUIT_BANKROLL_SHARE
+  let selected: Tournament[] = []
+  let selectedTravel = 0
+  let selectedNet = 0
+  for (const tournament of ranked.slice(0, MAX_CANDIDATES)) {
+    const trial = [...selected, tournament]
+
+    const exposure = trial.reduce((sum, t) => sum + getMaxBuyInExposure(t, bulletPlan), 0)
+    if (exposure > exposureLimit) {
+      skip(tournament, 'bankroll', `Would put more than ${MAX_CIRCUIT_BANKROLL_SHARE * 100}% of your tournament bankroll at risk on one circuit`)
+      continue
+    }
+
+    const { solution, cost } = estimateCircuitCost(trial, player, homeLocation)
+    if (solution.route.length < trial.length) {
+      skip(tournament, 'schedule-conflict', 'Cannot be fitted around the events already chosen')
+      continue
+    }
+    if (cost > budgetMax) {
+      skip(tournament, 'over-budget', `Would take the circuit to $${Math.round(cost).toLocaleString()}, over your $${budgetMax.toLocaleString()} budget`)
+      continue
+    }
+
+    const travel = cost - buyIns(trial)
+    const net = valueOf(trial) - travel
+    if (net <= selectedNet) {
+      skip(tournament, 'not-worth-travel', `Adds $${Math.round(expectedProfit(tournament)).toLocaleString()} expected profit but $${Math.round(travel - selectedTravel).toLocaleString()} in travel and stays`)
+      continue
+    }
+
+    selected = solution.route
+    selectedTravel = travel
+    selectedNet = net
+  }
+
+  // The detailed plan can cost more than the estimate - trim the weakest events
+  // until it fits the budget and still pays for its travel
+  const planItinerary = (events: Tournament[]) => {
+    if (events.length === 0) return null
+    const itinerary = generateItinerary(events, player, homeLocation, alternates)
+    return { ...itinerary, name: `Suggested ${itinerary.name}` }
+  }
+  let itinerary = planItinerary(selected)
+  while (itinerary) {
+    const travel = itinerary.totalCost - buyIns(selected)
+    const overBudget = itinerary.totalCost > budgetMax
+    if (!overBudget && valueOf(selected) > travel) break
+
+    const weakest = [...selected].sort((a, b) => expectedProfit(a) - expectedProfit(b))[0]
+    if (overBudget) {
+      skip(weakest, 'over-budget', `Dropped to bring the planned itinerary ($${Math.round(itinerary.totalCost).toLocaleString()}) under your $${budgetMax.toLocaleString()} budget`)
+    } else {
+      skip(weakest, 'not-worth-travel', `Dropped because the planned circuit's $${Math.round(travel).toLocaleString()} in travel and stays outweighs its expected profit`)
+    }
+    selected = selected.filter(t => t.id !== weakest.id)
+    itinerary = planItinerary(selected)
+  }
+
+  const expectedValue = Math.round(valueOf(selected))
+  const travelCost = itinerary ? Math.round(itinerary.totalCost - buyIns(selected)) : 0
+  return {
+    itinerary,
+    selected,
+    skipped,
+    expectedValue,
+    travelCost,
+    netValue: expectedValue - travelCost
+  }
+}
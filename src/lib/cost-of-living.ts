@@ -0,0 +1,110 @@
+import { Coordinates, Hotel, Player } from '@/types'
+import { costOfLiving, CostOfLivingDataset, MetroCosts } from '@/data/cost-of-living'
+import { qualityPriceRanges } from '@/data/hotel-rates'
+import { distanceBetween } from './geo'
+import { getZonedParts, isValidTimeZone } from './timezones'
+
+/**
+ * Local costs at a circuit stop - hotels by price band and season, food per
+ * diem, rideshares and parking. Places resolve to a metro by city name, then
+ * by distance to the metro centre; anywhere else gets the fallback costs.
+ * The optimizer, itinerary builder and budget checks all price through here.
+ */
+
+const METRO_RADIUS_MILES = 40
+
+export interface CostPlace {
+  city?: string;
+  coordinates?: Coordinates;
+}
+
+type LocalCosts = CostOfLivingDataset['fallback'] & { timezone?: string }
+
+let dataset: CostOfLivingDataset = costOfLiving
+
+export function getCostOfLivingVersion(): string {
+  return dataset.version
+}
+
+/**
+ * Swap in fresher numbers. Metros are replaced by id and new ones added;
+ * everything not mentioned keeps its current costs.
+ */
+export function updateCostOfLiving(update: Partial<CostOfLivingDataset>): void {
+  const replaced = new Map((update.metros || []).map(metro => [metro.id, metro]))
+  dataset = {
+    version: update.version || dataset.version,
+    metros: dataset.metros
+      .filter(metro => !replaced.has(metro.id))
+      .concat(Array.from(replaced.values())),
+    fallback: update.fallback || dataset.fallback
+  }
+}
+
+export function resetCostOfLiving(): void {
+  dataset = costOfLiving
+}
+
+export function findMetro(place: CostPlace): MetroCosts | undefined {
+  const city = place.city?.trim().toLowerCase()
+  if (city) {
+    const named = dataset.metros.find(metro => metro.cities.some(c => c.toLowerCase() === city))
+    if (named) return named
+  }
+
+  if (!place.coordinates) return undefined
+  const coordinates = place.coordinates
+  const nearest = dataset.metros
+    .map(metro => ({ metro, distance: distanceBetween(coordinates, metro.coordinates) }))
+    .sort((a, b) => a.distance - b.distance)[0]
+  return nearest && nearest.distance <= METRO_RADIUS_MILES ? nearest.metro : undefined
+}
+
+function costsAt(place: CostPlace): LocalCosts {
+  return findMetro(place) || dataset.fallback
+}
+
+function monthDay(date: Date, timeZone?: string): string {
+  const { month, day } = getZonedParts(date, isValidTimeZone(timeZone) ? timeZone : 'UTC')
+  return `${String(month).padStart(2, '0')}-${String(day).padStart(2, '0')}`
+}
+
+/**
+ * Hotel rate multiplier on a date - the first matching season, else 1
+ */
+export function getSeasonalMultiplier(place: CostPlace, date: Date): { multiplier: number; season?: string } {
+  const costs = costsAt(place)
+  const day = monthDay(date, costs.timezone)
+  const season = costs.seasons.find(({ start, end }) =>
+    start <= end ? day >= start && day <= end : day >= start || day <= end
+  )
+  return season ? { multiplier: season.multiplier, season: season.label } : { multiplier: 1 }
+}
+
+// Typical nightly rate for a price band, seasonally adjusted when a date is given
+export function getHotelRate(place: CostPlace, priceRange: Hotel['priceRange'], date?: Date): number {
+  const rate = costsAt(place).hotelRates[priceRange]
+  return Math.round(date ? rate * getSeasonalMultiplier(place, date).multiplier : rate)
+}
+
+// Nightly rate for the band that best fits a hotel class
+export function getQualityRate(
+  place: CostPlace,
+  quality: Player['preferences']['hotelQuality'] = 'mid-range',
+  date?: Date
+): number {
+  return getHotelRate(place, qualityPriceRanges[quality][0], date)
+}
+
+export function getFoodPerDay(place: CostPlace): number {
+  return costsAt(place).foodPerDay
+}
+
+export function getRideshareFare(place: CostPlace, miles: number): number {
+  const { baseFare, perMile } = costsAt(place).rideshare
+  return Math.round(baseFare + miles * perMile)
+}
+
+export function getParkingPerDay(place: CostPlace): number {
+  return costsAt(place).parkingPerDay
+}
@@ -0,0 +1,49 @@
+import { Player, Tournament } from '@/types'
+import { getExpectedBullets } from './bullets'
+import { getStructureMetrics } from './blind-structure'
+
+/**
+ * How far into a multi-day event a player can expect to get.
+ * Survival comes from the structure: by the end of a day the chips in play are
+ * spread over roughly AVERAGE_STACK_BIG_BLINDS per remaining player, so the
+ * share of entries still alive is startingStack / (40 x big blind). Extra
+ * bullets and a better-than-average cash rate both push the odds up.
+ */
+
+const AVERAGE_STACK_BIG_BLINDS = 40
+const TYPICAL_ITM_PERCENTAGE = 15 // share of the field paid in most live events
+
+export interface DeepRunOdds {
+  playingDays: number;
+  reachDay: number[]; // chance of playing each day, reachDay[0] (Day 1) is always 1
+  cash: number;
+}
+
+// Player's cash rate relative to the typical field, bounded to avoid wild swings
+function getSkillFactor(player?: Player): number {
+  const itm = player?.statistics?.itm
+  if (!itm || itm <= 0) return 1
+  return Math.min(2, Math.max(0.5, itm / TYPICAL_ITM_PERCENTAGE))
+}
+
+export function getDeepRunOdds(tournament: Tournament, player?: Player): DeepRunOdds {
+  const metrics = getStructureMetrics(tournament)
+  const skill = getSkillFactor(player)
+  const bullets = getExpectedBullets(tournament, player?.preferences.bulletPlan)
+
+  const reachDay = [1]
+  for (let day = 1; day < metrics.playingDays; day++) {
+    const bigBlind = metrics.dayEndBigBlinds[day - 1]
+    const perEntry = Math.min(1, (tournament.structure.startingStack / (AVERAGE_STACK_BIG_BLINDS * bigBlind)) * skill)
+    // Any one of the player's bullets can bag
+    const survival = 1 - Math.pow(1 - perEntry, bullets)
+    reachDay.push(Math.min(reachDay[day - 1], survival))
+  }
+
+  const perEntryCash = Math.min(1, (TYPICAL_ITM_PERCENTAGE / 100) * skill)
+  return {
+    playingDays: metrics.playingDays,
+    reachDay,
+    cash: 1 - Math.pow(1 - perEntryCash, bullets)
+  }
+}
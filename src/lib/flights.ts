@@ -0,0 +1,243 @@
+import { Airport, Coordinates, TravelLeg } from '@/types'
+import { airports } from '@/data/airports'
+import { fareTable, bookingWindowMultipliers } from '@/data/travel-fares'
+import { distanceBetween } from './geo'
+import { findNearestAirports, findNearestHub, resolveAirports } from './airports'
+import { travelPricing, PricingPlace } from './travel-pricing'
+import { groundTransfer, GroundPoint } from './ground-transport'
+
+/**
+ * Door-to-door flight planning.
+ * Nobody flies city to city: the player gets to an airport near where they
+ * are, flies (connecting through a hub when neither end is one), then rides or
+ * drives from the arrival airport to the venue. Every pair of nearby airports
+ * is tried and the journey with the best cost/time trade-off wins - flying into
+ * Atlanta and driving to Cherokee often beats a connection into Asheville.
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const DEFAULT_DAYS_AHEAD = 14
+
+const MAX_AIRPORT_MILES = 150 // furthest we'll send someone by road to catch a flight
+
+const CRUISE_MPH = 500
+const TAXI_HOURS = 0.5 // taxi, climb and descent on every flight
+const AIRPORT_CHECK_IN_HOURS = 1.5 // at the airport before departure
+const DEPLANE_HOURS = 0.5 // bags and the rental counter
+const CONNECTION_HOURS = 1.25
+const REGIONAL_SURCHARGE = 35 // per non-hub airport - fewer carriers, less competition
+const VALUE_OF_TIME_PER_HOUR = 25 // weighs a cheaper fare against a longer travel day
+
+export interface FlightPlace {
+  coordinates: Coordinates;
+  city: string;
+  airports?: Airport['code'][]; // preferred airports, closest first
+}
+
+export interface FlightJourney {
+  origin: Airport;
+  destination: Airport;
+  connection?: Airport;
+  legs: TravelLeg[];
+  cost: number;
+  duration: number; // hours, door to door
+  departure: Date;
+  arrival: Date;
+  flightMiles: number;
+  groundMiles: number;
+  carrier?: string;
+  bookingUrl?: string;
+}
+
+interface FlightPlan {
+  legs: TravelLeg[];
+  fare: number;
+  miles: number;
+  connection?: Airport;
+  carrier?: string;
+  bookingUrl?: string;
+}
+
+function airportLabel(airport: Airport): string {
+  return `${airport.city} (${airport.code})`
+}
+
+function airportPlace(airport: Airport): PricingPlace {
+  return { coordinates: airport.coordinates, city: airport.city, state: airport.state }
+}
+
+function airportPoint(airport: Airport): GroundPoint {
+  return { label: airportLabel(airport), coordinates: airport.coordinates }
+}
+
+/**
+ * Airports a traveller could reasonably use from a place: its preferred list
+ * (or the nearest three) plus the nearest hub, within driving range.
+ */
+export function getAirportOptions(place: FlightPlace): Airport[] {
+  const preferred = place.airports ? resolveAirports(place.airports) : []
+  const candidates = preferred.length > 0 ? preferred : findNearestAirports(place.coordinates)
+
+  const hub = findNearestHub(place.coordinates)
+  if (hub && !candidates.some(airport => airport.code === hub.code)) {
+    candidates.push(hub)
+  }
+
+  const reachable = candidates.filter(airport =>
+    distanceBetween(place.coordinates, airport.coordinates) <= MAX_AIRPORT_MILES
+  )
+  return reachable.length > 0 ? reachable : candidates.slice(0, 1)
+}
+
+// Hub that adds the least distance between two regional airports
+function findConnection(origin: Airport, destination: Airport): Airport | undefined {
+  return airports
+    .filter(airport => airport.hub && airport.code !== origin.code && airport.code !== destination.code)
+    .map(hub => ({
+      hub,
+      miles: distanceBetween(origin.coordinates, hub.coordinates) + distanceBetween(hub.coordinates, destination.coordinates)
+    }))
+    .sort((a, b) => a.miles - b.miles)[0]?.hub
+}
+
+// Fare-table estimate for when no provider has quoted the route yet
+function estimateFare(miles: number, arriveBy: Date): number {
+  const rule = fareTable.fly
+  const daysAhead = Math.max(0, (arriveBy.getTime() - Date.now()) / DAY_MS)
+  const window = bookingWindowMultipliers.find(w => daysAhead <= w.maxDaysAhead)
+  const fare = Math.max(miles * rule.perMile * (window ? window.multiplier : 1), rule.minimum)
+  return Math.round(fare + rule.fixedFee)
+}
+
+/**
+ * Flights between two airports landing by `arrival`, nonstop when either end
+ * is a hub. The connection is sold as one through fare. Null when no carrier
+ * serves the pair.
+ */
+function planFlights(origin: Airport, destination: Airport, arrival: Date): FlightPlan | null {
+  const connection = origin.hub || destination.hub ? undefined : findConnection(origin, destination)
+  const hops = connection ? [origin, connection, destination] : [origin, destination]
+
+  const quotes = travelPricing.getQuotesSync({
+    mode: 'fly',
+    from: airportPlace(origin),
+    to: airportPlace(destination),
+    arriveBy: arrival
+  })
+  if (quotes && quotes.length === 0) return null
+  const quote = quotes?.[0]
+
+  // Schedule backwards from the landing time
+  const legs: TravelLeg[] = []
+  let miles = 0
+  let time = arrival
+  for (let i = hops.length - 1; i > 0; i--) {
+    const from = hops[i - 1]
+    const to = hops[i]
+    const distance = distanceBetween(from.coordinates, to.coordinates)
+    const duration = distance / CRUISE_MPH + TAXI_HOURS
+    const departure = new Date(time.getTime() - duration * HOUR_MS)
+    legs.unshift({
+      mode: 'flight',
+      from: airportLabel(from),
+      to: airportLabel(to),
+      departure,
+      arrival: time,
+      duration,
+      cost: 0,
+      distance: Math.round(distance),
+      carrier: quote?.carrier
+    })
+    miles += distance
+
+    if (i > 1) {
+      const layoverStart = new Date(departure.getTime() - CONNECTION_HOURS * HOUR_MS)
+      legs.unshift({
+        mode: 'connection',
+        from: airportLabel(from),
+        to: airportLabel(from),
+        departure: layoverStart,
+        arrival: departure,
+        duration: CONNECTION_HOURS,
+        cost: 0,
+        airport: from.code
+      })
+      time = layoverStart
+    } else {
+      time = departure
+    }
+  }
+
+  const surcharge = [origin, destination].filter(airport => !airport.hub).length * REGIONAL_SURCHARGE
+  const fare = (quote ? quote.price : estimateFare(distanceBetween(origin.coordinates, destination.coordinates), arrival)) + surcharge
+  // The through fare is carried on the first flight
+  const firstFlight = legs.find(leg => leg.mode === 'flight')
+  if (firstFlight) firstFlight.cost = fare
+
+  return { legs, fare, miles, connection, carrier: quote?.carrier, bookingUrl: quote?.bookingUrl }
+}
+
+/**
+ * Cheapest sensible door-to-door flight journey arriving by `arriveBy`, or
+ * null when the two places share their only airport or no route is served.
+ */
+export function planFlightJourney(from: FlightPlace, to: FlightPlace, arriveBy?: Date): FlightJourney | null {
+  const arrival = arriveBy || new Date(Date.now() + DEFAULT_DAYS_AHEAD * DAY_MS)
+  const start: GroundPoint = { label: from.city, coordinates: from.coordinates }
+  const end: GroundPoint = { label: to.city, coordinates: to.coordinates }
+
+  let best: { journey: FlightJourney; score: number } | null = null
+  for (const origin of getAirportOptions(from)) {
+    for (const destination of getAirportOptions(to)) {
+      if (origin.code === destination.code) continue
+
+      const finalLeg = groundTransfer(airportPoint(destination), end, arrival)
+      const landing = new Date(finalLeg.departure.getTime() - DEPLANE_HOURS * HOUR_MS)
+      const flights = planFlights(origin, destination, landing)
+      if (!flights) continue
+
+      const airportArrival = new Date(flights.legs[0].departure.getTime() - AIRPORT_CHECK_IN_HOURS * HOUR_MS)
+      const firstLeg = groundTransfer(start, airportPoint(origin), airportArrival)
+
+      const legs = [firstLeg, ...flights.legs, finalLeg]
+      const cost = legs.reduce((sum, leg) => sum + leg.cost, 0)
+      const duration = (arrival.getTime() - firstLeg.departure.getTime()) / HOUR_MS
+      const score = cost + duration * VALUE_OF_TIME_PER_HOUR
+
+      if (!best || score < best.score) {
+        best = {
+          score,
+          journey: {
+            origin,
+            destination,
+            connection: flights.connection,
+            legs,
+            cost,
+            duration,
+            departure: firstLeg.departure,
+            arrival,
+            flightMiles: Math.round(flights.miles),
+            groundMiles: (firstLeg.distance || 0) + (finalLeg.distance || 0),
+            carrier: flights.carrier,
+            bookingUrl: flights.bookingUrl
+          }
+        }
+      }
+    }
+  }
+
+  return best ? best.journey : null
+}
+
+// One-line summary, e.g. "Ride to LAS, fly LAS → AVL, rental car to Cherokee"
+export function describeJourney(journey: FlightJourney): string {
+  const via = journey.connection ? ` via ${journey.connection.code}` : ''
+  const first = journey.legs[0]
+  const last = journey.legs[journey.legs.length - 1]
+  return [
+    `${first.mode === 'rental' ? 'Drive' : 'Ride'} to ${journey.origin.code}`,
+    `fly ${journey.origin.code} → ${journey.destination.code}${via}`,
+    `${last.mode === 'rental' ? 'rental car' : 'rideshare'} to ${last.to}`
+  ].join(', ')
+}
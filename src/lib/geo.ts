@@ -0,0 +1,23 @@
+import { Coordinates } from '@/types'
+
+// Distance calculation using Haversine formula
+export function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
+  const R = 3959 // Earth's radius in miles
+  const dLat = toRadians(lat2 - lat1)
+  const dLng = toRadians(lng2 - lng1)
+  const a = 
+    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
+    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
+    Math.sin(dLng / 2) * Math.sin(dLng / 2)
+  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+  return R * c
+}
+
+// Convenience wrapper for two coordinate pairs
+export function distanceBetween(from: Coordinates, to: Coordinates): number {
+  return calculateDistance(from.lat, from.lng, to.lat, to.lng)
+}
+
+function toRadians(degrees: number): number {
+  return degrees * (Math.PI / 180)
+}
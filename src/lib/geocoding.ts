@@ -0,0 +1,37 @@
+import { Address, Coordinates } from '@/types'
+import { usCities } from '@/data/us-cities'
+
+const STATE_ABBREVIATIONS: Record<string, string> = {
+  'alabama': 'AL', 'alaska': 'AK', 'arizona': 'AZ', 'arkansas': 'AR', 'california': 'CA',
+  'colorado': 'CO', 'connecticut': 'CT', 'delaware': 'DE', 'district of columbia': 'DC',
+  'florida': 'FL', 'georgia': 'GA', 'hawaii': 'HI', 'idaho': 'ID', 'illinois': 'IL',
+  'indiana': 'IN', 'iowa': 'IA', 'kansas': 'KS', 'kentucky': 'KY', 'louisiana': 'LA',
+  'maine': 'ME', 'maryland': 'MD', 'massachusetts': 'MA', 'michigan': 'MI', 'minnesota': 'MN',
+  'mississippi': 'MS', 'missouri': 'MO', 'montana': 'MT', 'nebraska': 'NE', 'nevada': 'NV',
+  'new hampshire': 'NH', 'new jersey': 'NJ', 'new mexico': 'NM', 'new york': 'NY',
+  'north carolina': 'NC', 'north dakota': 'ND', 'ohio': 'OH', 'oklahoma': 'OK', 'oregon': 'OR',
+  'pennsylvania': 'PA', 'rhode island': 'RI', 'south carolina': 'SC', 'south dakota': 'SD',
+  'tennessee': 'TN', 'texas': 'TX', 'utah': 'UT', 'vermont': 'VT', 'virginia': 'VA',
+  'washington': 'WA', 'west virginia': 'WV', 'wisconsin': 'WI', 'wyoming': 'WY'
+}
+
+// Normalize "Nevada" / "nv" / "NV" to "NV"
+export function normalizeStateCode(state: string): string {
+  const trimmed = (state || '').trim()
+  return STATE_ABBREVIATIONS[trimmed.toLowerCase()] || trimmed.toUpperCase()
+}
+
+/**
+ * Geocode an address against the bundled city gazetteer.
+ * Returns null when the city is unknown so callers can ask for coordinates.
+ */
+export function geocodeAddress(address: Pick<Address, 'city' | 'state'>): Coordinates | null {
+  const city = (address.city || '').trim().toLowerCase()
+  const state = normalizeStateCode(address.state)
+  if (!city) return null
+
+  const matches = usCities.filter(c => c.city.toLowerCase() === city)
+  const match = matches.find(c => c.state === state) || (state ? undefined : matches[0])
+
+  return match ? { ...match.coordinates } : null
+}
@@ -0,0 +1,90 @@
+import { Coordinates, Player, TravelLeg } from '@/types'
+import { fareTable, rentalDailyRates, oneWayDropFee } from '@/data/travel-fares'
+import { distanceBetween } from './geo'
+import { getRideshareFare } from './cost-of-living'
+import { travelPricing, PricingPlace } from './travel-pricing'
+
+/**
+ * Getting around on the ground: rideshares for short hops, rental cars for
+ * anything longer. Shared by the flight planner (to and from airports), rail
+ * (to and from stations) and rental-car options between stops.
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+const ROAD_FACTOR = 1.25 // road miles per straight-line mile
+const GROUND_MPH = 50
+const RIDESHARE_MAX_MILES = 40 // beyond this a rental car is cheaper than a ride
+const SAME_LOCATION_MILES = 25 // returning within this distance isn't a one-way rental
+
+export interface GroundPoint {
+  label: string;
+  coordinates: Coordinates;
+}
+
+export function roadMiles(from: Coordinates, to: Coordinates): number {
+  return distanceBetween(from, to) * ROAD_FACTOR
+}
+
+// Ride at local rates where the trip starts; unknown places get the fallback rates
+export function rideshareFare(miles: number, near?: Coordinates): number {
+  return getRideshareFare({ coordinates: near }, miles)
+}
+
+/**
+ * Rental for `days` days plus fuel, and the drop fee when the car is returned
+ * somewhere other than where it was picked up. The bundled rates, for when no
+ * rental provider has quoted the trip
+ */
+export function rentalCost(
+  miles: number,
+  days: number,
+  quality: Player['preferences']['hotelQuality'] = 'mid-range',
+  oneWay = miles > SAME_LOCATION_MILES
+): number {
+  const dropFee = oneWay ? Math.min(oneWayDropFee.max, oneWayDropFee.base + miles * oneWayDropFee.perMile) : 0
+  return Math.round(rentalDailyRates[quality] * Math.max(1, Math.ceil(days)) + miles * fareTable.drive.perMile + dropFee)
+}
+
+// Cheapest rental quoted by the travel pricing providers; null when none is cached yet
+function quoteRental(from: PricingPlace, to: PricingPlace, days: number, arriveBy?: Date): number | null {
+  const quotes = travelPricing.getQuotesSync({ mode: 'drive', from, to, arriveBy, days: Math.max(1, Math.ceil(days)) })
+  return quotes && quotes.length > 0 ? quotes[0].price : null
+}
+
+// Getting somewhere by road without your own car: a ride for short hops, otherwise a one-way rental
+export function rideOrRental(
+  from: PricingPlace,
+  to: PricingPlace,
+  days: number,
+  quality: Player['preferences']['hotelQuality'] = 'mid-range',
+  arriveBy?: Date
+): { mode: 'rideshare' | 'rental'; cost: number } {
+  const miles = roadMiles(from.coordinates, to.coordinates)
+  if (miles <= RIDESHARE_MAX_MILES) {
+    return { mode: 'rideshare', cost: rideshareFare(miles, from.coordinates) }
+  }
+  return { mode: 'rental', cost: quoteRental(from, to, days, arriveBy) ?? rentalCost(miles, days, quality) }
+}
+
+/**
+ * Ride or rental between a terminal and wherever the traveller is, ending at
+ * `arrival`. Rentals are picked up and returned at the terminal.
+ */
+export function groundTransfer(from: GroundPoint, to: GroundPoint, arrival: Date): TravelLeg {
+  const distance = roadMiles(from.coordinates, to.coordinates)
+  const duration = Math.max(0.25, distance / GROUND_MPH)
+  const rideshare = distance <= RIDESHARE_MAX_MILES
+
+  return {
+    mode: rideshare ? 'rideshare' : 'rental',
+    from: from.label,
+    to: to.label,
+    departure: new Date(arrival.getTime() - duration * HOUR_MS),
+    arrival,
+    duration,
+    cost: rideshare
+      ? rideshareFare(distance, from.coordinates)
+      : quoteRental(from, to, 1, arrival) ?? rentalCost(distance, 1, 'mid-range', false),
+    distance: Math.round(distance)
+  }
+}
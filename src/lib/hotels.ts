@@ -0,0 +1,121 @@
+import { Hotel, HotelOption, Player, Tournament } from '@/types'
+import { hotelDiscounts, qualityPriceRanges } from '@/data/hotel-rates'
+import { getHotelRate, getSeasonalMultiplier } from './cost-of-living'
+
+/**
+ * Hotel selection for a stop.
+ * Each hotel near the venue is priced for the stay - its usual rate adjusted
+ * for the city's season, then the host casino's player rate or the event's
+ * room block, plus long-stay discounts when consecutive stops keep the player
+ * in one place - then scored on price against their nightly cap, fit with
+ * their hotel class, guest rating and distance to the tournament room.
+ */
+
+const PRICE_WEIGHT = 35
+const CLASS_WEIGHT = 25
+const RATING_WEIGHT = 20
+const DISTANCE_WEIGHT = 20
+const OVER_BUDGET_PENALTY = 30
+const HOST_HOTEL_MILES = 0.1 // close enough to be the venue's own hotel
+const MAX_USEFUL_MILES = 10 // beyond this, distance scores nothing
+const UNRATED = 3 // stars assumed when a hotel has no rating
+
+const PRICE_BANDS: Hotel['priceRange'][] = ['$', '$$', '$$$', '$$$$']
+
+export const ROOM_TYPES: Record<Player['preferences']['hotelQuality'], string> = {
+  budget: 'Standard Queen',
+  'mid-range': 'Standard King',
+  luxury: 'Deluxe King'
+}
+
+function percent(discount: number): string {
+  return `${Math.round(discount * 100)}% off`
+}
+
+// 1 for a band that matches the player's class, partial credit one band away
+function classFit(hotel: Hotel, quality: Player['preferences']['hotelQuality']): number {
+  const wanted = qualityPriceRanges[quality]
+  if (wanted.includes(hotel.priceRange)) return wanted.indexOf(hotel.priceRange) === 0 ? 1 : 0.8
+
+  const band = PRICE_BANDS.indexOf(hotel.priceRange)
+  const nearest = Math.min(...wanted.map(range => Math.abs(PRICE_BANDS.indexOf(range) - band)))
+  return nearest === 1 ? 0.4 : 0
+}
+
+/**
+ * Nightly rate for a stay of `stayNights` (all consecutive nights in this
+ * hotel, across stops) and the discounts behind it
+ */
+export function priceHotel(
+  hotel: Hotel,
+  tournament: Tournament,
+  stayNights: number
+): { nightlyRate: number; isGroupBooking: boolean; discounts: string[] } {
+  const place = { city: tournament.venue.address.city, coordinates: tournament.venue.coordinates }
+  const base = hotel.avgNightlyRate ?? getHotelRate(place, hotel.priceRange)
+  const discounts: string[] = []
+  let rate = base * getSeasonalMultiplier(place, tournament.startDate).multiplier
+
+  // Player rate and room block don't stack - take the better one
+  const { venueComp, groupRate, extendedStay } = hotelDiscounts
+  const comped = hotel.distanceFromVenue <= HOST_HOTEL_MILES && tournament.buyIn >= venueComp.minBuyIn
+  const compDiscount = comped ? venueComp.discount : 0
+  const blockDiscount = hotel.groupRateAvailable ? groupRate : 0
+  const isGroupBooking = blockDiscount > 0 && blockDiscount >= compDiscount
+  const eventRate = Math.max(compDiscount, blockDiscount)
+  if (eventRate > 0) {
+    rate *= 1 - eventRate
+    discounts.push(isGroupBooking
+      ? `Tournament room block (${percent(eventRate)})`
+      : `Player rate at the host casino (${percent(eventRate)})`)
+  }
+
+  const longStay = extendedStay.find(tier => stayNights >= tier.minNights)
+  if (longStay) {
+    rate *= 1 - longStay.discount
+    discounts.push(`${stayNights}-night stay (${percent(longStay.discount)})`)
+  }
+
+  return { nightlyRate: Math.round(rate), isGroupBooking, discounts }
+}
+
+/**
+ * The venue's nearby hotels for a stop, best first. `nights` is this stop's
+ * share of the stay; `stayNights` covers every consecutive night in the same
+ * place and drives the long-stay discount.
+ */
+export function rankHotels(
+  tournament: Tournament,
+  player: Player,
+  nights: number,
+  stayNights = nights
+): HotelOption[] {
+  const cap = player.preferences.budgetConstraints.maxAccommodationPerNight
+  const quality = player.preferences.hotelQuality
+
+  return tournament.venue.nearbyHotels
+    .map(hotel => {
+      const { nightlyRate, isGroupBooking, discounts } = priceHotel(hotel, tournament, stayNights)
+      const withinBudget = !(cap > 0) || nightlyRate <= cap
+
+      // Cheaper than the cap scores up to full marks, double the cap scores nothing
+      const affordability = cap > 0 ? Math.min(1, Math.max(-1, (cap - nightlyRate) / cap)) : 0
+      const score =
+        PRICE_WEIGHT * (0.5 + affordability / 2) +
+        CLASS_WEIGHT * classFit(hotel, quality) +
+        RATING_WEIGHT * ((hotel.rating || UNRATED) / 5) +
+        DISTANCE_WEIGHT * Math.max(0, 1 - hotel.distanceFromVenue / MAX_USEFUL_MILES) -
+        (withinBudget ? 0 : OVER_BUDGET_PENALTY)
+
+      return {
+        hotel,
+        nightlyRate,
+        totalCost: nightlyRate * nights,
+        score: Math.max(0, Math.round(score)),
+        withinBudget,
+        isGroupBooking,
+        discounts
+      }
+    })
+    .sort((a, b) => b.score - a.score || a.nightlyRate - b.nightlyRate)
+}
@@ -0,0 +1,337 @@
+import { Itinerary, Tournament, TravelOption } from '@/types'
+import { getLateRegistrationClose } from './route-solver'
+import { getZonedParts, getZoneOffsetMinutes, isValidTimeZone } from './timezones'
+
+/**
+ * iCalendar (RFC 5545) export
+ * Tournament times are written as wall-clock time in the venue's timezone with
+ * a matching VTIMEZONE, hotel stays as all-day spans, and travel legs in UTC.
+ * UIDs are stable per itinerary stop so re-importing or refreshing a
+ * subscribed feed updates events in place instead of duplicating them.
+ */
+
+const PRODUCT_ID = '-//Poker Circuit Coordinator//Circuit Planner//EN'
+const UID_DOMAIN = 'poker-circuit-coordinator'
+const DEFAULT_EVENT_HOURS = 10 // a typical day-one session
+const HOUR_MS = 60 * 60 * 1000
+
+interface CalendarEvent {
+  uid: string
+  summary: string
+  start: Date
+  end: Date
+  timeZone?: string // IANA zone; UTC when omitted
+  allDay?: boolean
+  location?: string
+  description?: string
+  url?: string
+  alarmMinutesBefore?: number
+}
+
+interface CalendarOptions {
+  name: string
+  stamp?: Date // DTSTAMP/SEQUENCE source, e.g. itinerary.lastModified
+  refreshHours?: number // hint for subscribed feeds
+}
+
+// Escape TEXT values (RFC 5545 3.3.11)
+function escapeText(value: string): string {
+  return value
+    .replace(/\\/g, '\\\\')
+    .replace(/;/g, '\\;')
+    .replace(/,/g, '\\,')
+    .replace(/\r?\n/g, '\\n')
+}
+
+// Fold lines longer than 75 octets (RFC 5545 3.1)
+function foldLine(line: string): string {
+  const bytes = (text: string) => new TextEncoder().encode(text).length
+  if (bytes(line) <= 75) return line
+
+  const parts: string[] = []
+  let current = ''
+  Array.from(line).forEach(char => {
+    const limit = parts.length === 0 ? 75 : 74 // continuation lines start with a space
+    if (bytes(current + char) > limit) {
+      parts.push(current)
+      current = ''
+    }
+    current += char
+  })
+  parts.push(current)
+
+  return parts.join('\r\n ')
+}
+
+const pad = (value: number) => value.toString().padStart(2, '0')
+
+function formatUtc(date: Date): string {
+  return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}` +
+    `T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`
+}
+
+function formatZoned(date: Date, timeZone: string): string {
+  const p = getZonedParts(date, timeZone)
+  return `${p.year}${pad(p.month)}${pad(p.day)}T${pad(p.hour)}${pad(p.minute)}${pad(p.second)}`
+}
+
+function formatDate(date: Date, timeZone?: string): string {
+  if (!timeZone) {
+    return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}`
+  }
+  const p = getZonedParts(date, timeZone)
+  return `${p.year}${pad(p.month)}${pad(p.day)}`
+}
+
+function formatOffset(minutes: number): string {
+  const sign = minutes < 0 ? '-' : '+'
+  const abs = Math.abs(minutes)
+  return `${sign}${pad(Math.floor(abs / 60))}${pad(abs % 60)}`
+}
+
+/**
+ * VTIMEZONE for a US zone. Venues are all in the US, so daylight time follows
+ * the post-2007 rules (second Sunday in March to first Sunday in November).
+ */
+function buildTimeZone(timeZone: string, year: number): string[] {
+  const standard = getZoneOffsetMinutes(new Date(Date.UTC(year, 0, 15)), timeZone)
+  const daylight = getZoneOffsetMinutes(new Date(Date.UTC(year, 6, 15)), timeZone)
+
+  const lines = ['BEGIN:VTIMEZONE', `TZID:${timeZone}`]
+  if (standard === daylight) {
+    lines.push(
+      'BEGIN:STANDARD',
+      'DTSTART:19700101T000000',
+      `TZOFFSETFROM:${formatOffset(standard)}`,
+      `TZOFFSETTO:${formatOffset(standard)}`,
+      'END:STANDARD'
+    )
+  } else {
+    lines.push(
+      'BEGIN:DAYLIGHT',
+      'DTSTART:20070311T020000',
+      'RRULE:FREQ=YEARLY;BYMONTH=3;BYDAY=2SU',
+      `TZOFFSETFROM:${formatOffset(standard)}`,
+      `TZOFFSETTO:${formatOffset(daylight)}`,
+      'END:DAYLIGHT',
+      'BEGIN:STANDARD',
+      'DTSTART:20071104T020000',
+      'RRULE:FREQ=YEARLY;BYMONTH=11;BYDAY=1SU',
+      `TZOFFSETFROM:${formatOffset(daylight)}`,
+      `TZOFFSETTO:${formatOffset(standard)}`,
+      'END:STANDARD'
+    )
+  }
+  lines.push('END:VTIMEZONE')
+  return lines
+}
+
+function buildEvent(event: CalendarEvent, stamp: Date): string[] {
+  const lines = ['BEGIN:VEVENT', `UID:${event.uid}@${UID_DOMAIN}`, `DTSTAMP:${formatUtc(stamp)}`]
+
+  if (event.allDay) {
+    lines.push(
+      `DTSTART;VALUE=DATE:${formatDate(event.start, event.timeZone)}`,
+      `DTEND;VALUE=DATE:${formatDate(event.end, event.timeZone)}`,
+      'TRANSP:TRANSPARENT'
+    )
+  } else if (event.timeZone) {
+    lines.push(
+      `DTSTART;TZID=${event.timeZone}:${formatZoned(event.start, event.timeZone)}`,
+      `DTEND;TZID=${event.timeZone}:${formatZoned(event.end, event.timeZone)}`
+    )
+  } else {
+    lines.push(`DTSTART:${formatUtc(event.start)}`, `DTEND:${formatUtc(event.end)}`)
+  }
+
+  // Bump SEQUENCE whenever the source changes so clients accept the update
+  lines.push(`SEQUENCE:${Math.floor(stamp.getTime() / 1000)}`, `SUMMARY:${escapeText(event.summary)}`)
+  if (event.location) lines.push(`LOCATION:${escapeText(event.location)}`)
+  if (event.description) lines.push(`DESCRIPTION:${escapeText(event.description)}`)
+  if (event.url) lines.push(`URL:${event.url}`)
+
+  if (event.alarmMinutesBefore !== undefined) {
+    lines.push(
+      'BEGIN:VALARM',
+      'ACTION:DISPLAY',
+      `DESCRIPTION:${escapeText(event.summary)}`,
+      `TRIGGER:-PT${event.alarmMinutesBefore}M`,
+      'END:VALARM'
+    )
+  }
+
+  lines.push('END:VEVENT')
+  return lines
+}
+
+function buildCalendar(events: CalendarEvent[], options: CalendarOptions): string {
+  const stamp = options.stamp || new Date()
+  const lines = [
+    'BEGIN:VCALENDAR',
+    'VERSION:2.0',
+    `PRODID:${PRODUCT_ID}`,
+    'CALSCALE:GREGORIAN',
+    'METHOD:PUBLISH',
+    `X-WR-CALNAME:${escapeText(options.name)}`
+  ]
+
+  if (options.refreshHours) {
+    lines.push(
+      `REFRESH-INTERVAL;VALUE=DURATION:PT${options.refreshHours}H`,
+      `X-PUBLISHED-TTL:PT${options.refreshHours}H`
+    )
+  }
+
+  // One VTIMEZONE per zone referenced by a timed event
+  const zones = new Map<string, number>()
+  events.forEach(event => {
+    if (event.timeZone && !event.allDay && !zones.has(event.timeZone)) {
+      zones.set(event.timeZone, event.start.getUTCFullYear())
+    }
+  })
+  zones.forEach((year, zone) => lines.push(...buildTimeZone(zone, year)))
+
+  events.forEach(event => lines.push(...buildEvent(event, stamp)))
+  lines.push('END:VCALENDAR')
+
+  return lines.map(foldLine).join('\r\n') + '\r\n'
+}
+
+function venueLocation(tournament: Tournament): string {
+  const { venue } = tournament
+  return [venue.name, venue.address.street, venue.address.city, venue.address.state]
+    .filter(Boolean)
+    .join(', ')
+}
+
+function tournamentEvents(tournament: Tournament, uidPrefix: string): CalendarEvent[] {
+  const timeZone = isValidTimeZone(tournament.venue.timezone) ? tournament.venue.timezone : undefined
+  const end = tournament.endDate > tournament.startDate
+    ? tournament.endDate
+    : new Date(tournament.startDate.getTime() + DEFAULT_EVENT_HOURS * HOUR_MS)
+
+  const events: CalendarEvent[] = [{
+    uid: `${uidPrefix}-${tournament.id}-start`,
+    summary: tournament.name,
+    start: tournament.startDate,
+    end,
+    timeZone,
+    location: venueLocation(tournament),
+    description: [
+      `Buy-in: $${tournament.buyIn.toLocaleString()}`,
+      `Structure: ${tournament.structure.type}, ${tournament.structure.blindLevelDuration}-minute levels`,
+      tournament.prizeGuarantee ? `Guarantee: $${tournament.prizeGuarantee.toLocaleString()}` : ''
+    ].filter(Boolean).join('\n'),
+    alarmMinutesBefore: 120
+  }]
+
+  const registrationClose = getLateRegistrationClose(tournament)
+  if (registrationClose > tournament.startDate) {
+    events.push({
+      uid: `${uidPrefix}-${tournament.id}-registration`,
+      summary: `Late reg closes: ${tournament.name}`,
+      start: registrationClose,
+      end: registrationClose,
+      timeZone,
+      location: venueLocation(tournament),
+      alarmMinutesBefore: 60
+    })
+  }
+
+  return events
+}
+
+function travelEvent(option: TravelOption, uid: string): CalendarEvent {
+  const method = option.type.charAt(0).toUpperCase() + option.type.slice(1)
+  return {
+    uid,
+    summary: `${method}: ${option.departure.location} → ${option.arrival.location}`,
+    start: option.departure.time,
+    end: option.arrival.time > option.departure.time
+      ? option.arrival.time
+      : new Date(option.departure.time.getTime() + option.duration * HOUR_MS),
+    location: option.departure.location,
+    description: [
+      `Estimated cost: $${Math.round(option.cost).toLocaleString()}`,
+      option.provider ? `Provider: ${option.provider}` : '',
+      option.notes || '',
+      ...(option.legs || []).map(leg =>
+        `${leg.mode.charAt(0).toUpperCase() + leg.mode.slice(1)}: ${leg.from} → ${leg.to}${leg.cost > 0 ? ` ($${Math.round(leg.cost)})` : ''}`
+      )
+    ].filter(Boolean).join('\n'),
+    url: option.bookingUrl,
+    alarmMinutesBefore: option.type === 'fly' ? 180 : 60
+  }
+}
+
+function itineraryEvents(itinerary: Itinerary): CalendarEvent[] {
+  const events: CalendarEvent[] = []
+
+  itinerary.route.forEach(stop => {
+    const prefix = `${itinerary.id}-stop${stop.order}`
+    const timeZone = isValidTimeZone(stop.tournament.venue.timezone) ? stop.tournament.venue.timezone : undefined
+
+    events.push(travelEvent(stop.travel.inbound, `${prefix}-inbound`))
+    events.push(...tournamentEvents(stop.tournament, prefix))
+
+    const { accommodation } = stop
+    if (accommodation.checkOut > accommodation.checkIn) {
+      events.push({
+        uid: `${prefix}-hotel`,
+        summary: `Hotel: ${accommodation.hotel.name}`,
+        start: accommodation.checkIn,
+        end: accommodation.checkOut,
+        timeZone,
+        allDay: true,
+        location: [accommodation.hotel.name, accommodation.hotel.address.city, accommodation.hotel.address.state]
+          .filter(Boolean)
+          .join(', '),
+        description: [
+          `${accommodation.roomType} at $${Math.round(accommodation.nightlyRate)}/night`,
+          accommodation.confirmationNumber ? `Confirmation: ${accommodation.confirmationNumber}` : ''
+        ].filter(Boolean).join('\n'),
+        url: accommodation.bookingUrl || accommodation.hotel.bookingUrl
+      })
+    }
+
+    if (stop.travel.outbound) {
+      events.push(travelEvent(stop.travel.outbound, `${prefix}-outbound`))
+    }
+  })
+
+  return events
+}
+
+// Calendar for one saved itinerary
+export function buildItineraryCalendar(itinerary: Itinerary): string {
+  return buildCalendar(itineraryEvents(itinerary), {
+    name: itinerary.name,
+    stamp: itinerary.lastModified
+  })
+}
+
+// Calendar for a loose selection of tournaments (no travel or hotels yet)
+export function buildTournamentCalendar(tournaments: Tournament[], name = 'Poker Circuit'): string {
+  const events: CalendarEvent[] = []
+  tournaments.forEach(tournament => events.push(...tournamentEvents(tournament, 'selection')))
+
+  return buildCalendar(events, { name })
+}
+
+// Subscribable feed covering every open itinerary a player has
+export function buildPlayerFeed(itineraries: Itinerary[], playerName: string): string {
+  const open = itineraries.filter(itinerary => itinerary.status !== 'completed')
+  const events: CalendarEvent[] = []
+  open.forEach(itinerary => events.push(...itineraryEvents(itinerary)))
+
+  const latest = open.reduce<Date | undefined>(
+    (max, itinerary) => (!max || itinerary.lastModified > max ? itinerary.lastModified : max),
+    undefined
+  )
+
+  return buildCalendar(events, {
+    name: `${playerName} - Poker Circuit`,
+    stamp: latest,
+    refreshHours: 1
+  })
+}
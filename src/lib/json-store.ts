@@ -0,0 +1,56 @@
+/**
+ * File-backed JSON store
+ * Persists small server-side collections under .data/ so they survive restarts.
+ * Server-only: never import this from client components.
+ */
+
+import fs from 'fs/promises';
+import path from 'path';
+import { reviveDates } from './utils';
+
+const DATA_DIRECTORY = path.join(process.cwd(), '.data');
+
+export class JsonFileStore<T> {
+  private filePath: string;
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(fileName: string, private createEmpty: () => T) {
+    this.filePath = path.join(DATA_DIRECTORY, fileName);
+  }
+
+  async read(): Promise<T> {
+    try {
+      const data = await fs.readFile(this.filePath, 'utf8');
+      return JSON.parse(data, reviveDates) as T;
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return this.createEmpty();
+      }
+      throw error;
+    }
+  }
+
+  async write(data: T): Promise<void> {
+    await fs.mkdir(DATA_DIRECTORY, { recursive: true });
+
+    // Write to a temp file and rename so readers never see a partial file
+    const tempPath = `${this.filePath}.${process.pid}.tmp`;
+    await fs.writeFile(tempPath, JSON.stringify(data, null, 2));
+    await fs.rename(tempPath, this.filePath);
+  }
+
+  /**
+   * Read-modify-write, serialized so concurrent requests don't lose updates
+   */
+  async update<R>(mutate: (data: T) => R | Promise<R>): Promise<R> {
+    let result!: R;
+    const run = this.writeQueue.then(async () => {
+      const data = await this.read();
+      result = await mutate(data);
+      await this.write(data);
+    });
+    this.writeQueue = run.catch(() => undefined);
+    await run;
+    return result;
+  }
+}
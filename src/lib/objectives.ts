@@ -0,0 +1,124 @@
+import { CircuitObjectives, Itinerary, ObjectiveWeights, Player, QuickOptimizeForm, TravelOption } from '@/types'
+import { itineraryFootprint } from './carbon'
+
+/**
+ * Multi-objective scoring for circuit plans.
+ * Each plan is measured on cost, time on the road, expected ROI, carbon and
+ * convenience. Plans are compared by a weighted sum of how far each objective
+ * sits from the best value seen across the candidates (0 = best on everything),
+ * and the Pareto set keeps every plan that no other plan beats on all counts.
+ */
+
+export const PRIORITY_WEIGHTS: Record<QuickOptimizeForm['prioritizeBy'], ObjectiveWeights> = {
+  cost: { cost: 0.6, time: 0.15, roi: 0.1, carbon: 0.05, convenience: 0.1 },
+  time: { cost: 0.15, time: 0.6, roi: 0.1, carbon: 0.05, convenience: 0.1 },
+  roi: { cost: 0.15, time: 0.1, roi: 0.6, carbon: 0.05, convenience: 0.1 },
+  carbon: { cost: 0.15, time: 0.1, roi: 0.1, carbon: 0.55, convenience: 0.1 },
+  convenience: { cost: 0.15, time: 0.15, roi: 0.1, carbon: 0.05, convenience: 0.55 }
+}
+
+// Without a stated priority the optimizer keeps its historical cheapest-plan behaviour
+export const COST_ONLY_WEIGHTS: ObjectiveWeights = { cost: 1, time: 0, roi: 0, carbon: 0, convenience: 0 }
+
+const OBJECTIVE_KEYS: Array<keyof CircuitObjectives> = ['cost', 'time', 'roi', 'carbon', 'convenience']
+const HIGHER_IS_BETTER: Array<keyof CircuitObjectives> = ['roi', 'convenience']
+
+const LONG_TRAVEL_DAY_HOURS = 8
+
+// Scale weights to sum to 1, ignoring negative entries
+export function normalizeWeights(weights: Partial<ObjectiveWeights>): ObjectiveWeights {
+  const clean = OBJECTIVE_KEYS.reduce((result, key) => {
+    result[key] = Math.max(0, weights[key] || 0)
+    return result
+  }, {} as ObjectiveWeights)
+  const total = OBJECTIVE_KEYS.reduce((sum, key) => sum + clean[key], 0)
+  if (total === 0) return { ...COST_ONLY_WEIGHTS }
+
+  OBJECTIVE_KEYS.forEach(key => { clean[key] = clean[key] / total })
+  return clean
+}
+
+// Connections, long travel days and hotel changes each cost convenience points
+function inconvenience(itinerary: Itinerary): number {
+  let points = 0
+  itinerary.route.forEach((stop, i) => {
+    const options = [stop.travel.inbound, stop.travel.outbound].filter((o): o is TravelOption => !!o)
+    options.forEach(option => {
+      const connections = (option.legs || []).filter(leg => leg.mode === 'connection').length
+      points += 1 + connections * 2 + (option.duration > LONG_TRAVEL_DAY_HOURS ? 3 : 0)
+    })
+    const previous = itinerary.route[i - 1]
+    if (previous && previous.accommodation.hotel.id !== stop.accommodation.hotel.id) points += 1
+  })
+  return points
+}
+
+/**
+ * Measure a planned itinerary. `expectedRoi` maps tournament ids to the
+ * player's expected ROI (%) at that event; events without an entry use the
+ * player's lifetime ROI.
+ */
+export function measureItinerary(
+  itinerary: Itinerary,
+  player: Player,
+  expectedRoi: Record<string, number> = {}
+): CircuitObjectives {
+  const fallbackRoi = player.statistics?.roi ?? 0
+  let investment = 0
+  let expectedReturn = 0
+  itinerary.route.forEach(stop => {
+    const stake = stop.tournament.buyIn * stop.expectedBullets
+    investment += stake
+    expectedReturn += stake * ((expectedRoi[stop.tournament.id] ?? fallbackRoi) / 100)
+  })
+  // Buy-ins earn their ROI; travel, hotels and food are pure cost
+  const expectedProfit = expectedReturn - (itinerary.totalCost - investment)
+
+  return {
+    cost: Math.round(itinerary.totalCost),
+    time: Math.round(itinerary.totalTravelTime * 10) / 10,
+    roi: itinerary.totalCost > 0 ? Math.round((expectedProfit / itinerary.totalCost) * 1000) / 10 : 0,
+    carbon: itinerary.totalCarbon ?? itineraryFootprint(itinerary).total,
+    convenience: Math.max(0, 100 - inconvenience(itinerary) * 5)
+  }
+}
+
+/**
+ * Weighted score per candidate, 0 when a plan is the best seen on every
+ * weighted objective and 1 when it is the worst on all of them
+ */
+export function scoreObjectives(candidates: CircuitObjectives[], weights: ObjectiveWeights): number[] {
+  const ranges = OBJECTIVE_KEYS.map(key => {
+    const values = candidates.map(c => c[key])
+    return { key, min: Math.min(...values), max: Math.max(...values) }
+  })
+
+  return candidates.map(candidate => ranges.reduce((score, { key, min, max }) => {
+    if (max === min) return score
+    const position = (candidate[key] - min) / (max - min)
+    const badness = HIGHER_IS_BETTER.includes(key) ? 1 - position : position
+    return score + weights[key] * badness
+  }, 0))
+}
+
+// True when `a` is at least as good as `b` everywhere and strictly better somewhere
+export function dominates(a: CircuitObjectives, b: CircuitObjectives): boolean {
+  let strictlyBetter = false
+  for (const key of OBJECTIVE_KEYS) {
+    const better = HIGHER_IS_BETTER.includes(key) ? a[key] - b[key] : b[key] - a[key]
+    if (better < 0) return false
+    if (better > 0) strictlyBetter = true
+  }
+  return strictlyBetter
+}
+
+// Candidates no other candidate dominates; identical plans are kept once
+export function paretoFront<T extends { objectives: CircuitObjectives }>(candidates: T[]): T[] {
+  const front: T[] = []
+  candidates.forEach(candidate => {
+    if (candidates.some(other => dominates(other.objectives, candidate.objectives))) return
+    if (front.some(kept => OBJECTIVE_KEYS.every(key => kept.objectives[key] === candidate.objectives[key]))) return
+    front.push(candidate)
+  })
+  return front
+}
@@ -1,137 +1,177 @@
-import { Tournament, TravelOption, Itinerary, RouteStop, OptimizationResult, Recommendation, Player } from '@/types'
+import { Tournament, TravelOption, TravelMethod, Itinerary, CarbonComparison, CircuitObjectives, ObjectiveWeights, ParetoItinerary, QuickOptimizeForm, RouteStop, RouteBranch, OptimizationResult, Recommendation, Player, Coordinates, Hotel, ManualRoutePlan, RouteEditItem, RouteEditIssue } from '@/types'
+import { calculateDistance, distanceBetween } from './geo'
+import { getExpectedBuyInCost, getExpectedBullets } from './bullets'
+import { solveRoute, getLateRegistrationClose, RouteLeg, RouteScheduleEntry, RouteSolution, RouteSolverResult } from './route-solver'
+import { addVenueDays, formatInTimeZone, withVenueTime } from './timezones'
+import { getScheduledFinish } from './blind-structure'
+import { getDeepRunOdds } from './deep-run'
+import { travelPricing, PricingPlace, TravelQuote } from './travel-pricing'
+import { fareTable, bookingWindowMultipliers, OWN_CAR_COST_PER_MILE } from '@/data/travel-fares'
+import { planFlightJourney, describeJourney, FlightPlace } from './flights'
+import { getVenueAirports } from './airports'
+import { planTrainJourney } from './rail'
+import { rideOrRental } from './ground-transport'
+import { rankHotels, ROOM_TYPES } from './hotels'
+import { getFoodPerDay, getParkingPerDay, getQualityRate, getRideshareFare, CostPlace } from './cost-of-living'
+import { CARBON_KG_PER_MILE, legFootprint, travelFootprint, itineraryFootprint } from './carbon'
+import { PRIORITY_WEIGHTS, COST_ONLY_WEIGHTS, normalizeWeights, measureItinerary, scoreObjectives, paretoFront } from './objectives'
 
-// Distance calculation using Haversine formula
-function calculateDistance(lat1: number, lng1: number, lat2: number, lng2: number): number {
-  const R = 3959 // Earth's radius in miles
-  const dLat = toRadians(lat2 - lat1)
-  const dLng = toRadians(lng2 - lng1)
-  const a = 
-    Math.sin(dLat / 2) * Math.sin(dLat / 2) +
-    Math.cos(toRadians(lat1)) * Math.cos(toRadians(lat2)) *
-    Math.sin(dLng / 2) * Math.sin(dLng / 2)
-  const c = 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
-  return R * c
-}
-
-function toRadians(degrees: number): number {
-  return degrees * (Math.PI / 180)
-}
-
-// Cost calculation for different travel methods
+// Offline estimate from the published-fare table, used when no provider has quoted a leg
 export function calculateTravelCost(
   distance: number, 
   method: 'fly' | 'drive' | 'train' | 'bus',
   timeframe: number = 14 // days ahead
 ): number {
-  const baseCosts = {
-    fly: 0.25, // per mile base cost
-    drive: 0.60, // includes gas, wear, time value
-    train: 0.20,
-    bus: 0.15
+  // Own car - gas, wear and the IRS mileage rate
+  if (method === 'drive') {
+    return Math.round(distance * OWN_CAR_COST_PER_MILE)
   }
 
-  let cost = distance * baseCosts[method]
+  const rule = fareTable[method]
+  let cost = distance * rule.perMile
 
   // Add surge pricing for flights based on timeframe
   if (method === 'fly') {
-    if (timeframe < 7) cost *= 2.5 // last minute booking
-    else if (timeframe < 14) cost *= 1.8
-    else if (timeframe < 30) cost *= 1.3
-    
-    // Minimum flight cost
-    cost = Math.max(cost, 150)
+    const window = bookingWindowMultipliers.find(w => timeframe <= w.maxDaysAhead)
+    cost *= window ? window.multiplier : 1
+    cost = Math.max(cost, rule.minimum)
   }
 
-  // Add fixed costs
-  switch (method) {
-    case 'fly':
-      cost += 50 // airport fees, baggage
-      break
-    case 'drive':
-      cost += distance * 0.62 // IRS mileage rate
-      break
-    case 'train':
-      cost += 25 // booking fees
-      break
-    case 'bus':
-      cost += 15 // booking fees
-      break
-  }
+  // Booking fees, baggage, airport charges
+  return Math.round(cost + rule.fixedFee)
+}
+
+// Quotes for a leg from the travel pricing providers; null when none are cached yet
+function quoteLeg(
+  mode: 'fly' | 'train' | 'bus',
+  from: PricingPlace,
+  to: PricingPlace,
+  arriveBy?: Date
+): TravelQuote[] | null {
+  return travelPricing.getQuotesSync({ mode, from, to, arriveBy })
+}
+
+// Cheapest quoted fare, falling back to the fare-table estimate
+function fareFor(mode: 'fly' | 'train' | 'bus', from: PricingPlace, to: PricingPlace, distance: number): number {
+  const quotes = quoteLeg(mode, from, to)
+  return quotes && quotes.length > 0 ? quotes[0].price : calculateTravelCost(distance, mode)
+}
 
-  return Math.round(cost)
+// Door-to-door flight cost, or the plain fare when no airport pair works
+function flightCost(from: FlightPlace, to: FlightPlace, distance: number): number {
+  const journey = planFlightJourney(from, to)
+  return journey ? journey.cost : fareFor('fly', from, to, distance)
 }
 
-// Calculate accommodation costs
+// Typical hotel cost for a stay in a city, at the season's rates when the check-in date is known
 export function calculateAccommodationCost(
   location: string,
   nights: number,
-  quality: 'budget' | 'mid-range' | 'luxury' = 'mid-range'
+  quality: 'budget' | 'mid-range' | 'luxury' = 'mid-range',
+  checkIn?: Date
 ): number {
-  const baseCosts = {
-    'Las Vegas': { budget: 45, 'mid-range': 85, luxury: 200 },
-    'San Jose': { budget: 80, 'mid-range': 140, luxury: 280 },
-    'Chicago': { budget: 60, 'mid-range': 120, luxury: 250 },
-    'Jacksonville': { budget: 55, 'mid-range': 95, luxury: 180 },
-    'Milwaukee': { budget: 50, 'mid-range': 90, luxury: 160 },
-    'Cherokee': { budget: 40, 'mid-range': 75, luxury: 150 },
-    default: { budget: 60, 'mid-range': 110, luxury: 220 }
-  }
+  return getQualityRate({ city: location }, quality, checkIn) * nights
+}
 
-  const cityRates = baseCosts[location as keyof typeof baseCosts] || baseCosts.default
-  return cityRates[quality] * nights
+function costPlace(tournament: Tournament): CostPlace {
+  return { city: tournament.venue.address.city, coordinates: tournament.venue.coordinates }
 }
 
-// Traveling Salesman Problem solver (simplified greedy approach)
-export function optimizeRoute(tournaments: Tournament[], homeLocation: { lat: number; lng: number } = { lat: 39.8283, lng: -98.5795 }): Tournament[] {
-  if (tournaments.length <= 1) return tournaments
+// Door to door through the nearest sensible airports
+function estimateFlightLeg(from: Coordinates, to: Coordinates, distance: number): RouteLeg {
+  const journey = planFlightJourney({ coordinates: from, city: '' }, { coordinates: to, city: '' })
+  if (journey) {
+    return { distance, method: 'fly', hours: journey.duration, cost: journey.cost }
+  }
+  return {
+    distance,
+    method: 'fly',
+    hours: Math.max(2, distance / 500) + 3, // airport check-in and ground transfer
+    cost: fareFor('fly', { coordinates: from }, { coordinates: to }, distance)
+  }
+}
 
-  const unvisited = [...tournaments]
-  const route: Tournament[] = []
-  let currentLocation = homeLocation
+// How a plan trades money against hours on the road and emissions
+export interface TravelValuation {
+  valueOfTime?: number; // $/hour
+  carbonPrice?: number; // $/kg CO2
+}
 
-  // Start with the earliest tournament
-  const firstTournament = unvisited.reduce((earliest, current) => 
-    current.startDate < earliest.startDate ? current : earliest
-  )
-  
-  route.push(firstTournament)
-  unvisited.splice(unvisited.indexOf(firstTournament), 1)
-  currentLocation = firstTournament.venue.coordinates
-
-  // Greedily select nearest tournament that hasn't been visited
-  while (unvisited.length > 0) {
-    let nearestTournament = unvisited[0]
-    let nearestDistance = calculateDistance(
-      currentLocation.lat,
-      currentLocation.lng,
-      nearestTournament.venue.coordinates.lat,
-      nearestTournament.venue.coordinates.lng
-    )
+/**
+ * Estimate a single leg. By default long legs fly and short ones drive; with
+ * a value of time ($/hour) or a carbon price ($/kg CO2) the leg takes
+ * whichever of the two costs less once the hours and emissions are priced in.
+ */
+export function estimateRouteLeg(from: Coordinates, to: Coordinates, valueOfTime?: number, carbonPrice = 0): RouteLeg {
+  const distance = distanceBetween(from, to)
+  const drive: RouteLeg = { distance, method: 'drive', hours: distance / 55, cost: calculateTravelCost(distance, 'drive') }
 
-    for (const tournament of unvisited) {
-      const distance = calculateDistance(
-        currentLocation.lat,
-        currentLocation.lng,
-        tournament.venue.coordinates.lat,
-        tournament.venue.coordinates.lng
-      )
+  if (valueOfTime === undefined && carbonPrice === 0) {
+    return distance > 500 ? estimateFlightLeg(from, to, distance) : drive
+  }
+  if (distance <= 200) return drive
 
-      // Consider both distance and time constraints
-      const timeWeight = Math.abs(tournament.startDate.getTime() - (route[route.length - 1]?.endDate.getTime() || 0)) / (1000 * 60 * 60 * 24)
-      const weightedDistance = distance + (timeWeight > 7 ? timeWeight * 50 : 0)
+  const fly = estimateFlightLeg(from, to, distance)
+  const price = (leg: RouteLeg) => leg.cost + leg.hours * (valueOfTime || 0) + legFootprint(leg) * carbonPrice
+  return price(fly) < price(drive) ? fly : drive
+}
 
-      if (weightedDistance < nearestDistance) {
-        nearestDistance = weightedDistance
-        nearestTournament = tournament
-      }
+// A point travel is planned between, with the airports that serve it
+type TravelPlace = Coordinates & { city: string; airports?: string[] }
+
+// Where a player's circuit starts and ends. The geographic center of the US is
+// only a last resort for players who haven't saved a home base yet.
+export function getHomeLocation(player: Player): TravelPlace {
+  if (player.homeBase) {
+    return {
+      ...player.homeBase.coordinates,
+      city: player.homeBase.address.city,
+      airports: player.homeBase.nearestAirports
     }
+  }
+  return { lat: 39.8283, lng: -98.5795, city: 'Home' }
+}
 
-    route.push(nearestTournament)
-    unvisited.splice(unvisited.indexOf(nearestTournament), 1)
-    currentLocation = nearestTournament.venue.coordinates
+function venuePlace(venue: Tournament['venue']): TravelPlace {
+  return {
+    ...venue.coordinates,
+    city: venue.address.city,
+    airports: getVenueAirports(venue).map(airport => airport.code)
   }
+}
 
-  return route
+// The player is tied up until the structure says the event finishes
+function structureCommitmentEnd(tournament: Tournament, entry: Date): Date {
+  const finish = getScheduledFinish(tournament)
+  return finish > entry ? finish : entry
+}
+
+// Time-window aware route solver (see route-solver.ts)
+export function optimizeRoute(
+  tournaments: Tournament[],
+  homeLocation: Coordinates,
+  options: {
+    earliestDeparture?: Date;
+    maxAlternatives?: number;
+    valueOfTime?: number;
+    carbonPrice?: number;
+    pinned?: Record<Tournament['id'], number>; // positions the player has locked
+  } = {}
+): RouteSolverResult {
+  const { valueOfTime, carbonPrice, ...solverOptions } = options
+  return solveRoute(tournaments, {
+    homeLocation,
+    estimateLeg: (from, to) => estimateRouteLeg(from, to, valueOfTime, carbonPrice),
+    commitmentEnd: structureCommitmentEnd,
+    ...solverOptions
+  })
+}
+
+// Where a leg starts: airports to fly from, and whether the player has their own car there
+export interface TravelOptionContext {
+  fromAirports?: string[]; // preferred IATA codes at each end
+  toAirports?: string[];
+  ownCar?: boolean; // false after flying or riding in - driving on means renting
 }
 
 // Generate travel options between two locations
@@ -143,48 +183,67 @@ export function generateTravelOptions(
   fromCity: string,
   toCity: string,
   date: Date,
-  playerPreferences: Player['preferences']
+  playerPreferences: Player['preferences'],
+  context: TravelOptionContext = {}
 ): TravelOption[] {
   const distance = calculateDistance(fromLat, fromLng, toLat, toLng)
   const daysAhead = Math.ceil((date.getTime() - Date.now()) / (1000 * 60 * 60 * 24))
+  const allows = (type: TravelMethod['type']) => playerPreferences.travelMethods.some(m => m.type === type)
+  const ownCar = context.ownCar !== false
   
   const options: TravelOption[] = []
 
-  // Flying option
-  if (playerPreferences.travelMethods.some(m => m.type === 'fly') && distance > 200) {
-    const cost = calculateTravelCost(distance, 'fly', daysAhead)
-    const duration = Math.max(2, distance / 500) // minimum 2 hours for flights
+  const from: PricingPlace = { coordinates: { lat: fromLat, lng: fromLng }, city: fromCity }
+  const to: PricingPlace = { coordinates: { lat: toLat, lng: toLng }, city: toCity }
+
+  // Flying option - door to door, including the drive or ride at each end
+  if (allows('fly') && distance > 200) {
+    const journey = planFlightJourney(
+      { coordinates: from.coordinates, city: fromCity, airports: context.fromAirports },
+      { coordinates: to.coordinates, city: toCity, airports: context.toAirports },
+      date
+    )
     
-    options.push({
-      id: `fly-${fromCity}-${toCity}`,
-      type: 'fly',
-      cost,
-      duration,
-      carbonFootprint: distance * 0.24, // kg CO2 per mile
-      provider: 'Airlines',
-      departure: {
-        location: `${fromCity} Airport`,
-        time: new Date(date.getTime() - 2 * 60 * 60 * 1000) // 2 hours before
-      },
-      arrival: {
-        location: `${toCity} Airport`,
-        time: new Date(date.getTime() + duration * 60 * 60 * 1000)
-      },
-      notes: daysAhead < 14 ? 'Book soon to avoid higher prices' : undefined
-    })
+    if (journey) {
+      options.push({
+        id: `fly-${journey.origin.code}-${journey.destination.code}-${fromCity}-${toCity}`,
+        type: 'fly',
+        cost: journey.cost,
+        duration: journey.duration,
+        distance: Math.round(journey.flightMiles + journey.groundMiles),
+        carbonFootprint: journey.flightMiles * CARBON_KG_PER_MILE.fly + journey.groundMiles * CARBON_KG_PER_MILE.drive,
+        provider: journey.carrier || 'Airlines',
+        departure: {
+          location: fromCity,
+          time: journey.departure
+        },
+        arrival: {
+          location: toCity,
+          time: journey.arrival
+        },
+        bookingUrl: journey.bookingUrl,
+        notes: [describeJourney(journey), daysAhead < 14 ? 'Book soon to avoid higher prices' : '']
+          .filter(Boolean)
+          .join('. '),
+        legs: journey.legs
+      })
+    }
   }
 
-  // Driving option
-  if (playerPreferences.travelMethods.some(m => m.type === 'drive') && distance <= playerPreferences.maxTravelDistance) {
-    const cost = calculateTravelCost(distance, 'drive', daysAhead)
+  // Driving option - your own car, or a ride / one-way rental when you arrived without one
+  if (allows('drive') && distance <= playerPreferences.maxTravelDistance) {
     const duration = distance / 55 // average 55 mph including stops
+    const hired = ownCar || distance < 1 ? null : rideOrRental(from, to, duration / 24, playerPreferences.hotelQuality, date)
+    const cost = hired ? hired.cost : calculateTravelCost(distance, 'drive', daysAhead)
     
     options.push({
-      id: `drive-${fromCity}-${toCity}`,
+      id: `${hired ? hired.mode : 'drive'}-${fromCity}-${toCity}`,
       type: 'drive',
       cost,
       duration,
-      carbonFootprint: distance * 0.89, // kg CO2 per mile for cars
+      distance: Math.round(distance),
+      carbonFootprint: distance * CARBON_KG_PER_MILE.drive,
+      provider: hired ? (hired.mode === 'rental' ? 'Rental car' : 'Rideshare') : undefined,
       departure: {
         location: fromCity,
         time: new Date(date.getTime() - duration * 60 * 60 * 1000)
@@ -193,138 +252,424 @@ export function generateTravelOptions(
         location: toCity,
         time: date
       },
-      notes: duration > 8 ? 'Consider overnight stop' : 'Direct drive'
+      notes: !hired
+        ? duration > 8 ? 'Consider overnight stop' : 'Direct drive'
+        : hired.mode === 'rental' ? 'One-way rental, drop fee included' : undefined
     })
   }
 
+  // Train option where a rail corridor serves both ends
+  if (allows('train') && distance > 20) {
+    const journey = planTrainJourney(
+      { label: fromCity, coordinates: from.coordinates },
+      { label: toCity, coordinates: to.coordinates },
+      date
+    )
+
+    if (journey) {
+      options.push({
+        id: `train-${journey.route.line}-${fromCity}-${toCity}`,
+        type: 'train',
+        cost: journey.cost,
+        duration: journey.duration,
+        distance: Math.round(journey.railMiles + journey.groundMiles),
+        carbonFootprint: journey.railMiles * CARBON_KG_PER_MILE.train + journey.groundMiles * CARBON_KG_PER_MILE.drive,
+        provider: `${journey.route.operator} ${journey.route.line}`,
+        departure: {
+          location: fromCity,
+          time: journey.departure
+        },
+        arrival: {
+          location: toCity,
+          time: journey.arrival
+        },
+        notes: `${journey.from.name} → ${journey.to.name}, ${journey.route.dailyDepartures} departures a day`,
+        legs: journey.legs
+      })
+    }
+  }
+
   // Bus option for budget-conscious players
   if (distance < 1000 && distance > 100) {
-    const cost = calculateTravelCost(distance, 'bus', daysAhead)
-    const duration = distance / 45 // slower with stops
+    const quotes = quoteLeg('bus', from, to, date)
+    const quote = quotes?.[0]
+    const cost = quote ? quote.price : calculateTravelCost(distance, 'bus', daysAhead)
+    const duration = quote ? quote.durationHours : distance / 45 // slower with stops
     
-    options.push({
-      id: `bus-${fromCity}-${toCity}`,
-      type: 'bus',
-      cost,
-      duration,
-      carbonFootprint: distance * 0.14, // kg CO2 per mile
-      provider: 'Greyhound/Megabus',
-      departure: {
-        location: `${fromCity} Bus Station`,
-        time: new Date(date.getTime() - duration * 60 * 60 * 1000)
-      },
-      arrival: {
-        location: `${toCity} Bus Station`,
-        time: date
-      },
-      notes: 'Budget option, longer travel time'
-    })
+    if (!quotes || quote) {
+      options.push({
+        id: quote ? `bus-${quote.id}` : `bus-${fromCity}-${toCity}`,
+        type: 'bus',
+        cost,
+        duration,
+        distance: Math.round(distance),
+        carbonFootprint: distance * CARBON_KG_PER_MILE.bus,
+        provider: quote ? quote.carrier : 'Greyhound/Megabus',
+        departure: {
+          location: `${fromCity} Bus Station`,
+          time: quote ? quote.departure : new Date(date.getTime() - duration * 60 * 60 * 1000)
+        },
+        arrival: {
+          location: `${toCity} Bus Station`,
+          time: quote ? quote.arrival : date
+        },
+        bookingUrl: quote?.bookingUrl,
+        notes: 'Budget option, longer travel time'
+      })
+    }
   }
 
-  return options.sort((a, b) => a.cost - b.cost)
+  return rankTravelOptions(options, playerPreferences.travelMethods)
 }
 
-// Main optimization function
-export function optimizeCircuit(
-  tournaments: Tournament[],
+function isPreferred(option: TravelOption, methods: TravelMethod[]): boolean {
+  return methods.some(m => m.type === option.type && m.preferred)
+}
+
+/**
+ * Drop options over the player's cost or time limit for that method - unless
+ * nothing fits, in which case keep them all and say so - then rank preferred
+ * methods first, cheapest first within each group.
+ */
+function rankTravelOptions(options: TravelOption[], methods: TravelMethod[]): TravelOption[] {
+  const methodFor = (option: TravelOption) => methods.find(m => m.type === option.type)
+  const withinLimits = (option: TravelOption) => {
+    const method = methodFor(option)
+    return !method || (
+      (method.maxCost === undefined || option.cost <= method.maxCost) &&
+      (method.maxDuration === undefined || option.duration <= method.maxDuration)
+    )
+  }
+
+  const fitting = options.filter(withinLimits)
+  const candidates = fitting.length > 0
+    ? fitting
+    : options.map(option => ({
+        ...option,
+        notes: [option.notes, `Over your ${option.type} cost or time limit`].filter(Boolean).join('. ')
+      }))
+
+  const rank = (option: TravelOption) => (isPreferred(option, methods) ? 0 : 1)
+  return candidates.sort((a, b) => rank(a) - rank(b) || a.cost - b.cost)
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const CHECK_IN_HOUR = 15 // venue-local hotel check-in
+const CHECK_OUT_HOUR = 11 // venue-local hotel check-out
+const MIN_HOURS_AT_HOME = 24 // a home visit must allow at least one night in your own bed
+const HOTEL_OPTIONS_PER_STOP = 3 // hotels kept on each stop for the player to compare
+const WALKING_MILES = 0.5 // hotels closer than this need no ride to the tournament room
+
+export interface GapPlan {
+  decision: 'home' | 'road';
+  nights: number; // nights between leaving one stop and arriving at the next
+  roadCost: number; // direct leg plus hotel and food to bridge the gap
+  homeCost: number | null; // both home legs, null when the gap is too short
+  cost: number; // cost of the chosen option
+  toHome?: RouteLeg;
+  fromHome?: RouteLeg;
+  requested?: boolean; // the player put this break in the route by hand
+}
+
+// Breaks the player put after a stop when ordering the route by hand
+interface StopBreak {
+  restDays: number; // extra days at the stop before moving on
+  homeDays: number; // days at home before the next stop
+}
+
+// Decide whether to fly home between two stops or bridge the gap on the road
+export function planStopGap(
+  from: Tournament,
+  to: Tournament,
+  freeFrom: Date,
+  neededBy: Date,
   player: Player,
-  homeLocation = { lat: 39.8283, lng: -98.5795, city: 'Home' }
-): OptimizationResult {
-  if (tournaments.length === 0) {
-    return {
-      originalCost: 0,
-      optimizedCost: 0,
-      savings: 0,
-      savingsPercentage: 0,
-      recommendations: [],
-      alternativeRoutes: []
-    }
+  homeLocation: Coordinates
+): GapPlan {
+  const direct = estimateRouteLeg(from.venue.coordinates, to.venue.coordinates)
+  const gapHours = Math.max(0, (neededBy.getTime() - freeFrom.getTime()) / (60 * 60 * 1000))
+  const nights = Math.floor(gapHours / 24)
+
+  const roadCost = direct.cost + calculateAccommodationCost(
+    from.venue.address.city,
+    nights,
+    player.preferences.hotelQuality,
+    freeFrom
+  ) + getFoodPerDay(costPlace(from)) * nights
+
+  const toHome = estimateRouteLeg(from.venue.coordinates, homeLocation)
+  const fromHome = estimateRouteLeg(homeLocation, to.venue.coordinates)
+  const homeCost = nights > 0 && toHome.hours + fromHome.hours + MIN_HOURS_AT_HOME <= gapHours
+    ? toHome.cost + fromHome.cost
+    : null
+
+  if (homeCost !== null && homeCost < roadCost) {
+    return { decision: 'home', nights, roadCost, homeCost, cost: homeCost, toHome, fromHome }
   }
 
-  // Calculate original cost (individual trips from home)
-  let originalCost = 0
-  tournaments.forEach(tournament => {
-    const distance = calculateDistance(
-      homeLocation.lat,
-      homeLocation.lng,
-      tournament.venue.coordinates.lat,
-      tournament.venue.coordinates.lng
-    )
-    
-    originalCost += tournament.buyIn
-    originalCost += calculateTravelCost(distance, 'fly') * 2 // round trip
-    originalCost += calculateAccommodationCost(
-      tournament.venue.address.city,
-      3, // average 3 nights
-      player.preferences.hotelQuality
-    )
-    originalCost += 75 * 3 // food costs
-  })
+  return { decision: 'road', nights, roadCost, homeCost, cost: roadCost }
+}
 
-  // Optimize route
-  const optimizedRoute = optimizeRoute(tournaments)
-  let optimizedCost = 0
-  let totalDistance = 0
-  
-  // Calculate optimized circuit cost
-  optimizedCost += optimizedRoute.reduce((sum, t) => sum + t.buyIn, 0) // buy-ins don't change
-
-  // Travel costs for optimized route
-  let currentLocation = homeLocation
-  for (let i = 0; i < optimizedRoute.length; i++) {
-    const tournament = optimizedRoute[i]
-    const distance = calculateDistance(
-      currentLocation.lat,
-      currentLocation.lng,
-      tournament.venue.coordinates.lat,
-      tournament.venue.coordinates.lng
-    )
-    
-    totalDistance += distance
-    const travelMethod = distance > 500 ? 'fly' : 'drive'
-    optimizedCost += calculateTravelCost(distance, travelMethod)
+// Quick cost of playing a solved route as one circuit - for screening many
+// candidate sets. Reported figures come from the planned itinerary instead
+function calculateRouteCost(
+  solution: RouteSolution,
+  player: Player,
+  homeLocation: Coordinates
+): number {
+  const route = solution.route
+  // Buy-ins (including expected re-entries) don't depend on the route
+  let cost = route.reduce((sum, t) => sum + getExpectedBuyInCost(t, player.preferences.bulletPlan), 0)
+
+  for (let i = 0; i < route.length; i++) {
+    const tournament = route[i]
+
+    // Between stops, either go home or pay to bridge the gap on the road
+    if (i === 0) {
+      cost += solution.schedule[i].inbound.cost
+    } else {
+      cost += planStopGap(
+        route[i - 1],
+        tournament,
+        new Date(route[i - 1].endDate.getTime() + DAY_MS),
+        new Date(tournament.startDate.getTime() - 2 * DAY_MS),
+        player,
+        homeLocation
+      ).cost
+    }
     
     // Accommodation - longer stays for consecutive events in same city
-    const sameCity = optimizedRoute.filter(t => t.venue.address.city === tournament.venue.address.city)
+    const sameCity = route.filter(t => t.venue.address.city === tournament.venue.address.city)
     const nights = sameCity.length > 1 ? sameCity.length + 1 : 3
     
-    if (i === 0 || optimizedRoute[i-1].venue.address.city !== tournament.venue.address.city) {
-      optimizedCost += calculateAccommodationCost(
+    if (i === 0 || route[i-1].venue.address.city !== tournament.venue.address.city) {
+      cost += calculateAccommodationCost(
         tournament.venue.address.city,
         nights,
-        player.preferences.hotelQuality
+        player.preferences.hotelQuality,
+        tournament.startDate
       )
     }
     
     // Food costs
-    optimizedCost += 75 * nights
-    
-    currentLocation = { 
-      lat: tournament.venue.coordinates.lat,
-      lng: tournament.venue.coordinates.lng,
-      city: tournament.venue.address.city
-    }
+    cost += getFoodPerDay(costPlace(tournament)) * nights
   }
 
   // Return trip home
-  if (optimizedRoute.length > 0) {
-    const lastVenue = optimizedRoute[optimizedRoute.length - 1].venue
-    const returnDistance = calculateDistance(
-      lastVenue.coordinates.lat,
-      lastVenue.coordinates.lng,
-      homeLocation.lat,
-      homeLocation.lng
-    )
-    const returnMethod = returnDistance > 500 ? 'fly' : 'drive'
-    optimizedCost += calculateTravelCost(returnDistance, returnMethod)
+  if (solution.returnLeg) {
+    cost += solution.returnLeg.cost
+  }
+
+  return cost
+}
+
+// Planned cost of the best route through a set of events, buy-ins included
+export function estimateCircuitCost(
+  tournaments: Tournament[],
+  player: Player,
+  homeLocation: Coordinates = getHomeLocation(player)
+): { solution: RouteSolution; cost: number } {
+  const solution = optimizeRoute(tournaments, homeLocation).best
+  return { solution, cost: calculateRouteCost(solution, player, homeLocation) }
+}
+
+export interface CircuitObjectiveOptions {
+  prioritizeBy?: QuickOptimizeForm['prioritizeBy'];
+  weights?: Partial<ObjectiveWeights>; // overrides prioritizeBy
+  maxBudget?: number; // hard cap on the total planned cost, buy-ins included
+  expectedRoi?: Record<string, number>; // tournament id -> expected ROI %, e.g. from AnalyticsService
+}
+
+// How each plan variant trades money for hours on the road and emissions (see estimateRouteLeg)
+const PLAN_PROFILES: Array<{ label: string; valuation: TravelValuation }> = [
+  { label: 'Standard', valuation: {} },
+  { label: 'Lowest Cost', valuation: { valueOfTime: 0 } },
+  { label: 'Balanced', valuation: { valueOfTime: 30 } },
+  { label: 'Fastest', valuation: { valueOfTime: 120 } },
+  { label: 'Lowest Carbon', valuation: { valueOfTime: 0, carbonPrice: 5 } }
+]
+
+interface CircuitPlan {
+  label: string;
+  valuation: TravelValuation;
+  solved: RouteSolverResult;
+  itinerary: Itinerary;
+  objectives: CircuitObjectives;
+}
+
+// Solve and plan the circuit once per travel profile
+function planCircuitVariants(
+  tournaments: Tournament[],
+  player: Player,
+  homeLocation: TravelPlace,
+  alternates: Tournament[],
+  expectedRoi: Record<string, number>
+): CircuitPlan[] {
+  return PLAN_PROFILES.map(({ label, valuation }) => {
+    const solved = optimizeRoute(tournaments, homeLocation, valuation)
+    const itinerary = buildItinerary(solved.best, player, homeLocation, {
+      name: `${solved.best.route.length} Event Circuit (${label})`,
+      costSavings: 0,
+      optimizationScore: 0
+    }, alternates, valuation)
+    return { label, valuation, solved, itinerary, objectives: measureItinerary(itinerary, player, expectedRoi) }
+  })
+}
+
+// The event to give up first when over budget: worst expected ROI, then the most expensive
+function leastValuableEvent(tournaments: Tournament[], player: Player, expectedRoi: Record<string, number>): Tournament {
+  const roiOf = (t: Tournament) => expectedRoi[t.id] ?? player.statistics?.roi ?? 0
+  return [...tournaments].sort((a, b) =>
+    roiOf(a) - roiOf(b) ||
+    getExpectedBuyInCost(b, player.preferences.bulletPlan) - getExpectedBuyInCost(a, player.preferences.bulletPlan)
+  )[0]
+}
+
+// Cheapest plan against the lowest-carbon one, ties going to the other objective
+function compareCarbon(candidates: ParetoItinerary[]): CarbonComparison {
+  const cheapest = candidates.reduce((best, c) =>
+    c.objectives.cost < best.objectives.cost ||
+    (c.objectives.cost === best.objectives.cost && c.objectives.carbon < best.objectives.carbon) ? c : best
+  )
+  const lowestCarbon = candidates.reduce((best, c) =>
+    c.objectives.carbon < best.objectives.carbon ||
+    (c.objectives.carbon === best.objectives.carbon && c.objectives.cost < best.objectives.cost) ? c : best
+  )
+  return {
+    cheapest,
+    lowestCarbon,
+    extraCost: lowestCarbon.objectives.cost - cheapest.objectives.cost,
+    carbonSaved: cheapest.objectives.carbon - lowestCarbon.objectives.carbon
+  }
+}
+
+function emptyOptimizationResult(): OptimizationResult {
+  return {
+    originalCost: 0,
+    optimizedCost: 0,
+    expectedCost: 0,
+    savings: 0,
+    savingsPercentage: 0,
+    recommendations: [],
+    alternativeRoutes: [],
+    infeasibleEvents: []
+  }
+}
+
+/**
+ * Main optimization function.
+ * Plans the circuit under several travel profiles, drops the least valuable
+ * events until something fits `maxBudget`, then picks the plan with the best
+ * weighted score among those covering the most events. Every plan that isn't
+ * beaten on all objectives is returned as the Pareto set.
+ */
+export function optimizeCircuit(
+  tournaments: Tournament[],
+  player: Player,
+  homeLocation = getHomeLocation(player),
+  alternates: Tournament[] = [],
+  objective: CircuitObjectiveOptions = {}
+): OptimizationResult {
+  if (tournaments.length === 0) {
+    return emptyOptimizationResult()
+  }
+
+  const weights = objective.weights
+    ? normalizeWeights(objective.weights)
+    : objective.prioritizeBy ? PRIORITY_WEIGHTS[objective.prioritizeBy] : COST_ONLY_WEIGHTS
+  const maxBudget = objective.maxBudget ?? Infinity
+  const expectedRoi = objective.expectedRoi || {}
+
+  // The budget is a hard limit - give up events until a plan fits
+  let events = tournaments
+  const droppedForBudget: Tournament[] = []
+  let plans = planCircuitVariants(events, player, homeLocation, alternates, expectedRoi)
+  let fitting = plans.filter(plan => plan.objectives.cost <= maxBudget)
+  while (fitting.length === 0 && events.length > 1) {
+    const dropped = leastValuableEvent(events, player, expectedRoi)
+    droppedForBudget.push(dropped)
+    events = events.filter(t => t.id !== dropped.id)
+    plans = planCircuitVariants(events, player, homeLocation, alternates, expectedRoi)
+    fitting = plans.filter(plan => plan.objectives.cost <= maxBudget)
+  }
+
+  if (fitting.length === 0) {
+    const cheapest = Math.min(...plans.map(plan => plan.objectives.cost))
+    return {
+      ...emptyOptimizationResult(),
+      recommendations: [{
+        type: 'budget',
+        priority: 'high',
+        title: 'Budget Too Low',
+        description: `Even the cheapest single-event plan costs $${cheapest.toLocaleString()}, above your $${maxBudget.toLocaleString()} budget.`,
+        potentialSavings: 0,
+        implementationDifficulty: 'hard'
+      }],
+      paretoSet: [],
+      droppedForBudget: tournaments
+    }
   }
 
+  // Playing more events beats any saving, so only full-coverage plans compete
+  const coverage = Math.max(...fitting.map(plan => plan.itinerary.route.length))
+  const contenders = fitting.filter(plan => plan.itinerary.route.length === coverage)
+  const scores = scoreObjectives(contenders.map(plan => plan.objectives), weights)
+  const scored = contenders.map((plan, i) => ({ plan, score: scores[i] }))
+  const chosen = scored.reduce((best, entry) => entry.score < best.score ? entry : best).plan
+
+  // Every figure comes from planned itineraries, the same model the budget is checked against
+  const { solved, valuation } = chosen
+  const bestPlan = chosen.itinerary
+  const originalCost = calculateIndividualTripsCost(solved.best.route, player, homeLocation, valuation)
+  const optimizedCost = bestPlan.totalCost
+  const expectedCost = bestPlan.expectedCost ?? bestPlan.totalCost
+
   const savings = originalCost - optimizedCost
   const savingsPercentage = originalCost > 0 ? (savings / originalCost) * 100 : 0
 
+  // Weight the plan over how deep the player actually runs at each stop
+  const branchAdjustment = expectedCost - optimizedCost
+
   // Generate recommendations
   const recommendations: Recommendation[] = []
 
+  if (droppedForBudget.length > 0) {
+    recommendations.push({
+      type: 'budget',
+      priority: 'high',
+      title: 'Trimmed to Fit Budget',
+      description: `Left out ${droppedForBudget.map(t => t.name).join(', ')} to keep the circuit under $${maxBudget.toLocaleString()}.`,
+      potentialSavings: 0,
+      implementationDifficulty: 'easy'
+    })
+  }
+
+  if (solved.infeasible.length > 0) {
+    recommendations.push({
+      type: 'timing',
+      priority: 'high',
+      title: 'Registration Window Conflicts',
+      description: `${solved.infeasible.length} event${solved.infeasible.length === 1 ? '' : 's'} cannot be reached before late registration closes: ${solved.infeasible.map(e => e.tournament.name).join(', ')}.`,
+      potentialSavings: 0,
+      implementationDifficulty: 'medium'
+    })
+  }
+
+  const likelyBust = bestPlan.route
+    .map(stop => ({ stop, bust: stop.branches?.find(b => b.outcome === 'bust_day_one') }))
+    .filter(({ bust }) => bust && bust.extraCost < 0)
+    .sort((a, b) => b.bust!.probability - a.bust!.probability)[0]
+  if (likelyBust && branchAdjustment < -200) {
+    recommendations.push({
+      type: 'accommodation',
+      priority: 'medium',
+      title: 'Keep Deep-Run Nights Flexible',
+      description: `There is a ${Math.round(likelyBust.bust!.probability * 100)}% chance you bust Day 1 of ${likelyBust.stop.tournament.name}. Refundable bookings for the later nights save about $${Math.round(-branchAdjustment).toLocaleString()} on average.`,
+      potentialSavings: -branchAdjustment,
+      implementationDifficulty: 'easy'
+    })
+  }
+
   if (savings > 500) {
     recommendations.push({
       type: 'travel',
@@ -381,63 +726,237 @@ export function optimizeCircuit(
     })
   }
 
+  // Ranked alternative orderings of the same events
+  const alternativeRoutes = solved.alternatives.map((alternative, index) => withSavings(
+    buildItinerary(alternative, player, homeLocation, {
+      name: `${alternative.route.length} Event Circuit (Alternative ${index + 1})`,
+      costSavings: 0,
+      optimizationScore: 0
+    }, alternates, valuation),
+    originalCost
+  )).sort((a, b) => (a.expectedCost ?? a.totalCost) - (b.expectedCost ?? b.totalCost))
+
+  // Plans nobody beats on every objective, e.g. $300 more for six fewer hours on the road
+  const candidates: ParetoItinerary[] = scored.map(({ plan, score }) => ({
+    itinerary: plan.itinerary,
+    objectives: plan.objectives,
+    score: Math.round(score * 1000) / 1000
+  }))
+  const paretoSet = paretoFront(candidates).sort((a, b) => a.objectives.cost - b.objectives.cost)
+
   return {
     originalCost: Math.round(originalCost),
     optimizedCost: Math.round(optimizedCost),
+    expectedCost: Math.round(expectedCost),
     savings: Math.round(savings),
     savingsPercentage: Math.round(savingsPercentage),
     recommendations: recommendations.slice(0, 5), // Limit to top 5
-    alternativeRoutes: [] // Could implement alternative route suggestions
+    alternativeRoutes,
+    infeasibleEvents: solved.infeasible,
+    objectives: chosen.objectives,
+    paretoSet,
+    carbonComparison: compareCarbon(candidates),
+    droppedForBudget: droppedForBudget.length > 0 ? droppedForBudget : undefined
   }
 }
 
-// Generate detailed itinerary from optimized route
-export function generateItinerary(
+/**
+ * Cost of playing each event as its own round trip from home, each trip
+ * planned like the circuit so the two compare
+ */
+function calculateIndividualTripsCost(
   tournaments: Tournament[],
   player: Player,
-  homeLocation = { lat: 39.8283, lng: -98.5795, city: 'Home' }
+  homeLocation: TravelPlace,
+  valuation: TravelValuation = {}
+): number {
+  return tournaments.reduce((sum, tournament) => {
+    const trip = optimizeRoute([tournament], homeLocation, valuation).best
+    return sum + buildItinerary(trip, player, homeLocation, {
+      name: tournament.name,
+      costSavings: 0,
+      optimizationScore: 0
+    }, [], valuation).totalCost
+  }, 0)
+}
+
+// What the planned circuit saves over separate trips to the same events
+function withSavings(itinerary: Itinerary, originalCost: number): Itinerary {
+  const savings = originalCost - itinerary.totalCost
+  const score = originalCost > 0 ? (savings / originalCost) * 100 : 0
+  return {
+    ...itinerary,
+    costSavings: Math.round(savings),
+    optimizationScore: Math.min(100, Math.max(0, Math.round(score)))
+  }
+}
+
+// Build an itinerary from a solved route
+function buildItinerary(
+  solution: RouteSolution,
+  player: Player,
+  homeLocation: TravelPlace,
+  summary: { name: string; costSavings: number; optimizationScore: number },
+  alternates: Tournament[] = [],
+  valuation: TravelValuation = {}, // how travel is picked, see estimateRouteLeg
+  breaks: StopBreak[] = [] // indexed by stop, from a hand-ordered route
 ): Itinerary {
-  const optimizedRoute = optimizeRoute(tournaments)
+  const route = solution.route
   const routeStops: RouteStop[] = []
+
+  // Arrive for check-in 2 days before each tournament and check out the day after
+  // its structure finishes (venue-local), pulling departures forward when the next
+  // stop needs us sooner
+  const stays = route.map((tournament, i) => {
+    const timezone = tournament.venue.timezone
+    // Play that runs past midnight still belongs to the previous night
+    const finish = new Date(getScheduledFinish(tournament).getTime() - 6 * 60 * 60 * 1000)
+    let departureDate = withVenueTime(addVenueDays(finish, 1, timezone), CHECK_OUT_HOUR, 0, timezone)
+    const next = solution.schedule[i + 1]
+    if (next) {
+      const latestLeave = new Date(next.entry.getTime() - next.inbound.hours * 60 * 60 * 1000)
+      if (latestLeave < departureDate) {
+        departureDate = latestLeave > solution.schedule[i].departure ? latestLeave : solution.schedule[i].departure
+      }
+    }
+    const arrivalDate = withVenueTime(addVenueDays(tournament.startDate, -2, timezone), CHECK_IN_HOUR, 0, timezone)
+    return { arrivalDate, departureDate }
+  })
+
+  // Rest days put in by hand count from when play ends
+  stays.forEach((stay, i) => {
+    const restDays = breaks[i]?.restDays || 0
+    const rested = new Date(solution.schedule[i].departure.getTime() + restDays * DAY_MS)
+    if (restDays > 0 && rested > stay.departureDate) {
+      stay.departureDate = rested
+    }
+  })
+
+  for (let i = 1; i < stays.length; i++) {
+    const homeDays = breaks[i - 1]?.homeDays || 0
+    const earliest = new Date(stays[i - 1].departureDate.getTime() + homeDays * DAY_MS)
+    if (earliest > stays[i].arrivalDate) {
+      stays[i].arrivalDate = earliest
+    }
+    // A hand-ordered route can reach a stop after it's over
+    if (stays[i].departureDate < stays[i].arrivalDate) {
+      stays[i].departureDate = stays[i].arrivalDate
+    }
+  }
+
+  // Compare going home against staying on the road for every gap
+  const gaps = route.slice(1).map((tournament, i) => {
+    let plan = planStopGap(
+      route[i],
+      tournament,
+      stays[i].departureDate,
+      stays[i + 1].arrivalDate,
+      player,
+      homeLocation
+    )
+    // A break put in by hand overrides the comparison
+    const requested = breaks[i]
+    if (requested?.homeDays) {
+      const toHome = estimateRouteLeg(route[i].venue.coordinates, homeLocation)
+      const fromHome = estimateRouteLeg(homeLocation, tournament.venue.coordinates)
+      const homeCost = toHome.cost + fromHome.cost
+      plan = { ...plan, decision: 'home', homeCost, cost: homeCost, toHome, fromHome, requested: true }
+    } else if (requested?.restDays) {
+      plan = { ...plan, decision: 'road', cost: plan.roadCost, toHome: undefined, fromHome: undefined, requested: true }
+    }
+    if (plan.decision === 'road') {
+      stays[i].departureDate = stays[i + 1].arrivalDate // extend the stay to bridge the gap
+    }
+    return plan
+  })
   
-  let currentLocation = homeLocation
-  
-  for (let i = 0; i < optimizedRoute.length; i++) {
-    const tournament = optimizedRoute[i]
+  // Consecutive stops at one venue, bridged on the road, are one hotel stay
+  const nightsAt = stays.map(stay =>
+    Math.max(0, Math.ceil((stay.departureDate.getTime() - stay.arrivalDate.getTime()) / DAY_MS))
+  )
+  const sameStay = (i: number) => route[i].venue.id === route[i + 1].venue.id && gaps[i].decision === 'road'
+  const stayNights = nightsAt.map((_, i) => {
+    let first = i
+    let last = i
+    while (first > 0 && sameStay(first - 1)) first--
+    while (last < route.length - 1 && sameStay(last)) last++
+    return nightsAt.slice(first, last + 1).reduce((sum, n) => sum + n, 0)
+  })
+
+  let hasCar = true // the player's own car comes along until they fly or ride somewhere
+  for (let i = 0; i < route.length; i++) {
+    const tournament = route[i]
     const venue = tournament.venue
-    
-    // Calculate arrival date (2 days before tournament)
-    const arrivalDate = new Date(tournament.startDate.getTime() - 2 * 24 * 60 * 60 * 1000)
-    const departureDate = new Date(tournament.endDate.getTime() + 24 * 60 * 60 * 1000)
+    const { arrivalDate, departureDate } = stays[i]
+    const previous = i > 0 ? route[i - 1].venue : null
+    const arrivingFromHome = !previous || gaps[i - 1].decision === 'home'
+    const leavingForHome = i === route.length - 1 || gaps[i].decision === 'home'
+
+    const origin = arrivingFromHome ? homeLocation : venuePlace(previous!)
+    const destination = venuePlace(venue)
     
     // Generate travel options
-    const travelOptions = generateTravelOptions(
-      currentLocation.lat,
-      currentLocation.lng,
-      venue.coordinates.lat,
-      venue.coordinates.lng,
-      currentLocation.city,
-      venue.address.city,
+    const ownCarInbound: boolean = arrivingFromHome || hasCar
+    const inboundTravel = bestTravelOption(
+      origin,
+      destination,
       arrivalDate,
-      player.preferences
+      player,
+      ownCarInbound,
+      valuation
     )
+    hasCar = ownCarInbound && inboundTravel.type === 'drive'
+    const outboundTravel = leavingForHome
+      ? bestTravelOption(
+          destination,
+          homeLocation,
+          departureDate,
+          player,
+          hasCar,
+          valuation
+        )
+      : undefined
     
-    const inboundTravel = travelOptions[0] // Best option
-    
-    // Accommodation
-    const nights = Math.ceil((departureDate.getTime() - arrivalDate.getTime()) / (1000 * 60 * 60 * 24))
-    const hotel = venue.nearbyHotels[0] // Primary hotel
+    // Accommodation - the best-scored nearby hotel; live sources don't list hotels, so fall back to an estimate
+    const nights = nightsAt[i]
+    const hotelOptions = rankHotels(tournament, player, nights, stayNights[i])
+    const booked = hotelOptions[0]
+    const hotel: Hotel = booked?.hotel || {
+      id: `${venue.id}-hotel`,
+      name: `Hotel near ${venue.name}`,
+      address: venue.address,
+      distanceFromVenue: 0,
+      priceRange: '$$',
+      rating: 0,
+      amenities: []
+    }
     
+    const nightlyRate = booked ? booked.nightlyRate : getNightlyRate(tournament, player)
     const accommodation = {
       hotel,
       checkIn: arrivalDate,
       checkOut: departureDate,
-      roomType: 'Standard King',
-      nightlyRate: hotel.avgNightlyRate || calculateAccommodationCost(venue.address.city, 1, player.preferences.hotelQuality),
-      totalCost: (hotel.avgNightlyRate || calculateAccommodationCost(venue.address.city, 1, player.preferences.hotelQuality)) * nights,
-      isGroupBooking: hotel.groupRateAvailable || false,
+      roomType: ROOM_TYPES[player.preferences.hotelQuality],
+      nightlyRate,
+      totalCost: nightlyRate * nights,
+      isGroupBooking: booked?.isGroupBooking || false,
       roommates: []
     }
+
+    // Daily trips to the tournament room - parking with a car, otherwise a ride unless the hotel is walkable
+    const place = costPlace(tournament)
+    const days = Math.max(1, nights)
+    const withCar = hasCar || inboundTravel.provider === 'Rental car'
+    const localTransport = withCar
+      ? { description: 'Parking', estimatedCost: getParkingPerDay(place) * days }
+      : {
+          description: 'Local transport',
+          estimatedCost: hotel.distanceFromVenue > WALKING_MILES
+            ? getRideshareFare(place, hotel.distanceFromVenue) * 2 * days
+            : 0
+        }
+
+    const notes = describeGap(i < gaps.length ? gaps[i] : null, breaks[i]?.restDays || 0)
     
     routeStops.push({
       order: i + 1,
@@ -446,42 +965,492 @@ export function generateItinerary(
       departureDate,
       accommodation,
       travel: {
-        inbound: inboundTravel
+        inbound: inboundTravel,
+        outbound: outboundTravel
       },
       localExpenses: [
-        { category: 'food', description: 'Meals', estimatedCost: 75 * nights },
+        { category: 'food', description: 'Meals', estimatedCost: getFoodPerDay(place) * nights },
         { category: 'tips', description: 'Dealer tips', estimatedCost: 50 },
-        { category: 'transportation', description: 'Local transport', estimatedCost: 30 }
-      ]
+        { category: 'transportation', ...localTransport }
+      ],
+      expectedBullets: getExpectedBullets(tournament, player.preferences.bulletPlan),
+      notes,
+      branches: planDeepRunBranches(tournament, departureDate, nightlyRate, {
+        next: leavingForHome ? null : route[i + 1],
+        route,
+        alternates,
+        player,
+        homeLocation
+      }),
+      hotelOptions: hotelOptions.slice(0, HOTEL_OPTIONS_PER_STOP)
     })
-    
-    currentLocation = { 
-      lat: venue.coordinates.lat, 
-      lng: venue.coordinates.lng, 
-      city: venue.address.city 
-    }
   }
   
+  routeStops.forEach(stop => {
+    const stopCost = stop.tournament.buyIn * stop.expectedBullets + stop.accommodation.totalCost +
+      stop.travel.inbound.cost + (stop.travel.outbound?.cost || 0) +
+      stop.localExpenses.reduce((expSum, exp) => expSum + exp.estimatedCost, 0)
+    stop.expectedCost = Math.round(stopCost + (stop.branches || []).reduce((sum, b) => sum + b.probability * b.extraCost, 0))
+  })
   const totalCost = routeStops.reduce((sum, stop) => 
-    sum + stop.tournament.buyIn + stop.accommodation.totalCost + 
-    stop.travel.inbound.cost + 
+    sum + stop.tournament.buyIn * stop.expectedBullets + stop.accommodation.totalCost + 
+    stop.travel.inbound.cost + (stop.travel.outbound?.cost || 0) +
     stop.localExpenses.reduce((expSum, exp) => expSum + exp.estimatedCost, 0), 0
   )
+  const branchAdjustment = routeStops.reduce((sum, stop) =>
+    sum + (stop.branches || []).reduce((branchSum, b) => branchSum + b.probability * b.extraCost, 0), 0
+  )
   
-  const optimizationResult = optimizeCircuit(tournaments, player, homeLocation)
-  
-  return {
+  const itinerary: Itinerary = {
     id: `itinerary-${Date.now()}`,
     playerId: player.id,
-    name: `${tournaments.length} Event Circuit`,
-    tournaments,
+    name: summary.name,
+    tournaments: route,
     route: routeStops,
     totalCost,
-    totalTravelTime: routeStops.reduce((sum, stop) => sum + stop.travel.inbound.duration, 0),
-    costSavings: optimizationResult.savings,
-    optimizationScore: Math.min(100, Math.max(0, optimizationResult.savingsPercentage)),
+    totalTravelTime: routeStops.reduce((sum, stop) => 
+      sum + stop.travel.inbound.duration + (stop.travel.outbound?.duration || 0), 0
+    ),
+    costSavings: summary.costSavings,
+    optimizationScore: Math.min(100, Math.max(0, summary.optimizationScore)),
+    expectedCost: Math.round(totalCost + branchAdjustment),
     created: new Date(),
     lastModified: new Date(),
     status: 'draft'
   }
-}
\ No newline at end of file
+  return { ...itinerary, totalCarbon: itineraryFootprint(itinerary).total }
+}
+
+// What the player does between a stop and the next one (or home)
+function describeGap(gap: GapPlan | null, restDays: number): string | undefined {
+  if (!gap) {
+    return restDays > 0 ? `Rest here for ${restDays} days before heading home` : undefined
+  }
+  if (gap.nights === 0) return undefined
+
+  if (gap.requested) {
+    return gap.decision === 'home'
+      ? `Home visit for ${gap.nights} nights before the next stop`
+      : `Rest here for ${gap.nights} nights before the next stop`
+  }
+  return gap.decision === 'home'
+    ? `Go home for ${gap.nights} nights before the next stop (saves $${Math.round(gap.roadCost - gap.cost).toLocaleString()} vs staying on the road)`
+    : `Stay on the road for ${gap.nights} nights before the next stop${gap.homeCost !== null ? ` (saves $${Math.round(gap.homeCost - gap.cost).toLocaleString()} vs going home)` : ''}`
+}
+
+function getNightlyRate(tournament: Tournament, player: Player): number {
+  const best = rankHotels(tournament, player, 1)[0]
+  return best
+    ? best.nightlyRate
+    : calculateAccommodationCost(tournament.venue.address.city, 1, player.preferences.hotelQuality, tournament.startDate)
+}
+
+// Morning check-out after a given day of play, venue-local
+function checkOutAfterDay(tournament: Tournament, day: number): Date {
+  const timezone = tournament.venue.timezone
+  return withVenueTime(addVenueDays(tournament.startDate, day, timezone), CHECK_OUT_HOUR, 0, timezone)
+}
+
+interface BranchContext {
+  next: Tournament | null; // following stop when staying on the road, null when heading home
+  route: Tournament[];
+  alternates: Tournament[];
+  player: Player;
+  homeLocation: TravelPlace;
+}
+
+/**
+ * Outcomes at a multi-day stop, priced against the plan (which assumes the
+ * player goes the distance). Busting early frees up nights: fire at an
+ * alternate event that fits before the plan resumes, head home early, or move
+ * on to a cheaper next stop.
+ */
+function planDeepRunBranches(
+  tournament: Tournament,
+  plannedCheckOut: Date,
+  nightlyRate: number,
+  context: BranchContext
+): RouteBranch[] {
+  const odds = getDeepRunOdds(tournament, context.player)
+  if (odds.playingDays < 2) return []
+
+  const finalDay = odds.playingDays
+  const outcomes: Array<{ outcome: RouteBranch['outcome']; condition: string; probability: number; checkOut: Date }> = [
+    {
+      outcome: 'bust_day_one',
+      condition: 'If you bust Day 1',
+      probability: 1 - odds.reachDay[1],
+      checkOut: checkOutAfterDay(tournament, 1)
+    }
+  ]
+  if (finalDay > 2) {
+    outcomes.push({
+      outcome: 'bust_before_final',
+      condition: `If you bag Day 1 but bust before Day ${finalDay}`,
+      probability: odds.reachDay[1] - odds.reachDay[finalDay - 1],
+      checkOut: checkOutAfterDay(tournament, finalDay - 1)
+    })
+  }
+
+  const branches = outcomes.map(({ outcome, condition, probability, checkOut }): RouteBranch => {
+    const base = { id: `${tournament.id}-${outcome}`, outcome, condition, probability }
+    const nightsFreed = Math.round((plannedCheckOut.getTime() - checkOut.getTime()) / DAY_MS)
+    if (nightsFreed <= 0) {
+      return { ...base, action: 'stay', checkOut: plannedCheckOut, extraCost: 0 }
+    }
+    return planEarlyExit(tournament, checkOut, plannedCheckOut, nightsFreed, nightlyRate, context, base)
+  })
+
+  branches.push({
+    id: `${tournament.id}-final_day`,
+    outcome: 'final_day',
+    condition: `If you make Day ${finalDay}`,
+    probability: odds.reachDay[finalDay - 1],
+    action: 'stay',
+    checkOut: plannedCheckOut,
+    extraCost: 0,
+    notes: 'Stay through the finish as planned'
+  })
+
+  return branches.filter(branch => branch.probability > 0)
+}
+
+// Best use of the nights freed up by busting before the planned check-out
+function planEarlyExit(
+  tournament: Tournament,
+  checkOut: Date,
+  plannedCheckOut: Date,
+  nightsFreed: number,
+  nightlyRate: number,
+  context: BranchContext,
+  base: Pick<RouteBranch, 'id' | 'outcome' | 'condition' | 'probability'>
+): RouteBranch {
+  const { next, route, alternates, player, homeLocation } = context
+  const venue = tournament.venue
+  const destination = next ? next.venue.coordinates : homeLocation
+  const plannedOnward = estimateRouteLeg(venue.coordinates, destination)
+  const freedCost = nightsFreed * (nightlyRate + getFoodPerDay(costPlace(tournament))) // hotel plus food
+
+  // An event that can still be entered and finishes before the plan resumes
+  let bestAlternate: { alternate: Tournament; leg: RouteLeg; arrival: Date; extraCost: number } | null = null
+  for (const alternate of alternates) {
+    if (route.some(t => t.id === alternate.id)) continue
+
+    const leg = estimateRouteLeg(venue.coordinates, alternate.venue.coordinates)
+    const arrival = new Date(checkOut.getTime() + leg.hours * 60 * 60 * 1000)
+    if (arrival > getLateRegistrationClose(alternate)) continue
+
+    const alternateTimezone = alternate.venue.timezone
+    const alternateFinish = new Date(getScheduledFinish(alternate).getTime() - 6 * 60 * 60 * 1000)
+    const alternateCheckOut = withVenueTime(addVenueDays(alternateFinish, 1, alternateTimezone), CHECK_OUT_HOUR, 0, alternateTimezone)
+    if (alternateCheckOut > plannedCheckOut) continue
+
+    const nights = Math.max(0, Math.ceil((alternateCheckOut.getTime() - arrival.getTime()) / DAY_MS))
+    const onward = estimateRouteLeg(alternate.venue.coordinates, destination)
+    const extraCost = getExpectedBuyInCost(alternate, player.preferences.bulletPlan) +
+      leg.cost + onward.cost - plannedOnward.cost +
+      nights * (getNightlyRate(alternate, player) + getFoodPerDay(costPlace(alternate))) - freedCost
+
+    if (!bestAlternate || extraCost < bestAlternate.extraCost) {
+      bestAlternate = { alternate, leg, arrival, extraCost }
+    }
+  }
+
+  if (bestAlternate) {
+    const { alternate, leg, arrival, extraCost } = bestAlternate
+    const sameVenue = alternate.venue.id === venue.id
+    return {
+      ...base,
+      action: 'alternate_event',
+      checkOut: sameVenue ? plannedCheckOut : checkOut,
+      alternate,
+      travel: sameVenue ? undefined : legToTravelOption(leg, venue.address.city, alternate.venue.address.city, arrival),
+      extraCost: Math.round(extraCost),
+      notes: sameVenue
+        ? `Stay and play ${alternate.name}`
+        : `${leg.method === 'fly' ? 'Fly' : 'Head'} to ${alternate.venue.address.city} for ${alternate.name}`
+    }
+  }
+
+  if (!next) {
+    return {
+      ...base,
+      action: 'go_home',
+      checkOut,
+      extraCost: -Math.round(freedCost),
+      notes: `Head home ${nightsFreed} night${nightsFreed === 1 ? '' : 's'} early`
+    }
+  }
+
+  // Moving on early only pays off when the next city is cheaper to stay in
+  const shift = nightsFreed * (getNightlyRate(next, player) - nightlyRate)
+  if (shift < 0) {
+    return {
+      ...base,
+      action: 'next_stop',
+      checkOut,
+      extraCost: Math.round(shift),
+      notes: `Move on to ${next.venue.address.city} ${nightsFreed} night${nightsFreed === 1 ? '' : 's'} early`
+    }
+  }
+
+  return { ...base, action: 'stay', checkOut: plannedCheckOut, extraCost: 0, notes: `Stay put until ${next.name}` }
+}
+
+// Cheapest travel option for a leg, falling back to the route estimate
+function bestTravelOption(
+  from: TravelPlace,
+  to: TravelPlace,
+  date: Date,
+  player: Player,
+  ownCar = true,
+  valuation: TravelValuation = {}
+): TravelOption {
+  const { valueOfTime, carbonPrice = 0 } = valuation
+  const travelOptions = generateTravelOptions(
+    from.lat,
+    from.lng,
+    to.lat,
+    to.lng,
+    from.city,
+    to.city,
+    date,
+    player.preferences,
+    { fromAirports: from.airports, toAirports: to.airports, ownCar }
+  )
+  
+  if (travelOptions.length === 0) {
+    return legToTravelOption(estimateRouteLeg(from, to, valueOfTime, carbonPrice), from.city, to.city, date)
+  }
+  if (valueOfTime === undefined && carbonPrice === 0) return travelOptions[0] // Best option
+
+  // Price the hours and emissions in, staying within the player's top-ranked preference tier
+  const tier = travelOptions.filter(option =>
+    isPreferred(option, player.preferences.travelMethods) === isPreferred(travelOptions[0], player.preferences.travelMethods)
+  )
+  const price = (option: TravelOption) =>
+    option.cost + option.duration * (valueOfTime || 0) + travelFootprint(option) * carbonPrice
+  return tier.reduce((best, option) => price(option) < price(best) ? option : best)
+}
+
+// Fallback travel option from the solver's leg estimate
+function legToTravelOption(leg: RouteLeg, fromCity: string, toCity: string, date: Date): TravelOption {
+  return {
+    id: `${leg.method}-${fromCity}-${toCity}`,
+    type: leg.method,
+    cost: leg.cost,
+    duration: leg.hours,
+    distance: Math.round(leg.distance),
+    carbonFootprint: Math.round(legFootprint(leg)),
+    departure: {
+      location: fromCity,
+      time: new Date(date.getTime() - leg.hours * 60 * 60 * 1000)
+    },
+    arrival: {
+      location: toCity,
+      time: date
+    }
+  }
+}
+
+// Generate detailed itinerary from optimized route
+export function generateItinerary(
+  tournaments: Tournament[],
+  player: Player,
+  homeLocation = getHomeLocation(player),
+  alternates: Tournament[] = [] // events to fall back on after an early bust
+): Itinerary {
+  const solved = optimizeRoute(tournaments, homeLocation)
+  const itinerary = buildItinerary(solved.best, player, homeLocation, {
+    name: `${solved.best.route.length} Event Circuit`,
+    costSavings: 0,
+    optimizationScore: 0
+  }, alternates)
+
+  // Only events that made the route are comparable with individual trips
+  return withSavings(itinerary, calculateIndividualTripsCost(solved.best.route, player, homeLocation))
+}
+
+/**
+ * Plan a route in exactly the order the player arranged it, with their rest
+ * days and home visits, and flag stops that can't be reached before late
+ * registration closes. Nothing is reordered.
+ */
+export function planManualRoute(
+  items: RouteEditItem[],
+  player: Player,
+  homeLocation = getHomeLocation(player),
+  alternates: Tournament[] = []
+): ManualRoutePlan {
+  const issues: RouteEditIssue[] = []
+  const schedule: RouteScheduleEntry[] = []
+  const breaks: StopBreak[] = []
+  const lastEvent = items.map(item => item.kind).lastIndexOf('event')
+  let location: Coordinates = homeLocation
+  let freeAt: Date | null = null
+
+  items.forEach((item, index) => {
+    if (item.kind !== 'event') {
+      const stop = schedule.length - 1
+      if (stop < 0 || freeAt === null) {
+        issues.push({ itemId: item.id, severity: 'warning', message: 'Breaks before the first event are ignored' })
+        return
+      }
+      if (item.kind === 'home' && index > lastEvent) {
+        issues.push({ itemId: item.id, severity: 'warning', message: 'The route already ends at home' })
+        return
+      }
+
+      const days = Math.max(0, item.days)
+      const stopBreak = breaks[stop] || (breaks[stop] = { restDays: 0, homeDays: 0 })
+      if (item.kind === 'rest') {
+        stopBreak.restDays += days
+        freeAt = new Date(freeAt.getTime() + days * DAY_MS)
+      } else {
+        stopBreak.homeDays += days
+        const toHome = estimateRouteLeg(location, homeLocation)
+        freeAt = new Date(freeAt.getTime() + toHome.hours * 60 * 60 * 1000 + days * DAY_MS)
+        location = homeLocation
+      }
+      return
+    }
+
+    const tournament = item.tournament
+    const inbound = estimateRouteLeg(location, tournament.venue.coordinates)
+    const lateRegistrationClose = getLateRegistrationClose(tournament)
+    const arrival: Date = freeAt
+      ? new Date(freeAt.getTime() + inbound.hours * 60 * 60 * 1000)
+      : new Date(tournament.startDate.getTime() - inbound.hours * 60 * 60 * 1000)
+
+    if (arrival > lateRegistrationClose) {
+      const timezone = tournament.venue.timezone
+      issues.push({
+        itemId: item.id,
+        severity: 'error',
+        message: `Arrives ${formatInTimeZone(arrival, timezone)}, after late registration closes (${formatInTimeZone(lateRegistrationClose, timezone)})`
+      })
+    }
+
+    const entry = arrival > tournament.startDate ? arrival : tournament.startDate
+    const departure = structureCommitmentEnd(tournament, entry)
+    schedule.push({ tournament, arrival, entry, lateRegistrationClose, departure, inbound })
+    location = tournament.venue.coordinates
+    freeAt = departure
+  })
+
+  const route = schedule.map(stop => stop.tournament)
+  const returnLeg = route.length > 0
+    ? estimateRouteLeg(route[route.length - 1].venue.coordinates, homeLocation)
+    : null
+  const legs = schedule.map(stop => stop.inbound).concat(returnLeg ? [returnLeg] : [])
+  const solution: RouteSolution = {
+    route,
+    schedule,
+    returnLeg,
+    totalCost: legs.reduce((sum, leg) => sum + leg.cost, 0),
+    totalDistance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+    totalTravelHours: legs.reduce((sum, leg) => sum + leg.hours, 0)
+  }
+
+  const itinerary = withSavings(
+    buildItinerary(solution, player, homeLocation, {
+      name: `${route.length} Event Circuit`,
+      costSavings: 0,
+      optimizationScore: 0
+    }, alternates, {}, breaks),
+    calculateIndividualTripsCost(route, player, homeLocation)
+  )
+
+  return {
+    itinerary,
+    feasible: !issues.some(issue => issue.severity === 'error'),
+    issues
+  }
+}
+
+type RouteEditEvent = Extract<RouteEditItem, { kind: 'event' }>
+
+/**
+ * Where each pinned event sits among the events - breaks don't count. This is
+ * the position the solver keeps a pinned event at, and the one the editor
+ * holds it at while other rows move.
+ */
+export function getPinnedPositions(items: RouteEditItem[]): Record<Tournament['id'], number> {
+  const pinned: Record<Tournament['id'], number> = {}
+  items
+    .filter((item): item is RouteEditEvent => item.kind === 'event')
+    .forEach((item, i) => {
+      if (item.pinned) pinned[item.tournament.id] = i
+    })
+  return pinned
+}
+
+/**
+ * Put pinned events back at their positions after other rows were moved.
+ * Each goes just before the event that would otherwise take its position,
+ * after any breaks leading up to it.
+ */
+export function placePinnedEvents(
+  items: RouteEditItem[],
+  positions: Record<Tournament['id'], number>
+): RouteEditItem[] {
+  const isHeld = (item: RouteEditItem) => item.kind === 'event' && positions[item.tournament.id] !== undefined
+  const held = items
+    .filter((item): item is RouteEditEvent => isHeld(item))
+    .sort((a, b) => positions[a.tournament.id] - positions[b.tournament.id])
+
+  const placed: RouteEditItem[] = []
+  let events = 0
+  const placeDue = () => {
+    while (held.length > 0 && positions[held[0].tournament.id] <= events) {
+      placed.push(held.shift()!)
+      events++
+    }
+  }
+
+  items.filter(item => !isHeld(item)).forEach(item => {
+    if (item.kind === 'event') {
+      placeDue()
+      events++
+    }
+    placed.push(item)
+  })
+  placeDue()
+  return placed.concat(held)
+}
+
+/**
+ * Let the optimizer re-order a hand-built route. Pinned events keep their
+ * position among the events, breaks move with the event they follow, and
+ * events the new order can't reach are left at the end for the player to fix.
+ */
+export function reoptimizeManualRoute(
+  items: RouteEditItem[],
+  player: Player,
+  homeLocation = getHomeLocation(player)
+): RouteEditItem[] {
+  const events = items.filter((item): item is RouteEditEvent => item.kind === 'event')
+  const pinned = getPinnedPositions(items)
+
+  const leading: RouteEditItem[] = []
+  const following = new Map<Tournament['id'], RouteEditItem[]>()
+  let owner: Tournament['id'] | null = null
+  for (const item of items) {
+    if (item.kind === 'event') {
+      owner = item.tournament.id
+      following.set(owner, [])
+    } else if (owner) {
+      following.get(owner)!.push(item)
+    } else {
+      leading.push(item)
+    }
+  }
+
+  const { best } = optimizeRoute(events.map(item => item.tournament), homeLocation, { pinned })
+  const routed = best.route.map(tournament => events.find(item => item.tournament.id === tournament.id)!)
+  const unreachable = events.filter(item => !routed.includes(item))
+
+  return routed.concat(unreachable).reduce((ordered, item) =>
+    ordered.concat(item, following.get(item.tournament.id) || []), leading
+  )
+}
@@ -0,0 +1,98 @@
+import { TravelLeg } from '@/types'
+import { trainRoutes, TrainRoute, TrainStation } from '@/data/train-routes'
+import { distanceBetween } from './geo'
+import { groundTransfer, GroundPoint } from './ground-transport'
+import { travelPricing, PricingPlace } from './travel-pricing'
+
+/**
+ * Rail between circuit stops, limited to the bundled corridors. A train only
+ * counts when both ends are a short ride from a station on the same line.
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+const MAX_STATION_MILES = 30
+const BOARDING_HOURS = 0.25 // at the platform before departure
+
+export interface TrainJourney {
+  route: TrainRoute;
+  from: TrainStation; // boarding station - routes run both ways
+  to: TrainStation;
+  legs: TravelLeg[];
+  cost: number;
+  duration: number; // hours, door to door
+  departure: Date;
+  arrival: Date;
+  railMiles: number;
+  groundMiles: number;
+}
+
+function nearStation(point: GroundPoint, station: TrainStation): boolean {
+  return distanceBetween(point.coordinates, station.coordinates) <= MAX_STATION_MILES
+}
+
+function stationPoint(station: TrainStation): GroundPoint {
+  return { label: station.name, coordinates: station.coordinates }
+}
+
+function stationPlace(station: TrainStation): PricingPlace {
+  return { coordinates: station.coordinates, city: station.city }
+}
+
+// Cheapest quoted fare for the ride, falling back to the corridor's bundled fare
+function trainFare(match: { route: TrainRoute; from: TrainStation; to: TrainStation }, arriveBy: Date): number {
+  const quotes = travelPricing.getQuotesSync({
+    mode: 'train',
+    from: stationPlace(match.from),
+    to: stationPlace(match.to),
+    arriveBy
+  })
+  return quotes && quotes.length > 0 ? quotes[0].price : match.route.fare
+}
+
+// Corridor serving both places, with the stations in travel order
+export function findTrainRoute(from: GroundPoint, to: GroundPoint): { route: TrainRoute; from: TrainStation; to: TrainStation } | null {
+  for (const route of trainRoutes) {
+    if (nearStation(from, route.from) && nearStation(to, route.to)) {
+      return { route, from: route.from, to: route.to }
+    }
+    if (nearStation(from, route.to) && nearStation(to, route.from)) {
+      return { route, from: route.to, to: route.from }
+    }
+  }
+  return null
+}
+
+// Door-to-door rail journey arriving by `arriveBy`, or null off the corridors
+export function planTrainJourney(from: GroundPoint, to: GroundPoint, arriveBy: Date): TrainJourney | null {
+  const match = findTrainRoute(from, to)
+  if (!match) return null
+  const { route } = match
+
+  const finalLeg = groundTransfer(stationPoint(match.to), to, arriveBy)
+  const trainDeparture = new Date(finalLeg.departure.getTime() - route.durationHours * HOUR_MS)
+  const railMiles = distanceBetween(match.from.coordinates, match.to.coordinates)
+  const trainLeg: TravelLeg = {
+    mode: 'train',
+    from: match.from.name,
+    to: match.to.name,
+    departure: trainDeparture,
+    arrival: finalLeg.departure,
+    duration: route.durationHours,
+    cost: trainFare(match, finalLeg.departure),
+    distance: Math.round(railMiles),
+    carrier: `${route.operator} ${route.line}`
+  }
+  const firstLeg = groundTransfer(from, stationPoint(match.from), new Date(trainDeparture.getTime() - BOARDING_HOURS * HOUR_MS))
+
+  const legs = [firstLeg, trainLeg, finalLeg]
+  return {
+    ...match,
+    legs,
+    cost: legs.reduce((sum, leg) => sum + leg.cost, 0),
+    duration: (arriveBy.getTime() - firstLeg.departure.getTime()) / HOUR_MS,
+    departure: firstLeg.departure,
+    arrival: arriveBy,
+    railMiles: Math.round(railMiles),
+    groundMiles: (firstLeg.distance || 0) + (finalLeg.distance || 0)
+  }
+}
@@ -0,0 +1,406 @@
+import { Tournament, Coordinates, InfeasibleEvent } from '@/types'
+import { getMinutesThroughLevels } from './blind-structure'
+
+/**
+ * Time-window aware route solver
+ * Orders a set of tournaments so that every stop is reached before late
+ * registration closes. Small circuits are solved exactly with branch and bound,
+ * larger ones with cheapest-insertion construction followed by 2-opt / or-opt.
+ * Events the player has pinned keep their position; the rest are ordered
+ * around them.
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+const EXACT_SOLVER_LIMIT = 9 // largest circuit solved by exhaustive search
+const DEFAULT_ALTERNATIVES = 3
+
+export interface RouteLeg {
+  distance: number; // miles
+  method: 'fly' | 'drive' | 'train' | 'bus';
+  hours: number; // door-to-door
+  cost: number;
+}
+
+export interface RouteScheduleEntry {
+  tournament: Tournament;
+  arrival: Date; // when the player reaches the venue
+  entry: Date; // when the player can take a seat (never before start)
+  lateRegistrationClose: Date;
+  departure: Date; // when the player is free to travel on
+  inbound: RouteLeg;
+}
+
+export interface RouteSolution {
+  route: Tournament[];
+  schedule: RouteScheduleEntry[];
+  returnLeg: RouteLeg | null;
+  totalCost: number; // travel cost including the return home
+  totalDistance: number;
+  totalTravelHours: number;
+}
+
+export interface RouteSolverResult {
+  best: RouteSolution;
+  alternatives: RouteSolution[]; // ranked, cheapest first, same events as best
+  infeasible: InfeasibleEvent[];
+  method: 'exact' | 'local-search';
+}
+
+export interface RouteSolverOptions {
+  homeLocation: Coordinates;
+  estimateLeg: (from: Coordinates, to: Coordinates) => RouteLeg;
+  earliestDeparture?: Date; // no stop can be reached before leaving home
+  commitmentEnd?: (tournament: Tournament, entry: Date) => Date;
+  maxAlternatives?: number;
+  pinned?: Record<Tournament['id'], number>; // 0-based position a pinned event must keep
+}
+
+// When late registration actually closes for an event - the end of the last
+// late-reg level, with the structure's own level lengths and breaks
+export function getLateRegistrationClose(tournament: Tournament): Date {
+  if (tournament.registrationDeadline) {
+    return tournament.registrationDeadline
+  }
+
+  const levels = tournament.lateRegistrationLevels ?? tournament.structure.reentryLevels ?? 0
+  return new Date(tournament.startDate.getTime() + getMinutesThroughLevels(tournament, levels) * 60 * 1000)
+}
+
+// By default the player stays until the event's scheduled end
+function defaultCommitmentEnd(tournament: Tournament, entry: Date): Date {
+  return tournament.endDate > entry ? tournament.endDate : entry
+}
+
+interface Evaluation {
+  feasible: boolean;
+  solution?: RouteSolution;
+}
+
+class RouteEvaluator {
+  private legCache = new Map<string, RouteLeg>()
+
+  constructor(private options: RouteSolverOptions) {}
+
+  leg(from: Coordinates, to: Coordinates): RouteLeg {
+    const key = `${from.lat},${from.lng}->${to.lat},${to.lng}`
+    let leg = this.legCache.get(key)
+    if (!leg) {
+      leg = this.options.estimateLeg(from, to)
+      this.legCache.set(key, leg)
+    }
+    return leg
+  }
+
+  // Schedule a stop reached from `from` after being free at `freeAt`
+  scheduleStop(
+    tournament: Tournament,
+    from: Coordinates,
+    freeAt: Date | null
+  ): RouteScheduleEntry | null {
+    const inbound = this.leg(from, tournament.venue.coordinates)
+    const lateRegistrationClose = getLateRegistrationClose(tournament)
+
+    // Leaving home is unconstrained unless an earliest departure is given
+    const arrival = freeAt
+      ? new Date(freeAt.getTime() + inbound.hours * HOUR_MS)
+      : new Date(tournament.startDate.getTime() - inbound.hours * HOUR_MS)
+
+    if (arrival > lateRegistrationClose) {
+      return null
+    }
+
+    const entry = arrival > tournament.startDate ? arrival : tournament.startDate
+    const commitmentEnd = this.options.commitmentEnd || defaultCommitmentEnd
+
+    return {
+      tournament,
+      arrival,
+      entry,
+      lateRegistrationClose,
+      departure: commitmentEnd(tournament, entry),
+      inbound
+    }
+  }
+
+  // A pinned event may only sit at its pinned position
+  canPlace(tournament: Tournament, position: number): boolean {
+    const pin = this.options.pinned?.[tournament.id]
+    return pin === undefined || pin === position
+  }
+
+  evaluate(route: Tournament[]): Evaluation {
+    if (!route.every((tournament, i) => this.canPlace(tournament, i))) {
+      return { feasible: false }
+    }
+
+    const schedule: RouteScheduleEntry[] = []
+    let location = this.options.homeLocation
+    let freeAt: Date | null = this.options.earliestDeparture || null
+
+    for (const tournament of route) {
+      const entry = this.scheduleStop(tournament, location, freeAt)
+      if (!entry) return { feasible: false }
+
+      schedule.push(entry)
+      location = tournament.venue.coordinates
+      freeAt = entry.departure
+    }
+
+    return { feasible: true, solution: this.finish(schedule) }
+  }
+
+  finish(schedule: RouteScheduleEntry[]): RouteSolution {
+    const returnLeg = schedule.length > 0
+      ? this.leg(schedule[schedule.length - 1].tournament.venue.coordinates, this.options.homeLocation)
+      : null
+    const legs = schedule.map(s => s.inbound).concat(returnLeg ? [returnLeg] : [])
+
+    return {
+      route: schedule.map(s => s.tournament),
+      schedule: [...schedule],
+      returnLeg,
+      totalCost: legs.reduce((sum, leg) => sum + leg.cost, 0),
+      totalDistance: legs.reduce((sum, leg) => sum + leg.distance, 0),
+      totalTravelHours: legs.reduce((sum, leg) => sum + leg.hours, 0)
+    }
+  }
+}
+
+// Keeps the best K solutions ranked by coverage, then cost
+class SolutionPool {
+  private solutions: RouteSolution[] = []
+  private seen = new Set<string>()
+
+  constructor(private capacity: number) {}
+
+  get worst(): RouteSolution | undefined {
+    return this.solutions.length >= this.capacity ? this.solutions[this.solutions.length - 1] : undefined
+  }
+
+  add(solution: RouteSolution): void {
+    const key = solution.route.map(t => t.id).join('|')
+    if (this.seen.has(key)) return
+
+    const worst = this.worst
+    if (worst && compareSolutions(solution, worst) >= 0) return
+
+    this.seen.add(key)
+    this.solutions.push(solution)
+    this.solutions.sort(compareSolutions)
+    if (this.solutions.length > this.capacity) {
+      const dropped = this.solutions.pop()!
+      this.seen.delete(dropped.route.map(t => t.id).join('|'))
+    }
+  }
+
+  ranked(): RouteSolution[] {
+    return [...this.solutions]
+  }
+}
+
+function compareSolutions(a: RouteSolution, b: RouteSolution): number {
+  if (a.route.length !== b.route.length) return b.route.length - a.route.length
+  return a.totalCost - b.totalCost
+}
+
+/**
+ * Solve the route for a set of tournaments under their registration windows
+ */
+export function solveRoute(tournaments: Tournament[], options: RouteSolverOptions): RouteSolverResult {
+  const evaluator = new RouteEvaluator(options)
+  const maxAlternatives = options.maxAlternatives ?? DEFAULT_ALTERNATIVES
+
+  // Events that cannot be played whatever the order
+  const infeasible: InfeasibleEvent[] = []
+  const candidates: Tournament[] = []
+
+  tournaments.forEach(tournament => {
+    const lateRegistrationClose = getLateRegistrationClose(tournament)
+
+    if (options.earliestDeparture && lateRegistrationClose < options.earliestDeparture) {
+      infeasible.push({
+        tournament,
+        reason: 'registration-closed',
+        lateRegistrationClose,
+        description: `Late registration for ${tournament.name} closed on ${lateRegistrationClose.toLocaleString()}.`
+      })
+    } else if (!evaluator.scheduleStop(tournament, options.homeLocation, options.earliestDeparture || null)) {
+      infeasible.push({
+        tournament,
+        reason: 'unreachable',
+        lateRegistrationClose,
+        description: `${tournament.name} cannot be reached from home before late registration closes.`
+      })
+    } else {
+      candidates.push(tournament)
+    }
+  })
+
+  const pool = new SolutionPool(maxAlternatives + 1)
+  const method = candidates.length <= EXACT_SOLVER_LIMIT ? 'exact' : 'local-search'
+
+  if (method === 'exact') {
+    solveExact(candidates, evaluator, options, pool)
+  } else {
+    solveLocalSearch(candidates, evaluator, options, pool)
+  }
+
+  const ranked = pool.ranked()
+  const best = ranked[0] || evaluator.finish([])
+  const alternatives = ranked.slice(1).filter(s => s.route.length === best.route.length)
+
+  // Anything left out of the best route clashes with the chosen stops
+  const routeIds = new Set(best.route.map(t => t.id))
+  candidates
+    .filter(t => !routeIds.has(t.id))
+    .forEach(tournament => {
+      const lateRegistrationClose = getLateRegistrationClose(tournament)
+      const conflicts = best.schedule.filter(stop =>
+        stop.entry <= lateRegistrationClose && stop.departure >= tournament.startDate
+      )
+
+      infeasible.push({
+        tournament,
+        reason: 'schedule-conflict',
+        lateRegistrationClose,
+        conflictsWith: conflicts.map(stop => stop.tournament.id),
+        description: conflicts.length > 0
+          ? `${tournament.name} overlaps ${conflicts.map(stop => stop.tournament.name).join(', ')}.`
+          : `${tournament.name} cannot be reached before late registration closes from the previous stop.`
+      })
+    })
+
+  return { best, alternatives, infeasible, method }
+}
+
+// Branch and bound over all orderings, recording every feasible prefix
+function solveExact(
+  candidates: Tournament[],
+  evaluator: RouteEvaluator,
+  options: RouteSolverOptions,
+  pool: SolutionPool
+): void {
+  const schedule: RouteScheduleEntry[] = []
+  const visited = new Set<number>()
+
+  const search = (location: Coordinates, freeAt: Date | null, cost: number) => {
+    const solution = evaluator.finish(schedule)
+    pool.add(solution)
+
+    const worst = pool.worst
+    const potential = schedule.length + (candidates.length - visited.size)
+    if (worst && (potential < worst.route.length || (potential === worst.route.length && cost >= worst.totalCost))) {
+      return
+    }
+
+    for (let i = 0; i < candidates.length; i++) {
+      if (visited.has(i) || !evaluator.canPlace(candidates[i], schedule.length)) continue
+
+      const entry = evaluator.scheduleStop(candidates[i], location, freeAt)
+      if (!entry) continue
+
+      visited.add(i)
+      schedule.push(entry)
+      search(candidates[i].venue.coordinates, entry.departure, cost + entry.inbound.cost)
+      schedule.pop()
+      visited.delete(i)
+    }
+  }
+
+  search(options.homeLocation, options.earliestDeparture || null, 0)
+}
+
+// Cheapest feasible insertion, then 2-opt and or-opt improvement
+function solveLocalSearch(
+  candidates: Tournament[],
+  evaluator: RouteEvaluator,
+  options: RouteSolverOptions,
+  pool: SolutionPool
+): void {
+  // Pinned events go in last, in position order, so the route has grown to reach their pins
+  const pinned = options.pinned || {}
+  const ordered = [...candidates].sort((a, b) =>
+    (pinned[a.id] ?? -1) - (pinned[b.id] ?? -1) ||
+    getLateRegistrationClose(a).getTime() - getLateRegistrationClose(b).getTime() ||
+    a.startDate.getTime() - b.startDate.getTime()
+  )
+
+  let route: Tournament[] = []
+  let current = evaluator.evaluate(route).solution!
+  const skipped: Tournament[] = []
+
+  const insertAll = (pending: Tournament[]): Tournament[] => {
+    const stillSkipped: Tournament[] = []
+    pending.forEach(tournament => {
+      let bestInsertion: RouteSolution | null = null
+      for (let position = 0; position <= route.length; position++) {
+        const attempt = [...route.slice(0, position), tournament, ...route.slice(position)]
+        const result = evaluator.evaluate(attempt)
+        if (result.feasible && (!bestInsertion || result.solution!.totalCost < bestInsertion.totalCost)) {
+          bestInsertion = result.solution!
+        }
+      }
+
+      if (bestInsertion) {
+        route = bestInsertion.route
+        current = bestInsertion
+        pool.add(current)
+      } else {
+        stillSkipped.push(tournament)
+      }
+    })
+    return stillSkipped
+  }
+
+  skipped.push(...insertAll(ordered))
+
+  let improved = true
+  while (improved) {
+    improved = false
+
+    for (const neighbour of neighbourhood(route)) {
+      const result = evaluator.evaluate(neighbour)
+      if (!result.feasible) continue
+
+      pool.add(result.solution!)
+      if (result.solution!.totalCost < current.totalCost) {
+        current = result.solution!
+        route = current.route
+        improved = true
+        break
+      }
+    }
+
+    // A better order may open room for events that did not fit before
+    if (skipped.length > 0) {
+      const before = skipped.length
+      const remaining = insertAll(skipped)
+      skipped.splice(0, skipped.length, ...remaining)
+      if (remaining.length < before) improved = true
+    }
+  }
+}
+
+// 2-opt segment reversals and or-opt moves of up to three consecutive stops
+function neighbourhood(route: Tournament[]): Tournament[][] {
+  const neighbours: Tournament[][] = []
+
+  for (let i = 0; i < route.length - 1; i++) {
+    for (let j = i + 1; j < route.length; j++) {
+      neighbours.push([...route.slice(0, i), ...route.slice(i, j + 1).reverse(), ...route.slice(j + 1)])
+    }
+  }
+
+  for (let length = 1; length <= 3; length++) {
+    for (let i = 0; i + length <= route.length; i++) {
+      const segment = route.slice(i, i + length)
+      const rest = [...route.slice(0, i), ...route.slice(i + length)]
+      for (let position = 0; position <= rest.length; position++) {
+        if (position === i) continue
+        neighbours.push([...rest.slice(0, position), ...segment, ...rest.slice(position)])
+      }
+    }
+  }
+
+  return neighbours
+}
@@ -0,0 +1,305 @@
+import { Player, ScheduleConflict, Tournament } from '@/types'
+import { DEFAULT_MAX_BUYIN_PERCENTAGE, getBulletCap, getMaxBuyInExposure } from './bullets'
+import { getScheduledFinish, getStructureMetrics } from './blind-structure'
+import { getLateRegistrationClose } from './route-solver'
+import { getVenueAirports } from './airports'
+import { rankHotels } from './hotels'
+import { findMetro, getFoodPerDay, getQualityRate, getSeasonalMultiplier } from './cost-of-living'
+import { distanceBetween } from './geo'
+import { formatInTimeZone, getZonedParts, isValidTimeZone } from './timezones'
+import { estimateRouteLeg, generateTravelOptions, getHomeLocation, optimizeRoute } from './optimization'
+
+/**
+ * Conflict checks for a hand-picked schedule.
+ * Hard conflicts are events that can't both be played: Day 1 sessions that
+ * overlap, or a gap too short for the fastest way between the venues. Soft
+ * conflicts break the player's own limits - trip length, monthly travel spend,
+ * nightly hotel and daily food budgets, and the bankroll share any one event
+ * may risk. Each comes with a fix.
+ */
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const HOME_BREAK_HOURS = 48 // a gap this long sends the player home between events
+const MAX_TRANSFER_HOURS = 48 // no transfer takes longer, so wider gaps need no travel check
+const SAME_VENUE_MILES = 1
+
+export interface ScheduleConflictOptions {
+  maxBuyinPercentage?: number; // the player's buy-in strategy limit
+}
+
+// Earliest the player is free - busting on Day 1
+function dayOneEnd(tournament: Tournament): Date {
+  return new Date(tournament.startDate.getTime() + getStructureMetrics(tournament).dayOneHours * HOUR_MS)
+}
+
+function hours(ms: number): string {
+  return `${Math.round((ms / HOUR_MS) * 10) / 10}h`
+}
+
+// Fastest door-to-door way between two venues the player would use, in hours
+function fastestTransferHours(from: Tournament, to: Tournament, player: Player): number {
+  if (distanceBetween(from.venue.coordinates, to.venue.coordinates) < SAME_VENUE_MILES) return 0
+
+  const options = generateTravelOptions(
+    from.venue.coordinates.lat,
+    from.venue.coordinates.lng,
+    to.venue.coordinates.lat,
+    to.venue.coordinates.lng,
+    from.venue.address.city,
+    to.venue.address.city,
+    getLateRegistrationClose(to),
+    player.preferences,
+    {
+      fromAirports: getVenueAirports(from.venue).map(airport => airport.code),
+      toAirports: getVenueAirports(to.venue).map(airport => airport.code)
+    }
+  )
+  return options.length > 0
+    ? Math.min(...options.map(option => option.duration))
+    : estimateRouteLeg(from.venue.coordinates, to.venue.coordinates).hours
+}
+
+function removeFix(tournament: Tournament): ScheduleConflict['fix'] {
+  return { action: 'remove', tournamentId: tournament.id }
+}
+
+// Overlapping sessions and transfers that can't be made, for every ordered pair
+function timingConflicts(events: Tournament[], player: Player): ScheduleConflict[] {
+  const conflicts: ScheduleConflict[] = []
+  // Input order is the order events were added - the later one is the one to reconsider
+  const newer = (a: Tournament, b: Tournament) => events.indexOf(a) > events.indexOf(b) ? a : b
+  const sorted = [...events].sort((a, b) => a.startDate.getTime() - b.startDate.getTime())
+
+  sorted.forEach((first, i) => {
+    const free = dayOneEnd(first)
+    sorted.slice(i + 1).forEach(second => {
+      const drop = newer(first, second)
+      const keep = drop === first ? second : first
+      const id = `${first.id}|${second.id}`
+
+      if (second.startDate < free) {
+        conflicts.push({
+          id: `overlap-${id}`,
+          type: 'overlap',
+          severity: 'error',
+          tournamentIds: [first.id, second.id],
+          message: `${second.name} starts before Day 1 of ${first.name} is over`,
+          suggestion: `Pick one - remove ${drop.name} to keep ${keep.name}`,
+          fix: removeFix(drop)
+        })
+        return
+      }
+
+      const gap = getLateRegistrationClose(second).getTime() - free.getTime()
+      if (gap < MAX_TRANSFER_HOURS * HOUR_MS) {
+        const transfer = fastestTransferHours(first, second, player)
+        if (transfer * HOUR_MS > gap) {
+          conflicts.push({
+            id: `transfer-${id}`,
+            type: 'impossible-transfer',
+            severity: 'error',
+            tournamentIds: [first.id, second.id],
+            message: `Getting from ${first.venue.address.city} to ${second.venue.address.city} takes ${hours(transfer * HOUR_MS)}, but registration for ${second.name} closes ${hours(gap)} after Day 1 of ${first.name}`,
+            suggestion: `Remove ${drop.name}, or enter a later Day 1 flight of ${second.name}`,
+            fix: removeFix(drop)
+          })
+          return
+        }
+      }
+
+      const finish = getScheduledFinish(first)
+      if (second.startDate < finish) {
+        conflicts.push({
+          id: `deep-run-${id}`,
+          type: 'overlap',
+          severity: 'warning',
+          tournamentIds: [first.id, second.id],
+          message: `${second.name} starts before ${first.name} is scheduled to finish (${formatInTimeZone(finish, first.venue.timezone)})`,
+          suggestion: `Fine if you bust ${first.name} early - treat ${second.name} as a fallback if you go deep`
+        })
+      }
+    })
+  })
+
+  return conflicts
+}
+
+// Runs of events with no break long enough to go home, each longer than maxDaysPerTrip
+function tripLengthConflicts(events: Tournament[], player: Player): ScheduleConflict[] {
+  const maxDays = player.preferences.maxDaysPerTrip
+  if (!(maxDays > 0)) return []
+
+  const sorted = [...events].sort((a, b) => a.startDate.getTime() - b.startDate.getTime())
+  const trips: Tournament[][] = []
+  let tripEnd = 0
+  sorted.forEach(event => {
+    const current = trips[trips.length - 1]
+    if (current && event.startDate.getTime() - tripEnd < HOME_BREAK_HOURS * HOUR_MS) {
+      current.push(event)
+    } else {
+      trips.push([event])
+      tripEnd = 0
+    }
+    tripEnd = Math.max(tripEnd, getScheduledFinish(event).getTime())
+  })
+
+  const conflicts: ScheduleConflict[] = []
+  trips.forEach(trip => {
+    const start = trip[0].startDate.getTime()
+    const end = Math.max(...trip.map(event => getScheduledFinish(event).getTime()))
+    const days = Math.ceil((end - start) / DAY_MS)
+    if (days <= maxDays) return
+
+    const last = trip[trip.length - 1]
+    const canShorten = trip.length > 1
+    conflicts.push({
+      id: `trip-${trip[0].id}`,
+      type: 'trip-length',
+      severity: 'warning',
+      tournamentIds: trip.map(event => event.id),
+      message: `${days}-day trip from ${trip[0].name} to ${last.name} - you prefer at most ${maxDays} days away`,
+      suggestion: canShorten
+        ? `Remove ${last.name} to end the trip sooner, or raise your trip length limit`
+        : `This event alone runs ${days} days - raise your trip length limit to play it`,
+      fix: canShorten ? removeFix(last) : undefined
+    })
+  })
+
+  return conflicts
+}
+
+function monthOf(date: Date, timeZone?: string): { key: string; label: string } {
+  const zone = isValidTimeZone(timeZone) ? timeZone : 'UTC'
+  const { year, month } = getZonedParts(date, zone)
+  return {
+    key: `${year}-${month}`,
+    label: date.toLocaleDateString('en-US', { month: 'long', year: 'numeric', timeZone: zone })
+  }
+}
+
+// Travel spend on the routed circuit, per month, against maxTravelPerMonth
+function monthlyTravelConflicts(events: Tournament[], player: Player): ScheduleConflict[] {
+  const limit = player.preferences.budgetConstraints.maxTravelPerMonth
+  if (!(limit > 0) || events.length === 0) return []
+
+  const { best } = optimizeRoute(events, getHomeLocation(player))
+  const months = new Map<string, { label: string; spend: number; legs: { tournament: Tournament; cost: number }[] }>()
+  best.schedule.forEach((stop, i) => {
+    const { key, label } = monthOf(stop.arrival, stop.tournament.venue.timezone)
+    const isLast = i === best.schedule.length - 1
+    const cost = stop.inbound.cost + (isLast && best.returnLeg ? best.returnLeg.cost : 0)
+    const month = months.get(key) || { label, spend: 0, legs: [] }
+    month.spend += cost
+    month.legs.push({ tournament: stop.tournament, cost })
+    months.set(key, month)
+  })
+
+  return Array.from(months.entries())
+    .filter(([, month]) => month.spend > limit)
+    .map(([key, month]) => {
+      const priciest = month.legs.reduce((a, b) => b.cost > a.cost ? b : a)
+      return {
+        id: `monthly-travel-${key}`,
+        type: 'monthly-travel' as const,
+        severity: 'warning' as const,
+        tournamentIds: month.legs.map(leg => leg.tournament.id),
+        message: `About $${Math.round(month.spend).toLocaleString()} of travel in ${month.label}, over your $${limit.toLocaleString()} monthly limit`,
+        suggestion: `Remove ${priciest.tournament.name} to save about $${Math.round(priciest.cost).toLocaleString()} in travel`,
+        fix: removeFix(priciest.tournament)
+      }
+    })
+}
+
+// Cities where even the cheapest hotel, or the usual food per diem, is over the player's daily limits
+function dailyCostConflicts(events: Tournament[], player: Player): ScheduleConflict[] {
+  const { maxAccommodationPerNight, maxFoodPerDay } = player.preferences.budgetConstraints
+  const cities = new Map<string, Tournament[]>()
+  events.forEach(event => {
+    const place = { city: event.venue.address.city, coordinates: event.venue.coordinates }
+    const key = findMetro(place)?.id || event.venue.address.city
+    cities.set(key, (cities.get(key) || []).concat(event))
+  })
+
+  const conflicts: ScheduleConflict[] = []
+  cities.forEach((stays, key) => {
+    const city = stays[0].venue.address.city
+    const place = { city, coordinates: stays[0].venue.coordinates }
+    const overages: string[] = []
+
+    if (maxAccommodationPerNight > 0) {
+      const nightly = Math.max(...stays.map(event => {
+        const options = rankHotels(event, player, 1)
+        return options.length > 0
+          ? Math.min(...options.map(option => option.nightlyRate))
+          : getQualityRate(place, player.preferences.hotelQuality, event.startDate)
+      }))
+      if (nightly > maxAccommodationPerNight) {
+        const { season } = getSeasonalMultiplier(place, stays[0].startDate)
+        overages.push(`hotels run about $${nightly}/night${season ? ` (${season} rates)` : ''} against your $${maxAccommodationPerNight} limit`)
+      }
+    }
+
+    const food = getFoodPerDay(place)
+    if (maxFoodPerDay > 0 && food > maxFoodPerDay) {
+      overages.push(`meals run about $${food}/day against your $${maxFoodPerDay} limit`)
+    }
+
+    if (overages.length === 0) return
+    conflicts.push({
+      id: `daily-costs-${key}`,
+      type: 'daily-costs',
+      severity: 'warning',
+      tournamentIds: stays.map(event => event.id),
+      message: `In ${city}, ${overages.join(' and ')}`,
+      suggestion: `Budget extra for ${stays.length === 1 ? stays[0].name : `your ${stays.length} events there`}, share a room, or raise your daily limits`
+    })
+  })
+
+  return conflicts
+}
+
+// Events whose full bullet exposure breaks the bankroll percentage rule
+function bankrollConflicts(events: Tournament[], player: Player, maxBuyinPercentage: number): ScheduleConflict[] {
+  const plan = player.preferences.bulletPlan
+  const limit = player.bankroll.tournamentBankroll * (maxBuyinPercentage / 100)
+
+  return events
+    .filter(event => getMaxBuyInExposure(event, plan) > limit)
+    .map(event => {
+      const exposure = getMaxBuyInExposure(event, plan)
+      const affordableBullets = Math.floor(limit / event.buyIn)
+      const cappable = affordableBullets >= 1 && affordableBullets < getBulletCap(event, plan)
+      return {
+        id: `bankroll-${event.id}`,
+        type: 'bankroll' as const,
+        severity: 'error' as const,
+        tournamentIds: [event.id],
+        message: `${event.name} puts up to $${exposure.toLocaleString()} at risk, over ${maxBuyinPercentage}% of your $${player.bankroll.tournamentBankroll.toLocaleString()} tournament bankroll`,
+        suggestion: cappable
+          ? `Cap yourself at ${affordableBullets} bullet${affordableBullets === 1 ? '' : 's'} in this event, or sell action`
+          : `Skip it or sell action to bring your share under $${Math.round(limit).toLocaleString()}`,
+        fix: cappable ? undefined : removeFix(event)
+      }
+    })
+}
+
+/**
+ * Everything wrong with a selected schedule, errors first. `events` should be
+ * in the order the player added them - fixes suggest dropping the newer event.
+ */
+export function detectScheduleConflicts(
+  events: Tournament[],
+  player: Player,
+  options: ScheduleConflictOptions = {}
+): ScheduleConflict[] {
+  const maxBuyinPercentage = options.maxBuyinPercentage ?? DEFAULT_MAX_BUYIN_PERCENTAGE
+  const conflicts = [
+    ...timingConflicts(events, player),
+    ...bankrollConflicts(events, player, maxBuyinPercentage),
+    ...tripLengthConflicts(events, player),
+    ...monthlyTravelConflicts(events, player),
+    ...dailyCostConflicts(events, player)
+  ]
+  return conflicts.sort((a, b) => (a.severity === b.severity ? 0 : a.severity === 'error' ? -1 : 1))
+}
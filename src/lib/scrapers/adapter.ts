@@ -0,0 +1,113 @@
+/**
+ * Contract for tournament schedule sources - tour websites we scrape and
+ * listing APIs. Each source is one adapter; the registry in ./index fans
+ * fetches and health checks out to every registered adapter, so adding a
+ * tour means writing an adapter and registering it there.
+ */
+
+import { Circuit, ProvenanceField, Tournament } from '@/types';
+
+export interface SourceMetadata {
+  kind: 'scraper' | 'api';
+  website: string;
+  // Fetches allowed per window; further calls are served the last result
+  rateLimit: { maxRequests: number; windowMinutes: number };
+  // 0-1 - how closely listings match what actually runs. When two sources
+  // list the same event, the more reliable listing is kept
+  reliability: number;
+  coverage: {
+    circuits: Circuit['type'][];
+    countries: string[];
+  };
+  // Tours that publish this source themselves - its event details (name,
+  // buy-in, guarantee, dates, structure) win for their events when merging
+  official?: Circuit['type'][];
+  // Fields this source carries better than its reliability suggests
+  preferredFields?: ProvenanceField[];
+}
+
+export interface SourceFetchOptions {
+  startDate?: Date;
+  endDate?: Date;
+  minBuyIn?: number;
+  maxBuyIn?: number;
+  states?: string[];
+  circuits?: string[];
+}
+
+export interface SourceStatus {
+  available: boolean;
+  error?: string;
+  rateLimitRemaining?: number;
+  rateLimitReset?: Date;
+}
+
+// A page layout a scraper understands. Fixture replays and captures go through these
+export interface ScrapedPage {
+  url?: string; // fixed address, when the page has one (event pages vary)
+  parse(html: string): Tournament[];
+}
+
+// Row accounting from a scraper's last page parse: candidate rows its
+// selectors matched, and how many of those produced no tournament
+export interface ParseStats {
+  rows: number;
+  failed: number;
+}
+
+// Share of a run's tournaments (0-1) that came back with each field filled in
+export interface FieldFillRates {
+  buyIn: number;
+  guarantee: number;
+  venue: number; // venue located to a city
+}
+
+// One ingestion run of a source, as kept in its quality history
+export interface SourceRunStats {
+  at: number;
+  count: number;
+  rows?: number; // scrapers only - APIs don't report rows
+  parseFailureRate?: number;
+  fillRates: FieldFillRates;
+  error?: string;
+  alerts?: DataQualityAlert[];
+}
+
+export type QualityMetric = 'count' | 'parseFailureRate' | keyof FieldFillRates;
+
+// Raised when a run falls well short of the source's historical baseline -
+// usually the site changed its markup and the selectors stopped matching
+export interface DataQualityAlert {
+  source: string; // adapter id
+  metric: QualityMetric;
+  severity: 'warning' | 'critical';
+  message: string;
+  baseline: number;
+  current: number;
+}
+
+// Per-source outcome of a fetch, reported in the tournaments API meta
+export interface SourceFetchResult {
+  name: string;
+  count: number;
+  lastUpdated: number;
+  error?: string;
+  throttled?: boolean;
+  stats?: SourceRunStats; // absent for throttled replays
+  alerts?: DataQualityAlert[];
+  history?: SourceRunStats[]; // oldest first, including this run
+}
+
+export interface TournamentSourceAdapter {
+  readonly id: string; // stable key, e.g. "wsop" - used in API responses and health checks
+  readonly name: string;
+  readonly metadata: SourceMetadata;
+  // Sources that can't filter server-side may ignore the options
+  fetchTournaments(options?: SourceFetchOptions): Promise<Tournament[]>;
+  // Scrapers list their page parsers, keyed by page kind (e.g. "listing")
+  readonly pages?: Record<string, ScrapedPage>;
+  // Set by the listing parsers on each parse; read after a fetch for drift checks
+  readonly lastParse?: ParseStats;
+  checkStatus(): Promise<SourceStatus>;
+  close?(): Promise<void>;
+}
@@ -5,7 +5,27 @@
  */
 
 import * as cheerio from 'cheerio';
-import { Tournament, Venue, Circuit, Address } from '@/types';
+import { Tournament, Circuit } from '@/types';
+import { getTimezoneForState } from '@/lib/timezones';
+import { ParseStats, ScrapedPage, SourceMetadata, SourceStatus, TournamentSourceAdapter } from './adapter';
+import { checkSite, fetchPage } from './http';
+import {
+  buildScrapedVenue,
+  estimateField,
+  extractBuyIn,
+  extractGuarantee,
+  FieldBand,
+  ParsedLocation,
+  parseDateRange,
+  parseLocation
+} from './parsing';
+
+const FIELD_BANDS: FieldBand[] = [
+  { minBuyIn: 5000, base: 200, spread: 150 },
+  { minBuyIn: 1000, base: 400, spread: 300 },
+  { minBuyIn: 500, base: 600, spread: 400 },
+  { minBuyIn: 0, base: 300, spread: 300 }
+];
 
 interface CardPlayerEvent {
   seriesName: string;
@@ -24,36 +44,33 @@ interface CardPlayerEvent {
   }[];
 }
 
-export class CardPlayerScraper {
+export class CardPlayerScraper implements TournamentSourceAdapter {
+  readonly id = 'cardPlayer';
+  readonly name = 'CardPlayer';
+  // A listings aggregator - broad coverage, but buy-ins and dates are often approximate
+  readonly metadata: SourceMetadata = {
+    kind: 'scraper',
+    website: 'https://www.cardplayer.com',
+    rateLimit: { maxRequests: 4, windowMinutes: 60 },
+    reliability: 0.6,
+    coverage: { circuits: ['wsop', 'wpt', 'regional'], countries: ['USA', 'Canada'] }
+  };
   private baseUrl = 'https://www.cardplayer.com';
-  private userAgent = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+  readonly pages: Record<string, ScrapedPage> = {
+    listing: { url: `${this.baseUrl}/poker-tournaments`, parse: html => this.parseTournamentPage(html) }
+  };
+  lastParse?: ParseStats;
 
   /**
    * Fetch tournament data from CardPlayer
    */
   async fetchTournaments(): Promise<Tournament[]> {
-    try {
-      // Fetch the main tournament page
-      const response = await fetch(`${this.baseUrl}/poker-tournaments`, {
-        headers: {
-          'User-Agent': this.userAgent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate',
-          'Cache-Control': 'no-cache'
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`CardPlayer fetch failed: ${response.status}`);
-      }
-
-      const html = await response.text();
-      return this.parseTournamentPage(html);
-    } catch (error) {
-      console.error('Error fetching CardPlayer tournaments:', error);
-      return [];
+    const response = await fetchPage(`${this.baseUrl}/poker-tournaments`, { noCache: true });
+    if (!response.ok) {
+      throw new Error(`CardPlayer fetch failed: ${response.status}`);
     }
+
+    return this.parseTournamentPage(await response.text());
   }
 
   /**
@@ -63,6 +80,8 @@ export class CardPlayerScraper {
     const $ = cheerio.load(html);
     const tournaments: Tournament[] = [];
     const events: CardPlayerEvent[] = [];
+    let rows = 0;
+    let failed = 0;
 
     // Look for tournament tables or cards
     $('.tournament-listing, .tournament-table, .schedule-table, table').each((i, tableElement) => {
@@ -80,13 +99,17 @@ export class CardPlayerScraper {
         
         // Skip header rows
         if ($row.find('th').length > 0) return;
-        
+
+        rows++;
         try {
           const event = this.parseTableRow($row);
           if (event) {
             events.push(event);
+          } else {
+            failed++;
           }
         } catch (error) {
+          failed++;
           console.error('Error parsing CardPlayer row:', error);
         }
       });
@@ -94,6 +117,7 @@ export class CardPlayerScraper {
 
     // Convert CardPlayer events to Tournament objects
     events.forEach(event => {
+      const converted = tournaments.length;
       event.events.forEach(tournamentEvent => {
         try {
           const tournament = this.convertToTournament(event, tournamentEvent);
@@ -104,8 +128,10 @@ export class CardPlayerScraper {
           console.error('Error converting CardPlayer event to tournament:', error);
         }
       });
+      if (tournaments.length === converted) failed++;
     });
 
+    this.lastParse = { rows, failed };
     return tournaments;
   }
 
@@ -127,12 +153,8 @@ export class CardPlayerScraper {
         return null;
       }
 
-      // Parse dates
-      const dates = this.parseDateRange(dateText);
-      if (!dates.start) return null;
-
       // Parse location
-      let location = this.parseLocation(locationText);
+      let location = parseLocation(locationText);
       
       // Fallback: try to extract city from venue name if location parsing failed
       if (!location.city && !location.state) {
@@ -145,21 +167,27 @@ export class CardPlayerScraper {
       // Clean venue name after we have the location
       const cleanedVenueName = this.cleanVenueName(venueName, location.city);
 
+      // Listed dates are venue-local calendar days
+      const dates = parseDateRange(dateText, getTimezoneForState(location.state, location.city));
+      const startDate = dates.start;
+      const endDate = dates.end || new Date(startDate.getTime() + 7 * 24 * 60 * 60 * 1000); // Default 7 days
+      eventDetails.forEach(detail => { detail.date = startDate; });
+
       return {
         seriesName: this.cleanSeriesName(seriesName),
         venueName: cleanedVenueName,
         city: location.city,
         state: location.state,
         country: location.country,
-        startDate: dates.start,
-        endDate: dates.end || new Date(dates.start.getTime() + 7 * 24 * 60 * 60 * 1000), // Default 7 days
+        startDate,
+        endDate,
         events: eventDetails.length > 0 ? eventDetails : [
           {
             name: seriesName,
-            date: dates.start,
+            date: startDate,
             gameType: 'No-Limit Hold\'em',
-            buyIn: this.extractBuyIn($row.text()),
-            guarantee: this.extractGuarantee($row.text())
+            buyIn: extractBuyIn($row.text()),
+            guarantee: extractGuarantee($row.text())
           }
         ]
       };
@@ -169,170 +197,10 @@ export class CardPlayerScraper {
     }
   }
 
-  /**
-   * Parse date ranges from various formats
-   */
-  private parseDateRange(dateText: string): { start: Date; end?: Date } {
-    if (!dateText) return { start: new Date() };
-
-    // Remove extra whitespace and common prefixes
-    dateText = dateText.replace(/^(date:|dates:)/i, '').trim();
-
-    const patterns = [
-      // "March 15-18, 2024"
-      /(\w+)\s+(\d+)-(\d+),?\s+(\d{4})/i,
-      // "Mar 15-18 2024"
-      /(\w+)\s+(\d+)-(\d+)\s+(\d{4})/i,
-      // "March 15, 2024 - March 18, 2024"
-      /(\w+)\s+(\d+),?\s+(\d{4})\s*-\s*(\w+)\s+(\d+),?\s+(\d{4})/i,
-      // "March 15, 2024"
-      /(\w+)\s+(\d+),?\s+(\d{4})/i,
-      // "3/15/24 - 3/18/24"
-      /(\d{1,2})\/(\d{1,2})\/(\d{2,4})\s*-\s*(\d{1,2})\/(\d{1,2})\/(\d{2,4})/,
-      // "3/15/24"
-      /(\d{1,2})\/(\d{1,2})\/(\d{2,4})/,
-      // ISO format "2024-03-15"
-      /(\d{4})-(\d{2})-(\d{2})/
-    ];
-
-    for (const pattern of patterns) {
-      const match = dateText.match(pattern);
-      if (match) {
-        try {
-          if (pattern.toString().includes('\\w+')) {
-            // Month name format
-            const month = this.parseMonthName(match[1]);
-            const year = parseInt(match[4] || match[3]);
-            const startDay = parseInt(match[2]);
-            
-            let endDay = startDay;
-            let endMonth = month;
-            let endYear = year;
-            
-            if (match[3] && match[4]) {
-              if (match[5] && match[6]) {
-                // Cross-month range
-                endMonth = this.parseMonthName(match[4]);
-                endDay = parseInt(match[5]);
-                endYear = parseInt(match[6]);
-              } else {
-                // Range within same month
-                endDay = parseInt(match[3]);
-              }
-            }
-            
-            return {
-              start: new Date(year, month, startDay),
-              end: endDay !== startDay ? new Date(endYear, endMonth, endDay) : undefined
-            };
-          } else if (match[1] && match[2] && match[3]) {
-            // MM/DD/YY format
-            let year = parseInt(match[3]);
-            if (year < 100) year += 2000; // Convert 2-digit year
-            
-            const month = parseInt(match[1]) - 1;
-            const day = parseInt(match[2]);
-            
-            let endDate: Date | undefined;
-            if (match[4] && match[5] && match[6]) {
-              // Date range
-              let endYear = parseInt(match[6]);
-              if (endYear < 100) endYear += 2000;
-              endDate = new Date(endYear, parseInt(match[4]) - 1, parseInt(match[5]));
-            }
-            
-            return {
-              start: new Date(year, month, day),
-              end: endDate
-            };
-          } else if (match[1] && match[2] && match[3]) {
-            // ISO format
-            return {
-              start: new Date(parseInt(match[1]), parseInt(match[2]) - 1, parseInt(match[3]))
-            };
-          }
-        } catch (error) {
-          console.error('Error parsing date:', error);
-        }
-      }
-    }
-
-    // Fallback: try to parse as a standard date
-    try {
-      const date = new Date(dateText);
-      if (!isNaN(date.getTime()) && date.getFullYear() > 2020) {
-        return { start: date };
-      }
-    } catch {
-      // Ignore parsing errors
-    }
-
-    // Final fallback: return current date
-    return { start: new Date() };
-  }
-
-  /**
-   * Parse month name to number
-   */
-  private parseMonthName(monthName: string): number {
-    const months: Record<string, number> = {
-      'january': 0, 'jan': 0,
-      'february': 1, 'feb': 1,
-      'march': 2, 'mar': 2,
-      'april': 3, 'apr': 3,
-      'may': 4,
-      'june': 5, 'jun': 5,
-      'july': 6, 'jul': 6,
-      'august': 7, 'aug': 7,
-      'september': 8, 'sep': 8, 'sept': 8,
-      'october': 9, 'oct': 9,
-      'november': 10, 'nov': 10,
-      'december': 11, 'dec': 11
-    };
-    return months[monthName.toLowerCase()] || 0;
-  }
-
-  /**
-   * Parse location string to city, state, country
-   */
-  private parseLocation(locationText: string): { city: string; state: string; country: string } {
-    if (!locationText) {
-      return { city: '', state: '', country: 'USA' };
-    }
-
-    // Clean up the location text
-    locationText = locationText.trim();
-
-    // Handle common formats: "City, State", "City, State, Country", etc.
-    const parts = locationText.split(',').map(part => part.trim());
-    
-    let city = '';
-    let state = '';
-    let country = 'USA';
-
-    if (parts.length >= 2) {
-      city = parts[0];
-      state = this.normalizeState(parts[1]);
-      
-      // If there's a third part, it might be country
-      if (parts.length >= 3) {
-        const thirdPart = parts[2].toLowerCase();
-        if (thirdPart.includes('canada') || thirdPart.includes('uk') || thirdPart.includes('mexico')) {
-          country = parts[2];
-        }
-      }
-    } else if (parts.length === 1) {
-      // Single part - could be just city
-      city = parts[0];
-    }
-
-    return { city, state, country };
-  }
-
   /**
    * Extract location from venue name when location column fails
    */
-  private extractLocationFromVenue(venueName: string): { city: string; state: string; country: string } {
+  private extractLocationFromVenue(venueName: string): ParsedLocation {
     if (!venueName) {
       return { city: '', state: '', country: 'USA' };
     }
@@ -435,44 +303,6 @@ export class CardPlayerScraper {
     return cityToState[lowerCity] || '';
   }
 
-  /**
-   * Normalize state name to abbreviation
-   */
-  private normalizeState(state: string): string {
-    if (!state) return '';
-    
-    const stateMap: Record<string, string> = {
-      'california': 'CA', 'nevada': 'NV', 'texas': 'TX', 'florida': 'FL',
-      'new york': 'NY', 'new jersey': 'NJ', 'pennsylvania': 'PA',
-      'illinois': 'IL', 'indiana': 'IN', 'michigan': 'MI', 'ohio': 'OH',
-      'oklahoma': 'OK', 'arizona': 'AZ', 'colorado': 'CO', 'louisiana': 'LA',
-      'maryland': 'MD', 'virginia': 'VA', 'north carolina': 'NC',
-      'south carolina': 'SC', 'georgia': 'GA', 'alabama': 'AL',
-      'tennessee': 'TN', 'kentucky': 'KY', 'mississippi': 'MS',
-      'arkansas': 'AR', 'missouri': 'MO', 'kansas': 'KS', 'nebraska': 'NE',
-      'iowa': 'IA', 'minnesota': 'MN', 'wisconsin': 'WI', 'oregon': 'OR',
-      'washington': 'WA', 'utah': 'UT', 'montana': 'MT', 'wyoming': 'WY',
-      'idaho': 'ID', 'north dakota': 'ND', 'south dakota': 'SD',
-      'west virginia': 'WV', 'delaware': 'DE', 'connecticut': 'CT',
-      'rhode island': 'RI', 'massachusetts': 'MA', 'vermont': 'VT',
-      'new hampshire': 'NH', 'maine': 'ME', 'alaska': 'AK', 'hawaii': 'HI'
-    };
-
-    const normalized = state.toLowerCase().trim();
-    
-    // Return mapped value or check if it's already an abbreviation
-    if (stateMap[normalized]) {
-      return stateMap[normalized];
-    }
-    
-    // If it's already a 2-letter abbreviation, return uppercase
-    if (state.length === 2) {
-      return state.toUpperCase();
-    }
-    
-    return state.trim();
-  }
-
   /**
    * Parse event details from a row
    */
@@ -487,8 +317,8 @@ export class CardPlayerScraper {
     const rowText = $row.text();
 
     // Look for buy-in amounts and game types in the text
-    const buyIn = this.extractBuyIn(rowText);
-    const guarantee = this.extractGuarantee(rowText);
+    const buyIn = extractBuyIn(rowText);
+    const guarantee = extractGuarantee(rowText);
     const gameType = this.extractGameType(rowText);
 
     // For now, return a single event - we could enhance this to parse multiple events
@@ -503,76 +333,6 @@ export class CardPlayerScraper {
     return events;
   }
 
-  /**
-   * Extract buy-in amount from text
-   */
-  private extractBuyIn(text: string): number | undefined {
-    if (!text) return undefined;
-
-    // Look for patterns like "$1,500", "$1.5K", "1500", etc.
-    const patterns = [
-      /\$?([\d,]+(?:\.\d+)?)\s*[kK]\b/,  // "$1.5K" format
-      /\$?([\d,]+)\s*(?:buy.?in|entry)/i, // "buy-in $1500"
-      /buy.?in:?\s*\$?([\d,]+)/i,        // "Buy-in: $1500"
-      /entry:?\s*\$?([\d,]+)/i,          // "Entry: $1500"
-      /\$\s?([\d,]+)\b/                  // "$1500"
-    ];
-
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) {
-        let amount = parseFloat(match[1].replace(/,/g, ''));
-        
-        // Handle K multiplier
-        if (pattern.toString().includes('[kK]')) {
-          amount *= 1000;
-        }
-        
-        // Reasonable buy-in range
-        if (amount >= 50 && amount <= 1000000) {
-          return Math.round(amount);
-        }
-      }
-    }
-
-    return undefined;
-  }
-
-  /**
-   * Extract guarantee amount from text
-   */
-  private extractGuarantee(text: string): number | undefined {
-    if (!text) return undefined;
-
-    const patterns = [
-      /([\d,]+(?:\.\d+)?)\s*[mM]\s*(?:gtd|guaranteed?|guarantee)/i,  // "1.5M GTD"
-      /([\d,]+)\s*[kK]\s*(?:gtd|guaranteed?|guarantee)/i,           // "500K GTD"
-      /\$\s?([\d,]+(?:\.\d+)?)\s*[mM]\s*(?:gtd|guaranteed?)/i,      // "$1.5M GTD"
-      /guaranteed?:?\s*\$?([\d,]+(?:\.\d+)?)\s*[mMkK]?/i            // "Guaranteed $500K"
-    ];
-
-    for (const pattern of patterns) {
-      const match = text.match(pattern);
-      if (match) {
-        let amount = parseFloat(match[1].replace(/,/g, ''));
-        
-        const fullMatch = match[0].toLowerCase();
-        if (fullMatch.includes('m')) {
-          amount *= 1000000;
-        } else if (fullMatch.includes('k')) {
-          amount *= 1000;
-        }
-        
-        // Reasonable guarantee range
-        if (amount >= 1000 && amount <= 100000000) {
-          return Math.round(amount);
-        }
-      }
-    }
-
-    return undefined;
-  }
-
   /**
    * Extract game type from text
    */
@@ -646,30 +406,12 @@ export class CardPlayerScraper {
   private convertToTournament(event: CardPlayerEvent, tournamentEvent: any): Tournament | null {
     try {
       // Create venue
-      const venue: Venue = {
+      const venue = buildScrapedVenue({
         id: `cp-${event.venueName.toLowerCase().replace(/[^a-z0-9]/g, '-')}`,
         name: event.venueName,
-        address: {
-          street: '',
-          city: event.city,
-          state: event.state,
-          country: event.country,
-          postalCode: ''
-        },
-        coordinates: { lat: 0, lng: 0 }, // Would need geocoding
-        amenities: [
-          { name: 'Free WiFi', available: true },
-          { name: 'Restaurant', available: true },
-          { name: 'ATM', available: true }
-        ],
-        parking: {
-          available: true,
-          cost: 'free'
-        },
-        nearbyHotels: [],
-        localTips: [],
-        timezone: this.getTimezoneForState(event.state)
-      };
+        location: { city: event.city, state: event.state, country: event.country },
+        amenities: ['Free WiFi', 'Restaurant', 'ATM']
+      });
 
       // Determine circuit type
       const circuit = this.determineCircuit(event.seriesName);
@@ -683,7 +425,7 @@ export class CardPlayerScraper {
         buyIn: tournamentEvent.buyIn || 500, // Default buy-in
         startDate: tournamentEvent.date || event.startDate,
         endDate: event.endDate,
-        estimatedField: this.estimateField(tournamentEvent.buyIn || 500),
+        estimatedField: estimateField(tournamentEvent.buyIn || 500, FIELD_BANDS),
         structure: {
           type: 'reentry',
           startingStack: 20000,
@@ -746,50 +488,12 @@ export class CardPlayerScraper {
     };
   }
 
-  /**
-   * Estimate field size based on buy-in
-   */
-  private estimateField(buyIn: number): number {
-    if (buyIn >= 5000) return 200 + Math.floor(Math.random() * 150);
-    if (buyIn >= 1000) return 400 + Math.floor(Math.random() * 300);
-    if (buyIn >= 500) return 600 + Math.floor(Math.random() * 400);
-    return 300 + Math.floor(Math.random() * 300);
-  }
-
-  /**
-   * Get timezone for state
-   */
-  private getTimezoneForState(state: string): string {
-    const timezoneMap: Record<string, string> = {
-      'CA': 'America/Los_Angeles', 'california': 'America/Los_Angeles',
-      'NV': 'America/Los_Angeles', 'nevada': 'America/Los_Angeles',
-      'TX': 'America/Chicago', 'texas': 'America/Chicago',
-      'FL': 'America/New_York', 'florida': 'America/New_York',
-      'NY': 'America/New_York', 'new york': 'America/New_York',
-      'NJ': 'America/New_York', 'new jersey': 'America/New_York',
-      'PA': 'America/New_York', 'pennsylvania': 'America/New_York',
-      'IL': 'America/Chicago', 'illinois': 'America/Chicago',
-      'IN': 'America/New_York', 'indiana': 'America/New_York'
-    };
-
-    const key = state?.toLowerCase();
-    return timezoneMap[key] || 'America/New_York';
-  }
-
   /**
    * Check if CardPlayer is accessible
    */
-  async checkAvailability(): Promise<boolean> {
-    try {
-      const response = await fetch(`${this.baseUrl}/poker-tournaments`, {
-        method: 'HEAD',
-        headers: { 'User-Agent': this.userAgent }
-      });
-      return response.ok;
-    } catch {
-      return false;
-    }
+  checkStatus(): Promise<SourceStatus> {
+    return checkSite(`${this.baseUrl}/poker-tournaments`);
   }
 }
 
-export const cardPlayerScraper = new CardPlayerScraper();
\ No newline at end of file
+export const cardPlayerScraper = new CardPlayerScraper();
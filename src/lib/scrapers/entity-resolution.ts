@@ -0,0 +1,294 @@
+/**
+ * Cross-source tournament resolution
+ * The same event is often listed by several sources under different names -
+ * "WSOPC Horseshoe Hammond Main Event" on CardPlayer, "Main Event - Horseshoe
+ * Hammond" on the WSOP site. Listings are matched on venue identity, date
+ * proximity, buy-in and a normalized name, and each group is merged into one
+ * canonical tournament that records which source supplied every field.
+ */
+
+import { ProvenanceField, Tournament } from '@/types';
+import { venueRegistry } from '@/services/venue-registry';
+import { SourceMetadata } from './adapter';
+import { normalizeState } from './parsing';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MATCH_THRESHOLD = 0.75;
+const MATCH_WEIGHTS = { name: 0.4, venue: 0.2, date: 0.2, buyIn: 0.2 };
+const MAX_START_GAP_DAYS = 1;
+const BUY_IN_TOLERANCE = 0.15; // listings differ on whether the fee is included
+
+// Words that say which tour or venue an event belongs to rather than which event it is
+const NAME_NOISE = new Set([
+  'wsop', 'wsopc', 'wpt', 'world', 'series', 'poker', 'tour', 'circuit',
+  'the', 'of', 'at', 'and', 'tournament', 'gtd', 'guaranteed'
+]);
+const VENUE_NOISE = new Set(['casino', 'resort', 'hotel', 'spa', 'poker', 'room', 'and', 'the', 'racetrack', 'racino']);
+
+// Fields an organizer's own site is trusted on for its events
+const OFFICIAL_FIELDS: ProvenanceField[] = [
+  'name', 'circuit', 'buyIn', 'prizeGuarantee', 'dates', 'structure', 'registrationDeadline', 'lateRegistrationLevels'
+];
+
+// Fields copied straight across from the winning listing
+type PlainField = Exclude<ProvenanceField, 'venue' | 'coordinates' | 'dates' | 'structure'>;
+
+interface Listing {
+  source: string;
+  tournament: Tournament;
+  metadata?: SourceMetadata;
+  nameTokens: string[];
+  numbers: string[]; // event numbers, flight days - listings that disagree on these are different events
+  venueTokens: string[];
+  city: string;
+  state: string;
+}
+
+export interface ResolutionSummary {
+  tournaments: Tournament[];
+  listings: number;
+  merged: number; // listings folded into another source's listing
+}
+
+function tokens(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean);
+}
+
+function containment(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  const shared = a.filter(token => b.includes(token)).length;
+  return shared / Math.min(a.length, b.length);
+}
+
+function normalizeEventName(name: string): string {
+  return name
+    .toLowerCase()
+    .replace(/\$[\d,.]+\s*[km]?\b/g, ' ') // amounts are compared as buy-ins
+    .replace(/\b(19|20)\d{2}\b/g, ' ') // season years
+    .replace(/no[\s-]*limit/g, 'nl')
+    .replace(/pot[\s-]*limit/g, 'pl')
+    .replace(/hold[\s'’-]*em/g, 'holdem')
+    .replace(/\bnlhe?\b/g, 'nl holdem')
+    .replace(/\bplo\b/g, 'pl omaha');
+}
+
+function toListing(source: string, tournament: Tournament, metadata?: SourceMetadata): Listing {
+  const { venue } = tournament;
+  const venueTokens = tokens(venue.name).filter(token => !VENUE_NOISE.has(token));
+  const place = tokens(`${venue.address.city} ${venue.name}`);
+  const words = tokens(normalizeEventName(tournament.name))
+    .filter(token => !NAME_NOISE.has(token) && !place.includes(token));
+
+  return {
+    source,
+    tournament,
+    metadata,
+    nameTokens: words.filter(token => !/\d/.test(token)),
+    numbers: words.filter(token => /\d/.test(token)),
+    venueTokens,
+    city: venue.address.city.toLowerCase(),
+    state: normalizeState(venue.address.state)
+  };
+}
+
+// 1 for the same room by name, 0.5 for the same city, 0 for a different place
+function venueScore(a: Listing, b: Listing): number {
+  if (containment(a.venueTokens, b.venueTokens) >= 0.5) return 1;
+  if (a.state && b.state && a.state !== b.state) return 0;
+  return a.city && a.city === b.city ? 0.5 : 0;
+}
+
+// Aggregators list a series' dates against each event, so overlapping
+// ranges count as a looser match than nearby starts
+function dateScore(a: Tournament, b: Tournament): number {
+  if (Math.abs(a.startDate.getTime() - b.startDate.getTime()) <= MAX_START_GAP_DAYS * DAY_MS) return 1;
+  return a.startDate <= b.endDate && b.startDate <= a.endDate ? 0.5 : 0;
+}
+
+function buyInScore(a: Tournament, b: Tournament): number {
+  if (!(a.buyIn > 0) || !(b.buyIn > 0)) return 0.5;
+  const difference = Math.abs(a.buyIn - b.buyIn) / Math.max(a.buyIn, b.buyIn);
+  return difference <= BUY_IN_TOLERANCE ? 1 : 0;
+}
+
+// "Event #5" and "Event #5 Day 1A" can be one event; "Day 1A" and "Day 1B" can't
+function numbersConflict(a: string[], b: string[]): boolean {
+  if (a.length === 0 || b.length === 0) return false;
+  return !a.every(number => b.includes(number)) && !b.every(number => a.includes(number));
+}
+
+function nameScore(a: Listing, b: Listing): number {
+  if (numbersConflict(a.numbers, b.numbers)) return 0;
+  if (a.nameTokens.length === 0 || b.nameTokens.length === 0) return 0.5; // nothing left but tour and venue
+  return containment(a.nameTokens, b.nameTokens);
+}
+
+/**
+ * How likely two listings are the same event (0-1). Venue, dates and buy-in
+ * must all be compatible; the name then decides.
+ */
+function matchScore(a: Listing, b: Listing): number {
+  const venue = venueScore(a, b);
+  const date = dateScore(a.tournament, b.tournament);
+  const buyIn = buyInScore(a.tournament, b.tournament);
+  if (venue === 0 || date === 0 || buyIn === 0) return 0;
+
+  return MATCH_WEIGHTS.name * nameScore(a, b)
+    + MATCH_WEIGHTS.venue * venue
+    + MATCH_WEIGHTS.date * date
+    + MATCH_WEIGHTS.buyIn * buyIn;
+}
+
+// A source lists distinct events distinctly - a second listing from the same
+// source only joins a group when it's a plain duplicate
+function joinScore(group: Listing[], listing: Listing): number {
+  let best = 0;
+  for (const member of group) {
+    if (member.source === listing.source) {
+      const duplicate = member.tournament.name.toLowerCase() === listing.tournament.name.toLowerCase()
+        && dateScore(member.tournament, listing.tournament) === 1
+        && venueScore(member, listing) > 0;
+      if (!duplicate) return 0;
+      best = 1;
+    } else {
+      best = Math.max(best, matchScore(member, listing));
+    }
+  }
+  return best;
+}
+
+const HAS_VALUE: Record<ProvenanceField, (t: Tournament) => boolean> = {
+  name: t => Boolean(t.name),
+  circuit: () => true,
+  venue: t => Boolean(t.venue.address.city),
+  coordinates: t => t.venue.coordinates.lat !== 0 || t.venue.coordinates.lng !== 0,
+  buyIn: t => t.buyIn > 0,
+  prizeGuarantee: t => (t.prizeGuarantee || 0) > 0,
+  dates: t => !isNaN(t.startDate.getTime()) && !isNaN(t.endDate.getTime()),
+  estimatedField: t => t.estimatedField > 0,
+  structure: t => Boolean(t.structure.blindStructure),
+  status: () => true,
+  registrationDeadline: t => t.registrationDeadline !== undefined,
+  lateRegistrationLevels: t => t.lateRegistrationLevels !== undefined
+};
+
+function isOfficial(listing: Listing): boolean {
+  return Boolean(listing.metadata?.official?.includes(listing.tournament.circuit.type));
+}
+
+// Ranking for one field: a canonical registry venue for the venue fields,
+// sources preferring the field, then the tour's own site for event details,
+// then overall reliability
+function priority(field: ProvenanceField, listing: Listing): number[] {
+  const canonical = (field === 'venue' || field === 'coordinates') && venueRegistry.get(listing.tournament.venue.id);
+  return [
+    canonical ? 1 : 0,
+    listing.metadata?.preferredFields?.includes(field) ? 1 : 0,
+    OFFICIAL_FIELDS.includes(field) && isOfficial(listing) ? 1 : 0,
+    listing.metadata?.reliability || 0
+  ];
+}
+
+function compareRank(a: number[], b: number[]): number {
+  for (let i = 0; i < a.length; i++) {
+    if (a[i] !== b[i]) return b[i] - a[i];
+  }
+  return 0;
+}
+
+function bestFor(field: ProvenanceField, group: Listing[]): Listing | undefined {
+  return group
+    .filter(listing => HAS_VALUE[field](listing.tournament))
+    .sort((a, b) => compareRank(priority(field, a), priority(field, b)))[0];
+}
+
+/**
+ * One tournament from a group of listings. The base listing (official, else
+ * most reliable) supplies the id and any field no listing fills in.
+ */
+function mergeListings(group: Listing[]): Tournament {
+  const ranked = [...group].sort((a, b) =>
+    compareRank([isOfficial(a) ? 1 : 0, a.metadata?.reliability || 0], [isOfficial(b) ? 1 : 0, b.metadata?.reliability || 0])
+  );
+  const base = ranked[0].tournament;
+  const merged: Tournament = { ...base, venue: { ...base.venue } };
+  const fields: Partial<Record<ProvenanceField, string>> = {};
+  const copy = <K extends PlainField>(key: K, from: Tournament) => {
+    merged[key] = from[key];
+  };
+
+  (Object.keys(HAS_VALUE) as ProvenanceField[]).forEach(field => {
+    const winner = bestFor(field, ranked);
+    if (!winner) return;
+    fields[field] = winner.source;
+    const from = winner.tournament;
+
+    switch (field) {
+      case 'venue':
+        merged.venue = { ...from.venue, coordinates: merged.venue.coordinates };
+        break;
+      case 'coordinates':
+        merged.venue.coordinates = from.venue.coordinates;
+        break;
+      case 'dates':
+        merged.startDate = from.startDate;
+        merged.endDate = from.endDate;
+        break;
+      case 'structure':
+        merged.structure = from.structure;
+        merged.blindLevels = from.blindLevels;
+        break;
+      default:
+        copy(field, from);
+    }
+  });
+
+  return {
+    ...merged,
+    provenance: {
+      listings: ranked.map(listing => ({ source: listing.source, id: listing.tournament.id })),
+      fields
+    }
+  };
+}
+
+/**
+ * Group listings from every source into events and merge each group.
+ * Sources are taken most reliable first, so an event's group forms around
+ * its best listing.
+ */
+export function resolveTournaments(
+  bySource: Record<string, Tournament[]>,
+  metadataFor: (source: string) => SourceMetadata | undefined
+): ResolutionSummary {
+  const listings = Object.keys(bySource)
+    .map(source => ({ source, metadata: metadataFor(source) }))
+    .sort((a, b) => (b.metadata?.reliability || 0) - (a.metadata?.reliability || 0))
+    .flatMap(({ source, metadata }) => bySource[source].map(tournament => toListing(source, tournament, metadata)));
+
+  const groups: Listing[][] = [];
+  listings.forEach(listing => {
+    let bestGroup: Listing[] | undefined;
+    let bestScore = MATCH_THRESHOLD;
+    groups.forEach(group => {
+      const score = joinScore(group, listing);
+      if (score >= bestScore) {
+        bestGroup = group;
+        bestScore = score;
+      }
+    });
+
+    if (bestGroup) {
+      bestGroup.push(listing);
+    } else {
+      groups.push([listing]);
+    }
+  });
+
+  return {
+    tournaments: groups.map(mergeListings),
+    listings: listings.length,
+    merged: listings.length - groups.length
+  };
+}
@@ -0,0 +1,183 @@
+/**
+ * Recorded-page harness for the scrapers
+ * Saved HTML pages are replayed through each adapter's page parsers and the
+ * parsed tournaments compared with the expectations stored beside them, so a
+ * selector that stops matching shows up offline instead of as an empty
+ * schedule. Run with `npm run test-scrapers`; record pages with
+ * `npm run capture-fixture`.
+ *
+ * Layout: __fixtures__/<source id>/<name>.html plus <name>.json
+ */
+
+import fs from 'fs';
+import path from 'path';
+import { Circuit, Tournament } from '@/types';
+import { ScrapedPage, TournamentSourceAdapter } from './adapter';
+import { TournamentSourceRegistry, tournamentSources } from './index';
+
+export const FIXTURES_DIR = path.join(process.cwd(), 'src', 'lib', 'scrapers', '__fixtures__');
+
+// The parts of a parsed tournament that don't depend on the clock or on
+// random field estimates - what a fixture asserts on
+export interface TournamentSnapshot {
+  id: string;
+  name: string;
+  circuit: Circuit['type'];
+  buyIn: number;
+  prizeGuarantee?: number;
+  startDate: string; // ISO instant
+  endDate: string;
+  venue: string;
+  city: string;
+  state: string;
+  country: string;
+  timezone: string;
+  startingStack: number;
+  blindLevelDuration: number;
+  structureLevels?: number; // levels read from an embedded structure sheet
+}
+
+export interface ScraperFixture {
+  source: string; // adapter id
+  page: string; // key into the adapter's pages
+  url?: string;
+  capturedAt?: string; // set by the capture command; absent for hand-built pages
+  description?: string;
+  expected: {
+    count: number;
+    // Compared in parse order; only the fields given are checked
+    tournaments: Partial<TournamentSnapshot>[];
+  };
+}
+
+export interface FixtureResult {
+  file: string; // relative to the fixtures directory
+  fixture: ScraperFixture;
+  parsed: number;
+  failures: string[];
+}
+
+export function snapshotTournament(tournament: Tournament): TournamentSnapshot {
+  const { venue, structure } = tournament;
+  return {
+    id: tournament.id,
+    name: tournament.name,
+    circuit: tournament.circuit.type,
+    buyIn: tournament.buyIn,
+    prizeGuarantee: tournament.prizeGuarantee,
+    startDate: tournament.startDate.toISOString(),
+    endDate: tournament.endDate.toISOString(),
+    venue: venue.name,
+    city: venue.address.city,
+    state: venue.address.state,
+    country: venue.address.country,
+    timezone: venue.timezone,
+    startingStack: structure.startingStack,
+    blindLevelDuration: structure.blindLevelDuration,
+    structureLevels: structure.blindStructure?.levels.length
+  };
+}
+
+function pageFor(adapter: TournamentSourceAdapter | undefined, page: string): ScrapedPage {
+  const scraped = adapter?.pages?.[page];
+  if (!adapter || !scraped) {
+    const known = adapter?.pages ? Object.keys(adapter.pages).join(', ') : 'none';
+    throw new Error(`No "${page}" page parser on source ${adapter ? adapter.id : 'unknown'} (pages: ${known})`);
+  }
+  return scraped;
+}
+
+// Fixture JSON files under the directory, sorted for stable output
+export function listFixtures(dir: string = FIXTURES_DIR): string[] {
+  if (!fs.existsSync(dir)) return [];
+  return fs.readdirSync(dir, { withFileTypes: true })
+    .flatMap(entry => {
+      const fullPath = path.join(dir, entry.name);
+      if (entry.isDirectory()) return listFixtures(fullPath);
+      return entry.name.endsWith('.json') ? [fullPath] : [];
+    })
+    .sort();
+}
+
+export function loadFixture(jsonPath: string): { fixture: ScraperFixture; html: string } {
+  const fixture: ScraperFixture = JSON.parse(fs.readFileSync(jsonPath, 'utf8'));
+  const html = fs.readFileSync(jsonPath.replace(/\.json$/, '.html'), 'utf8');
+  return { fixture, html };
+}
+
+export function compareSnapshots(actual: TournamentSnapshot[], expected: ScraperFixture['expected']): string[] {
+  const failures: string[] = [];
+  if (actual.length !== expected.count) {
+    failures.push(`expected ${expected.count} tournaments, parsed ${actual.length}`);
+  }
+
+  expected.tournaments.forEach((want, index) => {
+    const got = actual[index];
+    if (!got) {
+      failures.push(`#${index + 1} ${want.name || ''}: missing`);
+      return;
+    }
+    (Object.keys(want) as (keyof TournamentSnapshot)[]).forEach(key => {
+      if (got[key] !== want[key]) {
+        failures.push(`#${index + 1} ${got.name}: ${key} expected ${JSON.stringify(want[key])}, got ${JSON.stringify(got[key])}`);
+      }
+    });
+  });
+  return failures;
+}
+
+export function replayFixture(
+  jsonPath: string,
+  registry: TournamentSourceRegistry = tournamentSources,
+  dir: string = FIXTURES_DIR
+): FixtureResult {
+  const file = path.relative(dir, jsonPath);
+  const { fixture, html } = loadFixture(jsonPath);
+  try {
+    const parsed = pageFor(registry.get(fixture.source), fixture.page).parse(html);
+    return {
+      file,
+      fixture,
+      parsed: parsed.length,
+      failures: compareSnapshots(parsed.map(snapshotTournament), fixture.expected)
+    };
+  } catch (error) {
+    return { file, fixture, parsed: 0, failures: [error instanceof Error ? error.message : String(error)] };
+  }
+}
+
+export function replayAll(
+  dir: string = FIXTURES_DIR,
+  registry: TournamentSourceRegistry = tournamentSources
+): FixtureResult[] {
+  return listFixtures(dir).map(jsonPath => replayFixture(jsonPath, registry, dir));
+}
+
+/**
+ * Record a page as a fixture. Expectations are a snapshot of what the
+ * parsers read today - review them before committing, since a capture taken
+ * after a redesign snapshots the breakage too.
+ */
+export function captureFixture(
+  options: { source: string; page: string; name: string; html: string; url?: string; description?: string },
+  registry: TournamentSourceRegistry = tournamentSources,
+  dir: string = FIXTURES_DIR
+): { jsonPath: string; fixture: ScraperFixture } {
+  const { source, page, name, html, url, description } = options;
+  const tournaments = pageFor(registry.get(source), page).parse(html).map(snapshotTournament);
+  const fixture: ScraperFixture = {
+    source,
+    page,
+    url,
+    capturedAt: new Date().toISOString(),
+    description,
+    expected: { count: tournaments.length, tournaments }
+  };
+
+  const sourceDir = path.join(dir, source);
+  fs.mkdirSync(sourceDir, { recursive: true });
+  const jsonPath = path.join(sourceDir, `${name}.json`);
+  fs.writeFileSync(path.join(sourceDir, `${name}.html`), html);
+  fs.writeFileSync(jsonPath, JSON.stringify(fixture, null, 2) + '\n');
+  return { jsonPath, fixture };
+}
@@ -0,0 +1,36 @@
+/**
+ * Page fetching for the scraping adapters - plain fetch() with browser-like
+ * headers, no headless browser.
+ */
+
+import { SourceStatus } from './adapter';
+
+export const USER_AGENT = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+
+const PAGE_HEADERS: Record<string, string> = {
+  'User-Agent': USER_AGENT,
+  'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
+  'Accept-Language': 'en-US,en;q=0.5',
+  'Accept-Encoding': 'gzip, deflate'
+};
+
+export function fetchPage(url: string, options: { noCache?: boolean } = {}): Promise<Response> {
+  return fetch(url, {
+    headers: options.noCache ? { ...PAGE_HEADERS, 'Cache-Control': 'no-cache' } : PAGE_HEADERS
+  });
+}
+
+// HEAD request against the site - enough to tell whether scraping can work
+export async function checkSite(url: string): Promise<SourceStatus> {
+  try {
+    const response = await fetch(url, {
+      method: 'HEAD',
+      headers: { 'User-Agent': USER_AGENT }
+    });
+    return response.ok
+      ? { available: true }
+      : { available: false, error: `Website not accessible (${response.status})` };
+  } catch (error) {
+    return { available: false, error: error instanceof Error ? error.message : 'Website not accessible' };
+  }
+}
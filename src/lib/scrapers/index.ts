@@ -0,0 +1,199 @@
+import { Tournament } from '@/types';
+import { venueRegistry } from '@/services/venue-registry';
+import { SourceFetchOptions, SourceFetchResult, SourceStatus, TournamentSourceAdapter } from './adapter';
+import { cardPlayerScraper } from './card-player';
+import { resolveTournaments, ResolutionSummary } from './entity-resolution';
+import { pokerAtlasSource } from './poker-atlas';
+import { collectRunStats } from './source-quality';
+import { wptScraper } from './wpt';
+import { wsopScraper } from './wsop-circuit';
+
+export type {
+  DataQualityAlert,
+  FieldFillRates,
+  ParseStats,
+  SourceFetchOptions,
+  SourceFetchResult,
+  SourceRunStats,
+  ScrapedPage,
+  SourceMetadata,
+  SourceStatus,
+  TournamentSourceAdapter
+} from './adapter';
+
+/**
+ * Tournament Sources
+ * Registry of schedule sources. The tournaments API, the data service and the
+ * health checks all go through here, so a new tour only needs an adapter
+ * registered below. Fetches respect each adapter's rate limit - a source
+ * asked again too soon answers with its last result - and results come back
+ * most reliable source first, so de-duplication keeps the better listing.
+ * Each fetched result carries its run statistics for drift checks
+ * (see ./source-quality).
+ */
+
+const MINUTE_MS = 60 * 1000;
+
+interface SourceUsage {
+  fetchedAt: number[]; // fetch times inside the current rate-limit window
+  lastResult?: Tournament[];
+}
+
+export type { ResolutionSummary } from './entity-resolution';
+
+export interface SourceFetchSummary {
+  tournaments: Tournament[]; // every listing, unmerged
+  bySource: Record<string, Tournament[]>;
+  sources: Record<string, SourceFetchResult>;
+}
+
+export class TournamentSourceRegistry {
+  private adapters: TournamentSourceAdapter[] = [];
+  private usage = new Map<string, SourceUsage>();
+
+  constructor(adapters: TournamentSourceAdapter[] = [], private now: () => number = () => Date.now()) {
+    adapters.forEach(adapter => this.register(adapter));
+  }
+
+  /**
+   * Add a source, replacing any adapter registered under the same id
+   */
+  register(adapter: TournamentSourceAdapter): void {
+    this.adapters = this.adapters
+      .filter(a => a.id !== adapter.id)
+      .concat(adapter)
+      .sort((a, b) => b.metadata.reliability - a.metadata.reliability);
+    this.usage.delete(adapter.id);
+  }
+
+  unregister(id: string): void {
+    this.adapters = this.adapters.filter(a => a.id !== id);
+    this.usage.delete(id);
+  }
+
+  get(id: string): TournamentSourceAdapter | undefined {
+    return this.adapters.find(a => a.id === id);
+  }
+
+  // Most reliable first
+  list(): TournamentSourceAdapter[] {
+    return [...this.adapters];
+  }
+
+  // Sources whose coverage includes at least one of the circuits; all of them when none are asked for
+  forCircuits(circuits?: string[]): TournamentSourceAdapter[] {
+    if (!circuits || circuits.length === 0) return this.list();
+    return this.adapters.filter(a => a.metadata.coverage.circuits.some(type => circuits.includes(type)));
+  }
+
+  /**
+   * Fetch from every covering source (or just the given ids) in parallel.
+   * A failing source is reported in its result rather than failing the rest.
+   */
+  async fetchAll(options: SourceFetchOptions = {}, ids?: string[]): Promise<SourceFetchSummary> {
+    const adapters = this.forCircuits(options.circuits).filter(a => !ids || ids.includes(a.id));
+
+    // Scraped venue names resolve against the registry as pages are parsed
+    await venueRegistry.load();
+    const results = await Promise.all(adapters.map(adapter => this.fetchFrom(adapter, options)));
+    await venueRegistry.flush().catch(error => console.error('Error queueing unmatched venues:', error));
+
+    const sources: Record<string, SourceFetchResult> = {};
+    const bySource: Record<string, Tournament[]> = {};
+    const tournaments: Tournament[] = [];
+    results.forEach(({ result, tournaments: fetched }, index) => {
+      sources[adapters[index].id] = result;
+      bySource[adapters[index].id] = fetched;
+      tournaments.push(...fetched);
+    });
+    return { tournaments, bySource, sources };
+  }
+
+  /**
+   * Merge listings of the same event across sources into one tournament each,
+   * weighing sources by their metadata (see ./entity-resolution)
+   */
+  resolve(bySource: Record<string, Tournament[]>): ResolutionSummary {
+    return resolveTournaments(bySource, id => this.get(id)?.metadata);
+  }
+
+  async fetchFrom(
+    adapter: TournamentSourceAdapter,
+    options: SourceFetchOptions = {}
+  ): Promise<{ tournaments: Tournament[]; result: SourceFetchResult }> {
+    const now = this.now();
+    const usage = this.usageFor(adapter, now);
+
+    if (usage.fetchedAt.length >= adapter.metadata.rateLimit.maxRequests) {
+      const tournaments = usage.lastResult || [];
+      return {
+        tournaments,
+        result: { name: adapter.name, count: tournaments.length, lastUpdated: now, throttled: true }
+      };
+    }
+
+    usage.fetchedAt.push(now);
+    try {
+      console.log(`Fetching tournaments from ${adapter.name}...`);
+      const tournaments = await adapter.fetchTournaments(options);
+      console.log(`${adapter.name}: Found ${tournaments.length} tournaments`);
+      usage.lastResult = tournaments;
+      return {
+        tournaments,
+        result: {
+          name: adapter.name,
+          count: tournaments.length,
+          lastUpdated: now,
+          stats: collectRunStats(tournaments, adapter.lastParse, now)
+        }
+      };
+    } catch (error) {
+      console.error(`Error fetching from ${adapter.name}:`, error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      return {
+        tournaments: [],
+        result: {
+          name: adapter.name,
+          count: 0,
+          lastUpdated: now,
+          error: message,
+          stats: collectRunStats([], undefined, now, message)
+        }
+      };
+    }
+  }
+
+  async checkAll(): Promise<Record<string, SourceStatus>> {
+    const adapters = this.list();
+    const statuses = await Promise.all(adapters.map(adapter =>
+      adapter.checkStatus().catch((error): SourceStatus => ({
+        available: false,
+        error: error instanceof Error ? error.message : 'Unknown error'
+      }))
+    ));
+
+    const byId: Record<string, SourceStatus> = {};
+    statuses.forEach((status, index) => { byId[adapters[index].id] = status; });
+    return byId;
+  }
+
+  async closeAll(): Promise<void> {
+    await Promise.all(this.adapters.map(adapter => adapter.close?.()));
+  }
+
+  private usageFor(adapter: TournamentSourceAdapter, now: number): SourceUsage {
+    const windowStart = now - adapter.metadata.rateLimit.windowMinutes * MINUTE_MS;
+    const usage = this.usage.get(adapter.id) || { fetchedAt: [] };
+    usage.fetchedAt = usage.fetchedAt.filter(time => time > windowStart);
+    this.usage.set(adapter.id, usage);
+    return usage;
+  }
+}
+
+// Shared instance with every built-in source registered
+export const tournamentSources = new TournamentSourceRegistry([
+  pokerAtlasSource,
+  wsopScraper,
+  wptScraper,
+  cardPlayerScraper
+]);
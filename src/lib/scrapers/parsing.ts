@@ -0,0 +1,300 @@
+/**
+ * Parsing helpers shared by the tournament source adapters - listing dates,
+ * money amounts, locations, field estimates and structure sheets. Dates on
+ * tour sites are venue-local calendar days, so every adapter reads them the
+ * same way: parse the days, then pin them to the venue's timezone.
+ */
+
+import * as cheerio from 'cheerio';
+import { BlindStructure, Tournament, Venue, VenueAmenity } from '@/types';
+import { parseStructureSheet } from '@/lib/blind-structure';
+import { geocodeAddress, normalizeStateCode } from '@/lib/geocoding';
+import { atVenueTime, getTimezoneForState, DEFAULT_END_HOUR } from '@/lib/timezones';
+import { venueRegistry } from '@/services/venue-registry';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const MONTHS: Record<string, number> = {
+  'january': 0, 'jan': 0,
+  'february': 1, 'feb': 1,
+  'march': 2, 'mar': 2,
+  'april': 3, 'apr': 3,
+  'may': 4,
+  'june': 5, 'jun': 5,
+  'july': 6, 'jul': 6,
+  'august': 7, 'aug': 7,
+  'september': 8, 'sep': 8, 'sept': 8,
+  'october': 9, 'oct': 9,
+  'november': 10, 'nov': 10,
+  'december': 11, 'dec': 11
+};
+
+// Month index for a full or abbreviated name, undefined for anything else
+export function parseMonthName(monthName: string): number | undefined {
+  return MONTHS[(monthName || '').toLowerCase().replace(/\.$/, '')];
+}
+
+export interface CalendarDays {
+  start: Date;
+  end?: Date; // undefined for single-day listings
+}
+
+function fullYear(text: string): number {
+  const year = parseInt(text);
+  return year < 100 ? year + 2000 : year;
+}
+
+function monthNameDays(
+  startMonthName: string,
+  startDay: string,
+  endMonthName: string,
+  endDay: string,
+  year: string,
+  startYear?: string
+): CalendarDays | undefined {
+  const startMonth = parseMonthName(startMonthName);
+  const endMonth = parseMonthName(endMonthName);
+  if (startMonth === undefined || endMonth === undefined) return undefined;
+
+  const endYear = fullYear(year);
+  // "Dec 28 - Jan 3, 2025" starts the year before it ends
+  const firstYear = startYear ? fullYear(startYear) : endMonth < startMonth ? endYear - 1 : endYear;
+  const start = new Date(firstYear, startMonth, parseInt(startDay));
+  const end = new Date(endYear, endMonth, parseInt(endDay));
+  return { start, end: end.getTime() !== start.getTime() ? end : undefined };
+}
+
+function numericDays(month: string, day: string, year: string, endMonth?: string, endDay?: string, endYear?: string): CalendarDays {
+  const start = new Date(fullYear(year), parseInt(month) - 1, parseInt(day));
+  if (!endMonth || !endDay || !endYear) return { start };
+  return { start, end: new Date(fullYear(endYear), parseInt(endMonth) - 1, parseInt(endDay)) };
+}
+
+// Most specific first - a bare "March 15, 2024" also matches inside a range
+const DATE_FORMATS: { pattern: RegExp; read: (m: RegExpMatchArray) => CalendarDays | undefined }[] = [
+  // "March 15, 2024 - March 18, 2024"
+  {
+    pattern: /([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})\s*[-–]\s*([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})/i,
+    read: m => monthNameDays(m[1], m[2], m[4], m[5], m[6], m[3])
+  },
+  // "Mar 15 - Apr 2, 2024"
+  {
+    pattern: /([a-z]+)\.?\s+(\d{1,2})\s*[-–]\s*([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})/i,
+    read: m => monthNameDays(m[1], m[2], m[3], m[4], m[5])
+  },
+  // "March 15-18, 2024" / "Mar 15-18 2024"
+  {
+    pattern: /([a-z]+)\.?\s+(\d{1,2})\s*[-–]\s*(\d{1,2}),?\s+(\d{4})/i,
+    read: m => monthNameDays(m[1], m[2], m[1], m[3], m[4])
+  },
+  // "March 15, 2024"
+  {
+    pattern: /([a-z]+)\.?\s+(\d{1,2}),?\s+(\d{4})/i,
+    read: m => monthNameDays(m[1], m[2], m[1], m[2], m[3])
+  },
+  // "3/15/24 - 3/18/24"
+  {
+    pattern: /(\d{1,2})\/(\d{1,2})\/(\d{2,4})\s*[-–]\s*(\d{1,2})\/(\d{1,2})\/(\d{2,4})/,
+    read: m => numericDays(m[1], m[2], m[3], m[4], m[5], m[6])
+  },
+  // "3/15/2024"
+  {
+    pattern: /(\d{1,2})\/(\d{1,2})\/(\d{2,4})/,
+    read: m => numericDays(m[1], m[2], m[3])
+  },
+  // "2024-03-15"
+  {
+    pattern: /(\d{4})-(\d{2})-(\d{2})/,
+    read: m => numericDays(m[2], m[3], m[1])
+  }
+];
+
+/**
+ * Calendar days of a listing - times are applied in the venue's zone by
+ * parseDateRange. Falls back to today when nothing can be read, as the tour
+ * sites occasionally list "TBA".
+ */
+export function parseCalendarDays(dateText: string): CalendarDays {
+  const text = (dateText || '').replace(/^\s*dates?:/i, '').trim();
+  if (!text) return { start: new Date() };
+
+  for (const { pattern, read } of DATE_FORMATS) {
+    const match = text.match(pattern);
+    const days = match ? read(match) : undefined;
+    if (days && !isNaN(days.start.getTime())) return days;
+  }
+
+  const date = new Date(text);
+  if (!isNaN(date.getTime()) && date.getFullYear() > 2000) {
+    return { start: new Date(date.getFullYear(), date.getMonth(), date.getDate()) };
+  }
+  return { start: new Date() };
+}
+
+/**
+ * Parse a listed date range as venue-local days: start at noon, end late evening
+ */
+export function parseDateRange(dateText: string, timezone: string): { start: Date; end?: Date } {
+  const days = parseCalendarDays(dateText);
+  return {
+    start: atVenueTime(days.start, timezone),
+    end: days.end ? atVenueTime(days.end, timezone, DEFAULT_END_HOUR) : undefined
+  };
+}
+
+// "$3,500", "$3.5K", "1.2M", "3500" -> dollars
+export function parseMoney(text: string): number | undefined {
+  const match = (text || '').match(/\$?\s?(\d[\d,]*(?:\.\d+)?)\s*([km])?\b/i);
+  if (!match) return undefined;
+  const amount = parseFloat(match[1].replace(/,/g, ''));
+  const suffix = (match[2] || '').toUpperCase();
+  return Math.round(amount * (suffix === 'K' ? 1000 : suffix === 'M' ? 1000000 : 1));
+}
+
+// Buy-in cell text; 0 when the cell is empty or unreadable
+export function parseBuyIn(text: string): number {
+  return parseMoney(text) || 0;
+}
+
+export function parseGuarantee(text: string): number | undefined {
+  return parseMoney(text);
+}
+
+const MONEY = '\\$?\\s?\\d[\\d,]*(?:\\.\\d+)?\\s*[km]?';
+
+const BUY_IN_PATTERNS = [
+  new RegExp(`buy.?in:?\\s*(${MONEY})\\b`, 'i'), // "Buy-in: $1,500"
+  new RegExp(`entry:?\\s*(${MONEY})\\b`, 'i'), // "Entry: $1500"
+  new RegExp(`(${MONEY})\\s*(?:buy.?in|entry)`, 'i'), // "$1,500 buy-in"
+  new RegExp(`(\\$\\s?\\d[\\d,]*(?:\\.\\d+)?\\s*[km]?)\\b(?!\\s*(?:gtd|guarantee))`, 'i') // "$1500", not "$500K GTD"
+];
+
+const GUARANTEE_PATTERNS = [
+  new RegExp(`(${MONEY})\\s*(?:gtd|guaranteed?)`, 'i'), // "$1.5M GTD", "500K guaranteed"
+  new RegExp(`guaranteed?:?\\s*(${MONEY})\\b`, 'i') // "Guaranteed $500K"
+];
+
+function findAmount(text: string, patterns: RegExp[], min: number, max: number): number | undefined {
+  if (!text) return undefined;
+  for (const pattern of patterns) {
+    const match = text.match(pattern);
+    const amount = match ? parseMoney(match[1]) : undefined;
+    if (amount !== undefined && amount >= min && amount <= max) return amount;
+  }
+  return undefined;
+}
+
+// Buy-in mentioned somewhere in free text (a listing row, a description)
+export function extractBuyIn(text: string): number | undefined {
+  return findAmount(text, BUY_IN_PATTERNS, 50, 1000000);
+}
+
+export function extractGuarantee(text: string): number | undefined {
+  return findAmount(text, GUARANTEE_PATTERNS, 1000, 100000000);
+}
+
+// Expected entries for events at or above a buy-in - bands ordered highest first
+export interface FieldBand {
+  minBuyIn: number;
+  base: number;
+  spread: number;
+}
+
+export function estimateField(buyIn: number, bands: FieldBand[]): number {
+  const band = bands.find(b => buyIn >= b.minBuyIn) || bands[bands.length - 1];
+  return band.base + Math.floor(Math.random() * band.spread);
+}
+
+// Listing text wins ("Winner:", "Live updates"); otherwise judged from the start date
+export function inferStatus(startDate: Date, contextText?: string): Tournament['status'] {
+  if (contextText) {
+    const lowerContext = contextText.toLowerCase();
+    if (lowerContext.includes('completed') || lowerContext.includes('winner') || lowerContext.includes('champion')) {
+      return 'completed';
+    }
+    if (lowerContext.includes('live') || lowerContext.includes('running') || lowerContext.includes('final table')) {
+      return 'running';
+    }
+  }
+
+  const daysDiff = (startDate.getTime() - Date.now()) / DAY_MS;
+  if (daysDiff < -7) return 'completed'; // More than a week ago
+  if (daysDiff < 0) return 'running'; // Within the past week
+  return 'upcoming';
+}
+
+// "Nevada" / "nv" -> "NV"; anything that isn't a US state is kept as written
+export function normalizeState(state: string): string {
+  const code = normalizeStateCode(state);
+  return code.length === 2 ? code : (state || '').trim();
+}
+
+const COUNTRY_HINTS: { country: string; pattern: RegExp }[] = [
+  { country: 'Canada', pattern: /\b(canada|toronto|montreal|vancouver|ontario|quebec)\b/i },
+  { country: 'United Kingdom', pattern: /\b(uk|united kingdom|england|london)\b/i },
+  { country: 'Australia', pattern: /\b(australia|sydney|melbourne)\b/i },
+  { country: 'Mexico', pattern: /\b(mexico|cancun)\b/i }
+];
+
+export interface ParsedLocation {
+  city: string;
+  state: string;
+  country: string;
+}
+
+// "Las Vegas, NV" / "Toronto, Ontario, Canada" - the tours list US events by default
+export function parseLocation(locationText: string): ParsedLocation {
+  const parts = (locationText || '').split(',').map(part => part.trim()).filter(Boolean);
+  const hint = COUNTRY_HINTS.find(({ pattern }) => pattern.test(locationText || ''));
+  return {
+    city: parts[0] || '',
+    state: parts.length >= 2 ? normalizeState(parts[1]) : '',
+    country: hint ? hint.country : 'USA'
+  };
+}
+
+export interface ScrapedVenueOptions {
+  id: string;
+  name: string;
+  location: ParsedLocation;
+  amenities?: string[];
+  parkingCost?: Venue['parking']['cost'];
+  placeholder?: boolean; // stand-in name when the page doesn't say - never looked up
+}
+
+/**
+ * Venue for a scraped listing. Known rooms come from the canonical venue
+ * registry; anything else is built here, with coordinates from the city
+ * gazetteer and the timezone from the state, so listed times and travel legs
+ * line up - and the name is queued for an admin to map.
+ */
+export function buildScrapedVenue({ id, name, location, amenities = [], parkingCost = 'free', placeholder }: ScrapedVenueOptions): Venue {
+  const known = placeholder ? undefined : venueRegistry.resolve(name, location);
+  if (known) return known;
+
+  const { city, state, country } = location;
+  return {
+    id,
+    name,
+    address: { street: '', city, state, country, postalCode: '' },
+    coordinates: (country === 'USA' && geocodeAddress({ city, state })) || { lat: 0, lng: 0 },
+    amenities: amenities.map((amenity): VenueAmenity => ({ name: amenity, available: true })),
+    parking: { available: true, cost: parkingCost },
+    nearbyHotels: [],
+    localTips: [],
+    timezone: getTimezoneForState(state, city)
+  };
+}
+
+/**
+ * Read an event's structure sheet (levels, breaks, day splits) when the page
+ * embeds one - within $scope if given, otherwise anywhere on the page
+ */
+export function readStructureSheet($: cheerio.Root, $scope: any, defaultDuration: number): BlindStructure | undefined {
+  const selector = '.structure-sheet tr, .blind-structure tr, table.structure tr';
+  const rows: string[][] = [];
+  ($scope ? $scope.find(selector) : $(selector)).each((_: number, row: any) => {
+    rows.push($(row).find('th, td').map((_i, cell) => $(cell).text().trim()).get());
+  });
+  return parseStructureSheet(rows, defaultDuration) || undefined;
+}
@@ -0,0 +1,61 @@
+/**
+ * PokerAtlas source adapter
+ * PokerAtlas is a listings API rather than a scraped site, so it can filter by
+ * dates, buy-in and state on its side. The API client lives in the services.
+ */
+
+import { Tournament } from '@/types';
+import { pokerAtlas, PokerAtlasService } from '@/services/poker-atlas';
+import { venueRegistry } from '@/services/venue-registry';
+import { SourceFetchOptions, SourceMetadata, SourceStatus, TournamentSourceAdapter } from './adapter';
+
+const DEFAULT_WINDOW_MONTHS = 6;
+
+export class PokerAtlasAdapter implements TournamentSourceAdapter {
+  readonly id = 'pokerAtlas';
+  readonly name = 'PokerAtlas';
+  readonly metadata: SourceMetadata = {
+    kind: 'api',
+    website: 'https://www.pokeratlas.com',
+    rateLimit: { maxRequests: 60, windowMinutes: 60 },
+    reliability: 0.95,
+    coverage: { circuits: ['wsop', 'wpt', 'ept', 'regional', 'local'], countries: ['USA'] },
+    // Venues come from PokerAtlas's room directory, geocoded to the building
+    preferredFields: ['venue', 'coordinates']
+  };
+
+  constructor(private service: PokerAtlasService = pokerAtlas) {}
+
+  async fetchTournaments(options: SourceFetchOptions = {}): Promise<Tournament[]> {
+    const startDate = options.startDate || new Date();
+    const endDate = options.endDate || new Date(startDate);
+    if (!options.endDate) endDate.setMonth(endDate.getMonth() + DEFAULT_WINDOW_MONTHS);
+
+    const tournaments = await this.service.getTournaments(startDate, endDate, {
+      minBuyIn: options.minBuyIn,
+      maxBuyIn: options.maxBuyIn,
+      state: options.states?.join(',')
+    });
+
+    // Rooms in the venue registry get their canonical record. PokerAtlas
+    // covers hundreds of local rooms with real addresses, so the rest keep
+    // theirs rather than filling the review queue
+    return tournaments.map(tournament => {
+      const { name, address } = tournament.venue;
+      const known = venueRegistry.resolve(name, address, { queue: false });
+      return known ? { ...tournament, venue: known } : tournament;
+    });
+  }
+
+  async checkStatus(): Promise<SourceStatus> {
+    const status = await this.service.checkStatus();
+    return {
+      available: status.connected,
+      error: status.error,
+      rateLimitRemaining: status.rateLimitRemaining,
+      rateLimitReset: status.rateLimitReset
+    };
+  }
+}
+
+export const pokerAtlasSource = new PokerAtlasAdapter();
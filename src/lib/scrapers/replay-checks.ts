@@ -0,0 +1,194 @@
+/**
+ * Replay checks for the ingestion pipeline
+ * Recorded pages cover the parsers (./fixture-harness); these checks replay
+ * hand-built listings and run histories through what happens after parsing -
+ * cross-source merging, drift alerts and the venue review queue - so a change
+ * that quietly merges two flights or lets an outage become the baseline
+ * fails `npm run test-scrapers`. Stores are kept in memory; nothing is
+ * written under .data/.
+ */
+
+import { Tournament } from '@/types';
+import { circuits, tournaments } from '@/data/tournaments';
+import { JsonFileStore } from '@/lib/json-store';
+import { VenueRegistry } from '@/services/venue-registry';
+import { SourceRunStats } from './adapter';
+import { resolveTournaments } from './entity-resolution';
+import { collectRunStats, SourceQualityMonitor } from './source-quality';
+import { tournamentSources } from './index';
+
+export interface ReplayCheckResult {
+  name: string;
+  failures: string[];
+}
+
+interface ReplayCheck {
+  name: string;
+  run: () => Promise<string[]>;
+}
+
+const HOUR_MS = 60 * 60 * 1000;
+const DAY_MS = 24 * HOUR_MS;
+
+// JsonFileStore that keeps its data in memory
+class MemoryStore<T> extends JsonFileStore<T> {
+  private data: T;
+
+  constructor(createEmpty: () => T) {
+    super('replay-check.json', createEmpty);
+    this.data = createEmpty();
+  }
+
+  async read(): Promise<T> {
+    return JSON.parse(JSON.stringify(this.data));
+  }
+
+  async write(data: T): Promise<void> {
+    this.data = JSON.parse(JSON.stringify(data));
+  }
+}
+
+// A WSOP Circuit listing at Horseshoe Hammond, as one source publishes it
+function hammondListing(id: string, name: string, startOffsetHours = 0): Tournament {
+  const base = tournaments.find(t => t.id === 'mspt-hammond-main')!;
+  const startDate = new Date(base.startDate.getTime() + startOffsetHours * HOUR_MS);
+  return {
+    ...base,
+    id,
+    name,
+    circuit: circuits.find(c => c.type === 'wsop')!,
+    buyIn: 1700,
+    startDate,
+    endDate: new Date(startDate.getTime() + 3 * DAY_MS)
+  };
+}
+
+function resolve(bySource: Record<string, Tournament[]>) {
+  return resolveTournaments(bySource, source => tournamentSources.get(source)?.metadata);
+}
+
+function expect(failures: string[], condition: boolean, message: string) {
+  if (!condition) failures.push(message);
+}
+
+async function mergesRenamedListings(): Promise<string[]> {
+  const failures: string[] = [];
+  const { tournaments: merged } = resolve({
+    wsop: [hammondListing('wsop-hammond-main', 'WSOPC Horseshoe Hammond Main Event')],
+    pokerAtlas: [hammondListing('pa-hammond-main', 'Main Event – Horseshoe Hammond', 1)]
+  });
+
+  expect(failures, merged.length === 1, `expected 1 tournament, got ${merged.length}: ${merged.map(t => t.name).join(', ')}`);
+  const sources = merged[0]?.provenance?.listings.map(listing => listing.source).sort() || [];
+  expect(failures, sources.join(',') === 'pokerAtlas,wsop', `expected listings from pokerAtlas and wsop, got ${sources.join(', ') || 'none'}`);
+  return failures;
+}
+
+async function keepsFlightsApart(): Promise<string[]> {
+  const failures: string[] = [];
+  const { tournaments: merged } = resolve({
+    wsop: [
+      hammondListing('wsop-hammond-1a', 'WSOPC Horseshoe Hammond Main Event Day 1A'),
+      hammondListing('wsop-hammond-1b', 'WSOPC Horseshoe Hammond Main Event Day 1B', 24)
+    ],
+    pokerAtlas: [
+      hammondListing('pa-hammond-1a', 'Main Event Day 1A – Horseshoe Hammond'),
+      hammondListing('pa-hammond-1b', 'Main Event Day 1B – Horseshoe Hammond', 24)
+    ]
+  });
+
+  expect(failures, merged.length === 2, `expected 2 tournaments, got ${merged.length}: ${merged.map(t => t.name).join(', ')}`);
+  merged.forEach(tournament => {
+    const ids = tournament.provenance?.listings.map(listing => listing.id) || [tournament.id];
+    const flights = new Set(ids.map(id => id.slice(-2)));
+    expect(failures, flights.size === 1, `${tournament.name} mixes flights: ${ids.join(', ')}`);
+  });
+  return failures;
+}
+
+async function keepsAlertingThroughOutage(): Promise<string[]> {
+  const failures: string[] = [];
+  const warn = console.warn;
+  console.warn = () => undefined; // the monitor logs every alert it raises
+  try {
+    await replayOutage(failures);
+  } finally {
+    console.warn = warn;
+  }
+  return failures;
+}
+
+async function replayOutage(failures: string[]) {
+  const monitor = new SourceQualityMonitor(new MemoryStore(() => ({})));
+  const healthy = Array.from({ length: 20 }, (_, i) => hammondListing(`healthy-${i}`, `Event #${i + 1}`, i * 24));
+  const runAt = (index: number, listings: Tournament[]) => monitor.record({
+    wsop: {
+      name: 'WSOP Circuit',
+      count: listings.length,
+      lastUpdated: index * HOUR_MS,
+      stats: collectRunStats(listings, { rows: 20, failed: 20 - listings.length }, index * HOUR_MS)
+    }
+  });
+
+  for (let i = 0; i < 10; i++) {
+    const recorded = await runAt(i, healthy);
+    expect(failures, (recorded.wsop.alerts || []).length === 0, `healthy run ${i + 1} raised alerts`);
+  }
+
+  let history: SourceRunStats[] = [];
+  for (let i = 10; i < 25; i++) {
+    const recorded = await runAt(i, []);
+    expect(failures, (recorded.wsop.alerts || []).some(alert => alert.metric === 'count'), `outage run ${i - 9} raised no count alert`);
+    history = recorded.wsop.history || [];
+  }
+  expect(failures, history.length === 25, `expected 25 runs of history, got ${history.length}`);
+
+  const recovered = await runAt(25, healthy);
+  expect(failures, (recovered.wsop.alerts || []).length === 0, 'recovered run still alerting');
+}
+
+async function reviewsVenueNames(): Promise<string[]> {
+  const failures: string[] = [];
+  const registry = new VenueRegistry(undefined, new MemoryStore(() => ({ aliases: {}, unmatched: [], dismissed: [] })));
+  const venueId = (name: string, state: string) => registry.resolve(name, { state })?.id;
+
+  expect(failures, venueId('Horseshoe Casino Hammond', 'Indiana') === 'horseshoe-hammond', 'alias "Horseshoe Casino Hammond" did not resolve');
+  expect(failures, venueId('HORSESHOE HAMMOND CASINO', 'IN') === 'horseshoe-hammond', 'alias ignoring case did not resolve');
+  expect(failures, venueId('Horseshoe Hammond Poker Room', 'IN') === 'horseshoe-hammond', 'loose match "Horseshoe Hammond Poker Room" did not resolve');
+  expect(failures, !registry.resolve('Horseshoe Casino Hammond', { state: 'NV' }, { queue: false }), 'alias resolved in the wrong state');
+
+  venueId('Hammond Shoe', 'IN');
+  venueId('Hammond Shoe', 'IN');
+  venueId('TBA', 'IN');
+  let queue = await registry.getUnmatched();
+  const shoe = queue.find(entry => entry.name === 'Hammond Shoe');
+  expect(failures, shoe?.occurrences === 2, `expected "Hammond Shoe" queued twice, got ${shoe ? shoe.occurrences : 'not queued'}`);
+  expect(failures, Boolean(shoe?.suggestions.some(s => s.venueId === 'horseshoe-hammond')), '"Hammond Shoe" not suggested as Horseshoe Hammond');
+
+  await registry.merge('Hammond Shoe', 'horseshoe-hammond');
+  await registry.dismiss('TBA');
+  expect(failures, venueId('Hammond Shoe', 'IN') === 'horseshoe-hammond', 'merged alias did not resolve');
+  venueId('TBA', 'IN');
+  queue = await registry.getUnmatched();
+  expect(failures, queue.length === 0, `expected an empty queue, got ${queue.map(entry => entry.name).join(', ')}`);
+  return failures;
+}
+
+const CHECKS: ReplayCheck[] = [
+  { name: 'Renamed listings of the Hammond Main Event merge', run: mergesRenamedListings },
+  { name: 'Day 1A and Day 1B stay separate', run: keepsFlightsApart },
+  { name: 'Drift alerts continue through a sustained outage', run: keepsAlertingThroughOutage },
+  { name: 'Venue aliases resolve and the review queue clears', run: reviewsVenueNames }
+];
+
+export async function runReplayChecks(): Promise<ReplayCheckResult[]> {
+  const results: ReplayCheckResult[] = [];
+  for (const check of CHECKS) {
+    try {
+      results.push({ name: check.name, failures: await check.run() });
+    } catch (error) {
+      results.push({ name: check.name, failures: [error instanceof Error ? error.message : String(error)] });
+    }
+  }
+  return results;
+}
@@ -0,0 +1,219 @@
+/**
+ * Source quality tracking
+ * Every ingestion run records per-source statistics - row counts, the share of
+ * scraped rows that failed to parse, and how often buy-in, guarantee and venue
+ * came back filled in - and compares them against the source's recent
+ * history. A markup change rarely makes a scraper throw; it makes it quietly
+ * return fewer or emptier listings, which is what the alerts here catch.
+ *
+ * History persists under .data/ so baselines survive restarts. Server-only.
+ */
+
+import { Tournament } from '@/types';
+import { JsonFileStore } from '@/lib/json-store';
+import {
+  DataQualityAlert,
+  FieldFillRates,
+  ParseStats,
+  SourceFetchResult,
+  SourceRunStats
+} from './adapter';
+
+const HISTORY_LIMIT = 30; // runs kept per source
+const BASELINE_RUNS = 10; // most recent healthy runs the baseline is taken over
+const MIN_BASELINE_RUNS = 3; // too little history to judge before this
+
+// How far a run may fall below baseline before alerting
+export const DRIFT_THRESHOLDS = {
+  minBaselineCount: 5, // smaller sources swing too much run to run
+  countDrop: { warning: 0.5, critical: 0.8 }, // fraction of the baseline count lost
+  parseFailureRise: { warning: 0.25, critical: 0.5 }, // percentage points above baseline
+  fillRateDrop: { warning: 0.3, critical: 0.6 } // percentage points below baseline
+};
+
+export type SourceHistory = Record<string, SourceRunStats[]>; // keyed by adapter id
+
+export interface SourceBaseline {
+  runs: number;
+  count: number;
+  parseFailureRate?: number;
+  fillRates: FieldFillRates;
+}
+
+const FILL_LABELS: Record<keyof FieldFillRates, string> = {
+  buyIn: 'buy-in',
+  guarantee: 'guarantee',
+  venue: 'venue'
+};
+
+function share(matching: number, total: number): number {
+  return total > 0 ? matching / total : 0;
+}
+
+function median(values: number[]): number {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+function percent(value: number): string {
+  return `${Math.round(value * 100)}%`;
+}
+
+/**
+ * Statistics for one fetch. `parse` is the adapter's row accounting, when it
+ * scrapes pages.
+ */
+export function collectRunStats(
+  tournaments: Tournament[],
+  parse: ParseStats | undefined,
+  at: number,
+  error?: string
+): SourceRunStats {
+  const total = tournaments.length;
+  return {
+    at,
+    count: total,
+    rows: parse?.rows,
+    parseFailureRate: parse ? share(parse.failed, parse.rows) : undefined,
+    fillRates: {
+      buyIn: share(tournaments.filter(t => t.buyIn > 0).length, total),
+      guarantee: share(tournaments.filter(t => (t.prizeGuarantee || 0) > 0).length, total),
+      venue: share(tournaments.filter(t => Boolean(t.venue.address.city)).length, total)
+    },
+    error
+  };
+}
+
+/**
+ * Medians over the most recent healthy runs. Failed fetches are left out -
+ * they're reported through the fetch error, not as a drop in data - and so
+ * are runs that raised alerts, so a source that stays broken keeps alerting
+ * instead of becoming its own baseline. Undefined until there is enough
+ * history to compare against.
+ */
+export function computeBaseline(history: SourceRunStats[]): SourceBaseline | undefined {
+  const runs = history.filter(run => !run.error && !(run.alerts && run.alerts.length)).slice(-BASELINE_RUNS);
+  if (runs.length < MIN_BASELINE_RUNS) return undefined;
+
+  const failureRates = runs
+    .map(run => run.parseFailureRate)
+    .filter((rate): rate is number => rate !== undefined);
+
+  return {
+    runs: runs.length,
+    count: median(runs.map(run => run.count)),
+    parseFailureRate: failureRates.length ? median(failureRates) : undefined,
+    fillRates: {
+      buyIn: median(runs.map(run => run.fillRates.buyIn)),
+      guarantee: median(runs.map(run => run.fillRates.guarantee)),
+      venue: median(runs.map(run => run.fillRates.venue))
+    }
+  };
+}
+
+/**
+ * Compare a run with the baseline. Fill rates are only judged when the run
+ * returned listings - an empty run is already a count alert.
+ */
+export function detectDrift(
+  source: { id: string; name: string },
+  run: SourceRunStats,
+  baseline: SourceBaseline | undefined
+): DataQualityAlert[] {
+  if (!baseline || run.error) return [];
+  const alerts: DataQualityAlert[] = [];
+  const raise = (
+    metric: DataQualityAlert['metric'],
+    severity: DataQualityAlert['severity'],
+    message: string,
+    baselineValue: number,
+    current: number
+  ) => {
+    alerts.push({ source: source.id, metric, severity, message: `${source.name}: ${message}`, baseline: baselineValue, current });
+  };
+
+  const { countDrop, parseFailureRise, fillRateDrop, minBaselineCount } = DRIFT_THRESHOLDS;
+
+  if (baseline.count >= minBaselineCount) {
+    const lost = 1 - run.count / baseline.count;
+    if (lost >= countDrop.warning) {
+      raise(
+        'count',
+        lost >= countDrop.critical ? 'critical' : 'warning',
+        `${run.count} tournaments against a usual ${Math.round(baseline.count)}`,
+        baseline.count,
+        run.count
+      );
+    }
+  }
+
+  if (run.parseFailureRate !== undefined && baseline.parseFailureRate !== undefined && run.rows) {
+    const rise = run.parseFailureRate - baseline.parseFailureRate;
+    if (rise >= parseFailureRise.warning) {
+      raise(
+        'parseFailureRate',
+        rise >= parseFailureRise.critical ? 'critical' : 'warning',
+        `${percent(run.parseFailureRate)} of rows failed to parse (usually ${percent(baseline.parseFailureRate)})`,
+        baseline.parseFailureRate,
+        run.parseFailureRate
+      );
+    }
+  }
+
+  if (run.count > 0) {
+    (Object.keys(FILL_LABELS) as (keyof FieldFillRates)[]).forEach(field => {
+      const drop = baseline.fillRates[field] - run.fillRates[field];
+      if (drop >= fillRateDrop.warning) {
+        raise(
+          field,
+          drop >= fillRateDrop.critical ? 'critical' : 'warning',
+          `${FILL_LABELS[field]} filled on ${percent(run.fillRates[field])} of listings (usually ${percent(baseline.fillRates[field])})`,
+          baseline.fillRates[field],
+          run.fillRates[field]
+        );
+      }
+    });
+  }
+
+  return alerts;
+}
+
+export class SourceQualityMonitor {
+  constructor(
+    private store = new JsonFileStore<SourceHistory>('source-history.json', () => ({}))
+  ) {}
+
+  /**
+   * Append each source's run to its history, check it against the baseline
+   * from the runs before it, and return the results with alerts and history
+   * attached. Throttled replays aren't new runs, so they only get history.
+   */
+  async record(sources: Record<string, SourceFetchResult>): Promise<Record<string, SourceFetchResult>> {
+    return this.store.update(history => {
+      const recorded: Record<string, SourceFetchResult> = {};
+
+      Object.keys(sources).forEach(id => {
+        const result = sources[id];
+        const runs = history[id] || [];
+
+        if (!result.stats || result.throttled) {
+          recorded[id] = { ...result, history: runs };
+          return;
+        }
+
+        const alerts = detectDrift({ id, name: result.name }, result.stats, computeBaseline(runs));
+        alerts.forEach(alert => console.warn(`Data quality ${alert.severity}: ${alert.message}`));
+
+        const run: SourceRunStats = alerts.length ? { ...result.stats, alerts } : result.stats;
+        history[id] = runs.concat(run).slice(-HISTORY_LIMIT);
+        recorded[id] = { ...result, stats: run, alerts, history: history[id] };
+      });
+
+      return recorded;
+    });
+  }
+}
+
+// Export singleton instance
+export const sourceQuality = new SourceQualityMonitor();
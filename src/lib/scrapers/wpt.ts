@@ -5,65 +5,71 @@
  */
 
 import * as cheerio from 'cheerio';
-import { Tournament, Venue, Circuit, Address } from '@/types';
-
-interface WPTEvent {
-  id: string;
-  name: string;
-  venue: string;
-  location: string;
-  buyIn: number;
-  startDate: Date;
-  endDate?: Date;
-  guaranteed?: number;
-  status: 'upcoming' | 'running' | 'completed';
-  prizePool?: number;
-  entrants?: number;
-}
-
-export class WPTScraper {
+import { Tournament, Venue, Circuit } from '@/types';
+import { parseChipAmount } from '@/lib/blind-structure';
+import { ParseStats, ScrapedPage, SourceMetadata, SourceStatus, TournamentSourceAdapter } from './adapter';
+import { checkSite, fetchPage } from './http';
+import {
+  buildScrapedVenue,
+  estimateField,
+  FieldBand,
+  inferStatus,
+  parseBuyIn,
+  parseDateRange,
+  parseGuarantee,
+  parseLocation,
+  readStructureSheet
+} from './parsing';
+
+// WPT events typically have smaller but higher quality fields
+const FIELD_BANDS: FieldBand[] = [
+  { minBuyIn: 10000, base: 150, spread: 100 },
+  { minBuyIn: 5000, base: 250, spread: 150 },
+  { minBuyIn: 3000, base: 350, spread: 200 },
+  { minBuyIn: 0, base: 200, spread: 150 }
+];
+
+export class WPTScraper implements TournamentSourceAdapter {
+  readonly id = 'wpt';
+  readonly name = 'WPT';
+  readonly metadata: SourceMetadata = {
+    kind: 'scraper',
+    website: 'https://www.worldpokertour.com',
+    rateLimit: { maxRequests: 6, windowMinutes: 60 },
+    reliability: 0.85,
+    coverage: { circuits: ['wpt'], countries: ['USA', 'Canada', 'United Kingdom', 'Australia', 'Mexico'] },
+    official: ['wpt']
+  };
   private baseUrl = 'https://www.worldpokertour.com';
-  private userAgent = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+  readonly pages: Record<string, ScrapedPage> = {
+    tournaments: { url: `${this.baseUrl}/tournaments`, parse: html => this.parseWPTEvents(html) },
+    event: {
+      parse: html => {
+        const tournament = this.parseEventDetails(html);
+        return tournament ? [tournament] : [];
+      }
+    }
+  };
+  lastParse?: ParseStats;
 
   /**
    * Scrape WPT tournament schedule
    */
-  async getWPTEvents(): Promise<Tournament[]> {
-    try {
-      // Try main tournaments page first
-      let response = await fetch(`${this.baseUrl}/tournaments`, {
-        headers: {
-          'User-Agent': this.userAgent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate',
-          'Cache-Control': 'no-cache'
-        },
-      });
-
-      if (!response.ok) {
-        // Fallback: try alternative schedule page
-        console.warn('Main WPT page failed, trying schedule page');
-        response = await fetch(`${this.baseUrl}/schedule`, {
-          headers: {
-            'User-Agent': this.userAgent,
-            'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-            'Accept-Language': 'en-US,en;q=0.5'
-          },
-        });
-      }
-
-      if (!response.ok) {
-        throw new Error(`WPT fetch failed: ${response.status}`);
-      }
-
-      const content = await response.text();
-      return this.parseWPTEvents(content);
+  async fetchTournaments(): Promise<Tournament[]> {
+    // Try main tournaments page first
+    let response = await fetchPage(`${this.baseUrl}/tournaments`, { noCache: true });
+
+    if (!response.ok) {
+      // Fallback: try alternative schedule page
+      console.warn('Main WPT page failed, trying schedule page');
+      response = await fetchPage(`${this.baseUrl}/schedule`);
+    }
 
-    } catch (error) {
-      console.error('Error scraping WPT events:', error);
-      return [];
+    if (!response.ok) {
+      throw new Error(`WPT fetch failed: ${response.status}`);
     }
+
+    return this.parseWPTEvents(await response.text());
   }
 
   /**
@@ -71,13 +77,7 @@ export class WPTScraper {
    */
   async getEventDetails(eventUrl: string): Promise<Tournament | null> {
     try {
-      const response = await fetch(eventUrl, {
-        headers: {
-          'User-Agent': this.userAgent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5'
-        },
-      });
+      const response = await fetchPage(eventUrl);
 
       if (!response.ok) {
         throw new Error(`WPT event fetch failed: ${response.status}`);
@@ -100,7 +100,8 @@ export class WPTScraper {
     const tournaments: Tournament[] = [];
 
     // Look for WPT event cards or listings
-    $('.tournament-card, .event-card, .tour-event, .schedule-item').each((i, element) => {
+    const $cards = $('.tournament-card, .event-card, .tour-event, .schedule-item');
+    $cards.each((i, element) => {
       try {
         const $el = $(element);
         
@@ -108,26 +109,26 @@ export class WPTScraper {
         const venue = $el.find('.venue, .location-name, .casino').first().text().trim();
         const location = $el.find('.location, .city-state, .venue-location').text().trim();
         
+        // Determine venue info first - listed dates are in venue time
+        const venueInfo = this.createWPTVenue(venue, location);
+
         // Extract dates
         const dateText = $el.find('.dates, .event-dates, .start-date').text().trim();
-        const dates = this.parseDateRange(dateText);
+        const dates = parseDateRange(dateText, venueInfo.timezone);
         
         // Extract buy-in
         const buyInText = $el.find('.buy-in, .buyin, .entry-fee, .price').text().trim();
-        const buyIn = this.parseBuyIn(buyInText);
+        const buyIn = parseBuyIn(buyInText);
         
         // Extract guarantee
         const guaranteeText = $el.find('.guarantee, .guaranteed, .gtd').text().trim();
-        const guaranteed = this.parseGuarantee(guaranteeText);
+        const guaranteed = parseGuarantee(guaranteeText);
 
         // Extract prize pool if completed
         const prizeText = $el.find('.prize-pool, .total-prize').text().trim();
-        const prizePool = this.parseGuarantee(prizeText);
+        const prizePool = parseGuarantee(prizeText);
 
         if (name && dates.start && buyIn > 0) {
-          // Determine venue info
-          const venueInfo = this.createWPTVenue(venue, location);
-          
           const tournament: Tournament = {
             id: `wpt-${name.toLowerCase().replace(/\s+/g, '-')}-${dates.start.getTime()}`,
             name: this.cleanEventName(name),
@@ -136,7 +137,7 @@ export class WPTScraper {
             buyIn: buyIn,
             startDate: dates.start,
             endDate: dates.end || new Date(dates.start.getTime() + 4 * 24 * 60 * 60 * 1000), // Default 4 days
-            estimatedField: this.estimateWPTField(buyIn),
+            estimatedField: estimateField(buyIn, FIELD_BANDS),
             structure: {
               type: 'reentry',
               startingStack: 40000,
@@ -145,7 +146,7 @@ export class WPTScraper {
             },
             blindLevels: 60,
             prizeGuarantee: guaranteed || prizePool,
-            status: this.determineStatus(dates.start, $el.text()),
+            status: inferStatus(dates.start, $el.text()),
             registrationDeadline: dates.start ? new Date(dates.start.getTime() + 7 * 60 * 60 * 1000) : undefined, // 7 hours after start
             lateRegistrationLevels: 8
           };
@@ -156,6 +157,7 @@ export class WPTScraper {
         console.error('Error parsing WPT event:', error);
       }
     });
+    this.lastParse = { rows: $cards.length, failed: $cards.length - tournaments.length };
 
     // Remove duplicates and sort by date
     const uniqueTournaments = this.removeDuplicateTournaments(tournaments);
@@ -171,33 +173,40 @@ export class WPTScraper {
       const location = $('.venue-location, .event-location').first().text().trim();
       
       const buyInText = $('.buy-in, .entry-fee').text().trim();
-      const buyIn = this.parseBuyIn(buyInText);
+      const buyIn = parseBuyIn(buyInText);
       
+      const venueInfo = this.createWPTVenue(venue, location);
       const dateText = $('.event-dates, .tournament-dates').text().trim();
-      const dates = this.parseDateRange(dateText);
+      const dates = parseDateRange(dateText, venueInfo.timezone);
       
       const guaranteeText = $('.guarantee, .guaranteed-prize').text().trim();
-      const guaranteed = this.parseGuarantee(guaranteeText);
+      const guaranteed = parseGuarantee(guaranteeText);
+
+      // Event pages usually publish the full structure sheet
+      const blindStructure = readStructureSheet($, undefined, 60);
+      const startingStack = parseChipAmount($('.starting-stack, .starting-chips').first().text()) || 40000;
+      const blindLevelDuration = blindStructure?.levels[0].duration || 60;
 
       if (name && dates.start && buyIn > 0) {
         return {
           id: `wpt-${name.toLowerCase().replace(/\s+/g, '-')}-${dates.start.getTime()}`,
           name: this.cleanEventName(name),
           circuit: this.getWPTCircuit(),
-          venue: this.createWPTVenue(venue, location),
+          venue: venueInfo,
           buyIn: buyIn,
           startDate: dates.start,
           endDate: dates.end || new Date(dates.start.getTime() + 4 * 24 * 60 * 60 * 1000),
-          estimatedField: this.estimateWPTField(buyIn),
+          estimatedField: estimateField(buyIn, FIELD_BANDS),
           structure: {
             type: 'reentry',
-            startingStack: 40000,
-            blindLevelDuration: 60,
-            reentryLevels: 8
+            startingStack,
+            blindLevelDuration,
+            reentryLevels: 8,
+            blindStructure
           },
-          blindLevels: 60,
+          blindLevels: blindLevelDuration,
           prizeGuarantee: guaranteed,
-          status: this.determineStatus(dates.start),
+          status: inferStatus(dates.start),
           lateRegistrationLevels: 8
         };
       }
@@ -208,130 +217,6 @@ export class WPTScraper {
     return null;
   }
 
-  private parseDateRange(dateText: string): { start: Date; end?: Date } {
-    if (!dateText) return { start: new Date() };
-
-    const patterns = [
-      // "March 15-18, 2024"
-      /(\w+)\s+(\d+)-(\d+),?\s+(\d{4})/,
-      // "Mar 15 - Mar 18, 2024"
-      /(\w+)\s+(\d+)\s*-\s*(\w+)\s+(\d+),?\s+(\d{4})/,
-      // "March 15, 2024 - March 18, 2024"
-      /(\w+)\s+(\d+),?\s+(\d{4})\s*-\s*(\w+)\s+(\d+),?\s+(\d{4})/,
-      // "March 15, 2024"
-      /(\w+)\s+(\d+),?\s+(\d{4})/,
-      // ISO format
-      /(\d{4})-(\d{2})-(\d{2})/
-    ];
-
-    for (const pattern of patterns) {
-      const match = dateText.match(pattern);
-      if (match) {
-        try {
-          if (pattern.toString().includes('\\w+')) {
-            // Month name format
-            const month = this.parseMonthName(match[1]);
-            const year = parseInt(match[4] || match[3]);
-            const startDay = parseInt(match[2]);
-            
-            let endDay = startDay;
-            let endMonth = month;
-            let endYear = year;
-            
-            if (match[3] && !match[4]) {
-              // Range within same month
-              endDay = parseInt(match[3]);
-            } else if (match[5] && match[6]) {
-              // Cross-month range
-              endMonth = this.parseMonthName(match[3]);
-              endDay = parseInt(match[4]);
-              endYear = parseInt(match[5] || match[6]);
-            }
-            
-            return {
-              start: new Date(year, month, startDay),
-              end: new Date(endYear, endMonth, endDay)
-            };
-          } else {
-            // ISO format
-            const year = parseInt(match[1]);
-            const month = parseInt(match[2]) - 1;
-            const day = parseInt(match[3]);
-            
-            return {
-              start: new Date(year, month, day)
-            };
-          }
-        } catch (error) {
-          console.error('Error parsing WPT date:', error);
-        }
-      }
-    }
-
-    // Fallback: try parsing as standard date
-    try {
-      const date = new Date(dateText);
-      if (!isNaN(date.getTime())) {
-        return { start: date };
-      }
-    } catch {
-      // Ignore
-    }
-
-    return { start: new Date() };
-  }
-
-  private parseMonthName(monthName: string): number {
-    const months: Record<string, number> = {
-      'january': 0, 'jan': 0,
-      'february': 1, 'feb': 1,
-      'march': 2, 'mar': 2,
-      'april': 3, 'apr': 3,
-      'may': 4,
-      'june': 5, 'jun': 5,
-      'july': 6, 'jul': 6,
-      'august': 7, 'aug': 7,
-      'september': 8, 'sep': 8, 'sept': 8,
-      'october': 9, 'oct': 9,
-      'november': 10, 'nov': 10,
-      'december': 11, 'dec': 11
-    };
-    return months[monthName.toLowerCase()] || 0;
-  }
-
-  private parseBuyIn(text: string): number {
-    if (!text) return 0;
-    
-    // Handle formats like "$3,500", "$3.5K", "3500", etc.
-    const match = text.match(/\$?([\d,]+(?:\.\d+)?)\s*([KM])?/i);
-    if (match) {
-      let amount = parseFloat(match[1].replace(/,/g, ''));
-      if (match[2]) {
-        const multiplier = match[2].toUpperCase();
-        if (multiplier === 'K') amount *= 1000;
-        if (multiplier === 'M') amount *= 1000000;
-      }
-      return Math.round(amount);
-    }
-    return 0;
-  }
-
-  private parseGuarantee(text: string): number | undefined {
-    if (!text) return undefined;
-    
-    const match = text.match(/\$?([\d,]+(?:\.\d+)?)\s*([KM])?/i);
-    if (match) {
-      let amount = parseFloat(match[1].replace(/,/g, ''));
-      if (match[2]) {
-        const multiplier = match[2].toUpperCase();
-        if (multiplier === 'K') amount *= 1000;
-        if (multiplier === 'M') amount *= 1000000;
-      }
-      return Math.round(amount);
-    }
-    return undefined;
-  }
-
   private cleanEventName(name: string): string {
     return name
       .replace(/^WPT\s*/i, 'WPT ')
@@ -339,33 +224,6 @@ export class WPTScraper {
       .trim();
   }
 
-  private estimateWPTField(buyIn: number): number {
-    // WPT events typically have smaller but higher quality fields
-    if (buyIn >= 10000) return 150 + Math.floor(Math.random() * 100);
-    if (buyIn >= 5000) return 250 + Math.floor(Math.random() * 150);
-    if (buyIn >= 3000) return 350 + Math.floor(Math.random() * 200);
-    return 200 + Math.floor(Math.random() * 150);
-  }
-
-  private determineStatus(startDate: Date, contextText?: string): 'upcoming' | 'running' | 'completed' {
-    const now = new Date();
-    const daysDiff = (startDate.getTime() - now.getTime()) / (24 * 60 * 60 * 1000);
-    
-    if (contextText) {
-      const lowerContext = contextText.toLowerCase();
-      if (lowerContext.includes('completed') || lowerContext.includes('winner') || lowerContext.includes('champion')) {
-        return 'completed';
-      }
-      if (lowerContext.includes('live') || lowerContext.includes('running') || lowerContext.includes('final table')) {
-        return 'running';
-      }
-    }
-    
-    if (daysDiff < -7) return 'completed'; // More than a week ago
-    if (daysDiff < 0 && daysDiff > -7) return 'running'; // Within the past week
-    return 'upcoming';
-  }
-
   private getWPTCircuit(): Circuit {
     return {
       id: 'wpt',
@@ -379,75 +237,15 @@ export class WPTScraper {
   }
 
   private createWPTVenue(venueName: string, location: string): Venue {
-    if (!venueName) {
-      venueName = 'WPT Venue';
-    }
-    
-    let city = '';
-    let state = '';
-    
-    if (location) {
-      const parts = location.split(',').map(s => s.trim());
-      city = parts[0] || '';
-      state = parts[1] || '';
-    }
-    
-    return {
-      id: `wpt-${venueName.toLowerCase().replace(/\s+/g, '-')}`,
-      name: venueName,
-      address: {
-        street: '',
-        city,
-        state,
-        country: this.determineCountry(location),
-        postalCode: ''
-      },
-      coordinates: { lat: 0, lng: 0 },
-      amenities: [
-        { name: 'Free WiFi', available: true },
-        { name: 'Restaurant', available: true },
-        { name: 'ATM', available: true },
-        { name: 'VIP Services', available: true }
-      ],
-      parking: {
-        available: true,
-        cost: 'paid'
-      },
-      nearbyHotels: [],
-      localTips: [],
-      timezone: this.getTimezoneForLocation(state)
-    };
-  }
-
-  private determineCountry(location: string): string {
-    if (!location) return 'USA';
-    
-    const lowerLocation = location.toLowerCase();
-    if (lowerLocation.includes('canada') || lowerLocation.includes('toronto') || lowerLocation.includes('montreal')) {
-      return 'Canada';
-    }
-    if (lowerLocation.includes('uk') || lowerLocation.includes('london') || lowerLocation.includes('england')) {
-      return 'United Kingdom';
-    }
-    if (lowerLocation.includes('australia') || lowerLocation.includes('sydney') || lowerLocation.includes('melbourne')) {
-      return 'Australia';
-    }
-    
-    return 'USA'; // Default assumption for WPT
-  }
-
-  private getTimezoneForLocation(state: string): string {
-    const timezoneMap: Record<string, string> = {
-      'CA': 'America/Los_Angeles', 'california': 'America/Los_Angeles',
-      'NV': 'America/Los_Angeles', 'nevada': 'America/Los_Angeles',
-      'TX': 'America/Chicago', 'texas': 'America/Chicago',
-      'FL': 'America/New_York', 'florida': 'America/New_York',
-      'NY': 'America/New_York', 'new york': 'America/New_York',
-      'NJ': 'America/New_York', 'new jersey': 'America/New_York'
-    };
-
-    const key = state?.toLowerCase();
-    return timezoneMap[key] || 'America/New_York';
+    const name = venueName || 'WPT Venue';
+    return buildScrapedVenue({
+      id: `wpt-${name.toLowerCase().replace(/\s+/g, '-')}`,
+      name,
+      location: parseLocation(location),
+      amenities: ['Free WiFi', 'Restaurant', 'ATM', 'VIP Services'],
+      parkingCost: 'paid',
+      placeholder: !venueName
+    });
   }
 
   private removeDuplicateTournaments(tournaments: Tournament[]): Tournament[] {
@@ -462,21 +260,9 @@ export class WPTScraper {
     });
   }
 
-  async close(): Promise<void> {
-    // No cleanup needed for fetch-based scraping
-  }
-
-  async checkAvailability(): Promise<boolean> {
-    try {
-      const response = await fetch(this.baseUrl, {
-        method: 'HEAD',
-        headers: { 'User-Agent': this.userAgent }
-      });
-      return response.ok;
-    } catch {
-      return false;
-    }
+  checkStatus(): Promise<SourceStatus> {
+    return checkSite(this.baseUrl);
   }
 }
 
-export const wptScraper = new WPTScraper();
\ No newline at end of file
+export const wptScraper = new WPTScraper();
@@ -6,56 +6,57 @@
  */
 
 import * as cheerio from 'cheerio';
-import { Tournament, Venue, Circuit, Address } from '@/types';
-
-interface WSOpEvent {
-  id: string;
-  name: string;
-  venue: string;
-  location: string;
-  buyIn: number;
-  startDate: Date;
-  endDate: Date;
-  guaranteed?: number;
-  status: 'upcoming' | 'running' | 'completed';
-  eventNumber?: number;
-  structure?: {
-    startingStack?: number;
-    levels?: number;
+import { Tournament, Venue, Circuit } from '@/types';
+import { parseChipAmount } from '@/lib/blind-structure';
+import { parseVenueDateTime } from '@/lib/timezones';
+import { ParseStats, ScrapedPage, SourceMetadata, SourceStatus, TournamentSourceAdapter } from './adapter';
+import { checkSite, fetchPage } from './http';
+import {
+  buildScrapedVenue,
+  estimateField,
+  FieldBand,
+  inferStatus,
+  parseBuyIn,
+  parseDateRange,
+  parseGuarantee,
+  parseLocation,
+  readStructureSheet
+} from './parsing';
+
+const FIELD_BANDS: FieldBand[] = [
+  { minBuyIn: 1000, base: 400, spread: 200 },
+  { minBuyIn: 500, base: 600, spread: 400 },
+  { minBuyIn: 0, base: 300, spread: 300 }
+];
+
+export class WSOpCircuitScraper implements TournamentSourceAdapter {
+  readonly id = 'wsop';
+  readonly name = 'WSOP Circuit';
+  readonly metadata: SourceMetadata = {
+    kind: 'scraper',
+    website: 'https://www.wsop.com',
+    rateLimit: { maxRequests: 6, windowMinutes: 60 },
+    reliability: 0.9,
+    coverage: { circuits: ['wsop'], countries: ['USA'] },
+    official: ['wsop']
   };
-}
-
-export class WSOpCircuitScraper {
   private baseUrl = 'https://www.wsop.com';
-  private userAgent = 'Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36';
+  readonly pages: Record<string, ScrapedPage> = {
+    circuits: { url: `${this.baseUrl}/circuits`, parse: html => this.parseCircuitEvents(html) },
+    stop: { parse: html => this.parseStopDetails(html) }
+  };
+  lastParse?: ParseStats;
 
   /**
    * Scrape WSOP Circuit events from the main circuit page
    */
-  async getCircuitEvents(): Promise<Tournament[]> {
-    try {
-      // Fetch the main circuit page
-      const response = await fetch(`${this.baseUrl}/circuits`, {
-        headers: {
-          'User-Agent': this.userAgent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate',
-          'Cache-Control': 'no-cache'
-        },
-      });
-
-      if (!response.ok) {
-        throw new Error(`WSOP fetch failed: ${response.status}`);
-      }
-
-      const content = await response.text();
-      return this.parseCircuitEvents(content);
-
-    } catch (error) {
-      console.error('Error scraping WSOP Circuit events:', error);
-      return [];
+  async fetchTournaments(): Promise<Tournament[]> {
+    const response = await fetchPage(`${this.baseUrl}/circuits`, { noCache: true });
+    if (!response.ok) {
+      throw new Error(`WSOP fetch failed: ${response.status}`);
     }
+
+    return this.parseCircuitEvents(await response.text());
   }
 
   /**
@@ -63,14 +64,7 @@ export class WSOpCircuitScraper {
    */
   async getCircuitStopDetails(stopUrl: string): Promise<Tournament[]> {
     try {
-      const response = await fetch(stopUrl, {
-        headers: {
-          'User-Agent': this.userAgent,
-          'Accept': 'text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8',
-          'Accept-Language': 'en-US,en;q=0.5',
-          'Accept-Encoding': 'gzip, deflate'
-        },
-      });
+      const response = await fetchPage(stopUrl);
 
       if (!response.ok) {
         throw new Error(`WSOP stop fetch failed: ${response.status}`);
@@ -93,36 +87,38 @@ export class WSOpCircuitScraper {
     const tournaments: Tournament[] = [];
 
     // Look for circuit stop cards or event listings
-    $('.circuit-stop, .event-card, .tournament-card').each((i, element) => {
+    const $cards = $('.circuit-stop, .event-card, .tournament-card');
+    $cards.each((i, element) => {
       try {
         const $el = $(element);
         
         const name = $el.find('.event-name, .tournament-name, h3, h4').first().text().trim();
         const venue = $el.find('.venue-name, .location').first().text().trim();
         const location = $el.find('.city-state, .location-details').text().trim();
+        const venueInfo = this.createVenueFromScraping(venue, location);
         
-        // Extract dates
+        // Extract dates (listed in venue time)
         const dateText = $el.find('.date, .event-dates').text().trim();
-        const dates = this.parseDateRange(dateText);
+        const dates = parseDateRange(dateText, venueInfo.timezone);
         
         // Extract buy-in
         const buyInText = $el.find('.buy-in, .buyin, .price').text().trim();
-        const buyIn = this.parseBuyIn(buyInText);
+        const buyIn = parseBuyIn(buyInText);
         
         // Extract guarantee
         const guaranteeText = $el.find('.guarantee, .guaranteed').text().trim();
-        const guaranteed = this.parseGuarantee(guaranteeText);
+        const guaranteed = parseGuarantee(guaranteeText);
 
         if (name && venue && dates.start && buyIn > 0) {
           const tournament: Tournament = {
             id: `wsop-${name.toLowerCase().replace(/\s+/g, '-')}-${dates.start.getTime()}`,
             name: name,
             circuit: this.getWSOpCircuit(),
-            venue: this.createVenueFromScraping(venue, location),
+            venue: venueInfo,
             buyIn: buyIn,
             startDate: dates.start,
             endDate: dates.end || new Date(dates.start.getTime() + 3 * 24 * 60 * 60 * 1000), // Default 3 days
-            estimatedField: this.estimateField(buyIn),
+            estimatedField: estimateField(buyIn, FIELD_BANDS),
             structure: {
               type: 'reentry',
               startingStack: 25000,
@@ -131,7 +127,7 @@ export class WSOpCircuitScraper {
             },
             blindLevels: 40,
             prizeGuarantee: guaranteed,
-            status: dates.start > new Date() ? 'upcoming' : 'completed',
+            status: inferStatus(dates.start),
             lateRegistrationLevels: 10
           };
 
@@ -142,6 +138,7 @@ export class WSOpCircuitScraper {
       }
     });
 
+    this.lastParse = { rows: $cards.length, failed: $cards.length - tournaments.length };
     return tournaments;
   }
 
@@ -159,29 +156,34 @@ export class WSOpCircuitScraper {
         
         const eventNumber = $el.find('.event-number, .event-id').text().trim();
         const name = $el.find('.event-name, .event-title').text().trim();
-        const buyIn = this.parseBuyIn($el.find('.buy-in, .buyin').text());
+        const buyIn = parseBuyIn($el.find('.buy-in, .buyin').text());
         const dateTime = $el.find('.date-time, .start-time').text().trim();
-        const guarantee = this.parseGuarantee($el.find('.guarantee').text());
+        const guarantee = parseGuarantee($el.find('.guarantee').text());
 
         if (name && buyIn > 0) {
-          const startDate = this.parseDateTime(dateTime);
+          const venue = this.createDefaultWSOpVenue(); // We'd need to get venue from page context
+          const startDate = this.parseDateTime(dateTime, venue.timezone);
+          const blindStructure = readStructureSheet($, $el, 40);
+          const startingStack = parseChipAmount($el.find('.starting-stack, .stack').text()) || 25000;
+          const blindLevelDuration = blindStructure?.levels[0].duration || 40;
           
           tournaments.push({
             id: `wsop-${eventNumber || i}-${name.toLowerCase().replace(/\s+/g, '-')}`,
             name: name,
             circuit: this.getWSOpCircuit(),
-            venue: this.createDefaultWSOpVenue(), // We'd need to get venue from page context
+            venue,
             buyIn: buyIn,
             startDate: startDate || new Date(),
             endDate: new Date((startDate?.getTime() || Date.now()) + 2 * 24 * 60 * 60 * 1000),
-            estimatedField: this.estimateField(buyIn),
+            estimatedField: estimateField(buyIn, FIELD_BANDS),
             structure: {
               type: 'reentry',
-              startingStack: 25000,
-              blindLevelDuration: 40,
-              reentryLevels: 10
+              startingStack,
+              blindLevelDuration,
+              reentryLevels: 10,
+              blindStructure
             },
-            blindLevels: 40,
+            blindLevels: blindLevelDuration,
             prizeGuarantee: guarantee,
             status: 'upcoming'
           });
@@ -194,132 +196,17 @@ export class WSOpCircuitScraper {
     return tournaments;
   }
 
-  /**
-   * Parse date ranges from various text formats
-   */
-  private parseDateRange(dateText: string): { start: Date; end?: Date } {
-    if (!dateText) return { start: new Date() };
-
-    // Handle various date formats
-    const patterns = [
-      // "March 15-18, 2024"
-      /(\w+)\s+(\d+)-(\d+),?\s+(\d{4})/,
-      // "Mar 15-18 2024"
-      /(\w+)\s+(\d+)-(\d+)\s+(\d{4})/,
-      // "March 15, 2024"
-      /(\w+)\s+(\d+),?\s+(\d{4})/,
-      // "3/15/2024 - 3/18/2024"
-      /(\d+)\/(\d+)\/(\d{4})\s*-\s*(\d+)\/(\d+)\/(\d{4})/,
-      // "3/15/2024"
-      /(\d+)\/(\d+)\/(\d{4})/
-    ];
-
-    for (const pattern of patterns) {
-      const match = dateText.match(pattern);
-      if (match) {
-        try {
-          if (pattern.toString().includes('\\w+')) {
-            // Month name format
-            const month = this.parseMonthName(match[1]);
-            const year = parseInt(match[4]);
-            const startDay = parseInt(match[2]);
-            const endDay = match[3] ? parseInt(match[3]) : startDay;
-            
-            return {
-              start: new Date(year, month, startDay),
-              end: new Date(year, month, endDay)
-            };
-          } else if (match.length >= 4) {
-            // MM/DD/YYYY format
-            const startMonth = parseInt(match[1]) - 1;
-            const startDay = parseInt(match[2]);
-            const startYear = parseInt(match[3]);
-            
-            if (match.length >= 7) {
-              // Date range
-              const endMonth = parseInt(match[4]) - 1;
-              const endDay = parseInt(match[5]);
-              const endYear = parseInt(match[6]);
-              
-              return {
-                start: new Date(startYear, startMonth, startDay),
-                end: new Date(endYear, endMonth, endDay)
-              };
-            }
-            
-            return {
-              start: new Date(startYear, startMonth, startDay)
-            };
-          }
-        } catch (error) {
-          console.error('Error parsing date:', error);
-        }
-      }
-    }
-
-    return { start: new Date() };
-  }
-
-  private parseMonthName(monthName: string): number {
-    const months = {
-      'january': 0, 'jan': 0,
-      'february': 1, 'feb': 1,
-      'march': 2, 'mar': 2,
-      'april': 3, 'apr': 3,
-      'may': 4,
-      'june': 5, 'jun': 5,
-      'july': 6, 'jul': 6,
-      'august': 7, 'aug': 7,
-      'september': 8, 'sep': 8, 'sept': 8,
-      'october': 9, 'oct': 9,
-      'november': 10, 'nov': 10,
-      'december': 11, 'dec': 11
-    };
-    return months[monthName.toLowerCase() as keyof typeof months] || 0;
-  }
-
-  private parseBuyIn(text: string): number {
-    if (!text) return 0;
-    
-    const match = text.match(/\$?([\d,]+)/);
-    if (match) {
-      return parseInt(match[1].replace(/,/g, ''));
-    }
-    return 0;
-  }
-
-  private parseGuarantee(text: string): number | undefined {
-    if (!text) return undefined;
-    
-    const match = text.match(/\$?([\d,]+)([KM])?/);
-    if (match) {
-      let amount = parseInt(match[1].replace(/,/g, ''));
-      if (match[2] === 'K') amount *= 1000;
-      if (match[2] === 'M') amount *= 1000000;
-      return amount;
-    }
-    return undefined;
-  }
-
-  private parseDateTime(text: string): Date | undefined {
+  private parseDateTime(text: string, timezone: string): Date | undefined {
     if (!text) return undefined;
     
     try {
-      // Handle various time formats
-      const date = new Date(text);
-      return isNaN(date.getTime()) ? undefined : date;
+      // Start times on the schedule are venue wall-clock times
+      return parseVenueDateTime(text, timezone);
     } catch {
       return undefined;
     }
   }
 
-  private estimateField(buyIn: number): number {
-    // Estimate field size based on buy-in
-    if (buyIn >= 1000) return 400 + Math.floor(Math.random() * 200);
-    if (buyIn >= 500) return 600 + Math.floor(Math.random() * 400);
-    return 300 + Math.floor(Math.random() * 300);
-  }
-
   private getWSOpCircuit(): Circuit {
     return {
       id: 'wsop-circuit',
@@ -333,76 +220,30 @@ export class WSOpCircuitScraper {
   }
 
   private createVenueFromScraping(venueName: string, location: string): Venue {
-    // Parse location (e.g., "Las Vegas, NV")
-    const [city, state] = location.split(',').map(s => s.trim());
-    
-    return {
+    // Location reads like "Las Vegas, NV"
+    return buildScrapedVenue({
       id: `wsop-${venueName.toLowerCase().replace(/\s+/g, '-')}`,
       name: venueName,
-      address: {
-        street: '',
-        city: city || '',
-        state: state || '',
-        country: 'USA',
-        postalCode: ''
-      },
-      coordinates: { lat: 0, lng: 0 }, // Would need geocoding
-      amenities: [
-        { name: 'Free WiFi', available: true },
-        { name: 'Restaurant', available: true },
-        { name: 'ATM', available: true }
-      ],
-      parking: {
-        available: true,
-        cost: 'free'
-      },
-      nearbyHotels: [],
-      localTips: [],
-      timezone: 'America/New_York'
-    };
+      location: parseLocation(location),
+      amenities: ['Free WiFi', 'Restaurant', 'ATM']
+    });
   }
 
   private createDefaultWSOpVenue(): Venue {
-    return {
+    return buildScrapedVenue({
       id: 'wsop-unknown-venue',
       name: 'WSOP Circuit Venue',
-      address: {
-        street: '',
-        city: '',
-        state: '',
-        country: 'USA',
-        postalCode: ''
-      },
-      coordinates: { lat: 0, lng: 0 },
-      amenities: [],
-      parking: { available: true, cost: 'free' },
-      nearbyHotels: [],
-      localTips: [],
-      timezone: 'America/New_York'
-    };
-  }
-
-  /**
-   * Clean up resources (no-op for fetch-based scraping)
-   */
-  async close(): Promise<void> {
-    // No cleanup needed for fetch-based scraping
+      location: parseLocation(''),
+      placeholder: true
+    });
   }
 
   /**
    * Check if WSOP website is accessible
    */
-  async checkAvailability(): Promise<boolean> {
-    try {
-      const response = await fetch(this.baseUrl, { 
-        method: 'HEAD',
-        headers: { 'User-Agent': this.userAgent }
-      });
-      return response.ok;
-    } catch {
-      return false;
-    }
+  checkStatus(): Promise<SourceStatus> {
+    return checkSite(this.baseUrl);
   }
 }
 
-export const wsopScraper = new WSOpCircuitScraper();
\ No newline at end of file
+export const wsopScraper = new WSOpCircuitScraper();
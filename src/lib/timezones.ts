@@ -0,0 +1,235 @@
+import { normalizeStateCode } from './geocoding'
+
+/**
+ * Timezone helpers built on Intl - venue times are stored as absolute instants
+ * and rendered in the venue's IANA zone (e.g. America/Los_Angeles).
+ * Anything read from a venue-local source (a schedule saying "Feb 13, noon")
+ * goes through zonedTimeToInstant so it never picks up the server's timezone.
+ */
+
+// Listings usually give only a date - most events kick off around noon local
+export const DEFAULT_START_HOUR = 12
+export const DEFAULT_END_HOUR = 22
+
+const DEFAULT_TIMEZONE = 'America/New_York'
+
+// Predominant zone per state; split states use the zone most card rooms are in
+const STATE_TIMEZONES: Record<string, string> = {
+  AL: 'America/Chicago', AK: 'America/Anchorage', AZ: 'America/Phoenix', AR: 'America/Chicago',
+  CA: 'America/Los_Angeles', CO: 'America/Denver', CT: 'America/New_York', DC: 'America/New_York',
+  DE: 'America/New_York', FL: 'America/New_York', GA: 'America/New_York', HI: 'Pacific/Honolulu',
+  IA: 'America/Chicago', ID: 'America/Boise', IL: 'America/Chicago', IN: 'America/Indiana/Indianapolis',
+  KS: 'America/Chicago', KY: 'America/New_York', LA: 'America/Chicago', MA: 'America/New_York',
+  MD: 'America/New_York', ME: 'America/New_York', MI: 'America/Detroit', MN: 'America/Chicago',
+  MO: 'America/Chicago', MS: 'America/Chicago', MT: 'America/Denver', NC: 'America/New_York',
+  ND: 'America/Chicago', NE: 'America/Chicago', NH: 'America/New_York', NJ: 'America/New_York',
+  NM: 'America/Denver', NV: 'America/Los_Angeles', NY: 'America/New_York', OH: 'America/New_York',
+  OK: 'America/Chicago', OR: 'America/Los_Angeles', PA: 'America/New_York', RI: 'America/New_York',
+  SC: 'America/New_York', SD: 'America/Chicago', TN: 'America/Chicago', TX: 'America/Chicago',
+  UT: 'America/Denver', VA: 'America/New_York', VT: 'America/New_York', WA: 'America/Los_Angeles',
+  WI: 'America/Chicago', WV: 'America/New_York', WY: 'America/Denver'
+}
+
+// Cities whose zone differs from the rest of their state
+const CITY_TIMEZONES: Record<string, string> = {
+  'hammond, IN': 'America/Chicago',
+  'gary, IN': 'America/Chicago',
+  'el paso, TX': 'America/Denver',
+  'pensacola, FL': 'America/Chicago'
+}
+
+export function getTimezoneForState(state: string, city?: string): string {
+  const code = normalizeStateCode(state || '')
+  if (city) {
+    const override = CITY_TIMEZONES[`${city.trim().toLowerCase()}, ${code}`]
+    if (override) return override
+  }
+  return STATE_TIMEZONES[code] || DEFAULT_TIMEZONE
+}
+
+export interface ZonedParts {
+  year: number
+  month: number // 1-12
+  day: number
+  hour: number
+  minute: number
+  second: number
+}
+
+// Building an Intl formatter is slow and the solver converts times for every
+// candidate stop, so there's one per zone (null for a zone Intl rejects)
+const partsFormatters = new Map<string, Intl.DateTimeFormat | null>()
+
+function getPartsFormatter(timeZone: string): Intl.DateTimeFormat | null {
+  let formatter = partsFormatters.get(timeZone)
+  if (formatter === undefined) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone,
+        hourCycle: 'h23',
+        year: 'numeric',
+        month: '2-digit',
+        day: '2-digit',
+        hour: '2-digit',
+        minute: '2-digit',
+        second: '2-digit'
+      })
+    } catch {
+      formatter = null
+    }
+    partsFormatters.set(timeZone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimeZone(timeZone?: string): timeZone is string {
+  return Boolean(timeZone && getPartsFormatter(timeZone))
+}
+
+// Wall-clock parts of an instant in the given timezone
+export function getZonedParts(date: Date, timeZone: string): ZonedParts {
+  const formatter = getPartsFormatter(timeZone)
+  if (!formatter) throw new RangeError(`Invalid time zone specified: ${timeZone}`)
+
+  const parts: Record<string, number> = {}
+  formatter.formatToParts(date).forEach(part => {
+    if (part.type !== 'literal') parts[part.type] = parseInt(part.value, 10)
+  })
+
+  return {
+    year: parts.year,
+    month: parts.month,
+    day: parts.day,
+    hour: parts.hour,
+    minute: parts.minute,
+    second: parts.second
+  }
+}
+
+// Minutes east of UTC for a zone at a given instant
+export function getZoneOffsetMinutes(date: Date, timeZone: string): number {
+  const p = getZonedParts(date, timeZone)
+  const asUtc = Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second)
+  return Math.round((asUtc - Math.floor(date.getTime() / 1000) * 1000) / 60000)
+}
+
+// "Sat, Feb 10, 2:00 PM PST" in the venue's own time
+export function formatInTimeZone(date: Date, timeZone?: string): string {
+  return date.toLocaleString('en-US', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : undefined,
+    weekday: 'short',
+    month: 'short',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: '2-digit',
+    timeZoneName: 'short'
+  })
+}
+
+/**
+ * The instant at which a venue's wall clock reads the given time.
+ * Month is 0-based like Date. Times skipped by a DST jump land an hour early.
+ */
+export function zonedTimeToInstant(
+  year: number,
+  month: number,
+  day: number,
+  hour: number,
+  minute: number,
+  timeZone: string
+): Date {
+  const wallClock = Date.UTC(year, month, day, hour, minute)
+  if (!isValidTimeZone(timeZone)) return new Date(wallClock)
+
+  // Start from the offset at the naive guess, then correct once for DST edges
+  let instant = wallClock - getZoneOffsetMinutes(new Date(wallClock), timeZone) * 60000
+  instant = wallClock - getZoneOffsetMinutes(new Date(instant), timeZone) * 60000
+  return new Date(instant)
+}
+
+/**
+ * Pin a parsed calendar day to a venue-local time. Scrapers build day-only
+ * dates with `new Date(year, month, day)`; only the calendar fields are read,
+ * so the server's own timezone never leaks into the result.
+ */
+export function atVenueTime(calendarDay: Date, timeZone: string, hour = DEFAULT_START_HOUR, minute = 0): Date {
+  return zonedTimeToInstant(
+    calendarDay.getFullYear(),
+    calendarDay.getMonth(),
+    calendarDay.getDate(),
+    hour,
+    minute,
+    timeZone
+  )
+}
+
+/**
+ * Parse a timestamp from a venue-local source. Strings with an explicit
+ * offset (or Z) are absolute already; bare dates and times are venue time.
+ */
+export function parseVenueDateTime(text: string, timeZone: string, defaultHour = DEFAULT_START_HOUR): Date | undefined {
+  if (!text) return undefined
+  const trimmed = text.trim()
+
+  if (/(Z|[+-]\d{2}:?\d{2})$/i.test(trimmed)) {
+    const absolute = new Date(trimmed)
+    return isNaN(absolute.getTime()) ? undefined : absolute
+  }
+
+  const iso = trimmed.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ](\d{1,2}):(\d{2}))?/)
+  if (iso) {
+    return zonedTimeToInstant(
+      parseInt(iso[1]),
+      parseInt(iso[2]) - 1,
+      parseInt(iso[3]),
+      iso[4] ? parseInt(iso[4]) : defaultHour,
+      iso[5] ? parseInt(iso[5]) : 0,
+      timeZone
+    )
+  }
+
+  // Free text like "Feb 13, 2025 7:00 PM" - read the wall-clock fields only
+  const parsed = new Date(trimmed)
+  if (isNaN(parsed.getTime())) return undefined
+  const hasTime = /\d{1,2}:\d{2}/.test(trimmed)
+  return zonedTimeToInstant(
+    parsed.getFullYear(),
+    parsed.getMonth(),
+    parsed.getDate(),
+    hasTime ? parsed.getHours() : defaultHour,
+    hasTime ? parsed.getMinutes() : 0,
+    timeZone
+  )
+}
+
+/**
+ * Move a venue-local time by whole days, keeping the wall-clock time across
+ * DST changes (a 3pm check-in stays 3pm).
+ */
+export function addVenueDays(date: Date, days: number, timeZone?: string): Date {
+  if (!isValidTimeZone(timeZone)) {
+    return new Date(date.getTime() + days * 24 * 60 * 60 * 1000)
+  }
+  const p = getZonedParts(date, timeZone)
+  return zonedTimeToInstant(p.year, p.month - 1, p.day + days, p.hour, p.minute, timeZone)
+}
+
+// Same venue-local day, at a specific wall-clock time
+export function withVenueTime(date: Date, hour: number, minute: number, timeZone?: string): Date {
+  if (!isValidTimeZone(timeZone)) {
+    const copy = new Date(date)
+    copy.setUTCHours(hour, minute, 0, 0)
+    return copy
+  }
+  const p = getZonedParts(date, timeZone)
+  return zonedTimeToInstant(p.year, p.month - 1, p.day, hour, minute, timeZone)
+}
+
+// "Feb 13" in venue time
+export function formatVenueDate(date: Date, timeZone?: string): string {
+  return date.toLocaleDateString('en-US', {
+    timeZone: isValidTimeZone(timeZone) ? timeZone : undefined,
+    month: 'short',
+    day: 'numeric'
+  })
+}
@@ -0,0 +1,136 @@
+import { distanceBetween } from '../geo'
+import { fareTable, bookingWindowMultipliers, fixtureCarriers, fixtureRouteFares } from '@/data/travel-fares'
+import { TravelMode, TravelPricingProvider, TravelQuote, TravelQuoteRequest } from './provider'
+
+/**
+ * Offline fare source for local development and tests. Prices come from the
+ * bundled fare table and recorded route fares, with a per-route spread between
+ * carriers derived from a hash of the request - the same request always gets
+ * the same quotes, so plans are reproducible.
+ */
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const HOUR_MS = 60 * 60 * 1000
+const DEFAULT_DAYS_AHEAD = 14
+const DEFAULT_TTL_MINUTES = 30
+
+// Where each mode makes sense, in miles
+const MODE_RANGES: Record<TravelMode, { min: number; max: number }> = {
+  fly: { min: 150, max: Infinity },
+  train: { min: 20, max: 700 },
+  bus: { min: 20, max: 1000 },
+  drive: { min: 0, max: 1500 }
+}
+
+// Alternative departures, hours earlier than the latest one that makes arriveBy
+const DEPARTURE_OFFSETS = [0, 2.5, 5]
+
+// FNV-1a - stable across runs and platforms
+function hashString(text: string): number {
+  let hash = 2166136261
+  for (let i = 0; i < text.length; i++) {
+    hash ^= text.charCodeAt(i)
+    hash = Math.imul(hash, 16777619)
+  }
+  return hash >>> 0
+}
+
+export interface FixtureProviderOptions {
+  ttlMinutes?: number;
+  now?: () => Date; // injectable clock for reproducible booking windows
+}
+
+export class FixtureTravelPricingProvider implements TravelPricingProvider {
+  readonly name = 'fixture'
+  readonly modes: TravelMode[] = ['fly', 'train', 'bus', 'drive']
+  private ttlMinutes: number
+  private now: () => Date
+
+  constructor(options: FixtureProviderOptions = {}) {
+    this.ttlMinutes = options.ttlMinutes ?? DEFAULT_TTL_MINUTES
+    this.now = options.now || (() => new Date())
+  }
+
+  async getQuotes(request: TravelQuoteRequest): Promise<TravelQuote[]> {
+    return this.getQuotesSync(request)
+  }
+
+  getQuotesSync(request: TravelQuoteRequest): TravelQuote[] {
+    const { mode } = request
+    const distance = distanceBetween(request.from.coordinates, request.to.coordinates)
+    const range = MODE_RANGES[mode]
+    if (distance < range.min || distance > range.max) return []
+
+    const routeKey = [
+      mode,
+      request.from.coordinates.lat.toFixed(2),
+      request.from.coordinates.lng.toFixed(2),
+      request.to.coordinates.lat.toFixed(2),
+      request.to.coordinates.lng.toFixed(2)
+    ].join('|')
+    const routeHash = hashString(routeKey)
+
+    // Rail only runs on some corridors; recorded fares always do
+    const recordedFare = this.findRecordedFare(mode, request.from.city, request.to.city)
+    if (mode === 'train' && recordedFare === undefined && routeHash % 3 === 0) return []
+
+    const rule = fareTable[mode]
+    const quotedAt = this.now()
+    const daysAhead = request.arriveBy
+      ? Math.max(0, (request.arriveBy.getTime() - quotedAt.getTime()) / DAY_MS)
+      : DEFAULT_DAYS_AHEAD
+    const durationHours = distance / rule.milesPerHour + rule.terminalHours
+    const travelers = Math.max(1, request.travelers || 1)
+
+    let baseFare = recordedFare ?? distance * rule.perMile + rule.fixedFee
+    if (mode === 'drive') {
+      // Rental day rate for every started day plus fuel
+      baseFare = rule.fixedFee * Math.max(1, Math.ceil(request.days ?? durationHours / 24)) + distance * rule.perMile
+    }
+    if (mode === 'fly') {
+      const window = bookingWindowMultipliers.find(w => daysAhead <= w.maxDaysAhead)
+      baseFare *= window ? window.multiplier : 1
+    }
+    baseFare = Math.max(baseFare, rule.minimum)
+
+    const carriers = fixtureCarriers[mode]
+    const latestArrival = request.arriveBy || new Date(quotedAt.getTime() + DEFAULT_DAYS_AHEAD * DAY_MS)
+    const quoteCount = Math.min(carriers.length, DEPARTURE_OFFSETS.length)
+
+    const quotes: TravelQuote[] = []
+    for (let i = 0; i < quoteCount; i++) {
+      const carrier = carriers[(routeHash + i) % carriers.length]
+      const spread = 0.85 + ((hashString(`${routeKey}|${carrier}`) % 36) / 100) // 0.85 - 1.20
+      const arrival = new Date(latestArrival.getTime() - DEPARTURE_OFFSETS[i] * HOUR_MS)
+      quotes.push({
+        id: `fixture-${routeHash.toString(36)}-${i}`,
+        mode,
+        provider: this.name,
+        carrier,
+        price: Math.round(baseFare * spread) * travelers,
+        durationHours: Math.round(durationHours * 10) / 10,
+        departure: new Date(arrival.getTime() - durationHours * HOUR_MS),
+        arrival,
+        distance: Math.round(distance),
+        quotedAt,
+        expiresAt: new Date(quotedAt.getTime() + this.ttlMinutes * 60 * 1000),
+        fareClass: mode === 'fly' ? 'economy' : mode === 'drive' ? 'compact' : 'coach'
+      })
+    }
+
+    return quotes.sort((a, b) => a.price - b.price)
+  }
+
+  private findRecordedFare(mode: TravelMode, fromCity?: string, toCity?: string): number | undefined {
+    if (!fromCity || !toCity) return undefined
+    const from = fromCity.toLowerCase()
+    const to = toCity.toLowerCase()
+    const recorded = fixtureRouteFares.find(route =>
+      route.mode === mode && (
+        (route.from.toLowerCase() === from && route.to.toLowerCase() === to) ||
+        (route.from.toLowerCase() === to && route.to.toLowerCase() === from)
+      )
+    )
+    return recorded?.fare
+  }
+}
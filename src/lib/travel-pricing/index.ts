@@ -0,0 +1,148 @@
+import { FixtureTravelPricingProvider } from './fixture-provider'
+import { PricingPlace, TravelPricingProvider, TravelQuote, TravelQuoteRequest } from './provider'
+
+export type { PricingPlace, TravelMode, TravelPricingProvider, TravelQuote, TravelQuoteRequest } from './provider'
+export { FixtureTravelPricingProvider } from './fixture-provider'
+
+/**
+ * Travel Pricing
+ * Fans quote requests out to the registered fare providers and caches the
+ * answers until the earliest quote expires. The route optimizer reads through
+ * getQuotesSync: synchronous providers (the fixture) answer directly, while
+ * network-backed providers are warmed with prefetch() before planning.
+ */
+
+const EMPTY_RESULT_TTL_MS = 10 * 60 * 1000 // remember "no service on this route" briefly
+const MAX_CACHE_ENTRIES = 2000
+
+interface CachedQuotes {
+  quotes: TravelQuote[];
+  expiresAt: number;
+}
+
+function placeKey(place: PricingPlace): string {
+  return `${place.coordinates.lat.toFixed(3)},${place.coordinates.lng.toFixed(3)}`
+}
+
+export class TravelPricingService {
+  private providers: TravelPricingProvider[] = []
+  private cache = new Map<string, CachedQuotes>()
+
+  constructor(providers: TravelPricingProvider[] = [], private now: () => Date = () => new Date()) {
+    providers.forEach(provider => this.registerProvider(provider))
+  }
+
+  /**
+   * Add a fare source, replacing any provider registered under the same name
+   */
+  registerProvider(provider: TravelPricingProvider): void {
+    this.providers = this.providers.filter(p => p.name !== provider.name).concat(provider)
+    this.cache.clear()
+  }
+
+  unregisterProvider(name: string): void {
+    this.providers = this.providers.filter(p => p.name !== name)
+    this.cache.clear()
+  }
+
+  getProviders(): TravelPricingProvider[] {
+    return [...this.providers]
+  }
+
+  /**
+   * Quotes from every provider serving the mode, cheapest first.
+   * A failing provider is logged and skipped rather than failing the request.
+   */
+  async getQuotes(request: TravelQuoteRequest): Promise<TravelQuote[]> {
+    const cached = this.readCache(request)
+    if (cached) return cached
+
+    const providers = this.providersFor(request)
+    const results = await Promise.all(providers.map(provider =>
+      provider.getQuotes(request).catch(error => {
+        console.error(`Travel pricing provider ${provider.name} failed:`, error)
+        return [] as TravelQuote[]
+      })
+    ))
+
+    return this.writeCache(request, ([] as TravelQuote[]).concat(...results))
+  }
+
+  /**
+   * Quotes without waiting on I/O: fresh cache entries, or synchronous
+   * providers. Returns null when an async-only provider hasn't been prefetched.
+   */
+  getQuotesSync(request: TravelQuoteRequest): TravelQuote[] | null {
+    const cached = this.readCache(request)
+    if (cached) return cached
+
+    const providers = this.providersFor(request)
+    if (providers.some(provider => !provider.getQuotesSync)) return null
+
+    const quotes: TravelQuote[] = []
+    providers.forEach(provider => {
+      try {
+        quotes.push(...provider.getQuotesSync!(request))
+      } catch (error) {
+        console.error(`Travel pricing provider ${provider.name} failed:`, error)
+      }
+    })
+    return this.writeCache(request, quotes)
+  }
+
+  // Cheapest available quote, or null when nothing is known yet
+  getCheapestQuote(request: TravelQuoteRequest): TravelQuote | null {
+    const quotes = this.getQuotesSync(request)
+    return quotes && quotes.length > 0 ? quotes[0] : null
+  }
+
+  /**
+   * Warm the cache for a set of legs before running the (synchronous) optimizer
+   */
+  async prefetch(requests: TravelQuoteRequest[]): Promise<void> {
+    await Promise.all(requests.map(request => this.getQuotes(request)))
+  }
+
+  clearCache(): void {
+    this.cache.clear()
+  }
+
+  private providersFor(request: TravelQuoteRequest): TravelPricingProvider[] {
+    return this.providers.filter(provider => provider.modes.includes(request.mode))
+  }
+
+  private cacheKey(request: TravelQuoteRequest): string {
+    // Arrival targets share quotes within the hour
+    const arriveBy = request.arriveBy ? Math.floor(request.arriveBy.getTime() / (60 * 60 * 1000)) : 'any'
+    return [request.mode, placeKey(request.from), placeKey(request.to), arriveBy, request.travelers || 1, request.days || ''].join('|')
+  }
+
+  private readCache(request: TravelQuoteRequest): TravelQuote[] | null {
+    const key = this.cacheKey(request)
+    const entry = this.cache.get(key)
+    if (!entry) return null
+    if (entry.expiresAt <= this.now().getTime()) {
+      this.cache.delete(key)
+      return null
+    }
+    return entry.quotes
+  }
+
+  private writeCache(request: TravelQuoteRequest, quotes: TravelQuote[]): TravelQuote[] {
+    const sorted = [...quotes].sort((a, b) => a.price - b.price)
+    const expiresAt = sorted.length > 0
+      ? Math.min(...sorted.map(quote => quote.expiresAt.getTime()))
+      : this.now().getTime() + EMPTY_RESULT_TTL_MS
+
+    if (this.cache.size >= MAX_CACHE_ENTRIES) {
+      // Maps iterate in insertion order, so the first key is the oldest entry
+      const oldest = this.cache.keys().next().value
+      if (oldest !== undefined) this.cache.delete(oldest)
+    }
+    this.cache.set(this.cacheKey(request), { quotes: sorted, expiresAt })
+    return sorted
+  }
+}
+
+// Shared instance - the fixture provider until real fare sources are registered
+export const travelPricing = new TravelPricingService([new FixtureTravelPricingProvider()])
@@ -0,0 +1,49 @@
+import { Coordinates, TravelMethod } from '@/types'
+
+/**
+ * Contract for travel fare sources. A provider quotes one mode at a time
+ * (flights, trains, buses, rental cars) between two places. Quotes carry an
+ * expiry so cached fares are re-fetched once the source would have repriced.
+ */
+
+export type TravelMode = TravelMethod['type'] // 'drive' quotes are rental cars
+
+export interface PricingPlace {
+  coordinates: Coordinates;
+  city?: string;
+  state?: string;
+}
+
+export interface TravelQuoteRequest {
+  mode: TravelMode;
+  from: PricingPlace;
+  to: PricingPlace;
+  arriveBy?: Date; // latest useful arrival; undefined prices a typical booking
+  travelers?: number;
+  days?: number; // rental cars: days the car is kept; undefined prices the drive alone
+}
+
+export interface TravelQuote {
+  id: string;
+  mode: TravelMode;
+  provider: string; // fare source, e.g. "fixture"
+  carrier: string; // airline, rail or bus line, rental company
+  price: number; // total for all travelers, fees included
+  durationHours: number; // door-to-door
+  departure: Date;
+  arrival: Date;
+  distance: number; // miles
+  quotedAt: Date;
+  expiresAt: Date;
+  bookingUrl?: string;
+  fareClass?: string;
+}
+
+export interface TravelPricingProvider {
+  readonly name: string;
+  readonly modes: TravelMode[];
+  getQuotes(request: TravelQuoteRequest): Promise<TravelQuote[]>;
+  // Providers that can answer without I/O expose this so synchronous planners
+  // (the route optimizer) get prices without a prefetch
+  getQuotesSync?(request: TravelQuoteRequest): TravelQuote[];
+}
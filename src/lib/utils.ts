@@ -3,4 +3,14 @@ import { twMerge } from "tailwind-merge"
  
 export function cn(...inputs: ClassValue[]) {
   return twMerge(clsx(inputs))
-}
\ No newline at end of file
+}
+
+const ISO_DATE_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/
+
+// JSON.parse reviver that turns ISO timestamps back into Date objects
+export function reviveDates(_key: string, value: unknown): unknown {
+  if (typeof value === "string" && ISO_DATE_PATTERN.test(value)) {
+    return new Date(value)
+  }
+  return value
+}
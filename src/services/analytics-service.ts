@@ -10,7 +10,13 @@
  * and AI-powered tournament selection recommendations
  */
 
-import { Tournament, Player, PlayerStatistics } from '@/types';
+import { Tournament, Player, PlayerStatistics, Coordinates, CarbonFootprint } from '@/types';
+import { distanceBetween } from '@/lib/geo';
+import { geocodeAddress } from '@/lib/geocoding';
+import { estimateRouteLeg } from '@/lib/optimization';
+import { legFootprint } from '@/lib/carbon';
+import { getExpectedBullets } from '@/lib/bullets';
+import { getStructureMetrics, describeStructure, StructureMetrics } from '@/lib/blind-structure';
 import { tournamentDataService } from './tournament-data-service';
 import { Expense } from '@/types/expenses';
 import { StakingTransaction } from '@/types/bankroll';
@@ -24,6 +30,7 @@ export interface TournamentResult {
   state: string;
   date: Date;
   buyIn: number;
+  entries?: number; // bullets fired, defaults to 1
   field: number;
   finish: number | null; // null means DNF (did not finish)
   prize: number;
@@ -88,6 +95,15 @@ export interface TravelAnalytics {
     costPerTournament: number;
     tournaments: number;
   }>;
+  carbonReport: AnnualCarbonReport[]; // newest year first
+}
+
+export interface AnnualCarbonReport extends CarbonFootprint {
+  year: number;
+  trips: number;
+  events: number;
+  miles: number;
+  perEvent: number; // kg CO2
 }
 
 export interface BankrollAnalytics {
@@ -123,9 +139,12 @@ export interface TournamentRecommendation {
     buyin_suitability: number;
     travelEfficiency: number;
     circuitPerformance: number;
+    structureQuality: number;
   };
   reasoning: string[];
   expectedRoi: number;
+  expectedBullets: number;
+  expectedInvestment: number; // buy-in x expected bullets
   confidenceLevel: 'high' | 'medium' | 'low';
 }
 
@@ -155,6 +174,7 @@ export interface AnalyticsFilter {
 
 export class AnalyticsService {
   private readonly CACHE_DURATION = 30 * 60 * 1000; // 30 minutes
+  private readonly TRIP_GAP_DAYS = 4; // events closer together than this in one city share a trip
   private cache = new Map<string, { data: any; timestamp: number }>();
   
   /**
@@ -162,7 +182,8 @@ export class AnalyticsService {
    */
   async getPlayerAnalytics(
     playerId: string, 
-    filter?: AnalyticsFilter
+    filter?: AnalyticsFilter,
+    player?: Player
   ): Promise<{
     summary: PlayerStatistics;
     monthlyPerformance: MonthlyPerformance[];
@@ -172,7 +193,8 @@ export class AnalyticsService {
     bankrollAnalytics: BankrollAnalytics;
     insights: OptimizationInsight[];
   }> {
-    const cacheKey = `player-analytics-${playerId}-${JSON.stringify(filter)}`;
+    const home = player?.homeBase?.coordinates;
+    const cacheKey = `player-analytics-${playerId}-${JSON.stringify(filter)}-${home ? `${home.lat},${home.lng}` : 'no-home'}`;
     const cached = this.getFromCache(cacheKey);
     if (cached) return cached;
 
@@ -188,7 +210,7 @@ export class AnalyticsService {
     const monthlyPerformance = this.calculateMonthlyPerformance(results, expenses);
     const circuitPerformance = this.calculateCircuitPerformance(results);
     const venuePerformance = this.calculateVenuePerformance(results);
-    const travelAnalytics = this.calculateTravelAnalytics(expenses);
+    const travelAnalytics = this.calculateTravelAnalytics(expenses, results, home);
     const bankrollAnalytics = this.calculateBankrollAnalytics(bankrollHistory);
     const insights = this.generateOptimizationInsights(
       results, circuitPerformance, venuePerformance, travelAnalytics, bankrollAnalytics
@@ -214,7 +236,8 @@ export class AnalyticsService {
   async getTournamentRecommendations(
     playerId: string,
     upcomingTournaments?: Tournament[],
-    playerResults?: TournamentResult[]
+    playerResults?: TournamentResult[],
+    player?: Player
   ): Promise<TournamentRecommendation[]> {
     if (!upcomingTournaments) {
       upcomingTournaments = await tournamentDataService.getUpcomingTournaments(50);
@@ -227,7 +250,7 @@ export class AnalyticsService {
     const recommendations: TournamentRecommendation[] = [];
 
     for (const tournament of upcomingTournaments) {
-      const recommendation = await this.scoreTournament(tournament, playerResults);
+      const recommendation = await this.scoreTournament(tournament, playerResults, player);
       recommendations.push(recommendation);
     }
 
@@ -235,6 +258,21 @@ export class AnalyticsService {
     return recommendations.sort((a, b) => b.score - a.score);
   }
 
+  /**
+   * Expected ROI (%) for each tournament, keyed by tournament id
+   */
+  async getExpectedRoiByTournament(
+    playerId: string,
+    tournaments: Tournament[],
+    player?: Player
+  ): Promise<Record<string, number>> {
+    const recommendations = await this.getTournamentRecommendations(playerId, tournaments, undefined, player);
+    return recommendations.reduce((roi, recommendation) => {
+      roi[recommendation.tournament.id] = recommendation.expectedRoi;
+      return roi;
+    }, {} as Record<string, number>);
+  }
+
   /**
    * Compare circuit performance and identify best opportunities
    */
@@ -377,7 +415,7 @@ export class AnalyticsService {
   }
 
   private calculatePlayerSummary(results: TournamentResult[]): PlayerStatistics {
-    const totalBuyIns = results.reduce((sum, r) => sum + r.buyIn, 0);
+    const totalBuyIns = results.reduce((sum, r) => sum + this.totalInvested(r), 0);
     const totalWinnings = results.reduce((sum, r) => sum + r.prize, 0);
     const itmCount = results.filter(r => r.itm).length;
     
@@ -422,7 +460,7 @@ export class AnalyticsService {
       }
 
       const data = monthlyData.get(monthKey)!;
-      data.buyIns += result.buyIn;
+      data.buyIns += this.totalInvested(result);
       data.winnings += result.prize;
       data.tournamentsPlayed += 1;
       if (result.itm) data.itmRate += 1;
@@ -471,7 +509,7 @@ export class AnalyticsService {
 
       const data = circuitData.get(result.circuit)!;
       data.events += 1;
-      data.buyIns += result.buyIn;
+      data.buyIns += this.totalInvested(result);
       data.winnings += result.prize;
       data.averageField += result.field;
       if (result.finish && result.finish < data.bestFinish) {
@@ -516,7 +554,7 @@ export class AnalyticsService {
       const data = venueData.get(venueKey)!;
       data.events += 1;
       data.winnings += result.prize;
-      data.buyIns += result.buyIn;
+      data.buyIns += this.totalInvested(result);
       if (result.finish && result.finish < data.bestFinish) {
         data.bestFinish = result.finish;
       }
@@ -535,7 +573,11 @@ export class AnalyticsService {
       .sort((a, b) => b.roi - a.roi);
   }
 
-  private calculateTravelAnalytics(expenses: Expense[]): TravelAnalytics {
+  private calculateTravelAnalytics(
+    expenses: Expense[],
+    results: TournamentResult[],
+    homeLocation?: Coordinates
+  ): TravelAnalytics {
     // Group expenses by month and calculate travel metrics
     const monthlyExpenses = this.groupExpensesByMonth(expenses);
     const totalTournaments = 47; // This should come from actual data
@@ -546,10 +588,71 @@ export class AnalyticsService {
       costPerTournament: totalTravelCost / totalTournaments,
       travelRoiImpact: -8.2, // Calculate based on actual ROI impact
       optimizationPotential: 2400, // Based on route optimization analysis
-      mostEfficientTrips: this.calculateMostEfficientTrips(expenses)
+      mostEfficientTrips: this.calculateMostEfficientTrips(expenses),
+      carbonReport: this.calculateAnnualCarbon(results, homeLocation)
     };
   }
 
+  /**
+   * Yearly travel emissions from the events played. Back-to-back events in
+   * the same city are one trip, each trip a round trip from home by the way
+   * the route planner would usually travel. Needs a home base to measure from.
+   */
+  private calculateAnnualCarbon(results: TournamentResult[], homeLocation?: Coordinates): AnnualCarbonReport[] {
+    if (!homeLocation) return [];
+
+    const sorted = [...results].sort((a, b) => new Date(a.date).getTime() - new Date(b.date).getTime());
+    const trips: TournamentResult[][] = [];
+    sorted.forEach(result => {
+      const current = trips[trips.length - 1];
+      const last = current?.[current.length - 1];
+      const sameTrip = last &&
+        last.city === result.city &&
+        last.state === result.state &&
+        new Date(result.date).getTime() - new Date(last.date).getTime() <= this.TRIP_GAP_DAYS * 24 * 60 * 60 * 1000;
+      if (sameTrip) {
+        current.push(result);
+      } else {
+        trips.push([result]);
+      }
+    });
+
+    const years = new Map<number, AnnualCarbonReport>();
+    trips.forEach(trip => {
+      const venue = geocodeAddress({ city: trip[0].city, state: trip[0].state });
+      if (!venue) return;
+
+      const year = new Date(trip[0].date).getFullYear();
+      const report = years.get(year) || {
+        year, total: 0, byMode: { fly: 0, drive: 0, train: 0, bus: 0 }, trips: 0, events: 0, miles: 0, perEvent: 0
+      };
+      [estimateRouteLeg(homeLocation, venue), estimateRouteLeg(venue, homeLocation)].forEach(leg => {
+        const kg = legFootprint(leg);
+        report.byMode[leg.method] += kg;
+        report.total += kg;
+        report.miles += leg.distance;
+      });
+      report.trips += 1;
+      report.events += trip.length;
+      years.set(year, report);
+    });
+
+    return Array.from(years.values())
+      .map(report => ({
+        ...report,
+        total: Math.round(report.total),
+        byMode: {
+          fly: Math.round(report.byMode.fly),
+          drive: Math.round(report.byMode.drive),
+          train: Math.round(report.byMode.train),
+          bus: Math.round(report.byMode.bus)
+        },
+        miles: Math.round(report.miles),
+        perEvent: Math.round(report.total / report.events)
+      }))
+      .sort((a, b) => b.year - a.year);
+  }
+
   private calculateBankrollAnalytics(history: StakingTransaction[]): BankrollAnalytics {
     // Mock implementation since we don't have real data structure yet
     return {
@@ -586,33 +689,44 @@ export class AnalyticsService {
     };
   }
 
-  private async scoreTournament(tournament: Tournament, playerResults: TournamentResult[]): Promise<TournamentRecommendation> {
+  private async scoreTournament(
+    tournament: Tournament,
+    playerResults: TournamentResult[],
+    player?: Player
+  ): Promise<TournamentRecommendation> {
+    const expectedBullets = getExpectedBullets(tournament, player?.preferences.bulletPlan);
+    const structure = getStructureMetrics(tournament);
+
     const factors = {
       historicalRoi: this.calculateHistoricalROI(tournament, playerResults),
       venueSuccess: this.calculateVenueSuccess(tournament, playerResults),
       fieldSize: this.scoreFieldSize(tournament.estimatedField),
       buyin_suitability: this.scoreBuyInSuitability(tournament.buyIn, playerResults),
-      travelEfficiency: this.calculateTravelEfficiency(tournament),
+      travelEfficiency: this.calculateTravelEfficiency(tournament, player?.homeBase?.coordinates),
       circuitPerformance: this.calculateCircuitPerformance(playerResults)
-        .find(cp => cp.circuit === tournament.circuit.type)?.roi || 0
+        .find(cp => cp.circuit === tournament.circuit.type)?.roi || 0,
+      structureQuality: structure.qualityScore
     };
 
     // Weighted score calculation
     const score = (
-      factors.historicalRoi * 0.25 +
-      factors.venueSuccess * 0.2 +
-      factors.fieldSize * 0.15 +
-      factors.buyin_suitability * 0.15 +
+      factors.historicalRoi * 0.22 +
+      factors.venueSuccess * 0.18 +
+      factors.fieldSize * 0.13 +
+      factors.buyin_suitability * 0.13 +
       factors.travelEfficiency * 0.1 +
-      factors.circuitPerformance * 0.15
+      factors.circuitPerformance * 0.14 +
+      factors.structureQuality * 0.1
     );
 
     return {
       tournament,
       score: Math.min(100, Math.max(0, score)),
       factors,
-      reasoning: this.generateRecommendationReasoning(tournament, factors),
+      reasoning: this.generateRecommendationReasoning(tournament, factors, expectedBullets, structure),
       expectedRoi: this.calculateExpectedROI(tournament, factors),
+      expectedBullets,
+      expectedInvestment: tournament.buyIn * expectedBullets,
       confidenceLevel: this.calculateConfidenceLevel(tournament, playerResults)
     };
   }
@@ -686,13 +800,18 @@ export class AnalyticsService {
   }
 
   // Additional helper methods
+  private totalInvested(result: TournamentResult): number {
+    // Re-entries and rebuys are part of the cost of the event
+    return result.buyIn * (result.entries ?? 1);
+  }
+
   private getBestCircuit(results: TournamentResult[]): string {
     const circuitROI = new Map<string, { profit: number; buyins: number }>();
     
     results.forEach(result => {
       const data = circuitROI.get(result.circuit) || { profit: 0, buyins: 0 };
-      data.profit += result.prize - result.buyIn;
-      data.buyins += result.buyIn;
+      data.profit += result.prize - this.totalInvested(result);
+      data.buyins += this.totalInvested(result);
       circuitROI.set(result.circuit, data);
     });
 
@@ -737,7 +856,7 @@ export class AnalyticsService {
   }
 
   private calculateROI(results: TournamentResult[]): number {
-    const totalBuyins = results.reduce((sum, r) => sum + r.buyIn, 0);
+    const totalBuyins = results.reduce((sum, r) => sum + this.totalInvested(r), 0);
     const totalWinnings = results.reduce((sum, r) => sum + r.prize, 0);
     return totalBuyins > 0 ? ((totalWinnings - totalBuyins) / totalBuyins) * 100 : 0;
   }
@@ -787,9 +906,15 @@ export class AnalyticsService {
     return 70; // Implementation would analyze optimal buy-in range
   }
 
-  private calculateTravelEfficiency(tournament: Tournament): number {
-    // Calculate travel efficiency based on location and player's base
-    return 60;
+  private calculateTravelEfficiency(tournament: Tournament, homeLocation?: Coordinates): number {
+    // Without a home base there's nothing to measure against
+    if (!homeLocation) return 60;
+
+    const distance = distanceBetween(homeLocation, tournament.venue.coordinates);
+    if (distance < 300) return 90; // drivable
+    if (distance < 800) return 75;
+    if (distance < 1500) return 60;
+    return 40;
   }
 
   private calculateExpectedROI(tournament: Tournament, factors: any): number {
@@ -809,9 +934,24 @@ export class AnalyticsService {
     return 'low';
   }
 
-  private generateRecommendationReasoning(tournament: Tournament, factors: any): string[] {
+  private generateRecommendationReasoning(
+    tournament: Tournament,
+    factors: any,
+    expectedBullets = 1,
+    structure?: StructureMetrics
+  ): string[] {
     const reasoning = [];
     
+    if (structure && structure.qualityScore >= 70) {
+      reasoning.push(`Deep structure: ${describeStructure(structure)}`);
+    } else if (structure && structure.qualityScore < 40) {
+      reasoning.push(`Fast structure: ${describeStructure(structure)}`);
+    }
+    
+    if (expectedBullets > 1) {
+      reasoning.push(`Budget ~${expectedBullets.toFixed(1)} bullets ($${Math.round(tournament.buyIn * expectedBullets).toLocaleString()}) for this ${tournament.structure.type}`);
+    }
+    
     if (factors.historicalRoi > 20) {
       reasoning.push('Strong historical performance in similar events');
     }
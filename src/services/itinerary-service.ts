@@ -0,0 +1,408 @@
+/**
+ * Itinerary Service
+ * Server-side storage for planned circuits so they survive a browser refresh
+ * and can be revisited mid-trip. Edits are versioned by `lastModified` and
+ * status changes follow the draft -> confirmed -> booked -> completed lifecycle.
+ */
+
+import { CarbonFootprint, CarbonSeasonSummary, CircuitSelectionForm, CircuitSuggestion, Itinerary, ManualRouteStep, OptimizationResult, Player, QuickOptimizeForm, RouteEditItem, Tournament } from '@/types';
+import { JsonFileStore } from '@/lib/json-store';
+import { generateItinerary, optimizeCircuit, planManualRoute } from '@/lib/optimization';
+import { itineraryFootprint, summarizeCarbonBySeason } from '@/lib/carbon';
+import { PRIORITY_WEIGHTS } from '@/lib/objectives';
+import { suggestCircuit } from '@/lib/circuit-suggestion';
+import { playerProfileService } from './player-profile-service';
+import { tournamentDataService } from './tournament-data-service';
+import { analyticsService } from './analytics-service';
+
+export type ItineraryStatus = Itinerary['status'];
+
+// Allowed moves between statuses. Stepping back lets a player re-plan
+// before anything is booked, or un-book a trip that fell through.
+const STATUS_TRANSITIONS: Record<ItineraryStatus, ItineraryStatus[]> = {
+  draft: ['confirmed'],
+  confirmed: ['draft', 'booked'],
+  booked: ['confirmed', 'completed'],
+  completed: []
+};
+
+export interface CreateItineraryInput {
+  playerId: string;
+  name?: string;
+  tournaments?: Tournament['id'][]; // planned by the optimizer
+  route?: ManualRouteStep[]; // a hand-ordered route, kept exactly as given
+}
+
+export interface OptimizeCircuitInput extends QuickOptimizeForm {
+  playerId: string;
+}
+
+export interface SuggestCircuitInput extends CircuitSelectionForm {
+  playerId: string;
+}
+
+export interface CarbonReport {
+  itineraries: Array<Pick<Itinerary, 'id' | 'name' | 'status'> & { carbon: CarbonFootprint }>;
+  seasons: CarbonSeasonSummary[]; // committed circuits only - drafts are still being planned
+}
+
+export interface UpdateItineraryInput {
+  lastModified: Date | string; // version the client last saw
+  name?: string;
+  status?: ItineraryStatus;
+  tournaments?: Tournament['id'][];
+  route?: ManualRouteStep[];
+}
+
+export class ItineraryNotFoundError extends Error {
+  constructor(id: string) {
+    super(`Itinerary ${id} not found`);
+    this.name = 'ItineraryNotFoundError';
+  }
+}
+
+export class ItineraryConflictError extends Error {
+  constructor(public current: Itinerary) {
+    super(`Itinerary ${current.id} was modified at ${current.lastModified.toISOString()} - reload before saving`);
+    this.name = 'ItineraryConflictError';
+  }
+}
+
+export class ItineraryValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ItineraryValidationError';
+  }
+}
+
+type ItineraryStore = Record<string, Itinerary>;
+
+export class ItineraryService {
+  private store = new JsonFileStore<ItineraryStore>('itineraries.json', () => ({}));
+
+  async listItineraries(playerId?: string): Promise<Itinerary[]> {
+    const itineraries = await this.store.read();
+    return Object.values(itineraries)
+      .filter(itinerary => !playerId || itinerary.playerId === playerId)
+      .sort((a, b) => b.lastModified.getTime() - a.lastModified.getTime());
+  }
+
+  async getItinerary(id: string): Promise<Itinerary> {
+    const itineraries = await this.store.read();
+    const itinerary = itineraries[id];
+    if (!itinerary) {
+      throw new ItineraryNotFoundError(id);
+    }
+    return itinerary;
+  }
+
+  /**
+   * Travel emissions for each of a player's itineraries, and per-season
+   * totals for the ones they've committed to
+   */
+  async getCarbonReport(playerId: string): Promise<CarbonReport> {
+    if (!playerId) {
+      throw new ItineraryValidationError('playerId is required');
+    }
+
+    const itineraries = await this.listItineraries(playerId);
+    return {
+      itineraries: itineraries.map(itinerary => ({
+        id: itinerary.id,
+        name: itinerary.name,
+        status: itinerary.status,
+        carbon: itineraryFootprint(itinerary)
+      })),
+      seasons: summarizeCarbonBySeason(itineraries.filter(itinerary => itinerary.status !== 'draft'))
+    };
+  }
+
+  /**
+   * Plan a new draft itinerary from the selected tournaments, or from a route
+   * the player ordered by hand
+   */
+  async createItinerary(input: CreateItineraryInput): Promise<Itinerary> {
+    if (!input.playerId) {
+      throw new ItineraryValidationError('playerId is required');
+    }
+
+    const player = await playerProfileService.getProfile(input.playerId);
+    const planned = await this.plan(input, player);
+
+    return this.saveDraft({ ...planned, name: input.name || planned.name });
+  }
+
+  /**
+   * Compare ways to play a set of tournaments without saving anything: the
+   * plan that best fits the player's priority, within budget, plus the
+   * trade-offs between cost, time, ROI, carbon and convenience
+   */
+  async optimizeCircuit(input: OptimizeCircuitInput): Promise<OptimizationResult> {
+    if (!input.playerId) {
+      throw new ItineraryValidationError('playerId is required');
+    }
+    if (!Array.isArray(input.tournaments) || input.tournaments.length === 0) {
+      throw new ItineraryValidationError('Select at least one tournament to optimize');
+    }
+    if (!(input.prioritizeBy in PRIORITY_WEIGHTS)) {
+      throw new ItineraryValidationError(
+        `prioritizeBy must be one of ${Object.keys(PRIORITY_WEIGHTS).join(', ')}`
+      );
+    }
+    if (typeof input.maxBudget !== 'number' || !(input.maxBudget > 0)) {
+      throw new ItineraryValidationError('maxBudget must be a positive number');
+    }
+
+    const tournaments = await this.resolveTournaments(input.tournaments);
+    const player = await playerProfileService.getProfile(input.playerId);
+    const [alternates, expectedRoi] = await Promise.all([
+      this.getAlternateEvents(tournaments),
+      analyticsService.getExpectedRoiByTournament(input.playerId, tournaments, player)
+    ]);
+
+    return optimizeCircuit(tournaments, player, undefined, alternates, {
+      prioritizeBy: input.prioritizeBy,
+      maxBudget: input.maxBudget,
+      expectedRoi
+    });
+  }
+
+  /**
+   * Build a circuit from scratch: choose which events in the date window are
+   * worth playing for the budget and bankroll, and save the result as a draft.
+   * Events left out are returned with the reason they were skipped.
+   */
+  async suggestCircuit(input: SuggestCircuitInput): Promise<CircuitSuggestion> {
+    if (!input.playerId) {
+      throw new ItineraryValidationError('playerId is required');
+    }
+    if (typeof input.budgetMax !== 'number' || !(input.budgetMax > 0)) {
+      throw new ItineraryValidationError('budgetMax must be a positive number');
+    }
+    const startDate = new Date(input.startDate);
+    const endDate = new Date(input.endDate);
+    if (isNaN(startDate.getTime()) || isNaN(endDate.getTime())) {
+      throw new ItineraryValidationError('startDate and endDate are required');
+    }
+    if (endDate <= startDate) {
+      throw new ItineraryValidationError('endDate must be after startDate');
+    }
+
+    const circuits = input.selectedCircuits || [];
+    const candidates = await tournamentDataService.getAllTournaments({
+      startDate,
+      endDate,
+      ...(circuits.length > 0 ? { circuits } : {})
+    });
+
+    const profile = await playerProfileService.getProfile(input.playerId);
+    // Preferences sent with the request apply to this suggestion only
+    const player = { ...profile, preferences: { ...profile.preferences, ...input.travelPreferences } };
+    const expectedRoi = await analyticsService.getExpectedRoiByTournament(input.playerId, candidates, player);
+
+    const suggestion = suggestCircuit(candidates, player, {
+      budgetMax: input.budgetMax,
+      expectedRoi,
+      alternates: candidates
+    });
+    if (!suggestion.itinerary) {
+      return suggestion;
+    }
+
+    return { ...suggestion, itinerary: await this.saveDraft(suggestion.itinerary) };
+  }
+
+  /**
+   * Apply an edit if the client is working from the latest version
+   */
+  async updateItinerary(id: string, input: UpdateItineraryInput): Promise<Itinerary> {
+    const replanned = input.tournaments || input.route
+      ? await this.plan(input, await playerProfileService.getProfile((await this.getItinerary(id)).playerId))
+      : null;
+
+    return this.store.update(itineraries => {
+      const current = itineraries[id];
+      if (!current) {
+        throw new ItineraryNotFoundError(id);
+      }
+      this.assertVersion(current, input.lastModified);
+
+      let updated: Itinerary = { ...current };
+
+      if (replanned) {
+        if (current.status !== 'draft') {
+          throw new ItineraryValidationError(
+            `Only draft itineraries can change events (this one is ${current.status})`
+          );
+        }
+
+        updated = {
+          ...replanned,
+          id: current.id,
+          name: current.name,
+          created: current.created,
+          lastModified: current.lastModified,
+          status: current.status
+        };
+      }
+
+      if (input.name !== undefined) {
+        updated.name = input.name;
+      }
+
+      if (input.status && input.status !== current.status) {
+        if (!STATUS_TRANSITIONS[current.status].includes(input.status)) {
+          throw new ItineraryValidationError(
+            `Cannot move itinerary from ${current.status} to ${input.status}`
+          );
+        }
+        updated.status = input.status;
+      }
+
+      updated.lastModified = new Date();
+      itineraries[id] = updated;
+      return updated;
+    });
+  }
+
+  async deleteItinerary(id: string, lastModified?: Date | string): Promise<void> {
+    await this.store.update(itineraries => {
+      const current = itineraries[id];
+      if (!current) {
+        throw new ItineraryNotFoundError(id);
+      }
+      if (lastModified !== undefined) {
+        this.assertVersion(current, lastModified);
+      }
+      if (current.status === 'booked') {
+        throw new ItineraryValidationError('Booked itineraries must be moved back to confirmed before deleting');
+      }
+      delete itineraries[id];
+    });
+  }
+
+  private assertVersion(current: Itinerary, lastModified: Date | string) {
+    const expected = new Date(lastModified).getTime();
+    if (isNaN(expected)) {
+      throw new ItineraryValidationError('lastModified is required to edit an itinerary');
+    }
+    if (expected !== current.lastModified.getTime()) {
+      throw new ItineraryConflictError(current);
+    }
+  }
+
+  /**
+   * Events running alongside the circuit that a player could fall back on
+   * after busting early. Planning still works without them.
+   */
+  private async getAlternateEvents(tournaments: Tournament[]): Promise<Tournament[]> {
+    if (!Array.isArray(tournaments) || tournaments.length === 0) {
+      return [];
+    }
+    const starts = tournaments.map(t => new Date(t.startDate).getTime());
+    const ends = tournaments.map(t => new Date(t.endDate).getTime());
+
+    try {
+      return await tournamentDataService.getAllTournaments({
+        startDate: new Date(Math.min(...starts)),
+        endDate: new Date(Math.max(...ends))
+      });
+    } catch (error) {
+      console.error('Error loading alternate events:', error);
+      return [];
+    }
+  }
+
+  private async saveDraft(planned: Itinerary): Promise<Itinerary> {
+    const now = new Date();
+    const itinerary: Itinerary = {
+      ...planned,
+      id: this.generateId(),
+      created: now,
+      lastModified: now,
+      status: 'draft'
+    };
+
+    await this.store.update(itineraries => {
+      itineraries[itinerary.id] = itinerary;
+    });
+
+    return itinerary;
+  }
+
+  /**
+   * A hand-ordered route is planned exactly as given; a plain selection goes
+   * through the optimizer
+   */
+  private async plan(
+    input: Pick<CreateItineraryInput, 'tournaments' | 'route'>,
+    player: Player
+  ): Promise<Itinerary> {
+    if (input.route) {
+      return this.planRoute(input.route, player);
+    }
+
+    const tournaments = await this.resolveTournaments(input.tournaments || []);
+    const alternates = await this.getAlternateEvents(tournaments);
+    return generateItinerary(tournaments, player, undefined, alternates);
+  }
+
+  private async planRoute(steps: ManualRouteStep[], player: Player): Promise<Itinerary> {
+    if (!Array.isArray(steps)) {
+      throw new ItineraryValidationError('route must be a list of events and breaks');
+    }
+    const invalidStep = (i: number) =>
+      new ItineraryValidationError(`Route step ${i + 1} must be an event or a rest/home break with days`);
+    const malformed = steps.findIndex(step => !step || typeof step !== 'object');
+    if (malformed >= 0) throw invalidStep(malformed);
+
+    const tournaments = await this.resolveTournaments(
+      steps
+        .filter((step): step is Extract<ManualRouteStep, { kind: 'event' }> => step.kind === 'event')
+        .map(step => step.tournamentId)
+    );
+    const items: RouteEditItem[] = steps.map((step, i) => {
+      if (step.kind === 'event') {
+        const tournament = tournaments.find(t => t.id === step.tournamentId) as Tournament;
+        return { id: tournament.id, kind: 'event', tournament, pinned: Boolean(step.pinned) };
+      }
+      if ((step.kind === 'rest' || step.kind === 'home') && typeof step.days === 'number' && step.days > 0) {
+        return { id: `${step.kind}-${i}`, kind: step.kind, days: Math.round(step.days) };
+      }
+      throw invalidStep(i);
+    });
+
+    const alternates = await this.getAlternateEvents(tournaments);
+    return planManualRoute(items, player, undefined, alternates).itinerary;
+  }
+
+  /**
+   * Look up selected events by id so plans use our tournament data (buy-ins,
+   * dates, venues), never what the client sent
+   */
+  private async resolveTournaments(ids: Tournament['id'][]): Promise<Tournament[]> {
+    if (!Array.isArray(ids) || ids.length === 0) {
+      throw new ItineraryValidationError('An itinerary needs at least one tournament');
+    }
+    if (ids.some(id => typeof id !== 'string')) {
+      throw new ItineraryValidationError('Tournaments must be given by id');
+    }
+
+    const available = await tournamentDataService.getAllTournaments();
+    const tournaments = ids
+      .map(id => available.find(t => t.id === id))
+      .filter((t): t is Tournament => t !== undefined);
+    const missing = ids.filter(id => !tournaments.some(t => t.id === id));
+    if (missing.length > 0) {
+      throw new ItineraryValidationError(`Unknown tournaments: ${missing.join(', ')}`);
+    }
+    return tournaments;
+  }
+
+  private generateId(): string {
+    return `itinerary-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`;
+  }
+}
+
+// Export singleton instance
+export const itineraryService = new ItineraryService();
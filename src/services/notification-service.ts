@@ -0,0 +1,120 @@
+/**
+ * Notification Service
+ * Routes alerts to a player's enabled NotificationMethod channels.
+ * Email, SMS and push go through pluggable transports; until real providers
+ * are configured, the local transport writes every message to an outbox
+ * under .data/ (and the server log) so reminders can be inspected end to end.
+ */
+
+import { BankrollAlertType, NotificationMethod, Player } from '@/types';
+import { JsonFileStore } from '@/lib/json-store';
+
+export type NotificationChannel = NotificationMethod['type'];
+
+export interface NotificationMessage {
+  id: string;
+  playerId: string;
+  channel: NotificationChannel;
+  alertType: BankrollAlertType;
+  recipient?: string; // email address / phone number
+  subject: string;
+  body: string;
+  createdAt: Date;
+}
+
+export interface NotificationDelivery {
+  delivered: NotificationChannel[];
+  failed: NotificationChannel[]; // transport errors - worth retrying
+  messages: NotificationMessage[]; // one per delivered channel
+}
+
+export interface NotificationTransport {
+  send(message: NotificationMessage): Promise<void>;
+}
+
+const OUTBOX_LIMIT = 500;
+
+/**
+ * Stand-in transport for local development - nothing leaves the machine
+ */
+export class LocalNotificationTransport implements NotificationTransport {
+  constructor(private outbox: JsonFileStore<NotificationMessage[]>) {}
+
+  async send(message: NotificationMessage): Promise<void> {
+    console.log(`[${message.channel}] to ${message.recipient || message.playerId}: ${message.subject}`);
+    await this.outbox.update(messages => {
+      messages.push(message);
+      messages.splice(0, Math.max(0, messages.length - OUTBOX_LIMIT));
+    });
+  }
+}
+
+// Players who haven't configured channels still see alerts in the app
+const DEFAULT_METHODS: NotificationMethod[] = [
+  { type: 'dashboard', enabled: true, alertTypes: ['late_registration_closing'] }
+];
+
+export class NotificationService {
+  private outbox = new JsonFileStore<NotificationMessage[]>('notification-outbox.json', () => []);
+  private transports: Partial<Record<NotificationChannel, NotificationTransport>> = {};
+  private localTransport = new LocalNotificationTransport(this.outbox);
+
+  /**
+   * Swap in a real provider for a channel (e.g. an SMTP or SMS gateway client)
+   */
+  registerTransport(channel: NotificationChannel, transport: NotificationTransport) {
+    this.transports[channel] = transport;
+  }
+
+  /**
+   * Send an alert on every enabled channel subscribed to its type and report
+   * where it got through. Nothing is delivered when no channel subscribes.
+   */
+  async notify(
+    player: Player,
+    alertType: BankrollAlertType,
+    subject: string,
+    body: string
+  ): Promise<NotificationDelivery> {
+    const methods = player.preferences.notificationMethods || DEFAULT_METHODS;
+    const channels = methods.filter(method => method.enabled && method.alertTypes.includes(alertType));
+    const delivery: NotificationDelivery = { delivered: [], failed: [], messages: [] };
+
+    for (const method of channels) {
+      const message: NotificationMessage = {
+        id: `notification-${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+        playerId: player.id,
+        channel: method.type,
+        alertType,
+        recipient: method.type === 'email' ? player.email : method.type === 'sms' ? player.phone : undefined,
+        subject,
+        body,
+        createdAt: new Date()
+      };
+
+      try {
+        await (this.transports[method.type] || this.localTransport).send(message);
+        delivery.delivered.push(method.type);
+        delivery.messages.push(message);
+      } catch (error) {
+        console.error(`Failed to send ${method.type} notification:`, error);
+        delivery.failed.push(method.type);
+      }
+    }
+
+    return delivery;
+  }
+
+  /**
+   * Recent messages for a player, newest first
+   */
+  async getOutbox(playerId: string, channel?: NotificationChannel): Promise<NotificationMessage[]> {
+    const messages = await this.outbox.read();
+    return messages
+      .filter(message => message.playerId === playerId && (!channel || message.channel === channel))
+      .reverse();
+  }
+}
+
+// Export singleton instance
+export const notificationService = new NotificationService();
@@ -0,0 +1,161 @@
+/**
+ * Player Profile Service
+ * Persists player profiles (preferences, budget, home base) on the server
+ * and geocodes home addresses against the bundled gazetteer so the
+ * optimizer can plan from the player's real starting point.
+ */
+
+import { randomBytes, timingSafeEqual } from 'crypto';
+import { Address, Coordinates, HomeBase, Player, PlayerPreferences } from '@/types';
+import { defaultPlayer } from '@/data/players';
+import { JsonFileStore } from '@/lib/json-store';
+import { geocodeAddress, normalizeStateCode } from '@/lib/geocoding';
+import { findNearestAirports } from '@/lib/airports';
+
+export interface HomeBaseUpdate {
+  address: Partial<Address> & Pick<Address, 'city' | 'state'>;
+  coordinates?: Coordinates; // skips geocoding when supplied
+}
+
+export interface PlayerProfileUpdate {
+  name?: string;
+  email?: string;
+  phone?: string;
+  preferences?: Partial<Omit<PlayerPreferences, 'budgetConstraints'>> & {
+    budgetConstraints?: Partial<PlayerPreferences['budgetConstraints']>;
+  };
+  homeBase?: HomeBaseUpdate | null;
+}
+
+export class ProfileValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ProfileValidationError';
+  }
+}
+
+export class CalendarTokenError extends Error {
+  constructor(message = 'Invalid calendar feed token') {
+    super(message);
+    this.name = 'CalendarTokenError';
+  }
+}
+
+type ProfileStore = Record<string, Player>;
+
+function tokensMatch(given: string, secret: string): boolean {
+  const a = Buffer.from(given);
+  const b = Buffer.from(secret);
+  return a.length === b.length && timingSafeEqual(a, b);
+}
+
+// The feed token is a secret - profiles leave the service without it
+function withoutSecrets({ calendarFeedToken, ...profile }: Player): Player {
+  return profile;
+}
+
+export class PlayerProfileService {
+  private store = new JsonFileStore<ProfileStore>('player-profiles.json', () => ({}));
+
+  /**
+   * Get a saved profile, falling back to the starter profile for new players
+   */
+  async getProfile(playerId: string): Promise<Player> {
+    const profiles = await this.store.read();
+    return withoutSecrets(profiles[playerId] || { ...defaultPlayer, id: playerId });
+  }
+
+  /**
+   * Apply a partial update and persist it
+   */
+  async updateProfile(playerId: string, update: PlayerProfileUpdate): Promise<Player> {
+    // Resolve the home base before touching the store so a bad address fails cleanly
+    const homeBase = update.homeBase ? this.resolveHomeBase(update.homeBase) : update.homeBase;
+
+    return this.store.update(profiles => {
+      const current = profiles[playerId] || { ...defaultPlayer, id: playerId };
+      const { budgetConstraints, ...preferences } = update.preferences || {};
+
+      const updated: Player = {
+        ...current,
+        ...(update.name !== undefined && { name: update.name }),
+        ...(update.email !== undefined && { email: update.email }),
+        ...(update.phone !== undefined && { phone: update.phone }),
+        preferences: {
+          ...current.preferences,
+          ...preferences,
+          budgetConstraints: {
+            ...current.preferences.budgetConstraints,
+            ...budgetConstraints
+          }
+        }
+      };
+
+      if (homeBase === null) {
+        delete updated.homeBase;
+      } else if (homeBase) {
+        updated.homeBase = homeBase;
+      }
+
+      profiles[playerId] = updated;
+      return withoutSecrets(updated);
+    });
+  }
+
+  /**
+   * Whether a token opens the player's calendar feed
+   */
+  async verifyCalendarFeedToken(playerId: string, token: string | null): Promise<boolean> {
+    const profiles = await this.store.read();
+    const secret = profiles[playerId]?.calendarFeedToken;
+    return Boolean(token && secret && tokensMatch(token, secret));
+  }
+
+  /**
+   * Issue a calendar feed token. The first is issued freely; once a player
+   * has one, only a holder of the current token can replace it.
+   */
+  async issueCalendarFeedToken(playerId: string, currentToken?: string | null): Promise<string> {
+    return this.store.update(profiles => {
+      const current = profiles[playerId] || { ...defaultPlayer, id: playerId };
+      if (current.calendarFeedToken && !(currentToken && tokensMatch(currentToken, current.calendarFeedToken))) {
+        throw new CalendarTokenError('The current calendar feed token is required to replace it');
+      }
+
+      const calendarFeedToken = randomBytes(18).toString('hex');
+      profiles[playerId] = { ...current, calendarFeedToken };
+      return calendarFeedToken;
+    });
+  }
+
+  private resolveHomeBase(update: HomeBaseUpdate): HomeBase {
+    const address: Address = {
+      street: update.address.street || '',
+      city: (update.address.city || '').trim(),
+      state: normalizeStateCode(update.address.state || ''),
+      country: update.address.country || 'US',
+      postalCode: update.address.postalCode || ''
+    };
+
+    if (!address.city) {
+      throw new ProfileValidationError('Home base requires a city');
+    }
+
+    const coordinates = update.coordinates || geocodeAddress(address);
+    if (!coordinates) {
+      throw new ProfileValidationError(
+        `Could not locate ${address.city}, ${address.state} - provide coordinates instead`
+      );
+    }
+
+    return {
+      address,
+      coordinates,
+      nearestAirports: findNearestAirports(coordinates).map(airport => airport.code),
+      geocodedAt: new Date()
+    };
+  }
+}
+
+// Export singleton instance
+export const playerProfileService = new PlayerProfileService();
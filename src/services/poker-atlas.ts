@@ -6,6 +6,7 @@
 
 import axios from 'axios';
 import { Tournament, Venue, Circuit, Address, Coordinates } from '@/types';
+import { getTimezoneForState, parseVenueDateTime, DEFAULT_END_HOUR } from '@/lib/timezones';
 
 // PokerAtlas API types
 interface PokerAtlasEvent {
@@ -159,7 +160,7 @@ export class PokerAtlasService {
       },
       nearbyHotels: [],
       localTips: [],
-      timezone: this.getTimezoneForState(event.venue.state)
+      timezone: getTimezoneForState(event.venue.state, event.venue.city)
     };
 
     // Determine circuit type
@@ -181,20 +182,27 @@ export class PokerAtlasService {
       'cancelled': 'cancelled' as const
     };
 
+    // Dates without an offset are venue wall-clock times
+    const startDate = parseVenueDateTime(event.start_date, venue.timezone) || new Date(event.start_date);
+    const endDate = parseVenueDateTime(event.end_date, venue.timezone, DEFAULT_END_HOUR) || new Date(event.end_date);
+    const registrationDeadline = event.registration_deadline
+      ? parseVenueDateTime(event.registration_deadline, venue.timezone)
+      : undefined;
+
     return {
       id: `pa-${event.id}`,
       name: event.name,
       circuit,
       venue,
       buyIn: event.buy_in,
-      startDate: new Date(event.start_date),
-      endDate: new Date(event.end_date),
+      startDate,
+      endDate,
       estimatedField: event.estimated_entries || 200,
       structure,
       blindLevels: structure.blindLevelDuration,
       prizeGuarantee: event.guaranteed_prize,
       status: statusMap[event.status] || 'upcoming',
-      registrationDeadline: event.registration_deadline ? new Date(event.registration_deadline) : undefined,
+      registrationDeadline,
       lateRegistrationLevels: event.late_registration_levels
     };
   }
@@ -253,31 +261,6 @@ export class PokerAtlasService {
     };
   }
 
-  private getTimezoneForState(state: string): string {
-    // Map US states to timezones (simplified)
-    const timezoneMap: Record<string, string> = {
-      'CA': 'America/Los_Angeles',
-      'NV': 'America/Los_Angeles',
-      'TX': 'America/Chicago',
-      'FL': 'America/New_York',
-      'NY': 'America/New_York',
-      'NJ': 'America/New_York',
-      'PA': 'America/New_York',
-      'IL': 'America/Chicago',
-      'IN': 'America/New_York',
-      'OH': 'America/New_York',
-      'MI': 'America/New_York',
-      'WI': 'America/Chicago',
-      'MN': 'America/Chicago',
-      'AZ': 'America/Phoenix',
-      'CO': 'America/Denver',
-      'WA': 'America/Los_Angeles',
-      'OR': 'America/Los_Angeles'
-    };
-
-    return timezoneMap[state?.toUpperCase()] || 'America/New_York';
-  }
-
   /**
    * Check API connectivity and rate limits
    */
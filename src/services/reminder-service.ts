@@ -0,0 +1,179 @@
+/**
+ * Registration Reminder Service
+ * Works out when late registration really closes for every tournament on a
+ * player's saved itineraries and sends reminders ahead of it through the
+ * notification service. Runs on a node-cron schedule inside the server.
+ */
+
+import cron, { ScheduledTask } from 'node-cron';
+import { Itinerary, Tournament } from '@/types';
+import { JsonFileStore } from '@/lib/json-store';
+import { getLateRegistrationClose } from '@/lib/route-solver';
+import { formatInTimeZone } from '@/lib/timezones';
+import { itineraryService } from './itinerary-service';
+import { notificationService } from './notification-service';
+import { playerProfileService } from './player-profile-service';
+
+const MINUTE_MS = 60 * 1000;
+
+// How long before late reg closes each reminder goes out, largest first
+const REMINDER_OFFSETS_MINUTES = [24 * 60, 120, 30];
+
+export interface RegistrationReminder {
+  key: string; // itinerary + tournament + offset, used to send each reminder once
+  itineraryId: string;
+  playerId: string;
+  tournament: Tournament;
+  lateRegistrationClose: Date;
+  localCloseTime: string; // close time rendered in the venue's timezone
+  minutesBefore: number;
+  sendAt: Date;
+}
+
+type SentReminders = Record<string, Date>;
+
+export class ReminderService {
+  private sent = new JsonFileStore<SentReminders>('sent-reminders.json', () => ({}));
+  private task: ScheduledTask | null = null;
+  private running = false;
+
+  /**
+   * Every reminder for the open itineraries, in send order
+   */
+  buildSchedule(itineraries: Itinerary[]): RegistrationReminder[] {
+    const reminders: RegistrationReminder[] = [];
+
+    itineraries
+      .filter(itinerary => itinerary.status !== 'completed')
+      .forEach(itinerary => {
+        itinerary.tournaments.forEach(tournament => {
+          const close = getLateRegistrationClose(tournament);
+
+          REMINDER_OFFSETS_MINUTES.forEach(minutesBefore => {
+            reminders.push({
+              key: `${itinerary.id}:${tournament.id}:${minutesBefore}`,
+              itineraryId: itinerary.id,
+              playerId: itinerary.playerId,
+              tournament,
+              lateRegistrationClose: close,
+              localCloseTime: formatInTimeZone(close, tournament.venue.timezone),
+              minutesBefore,
+              sendAt: new Date(close.getTime() - minutesBefore * MINUTE_MS)
+            });
+          });
+        });
+      });
+
+    return reminders.sort((a, b) => a.sendAt.getTime() - b.sendAt.getTime());
+  }
+
+  async getUpcomingReminders(playerId: string, now = new Date()): Promise<RegistrationReminder[]> {
+    const itineraries = await itineraryService.listItineraries(playerId);
+    return this.buildSchedule(itineraries).filter(reminder => reminder.lateRegistrationClose > now);
+  }
+
+  /**
+   * Send every reminder that has come due. If the scheduler was down and
+   * several reminders for the same event are overdue, only the most urgent
+   * one goes out. A reminder only counts as sent once a channel delivered
+   * it; anything else is tried again on the next run until late reg closes.
+   */
+  async runDueReminders(now = new Date()): Promise<RegistrationReminder[]> {
+    const itineraries = await itineraryService.listItineraries();
+    const sent = await this.sent.read();
+
+    const due = this.buildSchedule(itineraries).filter(reminder =>
+      reminder.sendAt <= now && reminder.lateRegistrationClose > now && !sent[reminder.key]
+    );
+
+    // Keep only the tightest overdue reminder per itinerary/tournament
+    const latest = new Map<string, RegistrationReminder>();
+    due.forEach(reminder => {
+      const eventKey = `${reminder.itineraryId}:${reminder.tournament.id}`;
+      const existing = latest.get(eventKey);
+      if (!existing || reminder.minutesBefore < existing.minutesBefore) {
+        latest.set(eventKey, reminder);
+      }
+    });
+
+    const delivered: RegistrationReminder[] = [];
+    for (const reminder of Array.from(latest.values())) {
+      const player = await playerProfileService.getProfile(reminder.playerId);
+      const delivery = await notificationService.notify(
+        player,
+        'late_registration_closing',
+        `Late reg closes ${this.describeLeadTime(reminder.lateRegistrationClose, now)}: ${reminder.tournament.name}`,
+        `Late registration for ${reminder.tournament.name} at ${reminder.tournament.venue.name} ` +
+          `closes ${reminder.localCloseTime}. Buy-in: $${reminder.tournament.buyIn.toLocaleString()}.`
+      );
+      if (delivery.delivered.length > 0) {
+        delivered.push(reminder);
+      }
+    }
+
+    // Mark delivered reminders as handled, along with the ones they superseded
+    const handled = due.filter(reminder =>
+      delivered.some(sentReminder =>
+        sentReminder.itineraryId === reminder.itineraryId &&
+        sentReminder.tournament.id === reminder.tournament.id &&
+        reminder.minutesBefore >= sentReminder.minutesBefore
+      )
+    );
+    if (handled.length > 0) {
+      await this.sent.update(records => {
+        handled.forEach(reminder => {
+          records[reminder.key] = now;
+        });
+        this.pruneSent(records, now);
+      });
+    }
+
+    return delivered;
+  }
+
+  /**
+   * Check for due reminders on a cron schedule (every five minutes by default)
+   */
+  start(expression = '*/5 * * * *') {
+    if (this.task) return;
+
+    this.task = cron.schedule(expression, async () => {
+      if (this.running) return; // previous run still going
+      this.running = true;
+      try {
+        const delivered = await this.runDueReminders();
+        if (delivered.length > 0) {
+          console.log(`Sent ${delivered.length} registration reminder(s)`);
+        }
+      } catch (error) {
+        console.error('Registration reminder run failed:', error);
+      } finally {
+        this.running = false;
+      }
+    });
+  }
+
+  stop() {
+    this.task?.stop();
+    this.task = null;
+  }
+
+  private describeLeadTime(close: Date, now: Date): string {
+    const minutes = Math.round((close.getTime() - now.getTime()) / MINUTE_MS);
+    if (minutes >= 90) return `in ${Math.round(minutes / 60)} hours`;
+    return `in ${minutes} minutes`;
+  }
+
+  // Forget reminders older than a week so the file doesn't grow forever
+  private pruneSent(records: SentReminders, now: Date) {
+    const cutoff = now.getTime() - 7 * 24 * 60 * MINUTE_MS;
+    Object.keys(records).forEach(key => {
+      if (new Date(records[key]).getTime() < cutoff) {
+        delete records[key];
+      }
+    });
+  }
+}
+
+// Export singleton instance
+export const reminderService = new ReminderService();
@@ -1,14 +1,16 @@
 /**
  * Tournament Data Service
- * Aggregates data from multiple sources: PokerAtlas API, WSOP Circuit scraper, WPT scraper
+ * Aggregates data from every registered tournament source (see @/lib/scrapers)
  * Provides unified interface for tournament data with caching and error handling
  */
 
-import { Tournament, Circuit, Venue } from '@/types';
-import { pokerAtlas } from './poker-atlas';
+import { Tournament, Circuit } from '@/types';
+import type { SourceMetadata, TournamentSourceRegistry } from '@/lib/scrapers';
 
 interface DataSourceHealth {
+  id: string;
   name: string;
+  reliability: SourceMetadata['reliability'];
   available: boolean;
   lastChecked: Date;
   error?: string;
@@ -28,40 +30,16 @@ export class TournamentDataService {
   private lastHealthCheck = new Date(0);
   private healthCheckIntervalMinutes = 5;
 
-  // Dynamic imports for server-only scrapers
-  private async getWSopScraper() {
-    if (typeof window !== 'undefined') {
-      throw new Error('WSOP scraper is not available on client side');
-    }
-    const { wsopScraper } = await import('@/lib/scrapers/wsop-circuit');
-    return wsopScraper;
-  }
+  private dataSourceHealth: DataSourceHealth[] = [];
 
-  private async getWPTScraper() {
+  // Dynamic import - the scrapers are server-only
+  private async getSources(): Promise<TournamentSourceRegistry> {
     if (typeof window !== 'undefined') {
-      throw new Error('WPT scraper is not available on client side');
+      throw new Error('Tournament sources are not available on client side');
     }
-    const { wptScraper } = await import('@/lib/scrapers/wpt');
-    return wptScraper;
+    const { tournamentSources } = await import('@/lib/scrapers');
+    return tournamentSources;
   }
-  
-  private dataSourceHealth: DataSourceHealth[] = [
-    {
-      name: 'PokerAtlas',
-      available: false,
-      lastChecked: new Date(0)
-    },
-    {
-      name: 'WSOP Circuit',
-      available: false,
-      lastChecked: new Date(0)
-    },
-    {
-      name: 'WPT',
-      available: false,
-      lastChecked: new Date(0)
-    }
-  ];
 
   /**
    * Get all tournaments from all sources
@@ -90,55 +68,27 @@ export class TournamentDataService {
     const startDate = filters?.startDate || new Date();
     const endDate = filters?.endDate || new Date(Date.now() + 365 * 24 * 60 * 60 * 1000); // 1 year from now
 
-    const tournaments: Tournament[] = [];
-
-    // Fetch from all available sources in parallel
-    const fetchPromises: Promise<Tournament[]>[] = [];
-
-    // PokerAtlas
-    if (this.isSourceAvailable('PokerAtlas')) {
-      fetchPromises.push(
-        this.fetchPokerAtlasData(startDate, endDate, filters).catch(error => {
-          console.error('PokerAtlas fetch failed:', error);
-          return [];
-        })
-      );
-    }
-
-    // WSOP Circuit
-    if (this.isSourceAvailable('WSOP Circuit') && this.shouldIncludeCircuit('wsop', filters?.circuits)) {
-      fetchPromises.push(
-        this.fetchWSopData().catch(error => {
-          console.error('WSOP Circuit fetch failed:', error);
-          return [];
-        })
-      );
-    }
-
-    // WPT
-    if (this.isSourceAvailable('WPT') && this.shouldIncludeCircuit('wpt', filters?.circuits)) {
-      fetchPromises.push(
-        this.fetchWPTData().catch(error => {
-          console.error('WPT fetch failed:', error);
-          return [];
-        })
-      );
+    // Fetch from all available sources that cover the requested circuits
+    let tournaments: Tournament[] = [];
+    try {
+      const sources = await this.getSources();
+      const available = sources.list().filter(adapter => this.isSourceAvailable(adapter.id)).map(adapter => adapter.id);
+      const result = await sources.fetchAll({
+        startDate,
+        endDate,
+        minBuyIn: filters?.minBuyIn,
+        maxBuyIn: filters?.maxBuyIn,
+        states: filters?.states,
+        circuits: filters?.circuits
+      }, available);
+      // One tournament per event, merged across the sources that list it
+      tournaments = sources.resolve(result.bySource).tournaments;
+    } catch (error) {
+      console.error('Tournament sources failed:', error);
     }
 
-    // Wait for all sources to complete
-    const results = await Promise.allSettled(fetchPromises);
-    
-    results.forEach((result, index) => {
-      if (result.status === 'fulfilled') {
-        tournaments.push(...result.value);
-      } else {
-        console.error(`Data source ${index} failed:`, result.reason);
-      }
-    });
-
-    // Filter and deduplicate
+    // Filter and sort
     let filteredTournaments = this.applyFilters(tournaments, filters);
-    filteredTournaments = this.removeDuplicates(filteredTournaments);
     filteredTournaments = this.sortTournaments(filteredTournaments);
 
     if (filters?.maxResults) {
@@ -212,44 +162,6 @@ export class TournamentDataService {
    * Private methods
    */
 
-  private async fetchPokerAtlasData(
-    startDate: Date,
-    endDate: Date,
-    filters?: any
-  ): Promise<Tournament[]> {
-    console.log('Fetching PokerAtlas data...');
-    
-    const pokerAtlasFilters = {
-      minBuyIn: filters?.minBuyIn,
-      maxBuyIn: filters?.maxBuyIn,
-      state: filters?.states?.join(',')
-    };
-
-    return await pokerAtlas.getTournaments(startDate, endDate, pokerAtlasFilters);
-  }
-
-  private async fetchWSopData(): Promise<Tournament[]> {
-    try {
-      console.log('Fetching WSOP Circuit data...');
-      const wsopScraper = await this.getWSopScraper();
-      return await wsopScraper.getCircuitEvents();
-    } catch (error) {
-      console.error('Error fetching WSOP data:', error);
-      return [];
-    }
-  }
-
-  private async fetchWPTData(): Promise<Tournament[]> {
-    try {
-      console.log('Fetching WPT data...');
-      const wptScraper = await this.getWPTScraper();
-      return await wptScraper.getWPTEvents();
-    } catch (error) {
-      console.error('Error fetching WPT data:', error);
-      return [];
-    }
-  }
-
   private async checkDataSourceHealth(): Promise<void> {
     const now = new Date();
     const timeSinceLastCheck = (now.getTime() - this.lastHealthCheck.getTime()) / (1000 * 60);
@@ -260,64 +172,32 @@ export class TournamentDataService {
 
     this.lastHealthCheck = now;
 
-    // Check PokerAtlas
-    try {
-      const pokerAtlasStatus = await pokerAtlas.checkStatus();
-      this.updateSourceHealth('PokerAtlas', pokerAtlasStatus.connected, pokerAtlasStatus.error, {
-        rateLimitRemaining: pokerAtlasStatus.rateLimitRemaining,
-        rateLimitReset: pokerAtlasStatus.rateLimitReset
-      });
-    } catch (error) {
-      this.updateSourceHealth('PokerAtlas', false, error instanceof Error ? error.message : 'Unknown error');
-    }
-
-    // Check WSOP Circuit
     try {
-      const wsopScraper = await this.getWSopScraper();
-      const wsopAvailable = await wsopScraper.checkAvailability();
-      this.updateSourceHealth('WSOP Circuit', wsopAvailable, wsopAvailable ? undefined : 'Website not accessible');
+      const sources = await this.getSources();
+      const statuses = await sources.checkAll();
+      this.dataSourceHealth = sources.list().map(adapter => ({
+        id: adapter.id,
+        name: adapter.name,
+        reliability: adapter.metadata.reliability,
+        lastChecked: now,
+        ...(statuses[adapter.id] || { available: false, error: 'Not checked' })
+      }));
     } catch (error) {
-      this.updateSourceHealth('WSOP Circuit', false, error instanceof Error ? error.message : 'Unknown error');
-    }
-
-    // Check WPT
-    try {
-      const wptScraper = await this.getWPTScraper();
-      const wptAvailable = await wptScraper.checkAvailability();
-      this.updateSourceHealth('WPT', wptAvailable, wptAvailable ? undefined : 'Website not accessible');
-    } catch (error) {
-      this.updateSourceHealth('WPT', false, error instanceof Error ? error.message : 'Unknown error');
-    }
-  }
-
-  private updateSourceHealth(
-    name: string, 
-    available: boolean, 
-    error?: string, 
-    metadata?: { rateLimitRemaining?: number; rateLimitReset?: Date }
-  ): void {
-    const source = this.dataSourceHealth.find(s => s.name === name);
-    if (source) {
-      source.available = available;
-      source.lastChecked = new Date();
-      source.error = error;
-      source.rateLimitRemaining = metadata?.rateLimitRemaining;
-      source.rateLimitReset = metadata?.rateLimitReset;
+      console.error('Tournament source health check failed:', error);
+      const message = error instanceof Error ? error.message : 'Unknown error';
+      this.dataSourceHealth.forEach(source => {
+        source.available = false;
+        source.lastChecked = now;
+        source.error = message;
+      });
     }
   }
 
-  private isSourceAvailable(name: string): boolean {
-    const source = this.dataSourceHealth.find(s => s.name === name);
+  private isSourceAvailable(id: string): boolean {
+    const source = this.dataSourceHealth.find(s => s.id === id);
     return source?.available || false;
   }
 
-  private shouldIncludeCircuit(circuitType: string, requestedCircuits?: string[]): boolean {
-    if (!requestedCircuits || requestedCircuits.length === 0) {
-      return true; // Include all circuits if none specified
-    }
-    return requestedCircuits.includes(circuitType);
-  }
-
   private applyFilters(tournaments: Tournament[], filters?: any): Tournament[] {
     if (!filters) return tournaments;
 
@@ -352,21 +232,6 @@ export class TournamentDataService {
     });
   }
 
-  private removeDuplicates(tournaments: Tournament[]): Tournament[] {
-    const uniqueKeys = new Set<string>();
-    return tournaments.filter(tournament => {
-      // Create a unique key based on name, venue, and date
-      const key = `${tournament.name}-${tournament.venue.name}-${tournament.startDate.getTime()}`;
-      
-      if (uniqueKeys.has(key)) {
-        return false;
-      }
-      
-      uniqueKeys.add(key);
-      return true;
-    });
-  }
-
   private sortTournaments(tournaments: Tournament[]): Tournament[] {
     return tournaments.sort((a, b) => {
       // Sort by date first
@@ -422,10 +287,8 @@ export class TournamentDataService {
     try {
       // Only cleanup scrapers if we're on server side
       if (typeof window === 'undefined') {
-        const wsopScraper = await this.getWSopScraper();
-        const wptScraper = await this.getWPTScraper();
-        await wsopScraper.close();
-        await wptScraper.close();
+        const sources = await this.getSources();
+        await sources.closeAll();
       }
     } catch (error) {
       console.error('Error during scraper cleanup:', error);
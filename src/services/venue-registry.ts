@@ -0,0 +1,289 @@
+/**
+ * Venue Registry
+ * One canonical record per poker room - the bundled seed (@/data/venues) plus
+ * alias names added by admins. Scrapers resolve every listed venue name here,
+ * so all listings of a casino share one id, real coordinates, timezone,
+ * amenities, parking and nearby hotels instead of a city-centre guess.
+ *
+ * Names that don't resolve are queued for review; an admin merges each into
+ * a known venue (it becomes an alias) or dismisses it. Aliases and the queue
+ * persist under .data/. Server-only.
+ */
+
+import { Venue } from '@/types';
+import { venueSeeds, VenueSeed } from '@/data/venues';
+import { JsonFileStore } from '@/lib/json-store';
+import { normalizeStateCode } from '@/lib/geocoding';
+
+export interface VenueLocation {
+  city?: string;
+  state?: string;
+  country?: string;
+}
+
+export interface VenueSuggestion {
+  venueId: string;
+  name: string;
+  score: number; // 0-1 name overlap
+}
+
+export interface UnmatchedVenue {
+  key: string; // normalized name
+  name: string; // as first listed
+  city: string;
+  state: string;
+  occurrences: number;
+  firstSeen: Date;
+  lastSeen: Date;
+  suggestions: VenueSuggestion[];
+}
+
+interface VenueRegistryData {
+  aliases: Record<string, string>; // normalized name -> venue id, added by admins
+  unmatched: UnmatchedVenue[];
+  dismissed: string[]; // normalized names not to queue again
+}
+
+export class VenueNotFoundError extends Error {
+  constructor(venueId: string) {
+    super(`Unknown venue: ${venueId}`);
+    this.name = 'VenueNotFoundError';
+  }
+}
+
+export class VenueValidationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'VenueValidationError';
+  }
+}
+
+// Words every other casino name has - ignored when names are compared loosely
+const NAME_NOISE = new Set(['casino', 'resort', 'hotel', 'and', 'spa', 'poker', 'room', 'the', 'club', 'card']);
+const MAX_SUGGESTIONS = 3;
+
+// "Harrah's Cherokee Casino & Resort" -> "harrahs cherokee casino and resort"
+export function normalizeVenueName(name: string): string {
+  return (name || '')
+    .toLowerCase()
+    .replace(/&/g, ' and ')
+    .replace(/['’]/g, '')
+    .replace(/[^a-z0-9]+/g, ' ')
+    .trim()
+    .replace(/^the /, '');
+}
+
+function significantWords(name: string): string[] {
+  return normalizeVenueName(name).split(' ').filter(word => word && !NAME_NOISE.has(word));
+}
+
+function overlap(a: string[], b: string[]): number {
+  if (a.length === 0 || b.length === 0) return 0;
+  return a.filter(word => b.includes(word)).length / Math.min(a.length, b.length);
+}
+
+function inPlace(venue: Venue, state: string, country?: string): boolean {
+  return (!state || venue.address.state === state) && (!country || venue.address.country === country);
+}
+
+export class VenueRegistry {
+  private venues = new Map<string, Venue>();
+  private names = new Map<string, string>(); // normalized name or alias -> venue id
+  private wordsByVenue = new Map<string, string[][]>();
+  private dismissed = new Set<string>();
+  private pending = new Map<string, UnmatchedVenue>(); // misses since the last flush
+  private loading?: Promise<void>;
+
+  constructor(
+    seeds: VenueSeed[] = venueSeeds,
+    private store = new JsonFileStore<VenueRegistryData>('venue-registry.json', () => ({
+      aliases: {},
+      unmatched: [],
+      dismissed: []
+    }))
+  ) {
+    seeds.forEach(({ venue, aliases }) => {
+      // Listings carry postal state codes - keep canonical venues the same
+      const state = venue.address.country === 'USA' ? normalizeStateCode(venue.address.state) : venue.address.state;
+      this.venues.set(venue.id, { ...venue, address: { ...venue.address, state } });
+      [venue.name, ...aliases].forEach(name => this.addName(name, venue.id));
+    });
+  }
+
+  /**
+   * Apply the admin-added aliases. Resolution works from the seed alone until
+   * this runs; call before a fetch so scrapers see the latest merges.
+   */
+  load(): Promise<void> {
+    if (!this.loading) {
+      this.loading = this.store.read()
+        .then(data => {
+          Object.keys(data.aliases).forEach(key => this.addName(key, data.aliases[key]));
+          data.dismissed.forEach(key => this.dismissed.add(key));
+        })
+        .catch(error => console.error('Error loading venue registry, using seed venues only:', error));
+    }
+    return this.loading;
+  }
+
+  list(): Venue[] {
+    return Array.from(this.venues.values());
+  }
+
+  get(id: string): Venue | undefined {
+    return this.venues.get(id);
+  }
+
+  /**
+   * The canonical venue for a listed name, matched by name or alias, then by
+   * a unique loose match among venues in the listed place. Misses are
+   * queued for review unless `queue` is off (e.g. API sources that carry
+   * their own verified addresses).
+   */
+  resolve(name: string, location: VenueLocation = {}, options: { queue?: boolean } = {}): Venue | undefined {
+    const key = normalizeVenueName(name);
+    if (!key) return undefined;
+
+    const state = normalizeStateCode(location.state || '');
+    const exact = this.names.get(key);
+    const venue = exact ? this.venues.get(exact) : this.looseMatch(key, location.city, state, location.country);
+    if (venue && inPlace(venue, state, location.country)) {
+      return { ...venue, address: { ...venue.address }, coordinates: { ...venue.coordinates } };
+    }
+
+    if (options.queue !== false) this.queue(name, key, { ...location, state });
+    return undefined;
+  }
+
+  // Closest known venues to a name - offered when reviewing unmatched names
+  suggest(name: string, location: VenueLocation = {}): VenueSuggestion[] {
+    const words = significantWords(name);
+    const state = normalizeStateCode(location.state || '');
+    return this.list()
+      .filter(venue => inPlace(venue, state, location.country))
+      .map(venue => ({
+        venueId: venue.id,
+        name: venue.name,
+        score: Math.max(...(this.wordsByVenue.get(venue.id) || []).map(known => overlap(words, known)))
+      }))
+      .filter(suggestion => suggestion.score > 0)
+      .sort((a, b) => b.score - a.score)
+      .slice(0, MAX_SUGGESTIONS);
+  }
+
+  /**
+   * Write names that failed to resolve since the last flush to the review
+   * queue. Called after each fetch.
+   */
+  async flush(): Promise<void> {
+    if (this.pending.size === 0) return;
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+
+    await this.store.update(data => {
+      pending.forEach(miss => {
+        if (data.aliases[miss.key] || data.dismissed.includes(miss.key)) return;
+        const existing = data.unmatched.find(entry => entry.key === miss.key);
+        if (existing) {
+          existing.occurrences += miss.occurrences;
+          existing.lastSeen = miss.lastSeen;
+          existing.suggestions = miss.suggestions;
+        } else {
+          data.unmatched.push(miss);
+        }
+      });
+    });
+  }
+
+  async getUnmatched(): Promise<UnmatchedVenue[]> {
+    await this.load();
+    await this.flush();
+    const data = await this.store.read();
+    return data.unmatched.sort((a, b) => b.occurrences - a.occurrences);
+  }
+
+  /**
+   * Make a listed name an alias of a known venue and take it off the queue
+   */
+  async merge(name: string, venueId: string): Promise<Venue> {
+    const key = normalizeVenueName(name);
+    if (!key) throw new VenueValidationError('A venue name is required');
+    const venue = this.venues.get(venueId);
+    if (!venue) throw new VenueNotFoundError(venueId);
+
+    await this.load();
+    await this.store.update(data => {
+      data.aliases[key] = venueId;
+      data.unmatched = data.unmatched.filter(entry => entry.key !== key);
+    });
+    this.addName(key, venueId);
+    this.pending.delete(key);
+    return venue;
+  }
+
+  /**
+   * Drop a name from the queue for good - for listings that aren't a venue
+   * (e.g. "TBA") or rooms not worth a canonical record
+   */
+  async dismiss(name: string): Promise<void> {
+    const key = normalizeVenueName(name);
+    if (!key) throw new VenueValidationError('A venue name is required');
+
+    await this.load();
+    await this.store.update(data => {
+      if (!data.dismissed.includes(key)) data.dismissed.push(key);
+      data.unmatched = data.unmatched.filter(entry => entry.key !== key);
+    });
+    this.dismissed.add(key);
+    this.pending.delete(key);
+  }
+
+  private addName(name: string, venueId: string) {
+    if (!this.venues.has(venueId)) return;
+    this.names.set(normalizeVenueName(name), venueId);
+    const words = significantWords(name);
+    if (words.length > 0) {
+      this.wordsByVenue.set(venueId, (this.wordsByVenue.get(venueId) || []).concat([words]));
+    }
+  }
+
+  // Every significant word of the listed name appears in one of a venue's
+  // names ("Horseshoe Casino Hammond"), and only one venue in the place fits
+  private looseMatch(key: string, city: string | undefined, state: string, country?: string): Venue | undefined {
+    const words = significantWords(key);
+    if (words.length === 0) return undefined;
+
+    let matches = this.list().filter(venue =>
+      inPlace(venue, state, country) &&
+      (this.wordsByVenue.get(venue.id) || []).some(known => words.every(word => known.includes(word)))
+    );
+    if (matches.length > 1 && city) {
+      matches = matches.filter(venue => venue.address.city.toLowerCase() === city.toLowerCase());
+    }
+    return matches.length === 1 ? matches[0] : undefined;
+  }
+
+  private queue(name: string, key: string, location: VenueLocation) {
+    if (this.dismissed.has(key)) return;
+    const now = new Date();
+    const existing = this.pending.get(key);
+    if (existing) {
+      existing.occurrences++;
+      existing.lastSeen = now;
+      return;
+    }
+    this.pending.set(key, {
+      key,
+      name,
+      city: location.city || '',
+      state: location.state || '',
+      occurrences: 1,
+      firstSeen: now,
+      lastSeen: now,
+      suggestions: this.suggest(name, location)
+    });
+  }
+}
+
+// Export singleton instance
+export const venueRegistry = new VenueRegistry();
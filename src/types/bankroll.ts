@@ -305,7 +305,8 @@ export type BankrollAlertType =
   | 'bankroll_milestone'
   | 'expense_budget_exceeded'
   | 'variance_model_drift'
-  | 'investor_communication_due';
+  | 'investor_communication_due'
+  | 'late_registration_closing';
 
 export interface NotificationMethod {
   type: 'email' | 'sms' | 'push' | 'dashboard';
@@ -1,5 +1,7 @@
 // Core data types for the Poker Circuit Coordinator
 
+import { NotificationMethod } from './bankroll';
+
 export interface Tournament {
   id: string;
   name: string;
@@ -15,6 +17,28 @@ export interface Tournament {
   status: 'upcoming' | 'running' | 'completed' | 'cancelled';
   registrationDeadline?: Date;
   lateRegistrationLevels?: number;
+  provenance?: TournamentProvenance; // set on tournaments resolved from source listings
+}
+
+// Fields chosen independently when listings of one event are merged across
+// sources. 'dates' covers start and end, 'structure' includes blind levels
+export type ProvenanceField =
+  | 'name'
+  | 'circuit'
+  | 'venue'
+  | 'coordinates'
+  | 'buyIn'
+  | 'prizeGuarantee'
+  | 'dates'
+  | 'estimatedField'
+  | 'structure'
+  | 'status'
+  | 'registrationDeadline'
+  | 'lateRegistrationLevels';
+
+export interface TournamentProvenance {
+  listings: Array<{ source: string; id: string }>; // adapter id + listing id, most reliable first
+  fields: Partial<Record<ProvenanceField, string>>; // adapter id that supplied each field
 }
 
 export interface Circuit {
@@ -37,6 +61,7 @@ export interface Venue {
   nearbyHotels: Hotel[];
   localTips: LocalTip[];
   timezone: string;
+  nearestAirports?: Airport['code'][]; // closest first, resolved from coordinates when missing
 }
 
 export interface Address {
@@ -93,6 +118,33 @@ export interface TournamentStructure {
   blindLevelDuration: number; // minutes
   numberOfRebuyLevels?: number;
   reentryLevels?: number;
+  blindStructure?: BlindStructure; // full structure sheet when the source publishes one
+}
+
+export interface BlindLevel {
+  level: number;
+  smallBlind: number;
+  bigBlind: number;
+  ante?: number;
+  duration: number; // minutes
+}
+
+export interface StructureBreak {
+  afterLevel: number;
+  duration: number; // minutes
+  label?: string; // e.g. "Dinner Break"
+}
+
+export interface StructureDay {
+  day: string; // "1", "1A", "2"...
+  endsAfterLevel: number; // play stops once this level completes
+}
+
+export interface BlindStructure {
+  levels: BlindLevel[];
+  breaks: StructureBreak[];
+  days: StructureDay[];
+  source?: 'sheet' | 'standard'; // published structure sheet vs our standard ladder
 }
 
 export interface Player {
@@ -103,6 +155,24 @@ export interface Player {
   preferences: PlayerPreferences;
   bankroll: BankrollInfo;
   statistics: PlayerStatistics;
+  homeBase?: HomeBase;
+  calendarFeedToken?: string; // secret for the subscribable calendar feed
+}
+
+export interface HomeBase {
+  address: Address;
+  coordinates: Coordinates;
+  nearestAirports: Airport['code'][]; // closest first
+  geocodedAt: Date;
+}
+
+export interface Airport {
+  code: string; // IATA
+  name: string;
+  city: string;
+  state: string;
+  coordinates: Coordinates;
+  hub: boolean;
 }
 
 export interface PlayerPreferences {
@@ -113,6 +183,14 @@ export interface PlayerPreferences {
   budgetConstraints: BudgetConstraints;
   circuitFocus: Circuit['type'][];
   tournamentTypes: TournamentStructure['type'][];
+  bulletPlan?: BulletPlan;
+  notificationMethods?: NotificationMethod[];
+}
+
+export interface BulletPlan {
+  expectedBullets: Partial<Record<TournamentStructure['type'], number>>; // average entries per event
+  maxBulletsPerEvent: number;
+  eventCaps?: Record<Tournament['id'], number>; // per-event overrides of the cap
 }
 
 export interface TravelMethod {
@@ -155,6 +233,7 @@ export interface TravelOption {
   type: TravelMethod['type'];
   cost: number;
   duration: number; // hours
+  distance?: number; // miles travelled, door to door
   carbonFootprint?: number; // kg CO2
   provider?: string;
   departure: {
@@ -167,6 +246,20 @@ export interface TravelOption {
   };
   bookingUrl?: string;
   notes?: string;
+  legs?: TravelLeg[]; // door-to-door breakdown for multi-leg journeys
+}
+
+export interface TravelLeg {
+  mode: 'drive' | 'rideshare' | 'rental' | 'flight' | 'connection' | 'train';
+  from: string;
+  to: string;
+  departure: Date;
+  arrival: Date;
+  duration: number; // hours
+  cost: number;
+  distance?: number; // miles
+  carrier?: string;
+  airport?: Airport['code']; // connection airport
 }
 
 export interface Itinerary {
@@ -177,8 +270,10 @@ export interface Itinerary {
   route: RouteStop[];
   totalCost: number;
   totalTravelTime: number; // hours
+  totalCarbon?: number; // kg CO2 for all travel legs
   costSavings: number; // vs individual trips
   optimizationScore: number; // 0-100
+  expectedCost?: number; // totalCost weighted over deep-run branches
   created: Date;
   lastModified: Date;
   status: 'draft' | 'confirmed' | 'booked' | 'completed';
@@ -195,7 +290,59 @@ export interface RouteStop {
     outbound?: TravelOption;
   };
   localExpenses: LocalExpense[];
+  expectedBullets: number;
   notes?: string;
+  branches?: RouteBranch[]; // what happens to the plan depending on how deep the player runs
+  expectedCost?: number; // stop cost weighted over its branches
+  hotelOptions?: HotelOption[]; // best-scored hotels for the stay, the booked one first
+}
+
+// A hotel priced and scored for one stop's stay
+export interface HotelOption {
+  hotel: Hotel;
+  nightlyRate: number; // after discounts
+  totalCost: number;
+  score: number; // 0-100, higher is better
+  withinBudget: boolean; // at or under the player's maxAccommodationPerNight
+  isGroupBooking: boolean; // booked through the event's room block
+  discounts: string[]; // "Player rate at the host casino (25% off)"
+}
+
+// One possible outcome at a multi-day stop and how the plan adapts to it
+export interface RouteBranch {
+  id: string;
+  outcome: 'bust_day_one' | 'bust_before_final' | 'final_day';
+  condition: string; // "If you bust Day 1"
+  probability: number; // 0-1, branches of a stop sum to 1
+  action: 'stay' | 'go_home' | 'next_stop' | 'alternate_event';
+  checkOut: Date; // when the player leaves this stop under this outcome
+  alternate?: Tournament; // event to fire at instead when action is alternate_event
+  travel?: TravelOption; // leg to the alternate event
+  extraCost: number; // vs the deep-run plan, negative when it saves money
+  notes?: string;
+}
+
+// A row in a hand-ordered route: an event, or a break taken after the row above it
+export type RouteEditItem =
+  | { id: string; kind: 'event'; tournament: Tournament; pinned: boolean } // pinned events keep their place among the events
+  | { id: string; kind: 'rest' | 'home'; days: number }; // extra days at the last stop, or a trip home
+
+// A hand-ordered route as sent to be saved - events by id, planned server-side exactly in this order
+export type ManualRouteStep =
+  | { kind: 'event'; tournamentId: Tournament['id']; pinned?: boolean }
+  | { kind: 'rest' | 'home'; days: number };
+
+// A hand-ordered route, planned exactly as given
+export interface ManualRoutePlan {
+  itinerary: Itinerary;
+  feasible: boolean; // every event is reached before late registration closes
+  issues: RouteEditIssue[];
+}
+
+export interface RouteEditIssue {
+  itemId: RouteEditItem['id'];
+  severity: 'error' | 'warning';
+  message: string;
 }
 
 export interface AccommodationBooking {
@@ -242,7 +389,70 @@ export interface OptimizationResult {
   savings: number;
   savingsPercentage: number;
   recommendations: Recommendation[];
-  alternativeRoutes: Itinerary[];
+  expectedCost?: number; // optimizedCost weighted over deep-run branches
+  alternativeRoutes: Itinerary[]; // ranked, cheapest first
+  infeasibleEvents: InfeasibleEvent[];
+  objectives?: CircuitObjectives; // measured on the chosen plan
+  paretoSet?: ParetoItinerary[]; // plans no other plan beats on every objective, cheapest first
+  droppedForBudget?: Tournament[]; // events left out to stay within maxBudget
+  carbonComparison?: CarbonComparison;
+}
+
+// What a circuit plan is judged on; weights use the same keys
+export interface CircuitObjectives {
+  cost: number; // total planned spend including buy-ins
+  time: number; // hours on the road
+  roi: number; // expected return on the total spend, %
+  carbon: number; // kg CO2
+  convenience: number; // 0-100, fewer connections, long days and hotel changes is better
+}
+
+export type ObjectiveWeights = Record<keyof CircuitObjectives, number>;
+
+export interface ParetoItinerary {
+  itinerary: Itinerary;
+  objectives: CircuitObjectives;
+  score: number; // weighted distance from the best seen on each objective, lower is better
+}
+
+// The cheapest plan against the lowest-carbon one for the same events
+export interface CarbonComparison {
+  cheapest: ParetoItinerary;
+  lowestCarbon: ParetoItinerary;
+  extraCost: number; // what the lowest-carbon plan costs on top of the cheapest
+  carbonSaved: number; // kg CO2
+}
+
+// Travel emissions, split by how the player got there
+export interface CarbonFootprint {
+  total: number; // kg CO2
+  byMode: Record<TravelOption['type'], number>;
+}
+
+export interface CarbonSeasonSummary extends CarbonFootprint {
+  season: string; // calendar year the circuits start in
+  itineraries: number;
+  events: number;
+  perEvent: number; // kg CO2
+}
+
+export interface InfeasibleEvent {
+  tournament: Tournament;
+  reason: 'registration-closed' | 'unreachable' | 'schedule-conflict';
+  lateRegistrationClose: Date;
+  conflictsWith?: string[]; // tournament ids on the chosen route
+  description: string;
+}
+
+// Something wrong with a hand-picked schedule, with the change that resolves it
+export interface ScheduleConflict {
+  id: string;
+  type: 'overlap' | 'impossible-transfer' | 'trip-length' | 'monthly-travel' | 'daily-costs' | 'bankroll';
+  severity: 'error' | 'warning'; // errors can't be played as selected, warnings break a preference
+  tournamentIds: Tournament['id'][];
+  message: string;
+  suggestion: string;
+  fix?: { action: 'remove'; tournamentId: Tournament['id'] }; // one-click fix, when there is one
 }
 
 export interface Recommendation {
@@ -293,10 +503,25 @@ export interface CircuitSelectionForm {
   endDate: Date;
 }
 
+export interface CircuitSuggestion {
+  itinerary: Itinerary | null; // null when nothing is worth playing within the limits
+  selected: Tournament[];
+  skipped: SkippedTournament[];
+  expectedValue: number; // expected profit on the buy-ins
+  travelCost: number; // travel, hotels and food
+  netValue: number; // expectedValue - travelCost
+}
+
+export interface SkippedTournament {
+  tournament: Tournament;
+  reason: 'preferences' | 'bankroll' | 'negative-value' | 'schedule-conflict' | 'over-budget' | 'not-worth-travel';
+  description: string;
+}
+
 export interface QuickOptimizeForm {
   tournaments: string[];
   maxBudget: number;
-  prioritizeBy: 'cost' | 'time' | 'roi' | 'convenience';
+  prioritizeBy: 'cost' | 'time' | 'roi' | 'carbon' | 'convenience';
 }
 
 // Dashboard types